@@ -0,0 +1,885 @@
+// GENERATED FILE - do not edit. Run `npm run generate:client` after changing
+// routes or schemas (source: src/openapi/apiRoutes.ts).
+//
+// Typed client for the Wake Up Better REST API. In the browser it's
+// available as window.WubApi; in Node, require() it and call
+// createApiClient(baseUrl, auth).
+//
+// Credentials: an app token (POST /api/auth/token) or the dev API key.
+// In the browser the dev key is picked up from ?apiKey= (and remembered
+// in localStorage) so the test pages work against a server with auth on.
+
+(function (root) {
+  'use strict';
+
+  /**
+   * @typedef {{
+   *   personaId?: 'zen-guide' | 'morning-coach' | 'strict-sergeant';
+   *   voiceId?: string;
+   *   userName?: string;
+   *   segmentOrder?: Array<'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music'>;
+   *   segments?: Array<{
+   *     type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *     id?: string;
+   *     when?: {
+   *       days?: 'weekday' | 'weekend';
+   *       weather?: string[];
+   *       minPrecipChance?: number;
+   *       userHasSpoken?: boolean;
+   *       responsiveness?: Array<'silent' | 'brief' | 'chatty'>;
+   *       minElapsedSeconds?: number;
+   *       maxElapsedSeconds?: number;
+   *       minSegmentsPlayed?: number;
+   *     };
+   *     branches?: Array<{
+   *       when: {
+   *         days?: 'weekday' | 'weekend';
+   *         weather?: string[];
+   *         minPrecipChance?: number;
+   *         userHasSpoken?: boolean;
+   *         responsiveness?: Array<'silent' | 'brief' | 'chatty'>;
+   *         minElapsedSeconds?: number;
+   *         maxElapsedSeconds?: number;
+   *         minSegmentsPlayed?: number;
+   *       };
+   *       goTo: string;
+   *     }>;
+   *     ambient?: boolean;
+   *     data?: {
+   *       theme?: string;
+   *     };
+   *   }>;
+   *   weather?: {
+   *     currentTemp: number;
+   *     feelsLike?: number;
+   *     conditions: string;
+   *     windDirection?: string;
+   *     windStrength?: string;
+   *     precipChance?: number;
+   *     precipTiming?: (string | null);
+   *     highTemp?: number;
+   *     eveningTemp?: number;
+   *     uvIndex?: number;
+   *     airQuality?: (string | null);
+   *     nightSummary?: (string | null);
+   *   };
+   *   location?: {
+   *     latitude: number;
+   *     longitude: number;
+   *   };
+   *   timeZone?: string;
+   *   locale?: string;
+   *   units?: 'metric' | 'imperial';
+   *   language?: 'en' | 'es' | 'fr' | 'de';
+   *   calendar?: Array<{
+   *     title: string;
+   *     time: string;
+   *     startsAt?: string;
+   *     location?: string;
+   *   }>;
+   *   calendarIcs?: string;
+   *   calendarUrl?: string;
+   *   news?: Array<{
+   *     headline: string;
+   *     summary?: string;
+   *     theme?: string;
+   *   }>;
+   *   facts?: string[];
+   *   newsThemes?: Array<'technology' | 'business' | 'world' | 'sports' | 'entertainment' | 'science' | 'health' | 'culture'>;
+   *   targetDurationSeconds?: number;
+   *   fitnessLevel?: 'beginner' | 'intermediate' | 'advanced';
+   *   breathingPattern?: 'box' | '4-7-8' | 'energizing';
+   *   prepMinutes?: number;
+   *   commuteMinutes?: number;
+   *   ambientScene?: 'rain' | 'forest' | 'ocean';
+   *   ambientSeconds?: number;
+   *   musicProvider?: 'spotify' | 'local';
+   *   spotifyPlaylistId?: string;
+   *   spotifyPlaylistName?: string;
+   *   localTrackId?: string;
+   * }} CreateTrackSessionRequest
+   */
+
+  /**
+   * @typedef {{
+   *   sessionId: string;
+   *   currentSegment: ({
+   *     type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *     enabled: boolean;
+   *     data?: Record<string, any>;
+   *     sentences?: number;
+   *   } | null);
+   *   plan: {
+   *     targetSeconds: (number | null);
+   *     estimatedSeconds: number;
+   *     segments: Array<{
+   *       type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *       sentences: number;
+   *       estimatedSeconds: number;
+   *     }>;
+   *     dropped: Array<'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music'>;
+   *   };
+   * }} CreateTrackSessionResponse
+   */
+
+  /**
+   * @typedef {{
+   *   state: Record<string, any>;
+   *   currentSegment: ({
+   *     type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *     enabled: boolean;
+   *     data?: Record<string, any>;
+   *     sentences?: number;
+   *   } | null);
+   *   isComplete: boolean;
+   * }} GetTrackSessionResponse
+   */
+
+  /**
+   * @typedef {{
+   *   text: string;
+   *   audio: string;
+   *   clips?: Array<{
+   *     index: number;
+   *     text: string;
+   *     audio: string;
+   *     move: (string | null);
+   *     holdSeconds: number;
+   *     restSeconds: number;
+   *   }>;
+   *   cues?: Array<{
+   *     index: number;
+   *     text: string;
+   *     audio: string;
+   *     phase: 'inhale' | 'hold' | 'exhale' | 'done';
+   *     startsAtSeconds: number;
+   *     durationSeconds: number;
+   *   }>;
+   *   music?: {
+   *     provider: 'spotify' | 'local';
+   *     uri: string;
+   *     name: (string | null);
+   *     startOffsetSeconds: number;
+   *     fadeInSeconds: number;
+   *     volumeRamp: {
+   *       fromPercent: number;
+   *       toPercent: number;
+   *       durationSeconds: number;
+   *     };
+   *   };
+   *   action: 'segment' | 'waiting';
+   *   currentSegment: ({
+   *     type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *     enabled: boolean;
+   *     data?: Record<string, any>;
+   *     sentences?: number;
+   *   } | null);
+   *   isComplete: boolean;
+   * }} NextTrackSegmentResponse
+   */
+
+  /**
+   * @typedef {{
+   *   text: string;
+   *   audio: string;
+   *   clips?: Array<{
+   *     index: number;
+   *     text: string;
+   *     audio: string;
+   *     move: (string | null);
+   *     holdSeconds: number;
+   *     restSeconds: number;
+   *   }>;
+   *   cues?: Array<{
+   *     index: number;
+   *     text: string;
+   *     audio: string;
+   *     phase: 'inhale' | 'hold' | 'exhale' | 'done';
+   *     startsAtSeconds: number;
+   *     durationSeconds: number;
+   *   }>;
+   *   music?: {
+   *     provider: 'spotify' | 'local';
+   *     uri: string;
+   *     name: (string | null);
+   *     startOffsetSeconds: number;
+   *     fadeInSeconds: number;
+   *     volumeRamp: {
+   *       fromPercent: number;
+   *       toPercent: number;
+   *       durationSeconds: number;
+   *     };
+   *   };
+   *   action: 'segment' | 'waiting';
+   *   currentSegment: ({
+   *     type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *     enabled: boolean;
+   *     data?: Record<string, any>;
+   *     sentences?: number;
+   *   } | null);
+   *   isComplete: boolean;
+   * }} StreamNextTrackSegmentResponse
+   */
+
+  /**
+   * @typedef {{
+   *   text: string;
+   *   audio: string;
+   *   currentSegment: ({
+   *     type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *     enabled: boolean;
+   *     data?: Record<string, any>;
+   *     sentences?: number;
+   *   } | null);
+   * }} StartTrackSessionResponse
+   */
+
+  /**
+   * @typedef {{
+   *   audio: string;
+   * }} SendTrackAudioRequest
+   */
+
+  /**
+   * @typedef {{
+   *   transcript: (string | null);
+   *   text: (string | null);
+   *   audio: (string | null);
+   *   currentSegment?: ({
+   *     type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *     enabled: boolean;
+   *     data?: Record<string, any>;
+   *     sentences?: number;
+   *   } | null);
+   *   conversationMode?: boolean;
+   * }} SendTrackAudioResponse
+   */
+
+  /**
+   * @typedef {{
+   *   message: string;
+   *   currentSegment: ({
+   *     type: 'greeting' | 'weather' | 'visualization' | 'breathing' | 'fact' | 'news' | 'calendar' | 'engagement' | 'callToAction' | 'stretching' | 'music';
+   *     enabled: boolean;
+   *     data?: Record<string, any>;
+   *     sentences?: number;
+   *   } | null);
+   * }} MarkTrackAwakeResponse
+   */
+
+  /**
+   * @typedef {{
+   *   deleted: boolean;
+   * }} EndTrackSessionResponse
+   */
+
+  /**
+   * @typedef {{
+   *   duration: number;
+   * }} GetTrackSilenceDurationResponse
+   */
+
+  /**
+   * @typedef {{
+   *   facts: Array<{
+   *     topic: string;
+   *     usedAt: string;
+   *   }>;
+   * }} GetFactHistoryResponse
+   */
+
+  /**
+   * @typedef {{
+   *   removed: number;
+   * }} ResetFactHistoryResponse
+   */
+
+  /**
+   * @typedef {{
+   *   themes: Array<{
+   *     id: string;
+   *     label: string;
+   *     emoji: string;
+   *   }>;
+   * }} ListNewsThemesResponse
+   */
+
+  /**
+   * @typedef {{
+   *   personaId: 'zen-guide' | 'morning-coach' | 'strict-sergeant';
+   *   voiceId?: string;
+   *   preferences?: {
+   *     includeNews?: boolean;
+   *     includeWeather?: boolean;
+   *     includeCalendar?: boolean;
+   *     includeStories?: boolean;
+   *   };
+   *   context?: {
+   *     weather?: string;
+   *     calendar?: string;
+   *     news?: string;
+   *     calendarIcs?: string;
+   *     calendarUrl?: string;
+   *   };
+   *   timeZone?: string;
+   *   locale?: string;
+   *   units?: 'metric' | 'imperial';
+   *   language?: 'en' | 'es' | 'fr' | 'de';
+   * }} CreateChainedSessionRequest
+   */
+
+  /**
+   * @typedef {{
+   *   sessionId: string;
+   *   persona: {
+   *     id: string;
+   *     name: string;
+   *   };
+   * }} CreateChainedSessionResponse
+   */
+
+  /**
+   * @typedef {{
+   *   text: string;
+   *   audio: string;
+   *   brainState: Record<string, any>;
+   * }} ChainedGreetingResponse
+   */
+
+  /**
+   * @typedef {{
+   *   audio: string;
+   * }} ChainedRespondRequest
+   */
+
+  /**
+   * @typedef {{
+   *   transcript: string;
+   *   response: string;
+   *   audio: string;
+   *   brainState: Record<string, any>;
+   * }} ChainedRespondResponse
+   */
+
+  /**
+   * @typedef {{
+   *   response: string;
+   *   audio: string;
+   *   brainState: Record<string, any>;
+   * }} ChainedSilenceResponse
+   */
+
+  /**
+   * @typedef {{
+   *   brainState: Record<string, any>;
+   *   historyLength: number;
+   * }} GetChainedStateResponse
+   */
+
+  /**
+   * @typedef {{
+   *   success: boolean;
+   * }} EndChainedSessionResponse
+   */
+
+  /**
+   * @typedef {{
+   *   personaId?: 'zen-guide' | 'morning-coach' | 'strict-sergeant';
+   *   voiceId?: string;
+   *   context?: {
+   *     weather?: string;
+   *     calendar?: string;
+   *     news?: string;
+   *     calendarIcs?: string;
+   *     calendarUrl?: string;
+   *   };
+   *   timeZone?: string;
+   *   locale?: string;
+   *   units?: 'metric' | 'imperial';
+   *   language?: 'en' | 'es' | 'fr' | 'de';
+   * }} CreateGptDrivenSessionRequest
+   */
+
+  /**
+   * @typedef {{
+   *   sessionId: string;
+   *   persona?: string;
+   * }} CreateGptDrivenSessionResponse
+   */
+
+  /**
+   * @typedef {{
+   *   text: string;
+   *   audio: string;
+   * }} GptDrivenGreetingResponse
+   */
+
+  /**
+   * @typedef {{
+   *   audio: string;
+   * }} GptDrivenRespondRequest
+   */
+
+  /**
+   * @typedef {{
+   *   transcript: string;
+   *   text: string;
+   *   audio: string;
+   * }} GptDrivenRespondResponse
+   */
+
+  /**
+   * @typedef {{
+   *   text: string;
+   *   audio: string;
+   * }} GptDrivenSilenceResponse
+   */
+
+  /**
+   * @typedef {{
+   *   turnCount: number;
+   *   silenceCount: number;
+   *   historyLength: number;
+   * }} GetGptDrivenStateResponse
+   */
+
+  /**
+   * @typedef {{
+   *   success: boolean;
+   * }} EndGptDrivenSessionResponse
+   */
+
+  /**
+   * @typedef {{
+   *   installId: string;
+   *   device_token?: string;
+   * }} IssueAppTokenRequest
+   */
+
+  /**
+   * @typedef {{
+   *   token: string;
+   *   expiresAt: string;
+   * }} IssueAppTokenResponse
+   */
+
+  /**
+   * @typedef {{
+   *   device_token: string;
+   * }} GetDeviceStatusRequest
+   */
+
+  /**
+   * @typedef {{
+   *   free_sessions_used: number;
+   * }} GetDeviceStatusResponse
+   */
+
+  /**
+   * @typedef {{
+   *   device_token: string;
+   *   increment_session?: boolean;
+   * }} UpdateDeviceRequest
+   */
+
+  /**
+   * @typedef {{
+   *   success: boolean;
+   *   free_sessions_used: number;
+   * }} UpdateDeviceResponse
+   */
+
+  /**
+   * @typedef {Array<{
+   *   id: string;
+   *   name: string;
+   *   description: string;
+   *   defaults: Record<string, any>;
+   * }>} ListPersonasResponse
+   */
+
+  /**
+   * @typedef {Array<{
+   *   id: string;
+   *   description: string;
+   * }>} ListVoicesResponse
+   */
+
+  /**
+   * @typedef {{
+   *   registries: Array<{
+   *     name: string;
+   *     live: number;
+   *     created: number;
+   *     ended: number;
+   *     evicted: Record<string, any>;
+   *   }>;
+   * }} GetSessionStatsResponse
+   */
+
+  /**
+   * @typedef {{
+   *   status: string;
+   *   timestamp: string;
+   * }} GetHealthResponse
+   */
+
+  /**
+   * @typedef {Record<string, any>} GetOpenApiDocumentResponse
+   */
+
+  /** Error response ({ error: { code, message, field } }) as an exception */
+  class ApiError extends Error {
+    constructor(status, body) {
+      const error = (body && body.error) || {};
+      super(error.message || `Request failed with status ${status}`);
+      this.name = 'ApiError';
+      /** @type {number} */
+      this.status = status;
+      /** @type {string | undefined} */
+      this.code = error.code;
+      /** @type {string | undefined} */
+      this.field = error.field;
+    }
+  }
+
+  /**
+   * @typedef {{ token?: string; apiKey?: string }} ApiAuth
+   */
+
+  /**
+   * @param {string} [baseUrl] Server origin, '' for same-origin
+   * @param {ApiAuth} [auth]
+   */
+  function createApiClient(baseUrl = '', auth = {}) {
+    function send(method, path, body) {
+      const headers = {};
+      if (body !== undefined) headers['Content-Type'] = 'application/json';
+      if (auth.token) headers['Authorization'] = `Bearer ${auth.token}`;
+      if (auth.apiKey) headers['X-API-Key'] = auth.apiKey;
+      return fetch(baseUrl + path, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    }
+
+    async function request(method, path, body) {
+      const response = await send(method, path, body);
+      const text = await response.text();
+      const data = text ? JSON.parse(text) : undefined;
+      if (!response.ok) throw new ApiError(response.status, data);
+      return data;
+    }
+
+    async function stream(method, path, body) {
+      const response = await send(method, path, body);
+      if (!response.ok) throw new ApiError(response.status, await response.json().catch(() => undefined));
+      return response;
+    }
+
+    return {
+      /** @param {ApiAuth} nextAuth Credentials for every following request */
+      setAuth(nextAuth) {
+        auth = nextAuth || {};
+      },
+
+      /** @returns {ApiAuth} */
+      getAuth() {
+        return auth;
+      },
+
+      /**
+       * Create a track session and pre-generate the greeting
+       * @param {CreateTrackSessionRequest} body
+       * @returns {Promise<CreateTrackSessionResponse>}
+       */
+      createTrackSession(body) {
+        return request('POST', '/api/track/session', body);
+      },
+
+      /**
+       * Get the engine state of a track session
+       * @param {string} id
+       * @returns {Promise<GetTrackSessionResponse>}
+       */
+      getTrackSession(id) {
+        return request('GET', `/api/track/session/${encodeURIComponent(id)}`);
+      },
+
+      /**
+       * Generate the next segment (called on silence)
+       * @param {string} id
+       * @returns {Promise<NextTrackSegmentResponse>}
+       */
+      nextTrackSegment(id) {
+        return request('POST', `/api/track/session/${encodeURIComponent(id)}/next`);
+      },
+
+      /**
+       * Generate the next segment as server-sent events (chunk, done, error)
+       * @param {string} id
+       * @returns {Promise<Response>} text/event-stream; the done event is a StreamNextTrackSegmentResponse
+       */
+      streamNextTrackSegment(id) {
+        return stream('POST', `/api/track/session/${encodeURIComponent(id)}/next/stream`);
+      },
+
+      /**
+       * Return the pre-generated greeting
+       * @param {string} id
+       * @returns {Promise<StartTrackSessionResponse>}
+       */
+      startTrackSession(id) {
+        return request('POST', `/api/track/session/${encodeURIComponent(id)}/start`);
+      },
+
+      /**
+       * Respond to recorded user speech
+       * @param {string} id
+       * @param {SendTrackAudioRequest} body
+       * @returns {Promise<SendTrackAudioResponse>}
+       */
+      sendTrackAudio(id, body) {
+        return request('POST', `/api/track/session/${encodeURIComponent(id)}/audio`, body);
+      },
+
+      /**
+       * Mark the user as awake and skip to the wind-down segments
+       * @param {string} id
+       * @returns {Promise<MarkTrackAwakeResponse>}
+       */
+      markTrackAwake(id) {
+        return request('POST', `/api/track/session/${encodeURIComponent(id)}/awake`);
+      },
+
+      /**
+       * End a track session
+       * @param {string} id
+       * @returns {Promise<EndTrackSessionResponse>}
+       */
+      endTrackSession(id) {
+        return request('DELETE', `/api/track/session/${encodeURIComponent(id)}`);
+      },
+
+      /**
+       * How long to wait in silence before requesting the next segment
+       * @param {string} id
+       * @returns {Promise<GetTrackSilenceDurationResponse>}
+       */
+      getTrackSilenceDuration(id) {
+        return request('GET', `/api/track/session/${encodeURIComponent(id)}/silence-duration`);
+      },
+
+      /**
+       * List the fact topics the caller has already heard (within the retention window)
+       * @returns {Promise<GetFactHistoryResponse>}
+       */
+      getFactHistory() {
+        return request('GET', '/api/track/facts');
+      },
+
+      /**
+       * Forget the caller's fact history
+       * @returns {Promise<ResetFactHistoryResponse>}
+       */
+      resetFactHistory() {
+        return request('DELETE', '/api/track/facts');
+      },
+
+      /**
+       * List the news themes offered during onboarding
+       * @returns {Promise<ListNewsThemesResponse>}
+       */
+      listNewsThemes() {
+        return request('GET', '/api/track/news-themes');
+      },
+
+      /**
+       * Create a chained (STT → GPT → TTS) session
+       * @param {CreateChainedSessionRequest} body
+       * @returns {Promise<CreateChainedSessionResponse>}
+       */
+      createChainedSession(body) {
+        return request('POST', '/api/chained/session', body);
+      },
+
+      /**
+       * Generate the initial greeting
+       * @param {string} id
+       * @returns {Promise<ChainedGreetingResponse>}
+       */
+      chainedGreeting(id) {
+        return request('POST', `/api/chained/session/${encodeURIComponent(id)}/greeting`);
+      },
+
+      /**
+       * Respond to recorded user speech
+       * @param {string} id
+       * @param {ChainedRespondRequest} body
+       * @returns {Promise<ChainedRespondResponse>}
+       */
+      chainedRespond(id, body) {
+        return request('POST', `/api/chained/session/${encodeURIComponent(id)}/respond`, body);
+      },
+
+      /**
+       * Re-engage after silence
+       * @param {string} id
+       * @returns {Promise<ChainedSilenceResponse>}
+       */
+      chainedSilence(id) {
+        return request('POST', `/api/chained/session/${encodeURIComponent(id)}/silence`);
+      },
+
+      /**
+       * Get the session brain state
+       * @param {string} id
+       * @returns {Promise<GetChainedStateResponse>}
+       */
+      getChainedState(id) {
+        return request('GET', `/api/chained/session/${encodeURIComponent(id)}/state`);
+      },
+
+      /**
+       * End a chained session
+       * @param {string} id
+       * @returns {Promise<EndChainedSessionResponse>}
+       */
+      endChainedSession(id) {
+        return request('DELETE', `/api/chained/session/${encodeURIComponent(id)}`);
+      },
+
+      /**
+       * Create a GPT-driven session
+       * @param {CreateGptDrivenSessionRequest} body
+       * @returns {Promise<CreateGptDrivenSessionResponse>}
+       */
+      createGptDrivenSession(body) {
+        return request('POST', '/api/gpt-driven/session', body);
+      },
+
+      /**
+       * Generate the initial greeting
+       * @param {string} id
+       * @returns {Promise<GptDrivenGreetingResponse>}
+       */
+      gptDrivenGreeting(id) {
+        return request('POST', `/api/gpt-driven/session/${encodeURIComponent(id)}/greeting`);
+      },
+
+      /**
+       * Respond to recorded user speech
+       * @param {string} id
+       * @param {GptDrivenRespondRequest} body
+       * @returns {Promise<GptDrivenRespondResponse>}
+       */
+      gptDrivenRespond(id, body) {
+        return request('POST', `/api/gpt-driven/session/${encodeURIComponent(id)}/respond`, body);
+      },
+
+      /**
+       * Re-engage after silence
+       * @param {string} id
+       * @returns {Promise<GptDrivenSilenceResponse>}
+       */
+      gptDrivenSilence(id) {
+        return request('POST', `/api/gpt-driven/session/${encodeURIComponent(id)}/silence`);
+      },
+
+      /**
+       * Get turn and silence counters
+       * @param {string} id
+       * @returns {Promise<GetGptDrivenStateResponse>}
+       */
+      getGptDrivenState(id) {
+        return request('GET', `/api/gpt-driven/session/${encodeURIComponent(id)}/state`);
+      },
+
+      /**
+       * End a GPT-driven session
+       * @param {string} id
+       * @returns {Promise<EndGptDrivenSessionResponse>}
+       */
+      endGptDrivenSession(id) {
+        return request('DELETE', `/api/gpt-driven/session/${encodeURIComponent(id)}`);
+      },
+
+      /**
+       * Issue an app token for an install (DeviceCheck-verified when configured)
+       * @param {IssueAppTokenRequest} body
+       * @returns {Promise<IssueAppTokenResponse>}
+       */
+      issueAppToken(body) {
+        return request('POST', '/api/auth/token', body);
+      },
+
+      /**
+       * Get the device's free session count
+       * @param {GetDeviceStatusRequest} body
+       * @returns {Promise<GetDeviceStatusResponse>}
+       */
+      getDeviceStatus(body) {
+        return request('POST', '/device/status', body);
+      },
+
+      /**
+       * Increment the device's free session count
+       * @param {UpdateDeviceRequest} body
+       * @returns {Promise<UpdateDeviceResponse>}
+       */
+      updateDevice(body) {
+        return request('POST', '/device/update', body);
+      },
+
+      /**
+       * List available personas
+       * @returns {Promise<ListPersonasResponse>}
+       */
+      listPersonas() {
+        return request('GET', '/api/personas');
+      },
+
+      /**
+       * List available voices
+       * @returns {Promise<ListVoicesResponse>}
+       */
+      listVoices() {
+        return request('GET', '/api/voices');
+      },
+
+      /**
+       * Live, ended and evicted session counts per session kind
+       * @returns {Promise<GetSessionStatsResponse>}
+       */
+      getSessionStats() {
+        return request('GET', '/api/sessions/stats');
+      },
+
+      /**
+       * Health check
+       * @returns {Promise<GetHealthResponse>}
+       */
+      getHealth() {
+        return request('GET', '/api/health');
+      },
+
+      /**
+       * This OpenAPI document
+       * @returns {Promise<GetOpenApiDocumentResponse>}
+       */
+      getOpenApiDocument() {
+        return request('GET', '/api/openapi.json');
+      },
+    };
+  }
+
+  const api = { ApiError, createApiClient };
+  if (typeof module !== 'undefined' && module.exports) {
+    module.exports = api;
+  } else {
+    const apiKey = new URLSearchParams(root.location.search).get('apiKey') || root.localStorage.getItem('wubApiKey');
+    if (apiKey) root.localStorage.setItem('wubApiKey', apiKey);
+    root.WubApi = Object.assign(createApiClient('', apiKey ? { apiKey } : {}), api);
+  }
+})(typeof window !== 'undefined' ? window : globalThis);
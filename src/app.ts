@@ -0,0 +1,111 @@
+/**
+ * Wake Up Better - Express App
+ *
+ * Builds the HTTP app (routers, static test pages, REST endpoints)
+ * without listening, so the server entry point and the integration
+ * tests share exactly the same routes.
+ *
+ * Services (LLM provider, track API) must be initialized before the
+ * first request is handled - see server.ts.
+ */
+
+import express, { Router } from 'express';
+import cors from 'cors';
+import path from 'path';
+
+import { getAllPersonas } from './config/personas';
+import { VOICE_OPTIONS } from './services/realtimeSession';
+import chainedRouter from './routes/chainedApi';
+import gptDrivenRouter from './routes/gptDrivenApi';
+import trackRouter from './routes/trackApi';
+import deviceCheckRouter from './routes/deviceCheckApi';
+import authRouter, { requireAuth } from './routes/authApi';
+import { limitUsage } from './routes/usageLimits';
+import { getSessionRegistryStats } from './services/sessionRegistry';
+import { apiErrorHandler } from './routes/apiError';
+import { buildOpenApiDocument } from './openapi/document';
+
+// Routers and where they're mounted (also used to check the OpenAPI route
+// table covers every route). Session routers spend OpenAI/Grok credits, so
+// they require credentials whenever auth is enabled and are rate limited
+// and budgeted per caller.
+export const MOUNTED_ROUTERS: { prefix: string; router: Router; auth: boolean }[] = [
+  { prefix: '/api/chained', router: chainedRouter, auth: true },        // Chained API
+  { prefix: '/api/gpt-driven', router: gptDrivenRouter, auth: true },   // GPT-driven API
+  { prefix: '/api/track', router: trackRouter, auth: true },            // Track Engine API
+  { prefix: '/api/auth', router: authRouter, auth: false },             // App token issuance
+  { prefix: '/device', router: deviceCheckRouter, auth: false },        // DeviceCheck API for free trial tracking
+];
+
+export interface AppOptions {
+  // Browser origins allowed to call the API cross-origin. The iOS app and
+  // the bundled test pages don't need CORS, so by default nobody gets it.
+  corsOrigins?: string[];
+}
+
+export function createApp(options: AppOptions = {}) {
+  const app = express();
+  app.use(cors({
+    origin: options.corsOrigins && options.corsOrigins.length > 0 ? options.corsOrigins : false,
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  }));
+  app.use(express.json({ limit: '10mb' }));  // Larger limit for audio data
+
+  // Serve static files (web test page)
+  app.use(express.static(path.join(__dirname, '../public')));
+
+  for (const { prefix, router, auth } of MOUNTED_ROUTERS) {
+    if (auth) {
+      app.use(prefix, requireAuth, limitUsage, router);
+    } else {
+      app.use(prefix, router);
+    }
+  }
+
+  // ============================================
+  // REST API ENDPOINTS
+  // ============================================
+
+  // Get all available personas
+  app.get('/api/personas', (req, res) => {
+    const personas = getAllPersonas().map((p) => ({
+      id: p.id,
+      name: p.name,
+      description: p.description,
+      defaults: p.defaults,
+    }));
+    res.json(personas);
+  });
+
+  // Get available voices
+  app.get('/api/voices', (req, res) => {
+    const voices = Object.entries(VOICE_OPTIONS).map(([id, info]) => ({
+      id,
+      description: info.description,
+    }));
+    res.json(voices);
+  });
+
+  // Live/ended/evicted session counts per session kind. A high evicted count
+  // means clients are abandoning sessions instead of calling DELETE.
+  // Operational data, so it needs credentials like the session routers.
+  app.get('/api/sessions/stats', requireAuth, (req, res) => {
+    res.json({ registries: getSessionRegistryStats() });
+  });
+
+  // Health check
+  app.get('/api/health', (req, res) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  // OpenAPI document for every REST route (public/api-client.js is generated from the same table)
+  const openApiDocument = buildOpenApiDocument();
+  app.get('/api/openapi.json', (req, res) => {
+    res.json(openApiDocument);
+  });
+
+  // Malformed JSON bodies and uncaught route errors -> error envelope
+  app.use(apiErrorHandler);
+
+  return app;
+}
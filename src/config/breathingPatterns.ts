@@ -0,0 +1,116 @@
+/**
+ * Breathing Patterns
+ *
+ * Paced breathing for the breathing segment. A pattern is a cycle of
+ * phases with exact lengths, repeated a few times. The backend turns it
+ * into a schedule of cues ("Breathe in", "Hold", "Breathe out") with the
+ * second each one starts at, so the pace comes from the clock rather than
+ * from GPT counting out loud.
+ *
+ * The Zen Guide defaults to box breathing; the Coach and Sergeant to the
+ * energizing breath. Sessions can ask for a pattern by id.
+ */
+
+import { PersonaType } from '../services/trackEngine';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const BREATHING_PATTERN_IDS = ['box', '4-7-8', 'energizing'] as const;
+
+export type BreathingPatternId = typeof BREATHING_PATTERN_IDS[number];
+
+// 'done' is the closing cue once the last cycle ends
+export type BreathPhase = 'inhale' | 'hold' | 'exhale' | 'done';
+
+export interface BreathingPattern {
+  id: BreathingPatternId;
+  name: string;
+  phases: { phase: Exclude<BreathPhase, 'done'>; seconds: number }[];  // One cycle
+  cycles: number;
+}
+
+// A cue in the schedule, counted from the start of the exercise
+export interface ScheduledBreath {
+  phase: BreathPhase;
+  startsAtSeconds: number;
+  durationSeconds: number;
+}
+
+// ============================================
+// PATTERNS
+// ============================================
+
+export const BREATHING_PATTERNS: Record<BreathingPatternId, BreathingPattern> = {
+  box: {
+    id: 'box',
+    name: 'Box breathing',
+    phases: [
+      { phase: 'inhale', seconds: 4 },
+      { phase: 'hold', seconds: 4 },
+      { phase: 'exhale', seconds: 4 },
+      { phase: 'hold', seconds: 4 },
+    ],
+    cycles: 4,
+  },
+  '4-7-8': {
+    id: '4-7-8',
+    name: '4-7-8 breathing',
+    phases: [
+      { phase: 'inhale', seconds: 4 },
+      { phase: 'hold', seconds: 7 },
+      { phase: 'exhale', seconds: 8 },
+    ],
+    cycles: 4,
+  },
+  energizing: {
+    id: 'energizing',
+    name: 'Energizing breath',
+    phases: [
+      { phase: 'inhale', seconds: 2 },
+      { phase: 'exhale', seconds: 2 },
+    ],
+    cycles: 10,
+  },
+};
+
+const PERSONA_PATTERNS: Record<PersonaType, BreathingPatternId> = {
+  'zen-guide': 'box',
+  'morning-coach': 'energizing',
+  'strict-sergeant': 'energizing',
+};
+
+// ============================================
+// SCHEDULE
+// ============================================
+
+// The requested pattern, or the persona's default
+export function selectPattern(personaId: PersonaType, requested?: BreathingPatternId): BreathingPattern {
+  return BREATHING_PATTERNS[requested || PERSONA_PATTERNS[personaId]];
+}
+
+export function patternSeconds(pattern: BreathingPattern): number {
+  return pattern.cycles * pattern.phases.reduce((sum, { seconds }) => sum + seconds, 0);
+}
+
+// Every phase of every cycle, back to back, then the closing cue
+export function breathingSchedule(pattern: BreathingPattern): ScheduledBreath[] {
+  const schedule: ScheduledBreath[] = [];
+  let at = 0;
+  for (let cycle = 0; cycle < pattern.cycles; cycle++) {
+    for (const { phase, seconds } of pattern.phases) {
+      schedule.push({ phase, startsAtSeconds: at, durationSeconds: seconds });
+      at += seconds;
+    }
+  }
+  schedule.push({ phase: 'done', startsAtSeconds: at, durationSeconds: 0 });
+  return schedule;
+}
+
+// How the prompt describes the pattern: "in 4, hold 7, out 8 - 4 rounds"
+export function describePattern(pattern: BreathingPattern): string {
+  const words = { inhale: 'in', hold: 'hold', exhale: 'out' };
+  const cycle = pattern.phases.map(({ phase, seconds }) => `${words[phase]} ${seconds}`).join(', ');
+  return `${pattern.name}: ${cycle} - ${pattern.cycles} rounds, about ${Math.round(patternSeconds(pattern) / 10) * 10} seconds`;
+}
@@ -0,0 +1,229 @@
+/**
+ * Wake Up Better - Session Languages
+ *
+ * Everything that changes when a session isn't in English:
+ * - What transcription is told to expect (language + guiding prompt)
+ * - The instruction that makes GPT speak the language (the persona and
+ *   segment prompts themselves stay in English)
+ * - Lexicons for the keyword detectors: sleep intent, voice commands,
+ *   throwaway acknowledgements and transcription noise
+ * - The TTS voice used when the client doesn't pick one
+ * - The fixed cues of the breathing exercise
+ *
+ * Lexicon phrases are written lowercase without accents or punctuation,
+ * the form normalizeSpeech() reduces a transcript to. English phrases are
+ * always recognized too - "snooze" and "stop" get said in every language.
+ */
+
+import { BreathPhase } from './breathingPatterns';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const LANGUAGE_CODES = ['en', 'es', 'fr', 'de'] as const;
+
+export type LanguageCode = typeof LANGUAGE_CODES[number];
+
+export interface LanguageLexicon {
+  sleepIntent: string[];       // Trying to go back to sleep or dismiss the alarm
+  awake: string[];             // "I'm awake" - the user says they're up
+  skipNews: string[];
+  skipWeather: string[];
+  acknowledgements: string[];  // One-word replies that show they're there but groggy
+  falsePositives: string[];    // Whole transcripts that are almost never real speech
+  noiseTranscripts: string[];  // Transcription hallucinations on silence
+}
+
+export interface LanguageProfile {
+  code: LanguageCode;
+  name: string;        // English name, used in prompts
+  nativeName: string;
+  defaultLocale: string;
+  defaultVoice?: string;  // Overrides each route's default voice
+  transcriptionPrompt: string;
+  lexicon: LanguageLexicon;
+  breathCues: Record<BreathPhase, string>;  // Said at the start of each phase
+}
+
+// ============================================
+// LANGUAGES
+// ============================================
+
+const ENGLISH: LanguageProfile = {
+  code: 'en',
+  name: 'English',
+  nativeName: 'English',
+  defaultLocale: 'en-US',
+  transcriptionPrompt: 'This is a person speaking in response to a wake-up alarm. Transcribe only actual spoken words. If there is no speech, return an empty string.',
+  lexicon: {
+    sleepIntent: [
+      'go to sleep', 'going to sleep', 'back to sleep', 'let me sleep',
+      'want to sleep', 'wanna sleep', 'need sleep', 'more sleep',
+      'be quiet', 'shut up', 'stop', 'go away', 'leave me alone',
+      'five more minutes', '5 more minutes', 'snooze', 'later',
+      'not now', 'too tired', 'so tired', 'exhausted',
+      'turn off', 'stop talking', 'be silent', 'quiet',
+    ],
+    awake: ['im awake', 'i am awake', 'im up'],
+    skipNews: ['skip news', 'no news'],
+    skipWeather: ['skip weather', 'no weather'],
+    acknowledgements: [
+      'ok', 'okay', 'k', 'yes', 'yeah', 'yea', 'yep', 'no', 'nope', 'nah',
+      'mm', 'mmm', 'mhm', 'hmm', 'uh', 'um', 'ah', 'oh',
+      'sure', 'fine', 'alright', 'right', 'cool',
+    ],
+    falsePositives: [
+      'okay', 'ok', 'um', 'uh', 'hmm', 'mm', 'ah', 'oh',
+      'you', 'the', 'a', 'i', 'it', 'so', 'bye', 'thank you',
+      'thanks for watching', 'subscribe', // YouTube artifacts Whisper sometimes hallucinates
+    ],
+    noiseTranscripts: ['thanks for watching', 'thank you', 'you', 'bye'],
+  },
+  breathCues: { inhale: 'Breathe in', hold: 'Hold', exhale: 'Breathe out', done: 'And breathe normally.' },
+};
+
+const SPANISH: LanguageProfile = {
+  code: 'es',
+  name: 'Spanish',
+  nativeName: 'Español',
+  defaultLocale: 'es-ES',
+  defaultVoice: 'nova',
+  transcriptionPrompt: 'Una persona responde a una alarma despertador. Transcribe solo las palabras habladas. Si no hay voz, devuelve una cadena vacía.',
+  lexicon: {
+    sleepIntent: [
+      'quiero dormir', 'dejame dormir', 'volver a dormir', 'seguir durmiendo',
+      'cinco minutos mas', '5 minutos mas', 'un rato mas', 'mas tarde', 'ahora no',
+      'callate', 'silencio', 'dejame en paz', 'vete', 'apagate', 'apaga',
+      'estoy muy cansado', 'estoy muy cansada', 'que sueno', 'tengo sueno',
+    ],
+    awake: ['estoy despierto', 'estoy despierta', 'ya me levante', 'ya estoy de pie'],
+    skipNews: ['sin noticias', 'salta las noticias', 'no quiero noticias'],
+    skipWeather: ['sin el tiempo', 'salta el tiempo', 'no quiero el tiempo'],
+    acknowledgements: ['vale', 'si', 'no', 'ya', 'bueno', 'claro', 'ok', 'mm', 'mmm', 'eh', 'ah'],
+    falsePositives: ['eh', 'ah', 'mm', 'y', 'el', 'la', 'gracias', 'adios', 'suscribete'],
+    noiseTranscripts: [
+      'gracias', 'gracias por ver', 'gracias por ver el video',
+      'subtitulos realizados por la comunidad de amara org',
+    ],
+  },
+  breathCues: { inhale: 'Inhala', hold: 'Mantén', exhale: 'Exhala', done: 'Y respira con normalidad.' },
+};
+
+const FRENCH: LanguageProfile = {
+  code: 'fr',
+  name: 'French',
+  nativeName: 'Français',
+  defaultLocale: 'fr-FR',
+  defaultVoice: 'shimmer',
+  transcriptionPrompt: 'Une personne répond à un réveil. Transcris uniquement les mots prononcés. S’il n’y a pas de parole, renvoie une chaîne vide.',
+  lexicon: {
+    sleepIntent: [
+      'je veux dormir', 'laisse moi dormir', 'me rendormir', 'retourner dormir',
+      'encore cinq minutes', 'encore 5 minutes', 'plus tard', 'pas maintenant',
+      'tais toi', 'silence', 'laisse moi tranquille', 'va t en', 'arrete', 'eteins',
+      'trop fatigue', 'trop fatiguee', 'je suis fatigue', 'je suis fatiguee', 'je suis creve',
+    ],
+    awake: ['je suis reveille', 'je suis reveillee', 'je suis debout', 'je me leve'],
+    skipNews: ['pas de nouvelles', 'pas d actualites', 'passe les infos', 'sans les infos'],
+    skipWeather: ['pas de meteo', 'passe la meteo', 'sans la meteo'],
+    acknowledgements: ['oui', 'ouais', 'non', 'ok', 'd accord', 'bon', 'euh', 'mm', 'ah', 'oh'],
+    falsePositives: ['euh', 'ben', 'ah', 'oh', 'mm', 'et', 'le', 'la', 'un', 'une', 'merci'],
+    noiseTranscripts: [
+      'merci', 'merci d avoir regarde', 'merci d avoir regarde cette video',
+      'sous titres realises par la communaute d amara org',
+    ],
+  },
+  breathCues: { inhale: 'Inspirez', hold: 'Retenez', exhale: 'Expirez', done: 'Et respirez normalement.' },
+};
+
+const GERMAN: LanguageProfile = {
+  code: 'de',
+  name: 'German',
+  nativeName: 'Deutsch',
+  defaultLocale: 'de-DE',
+  defaultVoice: 'onyx',
+  transcriptionPrompt: 'Eine Person antwortet auf einen Wecker. Transkribiere nur tatsächlich gesprochene Wörter. Wenn nichts gesprochen wird, gib eine leere Zeichenkette zurück.',
+  lexicon: {
+    sleepIntent: [
+      'ich will schlafen', 'lass mich schlafen', 'weiterschlafen', 'wieder einschlafen',
+      'noch funf minuten', 'noch 5 minuten', 'spater', 'nicht jetzt',
+      'sei still', 'ruhe', 'lass mich in ruhe', 'geh weg', 'hor auf', 'mach aus',
+      'zu mude', 'so mude', 'ich bin mude', 'schlummern',
+    ],
+    awake: ['ich bin wach', 'ich bin auf', 'ich bin aufgestanden', 'ich stehe auf'],
+    skipNews: ['keine nachrichten', 'nachrichten uberspringen', 'ohne nachrichten'],
+    skipWeather: ['kein wetter', 'wetter uberspringen', 'ohne wetter'],
+    acknowledgements: ['ja', 'nein', 'ok', 'okay', 'gut', 'na', 'jo', 'genau', 'hm', 'mm', 'ah', 'oh'],
+    falsePositives: ['ah', 'oh', 'ahm', 'hm', 'mm', 'und', 'der', 'die', 'das', 'danke', 'tschuss'],
+    noiseTranscripts: [
+      'danke', 'vielen dank', 'danke furs zuschauen',
+      'untertitel im auftrag des zdf', 'untertitel der amara org community',
+    ],
+  },
+  breathCues: { inhale: 'Einatmen', hold: 'Halten', exhale: 'Ausatmen', done: 'Und jetzt ganz normal weiteratmen.' },
+};
+
+export const LANGUAGES: Record<LanguageCode, LanguageProfile> = {
+  en: ENGLISH,
+  es: SPANISH,
+  fr: FRENCH,
+  de: GERMAN,
+};
+
+export const getLanguage = (code: string): LanguageProfile => {
+  return LANGUAGES[code as LanguageCode] || ENGLISH;
+};
+
+// "es-MX" -> "es"; undefined for languages we don't support yet
+export function languageForLocale(locale: string): LanguageCode | undefined {
+  const language = locale.split('-')[0].toLowerCase();
+  return (LANGUAGE_CODES as readonly string[]).includes(language) ? language as LanguageCode : undefined;
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+// Lowercase, no accents, punctuation collapsed to single spaces:
+// "¡Déjame dormir!" -> "dejame dormir", "I'm up." -> "im up"
+export function normalizeSpeech(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// Whole-word match of any phrase from the session language's lexicon or English's
+export function saysAny(text: string, language: LanguageCode, pick: (lexicon: LanguageLexicon) => string[]): boolean {
+  const padded = ` ${normalizeSpeech(text)} `;
+  return lexiconPhrases(language, pick).some(phrase => padded.includes(` ${phrase} `));
+}
+
+// The whole transcript is one of the phrases
+export function isExactly(text: string, language: LanguageCode, pick: (lexicon: LanguageLexicon) => string[]): boolean {
+  const normalized = normalizeSpeech(text);
+  return lexiconPhrases(language, pick).includes(normalized);
+}
+
+function lexiconPhrases(language: LanguageCode, pick: (lexicon: LanguageLexicon) => string[]): string[] {
+  const phrases = pick(getLanguage(language).lexicon);
+  return language === 'en' ? phrases : [...phrases, ...pick(ENGLISH.lexicon)];
+}
+
+// ============================================
+// PROMPTS
+// ============================================
+
+// Appended to system prompts for non-English sessions (empty for English)
+export function languageInstruction(code: LanguageCode): string {
+  if (code === 'en') return '';
+  const { name, nativeName } = getLanguage(code);
+  return `## Language
+Speak only ${name} (${nativeName}) - natural, everyday ${name}, not a word-for-word translation from English.
+The instructions above are in English, but everything you say must be in ${name}.
+If the output is JSON, keep the keys and the "topic" field in English.`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Music Library
+ *
+ * Sounds bundled with the app, for the local music provider (see
+ * musicProvider). Users who don't connect Spotify still get music at the
+ * end of the track: each persona has a default, and sessions can pick
+ * one by id. The uri is the file's path inside the app bundle.
+ *
+ * MUSIC_LIBRARY_PATH replaces this list with a JSON file in the same
+ * shape ({ version: 1, tracks: [...] }).
+ */
+
+import { PersonaType } from '../services/trackEngine';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LocalTrack {
+  id: string;
+  name: string;                 // What the persona calls it
+  uri: string;                  // Path inside the app bundle
+  personas: PersonaType[];      // Default for these personas (first match wins)
+  startOffsetSeconds?: number;  // Skips a quiet or abrupt opening
+}
+
+// ============================================
+// BUNDLED TRACKS
+// ============================================
+
+export const BUNDLED_TRACKS: LocalTrack[] = [
+  {
+    id: 'forest-morning',
+    name: 'Forest Morning',
+    uri: 'sounds/forest-morning.m4a',
+    personas: ['zen-guide'],
+  },
+  {
+    id: 'soft-piano',
+    name: 'Soft Piano Sunrise',
+    uri: 'sounds/soft-piano.m4a',
+    personas: [],
+    startOffsetSeconds: 4,
+  },
+  {
+    id: 'upbeat-acoustic',
+    name: 'Upbeat Acoustic',
+    uri: 'sounds/upbeat-acoustic.m4a',
+    personas: ['morning-coach'],
+    startOffsetSeconds: 2,
+  },
+  {
+    id: 'drum-march',
+    name: 'Drum March',
+    uri: 'sounds/drum-march.m4a',
+    personas: ['strict-sergeant'],
+  },
+];
@@ -0,0 +1,157 @@
+/**
+ * Stretching Routines
+ *
+ * Timed routines for the stretching segment, once the user is out of bed.
+ * Each move has a spoken cue, how long to hold it and how long to rest
+ * before the next one. Moves done on each side are cued twice.
+ *
+ * A routine is picked by the user's fitness level and the persona: the Zen
+ * Guide gets slow mobility flows, the Coach and Sergeant get more energy.
+ * GPT only speaks the intro - the cues are fixed so the timing is exact.
+ */
+
+import { ClipTiming, PersonaType } from '../services/trackEngine';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const FITNESS_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+
+export type FitnessLevel = typeof FITNESS_LEVELS[number];
+
+export interface StretchMove {
+  id: string;
+  name: string;
+  cue: string;          // What to do, said before the hold
+  holdSeconds: number;
+  restSeconds: number;  // Before the next cue
+  perSide?: boolean;    // Cued once for the left, once for the right
+}
+
+export interface StretchRoutine {
+  id: string;
+  name: string;
+  level: FitnessLevel;
+  personas: PersonaType[];
+  moves: StretchMove[];
+  closing: string;  // Said after the last move
+}
+
+// ============================================
+// ROUTINES
+// ============================================
+
+const CALM: PersonaType[] = ['zen-guide'];
+const ENERGETIC: PersonaType[] = ['morning-coach', 'strict-sergeant'];
+
+export const STRETCH_ROUTINES: StretchRoutine[] = [
+  {
+    id: 'sunrise-flow',
+    name: 'Sunrise flow',
+    level: 'beginner',
+    personas: CALM,
+    moves: [
+      { id: 'neck-rolls', name: 'Neck rolls', cue: 'Let your chin drop and slowly roll your head from shoulder to shoulder.', holdSeconds: 20, restSeconds: 5 },
+      { id: 'overhead-reach', name: 'Overhead reach', cue: 'Breathe in and reach both arms up toward the ceiling.', holdSeconds: 20, restSeconds: 5 },
+      { id: 'side-bend', name: 'Side bend', cue: 'Keep one arm up and lean gently to the side.', holdSeconds: 15, restSeconds: 5, perSide: true },
+      { id: 'forward-fold', name: 'Forward fold', cue: 'Soften your knees and let your upper body fold forward.', holdSeconds: 20, restSeconds: 0 },
+    ],
+    closing: 'Roll up slowly, one vertebra at a time.',
+  },
+  {
+    id: 'slow-mobility',
+    name: 'Slow mobility',
+    level: 'intermediate',
+    personas: CALM,
+    moves: [
+      { id: 'cat-cow', name: 'Standing cat-cow', cue: 'Hands on your thighs. Round your back, then arch it, with your breath.', holdSeconds: 30, restSeconds: 5 },
+      { id: 'hip-circles', name: 'Hip circles', cue: 'Hands on your hips, and draw slow, wide circles.', holdSeconds: 30, restSeconds: 5 },
+      { id: 'quad-stretch', name: 'Quad stretch', cue: 'Hold one foot behind you and bring the heel toward your seat.', holdSeconds: 25, restSeconds: 5, perSide: true },
+      { id: 'forward-fold', name: 'Forward fold', cue: 'Soften your knees and let your upper body hang.', holdSeconds: 30, restSeconds: 0 },
+    ],
+    closing: 'Come back up slowly and take one full breath.',
+  },
+  {
+    id: 'deep-flow',
+    name: 'Deep flow',
+    level: 'advanced',
+    personas: CALM,
+    moves: [
+      { id: 'sun-salute', name: 'Half sun salutation', cue: 'Reach up, fold forward, halfway lift, and fold again, moving with your breath.', holdSeconds: 40, restSeconds: 5 },
+      { id: 'low-lunge', name: 'Low lunge', cue: 'Step one foot back into a low lunge and let your hips sink.', holdSeconds: 30, restSeconds: 5, perSide: true },
+      { id: 'pigeon', name: 'Pigeon', cue: 'Bring one shin forward into pigeon and fold over it.', holdSeconds: 40, restSeconds: 5, perSide: true },
+      { id: 'childs-pose', name: "Child's pose", cue: 'Sit back on your heels and rest your forehead down.', holdSeconds: 30, restSeconds: 0 },
+    ],
+    closing: 'Slowly come back to standing.',
+  },
+  {
+    id: 'quick-wake-up',
+    name: 'Quick wake-up',
+    level: 'beginner',
+    personas: ENERGETIC,
+    moves: [
+      { id: 'arm-circles', name: 'Arm circles', cue: 'Arms out wide. Big circles, forwards.', holdSeconds: 15, restSeconds: 5 },
+      { id: 'overhead-reach', name: 'Overhead reach', cue: 'Reach both arms up as high as you can.', holdSeconds: 15, restSeconds: 5 },
+      { id: 'march', name: 'March in place', cue: 'March on the spot, knees up.', holdSeconds: 20, restSeconds: 5 },
+      { id: 'shoulder-rolls', name: 'Shoulder rolls', cue: 'Roll your shoulders back, nice and big.', holdSeconds: 15, restSeconds: 0 },
+    ],
+    closing: 'Done. You are officially awake.',
+  },
+  {
+    id: 'morning-circuit',
+    name: 'Morning circuit',
+    level: 'intermediate',
+    personas: ENERGETIC,
+    moves: [
+      { id: 'arm-swings', name: 'Arm swings', cue: 'Swing your arms across your chest and open them wide.', holdSeconds: 20, restSeconds: 5 },
+      { id: 'squats', name: 'Bodyweight squats', cue: 'Feet shoulder width. Sit back into slow squats.', holdSeconds: 30, restSeconds: 10 },
+      { id: 'lunge-twist', name: 'Lunge with twist', cue: 'Step into a lunge and twist toward your front knee.', holdSeconds: 20, restSeconds: 5, perSide: true },
+      { id: 'toe-touches', name: 'Toe touches', cue: 'Reach down for your toes, then all the way up.', holdSeconds: 20, restSeconds: 0 },
+    ],
+    closing: 'Circuit done. Shake it out.',
+  },
+  {
+    id: 'power-start',
+    name: 'Power start',
+    level: 'advanced',
+    personas: ENERGETIC,
+    moves: [
+      { id: 'jumping-jacks', name: 'Jumping jacks', cue: 'Jumping jacks. Go.', holdSeconds: 30, restSeconds: 10 },
+      { id: 'squats', name: 'Squats', cue: 'Squats, full depth, steady pace.', holdSeconds: 40, restSeconds: 10 },
+      { id: 'walkout', name: 'Inchworm walkouts', cue: 'Fold forward, walk your hands out to a plank, and walk them back.', holdSeconds: 40, restSeconds: 10 },
+      { id: 'runner-lunge', name: "Runner's lunge", cue: 'Drop into a deep lunge and reach the same arm up.', holdSeconds: 25, restSeconds: 5, perSide: true },
+    ],
+    closing: 'That is a real start to the day. Hydrate.',
+  },
+];
+
+// ============================================
+// SELECTION
+// ============================================
+
+// The routine for this level in the persona's style (any persona's as a fallback)
+export function selectRoutine(personaId: PersonaType, level: FitnessLevel = 'beginner'): StretchRoutine {
+  const forLevel = STRETCH_ROUTINES.filter(routine => routine.level === level);
+  return forLevel.find(routine => routine.personas.includes(personaId)) || forLevel[0];
+}
+
+// Time the routine takes after the intro: every cue, hold and rest
+export function routineSeconds(routine: StretchRoutine, secondsPerCue = 4): number {
+  return routine.moves.reduce(
+    (sum, move) => sum + (move.perSide ? 2 : 1) * (secondsPerCue + move.holdSeconds + move.restSeconds),
+    secondsPerCue
+  );
+}
+
+// What is said for each move, and the hold and rest after it
+export function routineCues(routine: StretchRoutine): (ClipTiming & { text: string })[] {
+  const cues = routine.moves.flatMap(move => {
+    const timing = { move: move.id, holdSeconds: move.holdSeconds, restSeconds: move.restSeconds };
+    const hold = `${move.holdSeconds} seconds.`;
+    return move.perSide
+      ? [{ ...timing, text: `Left side first. ${move.cue} ${hold}` }, { ...timing, text: `Now the right side. ${hold}` }]
+      : [{ ...timing, text: `${move.cue} ${hold}` }];
+  });
+  return [...cues, { move: null, holdSeconds: 0, restSeconds: 0, text: routine.closing }];
+}
@@ -0,0 +1,234 @@
+/**
+ * API Route Table
+ *
+ * Every REST route the server exposes, with its request and response
+ * schemas. This is the source for the OpenAPI document and the generated
+ * client; test/openapi.test.ts fails if a route is added to (or removed
+ * from) an Express router without updating this table.
+ */
+
+import { Schema } from '../validation/schema';
+import {
+  createTrackSessionSchema,
+  trackAudioSchema,
+  createChainedSessionSchema,
+  createGptDrivenSessionSchema,
+  respondAudioSchema,
+  deviceStatusSchema,
+  deviceUpdateSchema,
+  issueTokenSchema,
+} from '../validation/requestSchemas';
+import * as responses from './responseSchemas';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type HttpMethod = 'get' | 'post' | 'delete';
+
+export interface ApiRoute {
+  method: HttpMethod;
+  path: string;  // Express syntax, e.g. /api/track/session/:id
+  operationId: string;  // Also the generated client function name
+  tag: string;
+  summary: string;
+  body?: Schema;
+  response: Schema;
+  // Response is a text/event-stream instead of JSON
+  eventStream?: boolean;
+  // Transcribes the request's audio, so can fail with a 502
+  transcribes?: boolean;
+}
+
+// ============================================
+// ROUTES
+// ============================================
+
+export const API_ROUTES: ApiRoute[] = [
+  // ----- Track Engine -----
+  {
+    method: 'post', path: '/api/track/session', operationId: 'createTrackSession', tag: 'track',
+    summary: 'Create a track session and pre-generate the greeting',
+    body: createTrackSessionSchema, response: responses.trackSessionCreatedResponse,
+  },
+  {
+    method: 'get', path: '/api/track/session/:id', operationId: 'getTrackSession', tag: 'track',
+    summary: 'Get the engine state of a track session',
+    response: responses.trackSessionStateResponse,
+  },
+  {
+    method: 'post', path: '/api/track/session/:id/next', operationId: 'nextTrackSegment', tag: 'track',
+    summary: 'Generate the next segment (called on silence)',
+    response: responses.trackSegmentResponse,
+  },
+  {
+    method: 'post', path: '/api/track/session/:id/next/stream', operationId: 'streamNextTrackSegment', tag: 'track',
+    summary: 'Generate the next segment as server-sent events (chunk, done, error)',
+    response: responses.trackSegmentResponse, eventStream: true,
+  },
+  {
+    method: 'post', path: '/api/track/session/:id/start', operationId: 'startTrackSession', tag: 'track',
+    summary: 'Return the pre-generated greeting',
+    response: responses.trackGreetingResponse,
+  },
+  {
+    method: 'post', path: '/api/track/session/:id/audio', operationId: 'sendTrackAudio', tag: 'track',
+    summary: 'Respond to recorded user speech',
+    body: trackAudioSchema, response: responses.trackSpeechResponse, transcribes: true,
+  },
+  {
+    method: 'post', path: '/api/track/session/:id/awake', operationId: 'markTrackAwake', tag: 'track',
+    summary: 'Mark the user as awake and skip to the wind-down segments',
+    response: responses.trackAwakeResponse,
+  },
+  {
+    method: 'delete', path: '/api/track/session/:id', operationId: 'endTrackSession', tag: 'track',
+    summary: 'End a track session',
+    response: responses.trackDeletedResponse,
+  },
+  {
+    method: 'get', path: '/api/track/session/:id/silence-duration', operationId: 'getTrackSilenceDuration', tag: 'track',
+    summary: 'How long to wait in silence before requesting the next segment',
+    response: responses.silenceDurationResponse,
+  },
+  {
+    method: 'get', path: '/api/track/facts', operationId: 'getFactHistory', tag: 'track',
+    summary: 'List the fact topics the caller has already heard (within the retention window)',
+    response: responses.factHistoryResponse,
+  },
+  {
+    method: 'delete', path: '/api/track/facts', operationId: 'resetFactHistory', tag: 'track',
+    summary: "Forget the caller's fact history",
+    response: responses.factHistoryResetResponse,
+  },
+  {
+    method: 'get', path: '/api/track/news-themes', operationId: 'listNewsThemes', tag: 'track',
+    summary: 'List the news themes offered during onboarding',
+    response: responses.newsThemesResponse,
+  },
+
+  // ----- Chained -----
+  {
+    method: 'post', path: '/api/chained/session', operationId: 'createChainedSession', tag: 'chained',
+    summary: 'Create a chained (STT → GPT → TTS) session',
+    body: createChainedSessionSchema, response: responses.chainedSessionCreatedResponse,
+  },
+  {
+    method: 'post', path: '/api/chained/session/:id/greeting', operationId: 'chainedGreeting', tag: 'chained',
+    summary: 'Generate the initial greeting',
+    response: responses.chainedGreetingResponse,
+  },
+  {
+    method: 'post', path: '/api/chained/session/:id/respond', operationId: 'chainedRespond', tag: 'chained',
+    summary: 'Respond to recorded user speech',
+    body: respondAudioSchema, response: responses.chainedRespondResponse, transcribes: true,
+  },
+  {
+    method: 'post', path: '/api/chained/session/:id/silence', operationId: 'chainedSilence', tag: 'chained',
+    summary: 'Re-engage after silence',
+    response: responses.chainedSilenceResponse,
+  },
+  {
+    method: 'get', path: '/api/chained/session/:id/state', operationId: 'getChainedState', tag: 'chained',
+    summary: 'Get the session brain state',
+    response: responses.chainedStateResponse,
+  },
+  {
+    method: 'delete', path: '/api/chained/session/:id', operationId: 'endChainedSession', tag: 'chained',
+    summary: 'End a chained session',
+    response: responses.sessionEndedResponse,
+  },
+
+  // ----- GPT-driven -----
+  {
+    method: 'post', path: '/api/gpt-driven/session', operationId: 'createGptDrivenSession', tag: 'gpt-driven',
+    summary: 'Create a GPT-driven session',
+    body: createGptDrivenSessionSchema, response: responses.gptDrivenSessionCreatedResponse,
+  },
+  {
+    method: 'post', path: '/api/gpt-driven/session/:id/greeting', operationId: 'gptDrivenGreeting', tag: 'gpt-driven',
+    summary: 'Generate the initial greeting',
+    response: responses.gptDrivenTurnResponse,
+  },
+  {
+    method: 'post', path: '/api/gpt-driven/session/:id/respond', operationId: 'gptDrivenRespond', tag: 'gpt-driven',
+    summary: 'Respond to recorded user speech',
+    body: respondAudioSchema, response: responses.gptDrivenRespondResponse, transcribes: true,
+  },
+  {
+    method: 'post', path: '/api/gpt-driven/session/:id/silence', operationId: 'gptDrivenSilence', tag: 'gpt-driven',
+    summary: 'Re-engage after silence',
+    response: responses.gptDrivenTurnResponse,
+  },
+  {
+    method: 'get', path: '/api/gpt-driven/session/:id/state', operationId: 'getGptDrivenState', tag: 'gpt-driven',
+    summary: 'Get turn and silence counters',
+    response: responses.gptDrivenStateResponse,
+  },
+  {
+    method: 'delete', path: '/api/gpt-driven/session/:id', operationId: 'endGptDrivenSession', tag: 'gpt-driven',
+    summary: 'End a GPT-driven session',
+    response: responses.sessionEndedResponse,
+  },
+
+  // ----- Auth -----
+  {
+    method: 'post', path: '/api/auth/token', operationId: 'issueAppToken', tag: 'auth',
+    summary: 'Issue an app token for an install (DeviceCheck-verified when configured)',
+    body: issueTokenSchema, response: responses.appTokenResponse,
+  },
+
+  // ----- Device -----
+  {
+    method: 'post', path: '/device/status', operationId: 'getDeviceStatus', tag: 'device',
+    summary: "Get the device's free session count",
+    body: deviceStatusSchema, response: responses.deviceStatusResponse,
+  },
+  {
+    method: 'post', path: '/device/update', operationId: 'updateDevice', tag: 'device',
+    summary: "Increment the device's free session count",
+    body: deviceUpdateSchema, response: responses.deviceUpdateResponse,
+  },
+
+  // ----- General -----
+  {
+    method: 'get', path: '/api/personas', operationId: 'listPersonas', tag: 'general',
+    summary: 'List available personas',
+    response: responses.personasResponse,
+  },
+  {
+    method: 'get', path: '/api/voices', operationId: 'listVoices', tag: 'general',
+    summary: 'List available voices',
+    response: responses.voicesResponse,
+  },
+  {
+    method: 'get', path: '/api/sessions/stats', operationId: 'getSessionStats', tag: 'general',
+    summary: 'Live, ended and evicted session counts per session kind',
+    response: responses.sessionStatsResponse,
+  },
+  {
+    method: 'get', path: '/api/health', operationId: 'getHealth', tag: 'general',
+    summary: 'Health check',
+    response: responses.healthResponse,
+  },
+  {
+    method: 'get', path: '/api/openapi.json', operationId: 'getOpenApiDocument', tag: 'general',
+    summary: 'This OpenAPI document',
+    response: { type: 'object', properties: {} },
+  },
+];
+
+// Routes under these prefixes (and these single routes) need an app token
+// or the dev API key (when auth is enabled on the server)
+export const AUTHENTICATED_PREFIXES = ['/api/chained', '/api/gpt-driven', '/api/track'];
+export const AUTHENTICATED_PATHS = ['/api/sessions/stats'];
+
+export function requiresAuth(route: ApiRoute): boolean {
+  return AUTHENTICATED_PATHS.includes(route.path)
+    || AUTHENTICATED_PREFIXES.some(prefix => route.path.startsWith(`${prefix}/`));
+}
+
+// Path parameter names, in order (/api/track/session/:id -> ['id'])
+export function getPathParams(path: string): string[] {
+  return (path.match(/:(\w+)/g) || []).map(param => param.slice(1));
+}
@@ -0,0 +1,118 @@
+/**
+ * OpenAPI Document
+ *
+ * Builds the OpenAPI 3.0 document served at GET /api/openapi.json from
+ * the route table. Request/response schemas are already JSON Schema, so
+ * they're copied in as-is.
+ */
+
+import { API_ROUTES, ApiRoute, getPathParams, requiresAuth } from './apiRoutes';
+import { errorResponse } from './responseSchemas';
+
+const ERROR_REF = { $ref: '#/components/schemas/Error' };
+
+function errorResponseFor(description: string) {
+  return { description, content: { 'application/json': { schema: ERROR_REF } } };
+}
+
+// Express path -> OpenAPI path (/session/:id -> /session/{id})
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function buildOperation(route: ApiRoute) {
+  const params = getPathParams(route.path);
+
+  const operation: Record<string, unknown> = {
+    operationId: route.operationId,
+    tags: [route.tag],
+    summary: route.summary,
+  };
+
+  if (params.length > 0) {
+    operation.parameters = params.map(name => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    }));
+  }
+
+  if (route.body) {
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: route.body } },
+    };
+  }
+
+  const success = route.eventStream
+    ? {
+        description: 'Server-sent events: chunk { index, text, audio } per sentence, then done (schema below) or error',
+        content: { 'text/event-stream': { schema: route.response } },
+      }
+    : { description: 'OK', content: { 'application/json': { schema: route.response } } };
+
+  const operationResponses: Record<string, unknown> = { '200': success };
+  const authenticated = requiresAuth(route);
+  if (route.body) {
+    operationResponses['400'] = errorResponseFor('Invalid request body');
+  }
+  if (authenticated) {
+    operation.security = [{ appToken: [] }, { devApiKey: [] }];
+    operationResponses['401'] = errorResponseFor('Missing or invalid credentials');
+    if (route.method === 'post') {
+      operationResponses['402'] = errorResponseFor('Session or daily usage budget exhausted');
+    }
+    if (params.includes('id')) {
+      operationResponses['403'] = errorResponseFor('Session belongs to another client');
+    }
+  }
+  if (params.includes('id') && route.method !== 'delete') {
+    operationResponses['404'] = errorResponseFor('Session not found');
+  }
+  if (authenticated) {
+    operationResponses['429'] = errorResponseFor('Rate limit exceeded (see Retry-After)');
+  }
+  operationResponses['500'] = errorResponseFor('Internal error');
+  if (route.transcribes) {
+    operationResponses['502'] = errorResponseFor('Speech transcription failed upstream');
+  }
+  operation.responses = operationResponses;
+
+  return operation;
+}
+
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of API_ROUTES) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = paths[path] || {};
+    paths[path][route.method] = buildOperation(route);
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Wake Up Better API',
+      version: '1.0.0',
+      description: 'REST API for the track, chained and GPT-driven wake-up sessions. '
+        + 'The realtime relay is a WebSocket at /ws and is not described here.',
+    },
+    tags: [
+      { name: 'track', description: 'Track Engine sessions (segment-by-segment wake-up)' },
+      { name: 'chained', description: 'Chained STT → GPT → TTS sessions' },
+      { name: 'gpt-driven', description: 'GPT-driven sessions (no state machine)' },
+      { name: 'auth', description: 'App token issuance' },
+      { name: 'device', description: 'DeviceCheck free trial tracking' },
+      { name: 'general', description: 'Personas, voices, health and stats' },
+    ],
+    paths,
+    components: {
+      schemas: { Error: errorResponse },
+      securitySchemes: {
+        appToken: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Per-install token from POST /api/auth/token' },
+        devApiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Shared key for development' },
+      },
+    },
+  };
+}
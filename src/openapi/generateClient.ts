@@ -0,0 +1,203 @@
+/**
+ * API Client Generator
+ *
+ * Generates public/api-client.js from the route table: one function per
+ * route, with JSDoc types for every request and response body so editors
+ * type-check the test pages (and any other JS caller).
+ *
+ * Run after changing routes or schemas:
+ *   npm run generate:client
+ *
+ * test/openapi.test.ts fails if the committed client is out of date.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Schema } from '../validation/schema';
+import { API_ROUTES, ApiRoute, getPathParams } from './apiRoutes';
+
+export const CLIENT_PATH = path.join(__dirname, '../../public/api-client.js');
+
+// ============================================
+// SCHEMA -> TYPESCRIPT (JSDoc) TYPES
+// ============================================
+
+function toType(schema: Schema, depth: number): string {
+  const type = baseType(schema, depth);
+  return schema.nullable ? `(${type} | null)` : type;
+}
+
+function baseType(schema: Schema, depth: number): string {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? schema.enum.map(value => `'${value}'`).join(' | ') : 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = toType(schema.items, depth);
+      return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object': {
+      const keys = Object.keys(schema.properties);
+      if (keys.length === 0) return 'Record<string, any>';
+      const required = schema.required || [];
+      const lines = keys.map(key => {
+        const optional = required.includes(key) ? '' : '?';
+        return `   * ${'  '.repeat(depth + 1)}${key}${optional}: ${toType(schema.properties[key], depth + 1)};`;
+      });
+      return `{\n${lines.join('\n')}\n   * ${'  '.repeat(depth)}}`;
+    }
+  }
+}
+
+function typeName(route: ApiRoute, suffix: 'Request' | 'Response'): string {
+  return route.operationId.charAt(0).toUpperCase() + route.operationId.slice(1) + suffix;
+}
+
+// ============================================
+// CLIENT SOURCE
+// ============================================
+
+function typedefs(): string {
+  const blocks: string[] = [];
+  for (const route of API_ROUTES) {
+    if (route.body) {
+      blocks.push(`  /**\n   * @typedef {${toType(route.body, 0)}} ${typeName(route, 'Request')}\n   */`);
+    }
+    blocks.push(`  /**\n   * @typedef {${toType(route.response, 0)}} ${typeName(route, 'Response')}\n   */`);
+  }
+  return blocks.join('\n\n');
+}
+
+function method(route: ApiRoute): string {
+  const params = getPathParams(route.path);
+  const args = [...params, ...(route.body ? ['body'] : [])];
+  const url = params.length === 0
+    ? `'${route.path}'`
+    : '`' + route.path.replace(/:(\w+)/g, (_, name) => `\${encodeURIComponent(${name})}`) + '`';
+
+  const doc = [`       * ${route.summary}`];
+  for (const param of params) doc.push(`       * @param {string} ${param}`);
+  if (route.body) doc.push(`       * @param {${typeName(route, 'Request')}} body`);
+
+  let call: string;
+  if (route.eventStream) {
+    // The caller reads the SSE stream; `done` carries the response type below
+    doc.push(`       * @returns {Promise<Response>} text/event-stream; the done event is a ${typeName(route, 'Response')}`);
+    call = `stream('${route.method.toUpperCase()}', ${url}${route.body ? ', body' : ''})`;
+  } else {
+    doc.push(`       * @returns {Promise<${typeName(route, 'Response')}>}`);
+    call = `request('${route.method.toUpperCase()}', ${url}${route.body ? ', body' : ''})`;
+  }
+
+  return [
+    '      /**',
+    ...doc,
+    '       */',
+    `      ${route.operationId}(${args.join(', ')}) {`,
+    `        return ${call};`,
+    '      },',
+  ].join('\n');
+}
+
+export function generateClient(): string {
+  return `// GENERATED FILE - do not edit. Run \`npm run generate:client\` after changing
+// routes or schemas (source: src/openapi/apiRoutes.ts).
+//
+// Typed client for the Wake Up Better REST API. In the browser it's
+// available as window.WubApi; in Node, require() it and call
+// createApiClient(baseUrl, auth).
+//
+// Credentials: an app token (POST /api/auth/token) or the dev API key.
+// In the browser the dev key is picked up from ?apiKey= (and remembered
+// in localStorage) so the test pages work against a server with auth on.
+
+(function (root) {
+  'use strict';
+
+${typedefs()}
+
+  /** Error response ({ error: { code, message, field } }) as an exception */
+  class ApiError extends Error {
+    constructor(status, body) {
+      const error = (body && body.error) || {};
+      super(error.message || \`Request failed with status \${status}\`);
+      this.name = 'ApiError';
+      /** @type {number} */
+      this.status = status;
+      /** @type {string | undefined} */
+      this.code = error.code;
+      /** @type {string | undefined} */
+      this.field = error.field;
+    }
+  }
+
+  /**
+   * @typedef {{ token?: string; apiKey?: string }} ApiAuth
+   */
+
+  /**
+   * @param {string} [baseUrl] Server origin, '' for same-origin
+   * @param {ApiAuth} [auth]
+   */
+  function createApiClient(baseUrl = '', auth = {}) {
+    function send(method, path, body) {
+      const headers = {};
+      if (body !== undefined) headers['Content-Type'] = 'application/json';
+      if (auth.token) headers['Authorization'] = \`Bearer \${auth.token}\`;
+      if (auth.apiKey) headers['X-API-Key'] = auth.apiKey;
+      return fetch(baseUrl + path, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    }
+
+    async function request(method, path, body) {
+      const response = await send(method, path, body);
+      const text = await response.text();
+      const data = text ? JSON.parse(text) : undefined;
+      if (!response.ok) throw new ApiError(response.status, data);
+      return data;
+    }
+
+    async function stream(method, path, body) {
+      const response = await send(method, path, body);
+      if (!response.ok) throw new ApiError(response.status, await response.json().catch(() => undefined));
+      return response;
+    }
+
+    return {
+      /** @param {ApiAuth} nextAuth Credentials for every following request */
+      setAuth(nextAuth) {
+        auth = nextAuth || {};
+      },
+
+      /** @returns {ApiAuth} */
+      getAuth() {
+        return auth;
+      },
+
+${API_ROUTES.map(method).join('\n\n')}
+    };
+  }
+
+  const api = { ApiError, createApiClient };
+  if (typeof module !== 'undefined' && module.exports) {
+    module.exports = api;
+  } else {
+    const apiKey = new URLSearchParams(root.location.search).get('apiKey') || root.localStorage.getItem('wubApiKey');
+    if (apiKey) root.localStorage.setItem('wubApiKey', apiKey);
+    root.WubApi = Object.assign(createApiClient('', apiKey ? { apiKey } : {}), api);
+  }
+})(typeof window !== 'undefined' ? window : globalThis);
+`;
+}
+
+if (require.main === module) {
+  fs.writeFileSync(CLIENT_PATH, generateClient(), 'utf8');
+  console.log(`[OpenAPI] Wrote ${path.relative(process.cwd(), CLIENT_PATH)}`);
+}
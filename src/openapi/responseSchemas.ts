@@ -0,0 +1,314 @@
+/**
+ * Response Schemas
+ *
+ * Shapes of the JSON bodies each route returns. Used for the OpenAPI
+ * document and the generated client's types, and checked against real
+ * responses in the tests so they can't drift from the handlers.
+ */
+
+import { Schema, ObjectSchema } from '../validation/schema';
+import { segmentTypeSchema } from '../services/segmentRegistry';
+import { MUSIC_PROVIDER_NAMES } from '../services/musicProvider';
+import { API_ERROR_CODES } from '../routes/apiError';
+
+// ============================================
+// SHARED PIECES
+// ============================================
+
+const base64Audio: Schema = {
+  type: 'string',
+  description: 'Base64-encoded audio (MP3 from OpenAI; WAV from the local provider and under the ambient bed)',
+};
+
+// Free-form object (engine/brain state is for debugging, not a contract)
+const looseObject: ObjectSchema = { type: 'object', properties: {} };
+
+const segment: ObjectSchema = {
+  type: 'object',
+  properties: {
+    type: segmentTypeSchema,
+    enabled: { type: 'boolean' },
+    data: looseObject,
+    sentences: { type: 'number' },
+  },
+  required: ['type', 'enabled'],
+  nullable: true,
+  description: 'Current track segment (null once the track is complete)',
+};
+
+function object(properties: Record<string, Schema>, required: string[] = Object.keys(properties)): ObjectSchema {
+  return { type: 'object', properties, required };
+}
+
+// ============================================
+// TRACK API
+// ============================================
+
+// What the planner made of segmentOrder and targetDurationSeconds
+const trackPlan = object({
+  targetSeconds: { type: 'number', nullable: true },
+  estimatedSeconds: { type: 'number' },
+  segments: {
+    type: 'array',
+    items: object({
+      type: segmentTypeSchema,
+      sentences: { type: 'number' },
+      estimatedSeconds: { type: 'number' },
+    }),
+    description: 'Segments in playback order (data segments without data are still skipped when reached)',
+  },
+  dropped: { type: 'array', items: segmentTypeSchema, description: 'Left out to fit the target' },
+});
+
+export const trackSessionCreatedResponse = object({
+  sessionId: { type: 'string' },
+  currentSegment: segment,
+  plan: trackPlan,
+});
+
+export const trackSessionStateResponse = object({
+  state: looseObject,
+  currentSegment: segment,
+  isComplete: { type: 'boolean' },
+});
+
+// A cue of a timed segment: play it, wait holdSeconds + restSeconds, play the next
+const timedClip = object({
+  index: { type: 'integer' },
+  text: { type: 'string' },
+  audio: base64Audio,
+  move: { type: 'string', nullable: true, description: 'Move id (null for the closing cue)' },
+  holdSeconds: { type: 'number' },
+  restSeconds: { type: 'number' },
+});
+
+// A breathing cue: play it startsAtSeconds after audio ends (not after the previous cue)
+const pacedCue = object({
+  index: { type: 'integer' },
+  text: { type: 'string' },
+  audio: base64Audio,
+  phase: { type: 'string', enum: ['inhale', 'hold', 'exhale', 'done'] },
+  startsAtSeconds: { type: 'number' },
+  durationSeconds: { type: 'number' },
+});
+
+// How the app starts the music after the music segment's audio
+const musicPlayback = object({
+  provider: { type: 'string', enum: MUSIC_PROVIDER_NAMES },
+  uri: { type: 'string', description: 'spotify: URI, or the bundled sound\'s path in the app' },
+  name: { type: 'string', nullable: true, description: 'Playlist or sound name, as the persona introduced it' },
+  startOffsetSeconds: { type: 'number' },
+  fadeInSeconds: { type: 'number' },
+  volumeRamp: object({
+    fromPercent: { type: 'number' },
+    toPercent: { type: 'number' },
+    durationSeconds: { type: 'number', description: 'From the start of playback' },
+  }),
+});
+
+export const trackSegmentResponse = object({
+  text: { type: 'string' },
+  audio: base64Audio,
+  clips: {
+    type: 'array',
+    items: timedClip,
+    description: 'Stretching only: the routine\'s cues, played in order after audio',
+  },
+  cues: {
+    type: 'array',
+    items: pacedCue,
+    description: 'Breathing only: inhale, hold and exhale cues, each at its own time after audio',
+  },
+  music: musicPlayback,
+  action: { type: 'string', enum: ['segment', 'waiting'] },
+  currentSegment: segment,
+  isComplete: { type: 'boolean' },
+}, ['text', 'audio', 'action', 'currentSegment', 'isComplete']);
+
+export const trackGreetingResponse = object({
+  text: { type: 'string' },
+  audio: base64Audio,
+  currentSegment: segment,
+});
+
+// transcript/text/audio are null when no speech was detected
+export const trackSpeechResponse = object({
+  transcript: { type: 'string', nullable: true },
+  text: { type: 'string', nullable: true },
+  audio: { ...base64Audio, nullable: true },
+  currentSegment: segment,
+  conversationMode: { type: 'boolean' },
+}, ['transcript', 'text', 'audio']);
+
+export const trackAwakeResponse = object({
+  message: { type: 'string' },
+  currentSegment: segment,
+});
+
+export const trackDeletedResponse = object({
+  deleted: { type: 'boolean' },
+});
+
+export const silenceDurationResponse = object({
+  duration: { type: 'integer', description: 'How long (ms) the client should wait in silence before calling /next' },
+});
+
+export const factHistoryResponse = object({
+  facts: {
+    type: 'array',
+    description: 'Fact topics the caller has already heard, newest first',
+    items: object({
+      topic: { type: 'string' },
+      usedAt: { type: 'string', description: 'ISO timestamp' },
+    }),
+  },
+});
+
+export const factHistoryResetResponse = object({
+  removed: { type: 'integer', description: 'How many topics were forgotten' },
+});
+
+export const newsThemesResponse = object({
+  themes: {
+    type: 'array',
+    items: object({
+      id: { type: 'string' },
+      label: { type: 'string' },
+      emoji: { type: 'string' },
+    }),
+  },
+});
+
+// ============================================
+// CHAINED API
+// ============================================
+
+export const chainedSessionCreatedResponse = object({
+  sessionId: { type: 'string' },
+  persona: object({ id: { type: 'string' }, name: { type: 'string' } }),
+});
+
+export const chainedGreetingResponse = object({
+  text: { type: 'string' },
+  audio: base64Audio,
+  brainState: looseObject,
+});
+
+export const chainedRespondResponse = object({
+  transcript: { type: 'string' },
+  response: { type: 'string' },
+  audio: base64Audio,
+  brainState: looseObject,
+});
+
+export const chainedSilenceResponse = object({
+  response: { type: 'string' },
+  audio: base64Audio,
+  brainState: looseObject,
+});
+
+export const chainedStateResponse = object({
+  brainState: looseObject,
+  historyLength: { type: 'integer' },
+});
+
+// ============================================
+// GPT-DRIVEN API
+// ============================================
+
+export const gptDrivenSessionCreatedResponse = object({
+  sessionId: { type: 'string' },
+  persona: { type: 'string' },
+}, ['sessionId']);
+
+export const gptDrivenTurnResponse = object({
+  text: { type: 'string' },
+  audio: base64Audio,
+});
+
+export const gptDrivenRespondResponse = object({
+  transcript: { type: 'string' },
+  text: { type: 'string' },
+  audio: base64Audio,
+});
+
+export const gptDrivenStateResponse = object({
+  turnCount: { type: 'integer' },
+  silenceCount: { type: 'integer' },
+  historyLength: { type: 'integer' },
+});
+
+// Chained and gpt-driven DELETE
+export const sessionEndedResponse = object({
+  success: { type: 'boolean' },
+});
+
+// ============================================
+// DEVICE API
+// ============================================
+
+export const deviceStatusResponse = object({
+  free_sessions_used: { type: 'integer', minimum: 0, maximum: 2 },
+});
+
+export const deviceUpdateResponse = object({
+  success: { type: 'boolean' },
+  free_sessions_used: { type: 'integer', minimum: 0, maximum: 2 },
+});
+
+// ============================================
+// AUTH API
+// ============================================
+
+export const appTokenResponse = object({
+  token: { type: 'string', description: 'Send as Authorization: Bearer <token>' },
+  expiresAt: { type: 'string' },
+});
+
+// ============================================
+// GENERAL
+// ============================================
+
+export const personasResponse: Schema = {
+  type: 'array',
+  items: object({
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    defaults: looseObject,
+  }),
+};
+
+export const voicesResponse: Schema = {
+  type: 'array',
+  items: object({
+    id: { type: 'string' },
+    description: { type: 'string' },
+  }),
+};
+
+export const sessionStatsResponse = object({
+  registries: {
+    type: 'array',
+    items: object({
+      name: { type: 'string' },
+      live: { type: 'integer' },
+      created: { type: 'integer' },
+      ended: { type: 'integer' },
+      evicted: looseObject,
+    }),
+  },
+});
+
+export const healthResponse = object({
+  status: { type: 'string' },
+  timestamp: { type: 'string' },
+});
+
+export const errorResponse = object({
+  error: object({
+    code: { type: 'string', enum: API_ERROR_CODES },
+    message: { type: 'string' },
+    field: { type: 'string' },
+  }, ['code', 'message']),
+});
@@ -0,0 +1,79 @@
+/**
+ * API Errors
+ *
+ * Every error response uses the same envelope:
+ *
+ *   { "error": { "code": "validation_failed", "message": "...", "field": "segmentOrder[1]" } }
+ *
+ * `code` is stable and meant for clients to branch on, `message` is for
+ * humans, and `field` is only present when a specific request field is at fault.
+ */
+
+import { Request, Response, NextFunction, RequestHandler, ErrorRequestHandler } from 'express';
+import { Schema, validate } from '../validation/schema';
+
+export const API_ERROR_CODES = [
+  'validation_failed',
+  'invalid_json',
+  'payload_too_large',
+  'unauthorized',
+  'forbidden',
+  'session_not_found',
+  'rate_limited',
+  'budget_exhausted',
+  'transcription_failed',
+  'not_configured',
+  'internal_error',
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  field?: string;
+}
+
+export function errorBody(code: ApiErrorCode, message: string, field?: string): { error: ApiErrorBody } {
+  return { error: field ? { code, message, field } : { code, message } };
+}
+
+export function sendError(res: Response, status: number, code: ApiErrorCode, message: string, field?: string) {
+  return res.status(status).json(errorBody(code, message, field));
+}
+
+export function sendSessionNotFound(res: Response) {
+  return sendError(res, 404, 'session_not_found', 'Session not found');
+}
+
+// Rejects the request with a 400 before the handler runs if the body
+// doesn't match the schema. A missing body is treated as {}.
+export function validateBody(schema: Schema): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.body === undefined) req.body = {};
+    const error = validate(schema, req.body);
+    if (error) {
+      sendError(res, 400, 'validation_failed', error.message, error.field);
+      return;
+    }
+    next();
+  };
+}
+
+// Last middleware in the app: malformed JSON and anything a route didn't catch
+export const apiErrorHandler: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  if (err?.type === 'entity.parse.failed') {
+    sendError(res, 400, 'invalid_json', 'Request body is not valid JSON');
+    return;
+  }
+  if (err?.type === 'entity.too.large') {
+    sendError(res, 413, 'payload_too_large', 'Request body is too large');
+    return;
+  }
+  console.error('[API] Unhandled error:', err);
+  sendError(res, 500, 'internal_error', 'Internal server error');
+};
@@ -0,0 +1,94 @@
+/**
+ * Auth API Routes + Middleware
+ *
+ * POST /api/auth/token issues an app token for an install. When Apple
+ * DeviceCheck is configured the install must prove it's a genuine device
+ * with a DeviceCheck token; otherwise tokens are issued freely in local
+ * dev and refused in production (anyone could mint one). An install that
+ * already has a token only gets another by sending it (see claimInstall).
+ *
+ * requireAuth guards the session routers; checkSessionOwner makes sure
+ * a session is only driven by the caller that created it.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, canIssueTokens, claimInstall, issueAppToken, requiresDeviceCheck, Principal } from '../services/appAuth';
+import { isDeviceCheckConfigured, validateDeviceToken } from './deviceCheckApi';
+import { sendError, validateBody } from './apiError';
+import { issueTokenSchema } from '../validation/requestSchemas';
+
+const router = Router();
+
+// ============================================
+// MIDDLEWARE
+// ============================================
+
+// Resolves the caller from the Authorization / X-API-Key headers and
+// rejects the request with a 401 if auth is on and they're missing or invalid
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const principal = authenticate({
+    authorization: req.get('authorization'),
+    apiKey: req.get('x-api-key'),
+  });
+  if (!principal) {
+    sendError(res, 401, 'unauthorized', 'Missing or invalid credentials');
+    return;
+  }
+  res.locals.principal = principal;
+  next();
+}
+
+// Registry entry for session kinds that don't carry their own owner
+export interface OwnedSession<T> {
+  session: T;
+  ownerId: string;
+}
+
+// The caller resolved by requireAuth
+export function getPrincipal(res: Response): Principal {
+  return res.locals.principal as Principal;
+}
+
+// Sends a 403 and returns false if the session belongs to someone else
+export function checkSessionOwner(res: Response, ownerId: string | undefined): boolean {
+  if (ownerId !== undefined && ownerId !== getPrincipal(res).id) {
+    sendError(res, 403, 'forbidden', 'Session belongs to another client');
+    return false;
+  }
+  return true;
+}
+
+// ============================================
+// ISSUE APP TOKEN
+// ============================================
+
+router.post('/token', validateBody(issueTokenSchema), async (req: Request, res: Response) => {
+  if (!canIssueTokens()) {
+    return sendError(res, 503, 'not_configured', 'App tokens are not enabled on this server');
+  }
+
+  const { installId, device_token } = req.body;
+
+  if (!isDeviceCheckConfigured() && requiresDeviceCheck()) {
+    return sendError(res, 503, 'not_configured', 'App tokens need DeviceCheck, which is not configured on this server');
+  }
+
+  if (isDeviceCheckConfigured()) {
+    if (!device_token) {
+      return sendError(res, 400, 'validation_failed', 'device_token is required', 'device_token');
+    }
+    if (!(await validateDeviceToken(device_token))) {
+      return sendError(res, 401, 'unauthorized', 'Device token was rejected by DeviceCheck', 'device_token');
+    }
+  }
+
+  if (!claimInstall(installId, req.get('authorization'))) {
+    return sendError(res, 403, 'forbidden', 'installId already has a token - send it as a Bearer token to renew', 'installId');
+  }
+
+  const issued = issueAppToken(installId);
+  console.log(`[Auth] Issued app token for install ${installId.substring(0, 8)}...`);
+  res.json(issued);
+});
+
+export default router;
@@ -5,43 +5,70 @@
  * This allows comparing with the Realtime API version.
  */
 
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { WebSocket } from 'ws';
 import {
-  initOpenAI,
   createChainedSession,
   generateGreeting,
   processUserAudio,
   handleSilence,
   ChainedSession,
 } from '../services/chainedSession';
+import { createSessionRegistry } from '../services/sessionRegistry';
 import { getPersona } from '../config/personas';
+import { sendError, sendSessionNotFound, validateBody } from './apiError';
+import { OwnedSession, checkSessionOwner, getPrincipal } from './authApi';
+import { sendRouteError } from './usageLimits';
+import { setUsageSession } from '../services/usageBudget';
+import { resolveUserLocale, formatTime } from '../services/userLocale';
+import { getLanguage } from '../config/languages';
+import { CalendarImportError, calendarContextText } from '../services/calendarImport';
+import { createChainedSessionSchema, respondAudioSchema } from '../validation/requestSchemas';
 
 const router = Router();
 
 // Store active chained sessions
-const chainedSessions = new Map<string, ChainedSession>();
-
-/**
- * Initialize the chained API with OpenAI key
- */
-export function initChainedApi(apiKey: string) {
-  initOpenAI(apiKey);
+const chainedSessions = createSessionRegistry<OwnedSession<ChainedSession>>('chained');
+
+// Look up a session the caller owns. Sends the 404/403 and returns
+// undefined if it doesn't exist or belongs to another client.
+function findOwnedSession(id: string, res: Response): ChainedSession | undefined {
+  const entry = chainedSessions.get(id);
+  if (!entry) {
+    sendSessionNotFound(res);
+    return undefined;
+  }
+  if (!checkSessionOwner(res, entry.ownerId)) return undefined;
+  setUsageSession(id);
+  return entry.session;
 }
 
 /**
  * POST /api/chained/session
  * Create a new chained session
  */
-router.post('/session', async (req, res) => {
+router.post('/session', validateBody(createChainedSessionSchema), async (req, res) => {
   try {
-    const { personaId, voiceId, preferences, context } = req.body;
+    const { personaId, voiceId, preferences, context, timeZone, locale, units, language } = req.body;
 
     const persona = getPersona(personaId);
+    const userLocale = resolveUserLocale({ timeZone, locale, units, language });
+
+    let calendar: string;
+    try {
+      calendar = await calendarContextText(context, userLocale);
+    } catch (calendarError) {
+      if (calendarError instanceof CalendarImportError) {
+        sendError(res, 400, 'validation_failed', calendarError.message, 'context.calendarIcs');
+        return;
+      }
+      throw calendarError;
+    }
 
     const session = createChainedSession({
       persona,
-      voiceId: voiceId || 'soft-female',
+      voiceId: voiceId || getLanguage(userLocale.language).defaultVoice || 'soft-female',
+      userLocale,
       preferences: {
         includeNews: preferences?.includeNews ?? persona.defaults.includeNews,
         includeWeather: preferences?.includeWeather ?? persona.defaults.includeWeather,
@@ -50,17 +77,13 @@ router.post('/session', async (req, res) => {
       },
       context: {
         weather: context?.weather || 'Weather information not available.',
-        calendar: context?.calendar || 'No calendar events for today.',
+        calendar,
         news: context?.news || '',
-        currentTime: new Date().toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true,
-        }),
+        currentTime: formatTime(new Date(), userLocale),
       },
     });
 
-    chainedSessions.set(session.id, session);
+    chainedSessions.set(session.id, { session, ownerId: getPrincipal(res).id });
 
     console.log(`[Chained API] Session created: ${session.id}`);
 
@@ -70,7 +93,7 @@ router.post('/session', async (req, res) => {
     });
   } catch (error) {
     console.error('[Chained API] Failed to create session:', error);
-    res.status(500).json({ error: 'Failed to create session' });
+    sendError(res, 500, 'internal_error', 'Failed to create session');
   }
 });
 
@@ -80,10 +103,8 @@ router.post('/session', async (req, res) => {
  */
 router.post('/session/:id/greeting', async (req, res) => {
   try {
-    const session = chainedSessions.get(req.params.id);
-    if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+    const session = findOwnedSession(req.params.id as string, res);
+    if (!session) return;
 
     const result = await generateGreeting(session);
 
@@ -94,7 +115,7 @@ router.post('/session/:id/greeting', async (req, res) => {
     });
   } catch (error) {
     console.error('[Chained API] Failed to generate greeting:', error);
-    res.status(500).json({ error: 'Failed to generate greeting' });
+    sendRouteError(res, error, 'Failed to generate greeting');
   }
 });
 
@@ -103,18 +124,12 @@ router.post('/session/:id/greeting', async (req, res) => {
  * Process user audio and generate response
  * Body: { audio: base64 encoded audio }
  */
-router.post('/session/:id/respond', async (req, res) => {
+router.post('/session/:id/respond', validateBody(respondAudioSchema), async (req, res) => {
   try {
-    const session = chainedSessions.get(req.params.id);
-    if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+    const session = findOwnedSession(req.params.id as string, res);
+    if (!session) return;
 
     const { audio } = req.body;
-    if (!audio) {
-      return res.status(400).json({ error: 'Audio data required' });
-    }
-
     const audioBuffer = Buffer.from(audio, 'base64');
     const result = await processUserAudio(session, audioBuffer);
 
@@ -126,7 +141,7 @@ router.post('/session/:id/respond', async (req, res) => {
     });
   } catch (error) {
     console.error('[Chained API] Failed to process audio:', error);
-    res.status(500).json({ error: 'Failed to process audio' });
+    sendRouteError(res, error, 'Failed to process audio');
   }
 });
 
@@ -136,10 +151,8 @@ router.post('/session/:id/respond', async (req, res) => {
  */
 router.post('/session/:id/silence', async (req, res) => {
   try {
-    const session = chainedSessions.get(req.params.id);
-    if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+    const session = findOwnedSession(req.params.id as string, res);
+    if (!session) return;
 
     const result = await handleSilence(session);
 
@@ -150,7 +163,7 @@ router.post('/session/:id/silence', async (req, res) => {
     });
   } catch (error) {
     console.error('[Chained API] Failed to handle silence:', error);
-    res.status(500).json({ error: 'Failed to handle silence' });
+    sendRouteError(res, error, 'Failed to handle silence');
   }
 });
 
@@ -159,10 +172,8 @@ router.post('/session/:id/silence', async (req, res) => {
  * Get current brain state
  */
 router.get('/session/:id/state', (req, res) => {
-  const session = chainedSessions.get(req.params.id);
-  if (!session) {
-    return res.status(404).json({ error: 'Session not found' });
-  }
+  const session = findOwnedSession(req.params.id as string, res);
+  if (!session) return;
 
   res.json({
     brainState: session.brain.getState(),
@@ -175,6 +186,8 @@ router.get('/session/:id/state', (req, res) => {
  * End a session
  */
 router.delete('/session/:id', (req, res) => {
+  const entry = chainedSessions.get(req.params.id);
+  if (entry && !checkSessionOwner(res, entry.ownerId)) return;
   const deleted = chainedSessions.delete(req.params.id);
   res.json({ success: deleted });
 });
@@ -3,6 +3,8 @@ import crypto from 'crypto';
 import fetch from 'node-fetch';
 import jwt from 'jsonwebtoken';
 import fs from 'fs';
+import { sendError, validateBody } from './apiError';
+import { deviceStatusSchema, deviceUpdateSchema } from '../validation/requestSchemas';
 
 const router = express.Router();
 
@@ -92,6 +94,45 @@ async function queryAppleDeviceCheck(deviceToken: string): Promise<{ bit0: boole
   }
 }
 
+/**
+ * Whether Apple DeviceCheck credentials are configured
+ */
+export function isDeviceCheckConfigured(): boolean {
+  return Boolean(APPLE_TEAM_ID && DEVICECHECK_KEY_ID && (DEVICECHECK_PRIVATE_KEY || DEVICECHECK_PRIVATE_KEY_PATH));
+}
+
+/**
+ * Ask Apple whether a device token came from a genuine device running our app
+ */
+export async function validateDeviceToken(deviceToken: string): Promise<boolean> {
+  try {
+    const jwtToken = generateDeviceCheckJWT();
+
+    const response = await fetch(`${DEVICECHECK_API_URL}/validate_device_token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${jwtToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        device_token: deviceToken,
+        transaction_id: crypto.randomUUID(),
+        timestamp: Date.now(),
+      }),
+    });
+
+    if (!response.ok) {
+      console.error('[DeviceCheck] Apple validation error:', await response.text());
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[DeviceCheck] Failed to validate with Apple:', error);
+    return false;
+  }
+}
+
 /**
  * Update Apple DeviceCheck bits (optional, for backup storage)
  */
@@ -136,14 +177,10 @@ async function updateAppleDeviceCheck(deviceToken: string, sessionsUsed: number)
  * POST /device/status
  * Query device's free session count
  */
-router.post('/status', async (req: Request, res: Response) => {
+router.post('/status', validateBody(deviceStatusSchema), async (req: Request, res: Response) => {
   try {
     const { device_token } = req.body;
 
-    if (!device_token) {
-      return res.status(400).json({ error: 'device_token required' });
-    }
-
     // Hash the device token for storage
     const deviceHash = hashDeviceToken(device_token);
 
@@ -158,7 +195,7 @@ router.post('/status', async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('[DeviceCheck] Status error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    sendError(res, 500, 'internal_error', 'Internal server error');
   }
 });
 
@@ -166,14 +203,10 @@ router.post('/status', async (req: Request, res: Response) => {
  * POST /device/update
  * Increment device's free session counter
  */
-router.post('/update', async (req: Request, res: Response) => {
+router.post('/update', validateBody(deviceUpdateSchema), async (req: Request, res: Response) => {
   try {
     const { device_token, increment_session } = req.body;
 
-    if (!device_token) {
-      return res.status(400).json({ error: 'device_token required' });
-    }
-
     // Hash the device token
     const deviceHash = hashDeviceToken(device_token);
 
@@ -201,7 +234,7 @@ router.post('/update', async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('[DeviceCheck] Update error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    sendError(res, 500, 'internal_error', 'Internal server error');
   }
 });
 
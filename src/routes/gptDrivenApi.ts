@@ -4,52 +4,75 @@
  * REST endpoints for the GPT-driven (no state machine) approach.
  */
 
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import {
-  initGptDriven,
   createGptDrivenSession,
   generateGreeting,
   processUserAudio,
   handleSilence,
   GptDrivenSession,
 } from '../services/gptDrivenSession';
+import { createSessionRegistry } from '../services/sessionRegistry';
+import { sendError, sendSessionNotFound, validateBody } from './apiError';
+import { OwnedSession, checkSessionOwner, getPrincipal } from './authApi';
+import { sendRouteError } from './usageLimits';
+import { setUsageSession } from '../services/usageBudget';
+import { resolveUserLocale, formatTime } from '../services/userLocale';
+import { getLanguage } from '../config/languages';
+import { CalendarImportError, calendarContextText } from '../services/calendarImport';
+import { createGptDrivenSessionSchema, respondAudioSchema } from '../validation/requestSchemas';
 
 const router = Router();
 
 // Store active sessions
-const gptSessions = new Map<string, GptDrivenSession>();
-
-/**
- * Initialize the GPT-driven API with OpenAI key
- */
-export function initGptDrivenApi(apiKey: string) {
-  initGptDriven(apiKey);
+const gptSessions = createSessionRegistry<OwnedSession<GptDrivenSession>>('gpt-driven');
+
+// Look up a session the caller owns. Sends the 404/403 and returns
+// undefined if it doesn't exist or belongs to another client.
+function findOwnedSession(id: string, res: Response): GptDrivenSession | undefined {
+  const entry = gptSessions.get(id);
+  if (!entry) {
+    sendSessionNotFound(res);
+    return undefined;
+  }
+  if (!checkSessionOwner(res, entry.ownerId)) return undefined;
+  setUsageSession(id);
+  return entry.session;
 }
 
 /**
  * POST /api/gpt-driven/session
  * Create a new GPT-driven session
  */
-router.post('/session', async (req, res) => {
+router.post('/session', validateBody(createGptDrivenSessionSchema), async (req, res) => {
   try {
-    const { personaId, voiceId, context } = req.body;
+    const { personaId, voiceId, context, timeZone, locale, units, language } = req.body;
+    const userLocale = resolveUserLocale({ timeZone, locale, units, language });
+
+    let calendar: string;
+    try {
+      calendar = await calendarContextText(context, userLocale);
+    } catch (calendarError) {
+      if (calendarError instanceof CalendarImportError) {
+        sendError(res, 400, 'validation_failed', calendarError.message, 'context.calendarIcs');
+        return;
+      }
+      throw calendarError;
+    }
 
     const session = createGptDrivenSession({
       personaId: personaId || 'zen-guide',
-      voiceId: voiceId || 'soft-female',
+      voiceId: voiceId || getLanguage(userLocale.language).defaultVoice || 'soft-female',
+      userLocale,
       context: {
         weather: context?.weather || 'Weather information not available.',
-        calendar: context?.calendar || 'No calendar events for today.',
+        calendar,
         news: context?.news || '',
-        currentTime: new Date().toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true,
-        }),
+        currentTime: formatTime(new Date(), userLocale),
       },
     });
 
-    gptSessions.set(session.id, session);
+    gptSessions.set(session.id, { session, ownerId: getPrincipal(res).id });
 
     console.log(`[GPT-Driven API] Session created: ${session.id}`);
 
@@ -59,7 +82,7 @@ router.post('/session', async (req, res) => {
     });
   } catch (error) {
     console.error('[GPT-Driven API] Failed to create session:', error);
-    res.status(500).json({ error: 'Failed to create session' });
+    sendError(res, 500, 'internal_error', 'Failed to create session');
   }
 });
 
@@ -69,10 +92,8 @@ router.post('/session', async (req, res) => {
  */
 router.post('/session/:id/greeting', async (req, res) => {
   try {
-    const session = gptSessions.get(req.params.id);
-    if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+    const session = findOwnedSession(req.params.id as string, res);
+    if (!session) return;
 
     const result = await generateGreeting(session);
 
@@ -82,7 +103,7 @@ router.post('/session/:id/greeting', async (req, res) => {
     });
   } catch (error) {
     console.error('[GPT-Driven API] Failed to generate greeting:', error);
-    res.status(500).json({ error: 'Failed to generate greeting' });
+    sendRouteError(res, error, 'Failed to generate greeting');
   }
 });
 
@@ -90,18 +111,12 @@ router.post('/session/:id/greeting', async (req, res) => {
  * POST /api/gpt-driven/session/:id/respond
  * Process user audio and generate response
  */
-router.post('/session/:id/respond', async (req, res) => {
+router.post('/session/:id/respond', validateBody(respondAudioSchema), async (req, res) => {
   try {
-    const session = gptSessions.get(req.params.id);
-    if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+    const session = findOwnedSession(req.params.id as string, res);
+    if (!session) return;
 
     const { audio } = req.body;
-    if (!audio) {
-      return res.status(400).json({ error: 'Audio data required' });
-    }
-
     const audioBuffer = Buffer.from(audio, 'base64');
     const result = await processUserAudio(session, audioBuffer);
 
@@ -112,7 +127,7 @@ router.post('/session/:id/respond', async (req, res) => {
     });
   } catch (error) {
     console.error('[GPT-Driven API] Failed to process audio:', error);
-    res.status(500).json({ error: 'Failed to process audio' });
+    sendRouteError(res, error, 'Failed to process audio');
   }
 });
 
@@ -122,10 +137,8 @@ router.post('/session/:id/respond', async (req, res) => {
  */
 router.post('/session/:id/silence', async (req, res) => {
   try {
-    const session = gptSessions.get(req.params.id);
-    if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+    const session = findOwnedSession(req.params.id as string, res);
+    if (!session) return;
 
     const result = await handleSilence(session);
 
@@ -135,7 +148,7 @@ router.post('/session/:id/silence', async (req, res) => {
     });
   } catch (error) {
     console.error('[GPT-Driven API] Failed to handle silence:', error);
-    res.status(500).json({ error: 'Failed to handle silence' });
+    sendRouteError(res, error, 'Failed to handle silence');
   }
 });
 
@@ -144,10 +157,8 @@ router.post('/session/:id/silence', async (req, res) => {
  * Get current session state
  */
 router.get('/session/:id/state', (req, res) => {
-  const session = gptSessions.get(req.params.id);
-  if (!session) {
-    return res.status(404).json({ error: 'Session not found' });
-  }
+  const session = findOwnedSession(req.params.id as string, res);
+  if (!session) return;
 
   res.json({
     turnCount: session.turnCount,
@@ -161,6 +172,8 @@ router.get('/session/:id/state', (req, res) => {
  * End a session
  */
 router.delete('/session/:id', (req, res) => {
+  const entry = gptSessions.get(req.params.id);
+  if (entry && !checkSessionOwner(res, entry.ownerId)) return;
   const deleted = gptSessions.delete(req.params.id);
   res.json({ success: deleted });
 });
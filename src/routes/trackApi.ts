@@ -6,91 +6,308 @@ import { Router, Request, Response } from 'express';
 import {
   TrackEngine,
   TrackConfig,
-  initTrackEngine,
   getDefaultSegmentOrder,
   WeatherData,
   CalendarEvent,
   NewsItem,
   SegmentConfig,
 } from '../services/trackEngine';
-import { initOpenAI } from '../services/chainedSession';
-import { getNewsThemes, fetchNewsHeadlines } from '../services/grokNews';
+import { textToSpeech } from '../services/chainedSession';
+import { getNewsThemes, fetchNewsHeadlines, NewsResult } from '../services/grokNews';
+import {
+  TrackSessionStore,
+  TrackSessionData,
+  TrackSessionSnapshot,
+  TrackSessionStoreOptions,
+  createTrackSessionStore,
+} from '../services/trackSessionStore';
+import { sendSessionNotFound, sendError, validateBody, errorBody } from './apiError';
+import { checkSessionOwner, getPrincipal } from './authApi';
+import { isBudgetExhausted, sendRouteError } from './usageLimits';
+import { setUsageSession } from '../services/usageBudget';
+import { getFactHistory } from '../services/factHistory';
+import { getWeatherProvider } from '../services/weatherProvider';
+import { UnitSystem, resolveUserLocale } from '../services/userLocale';
+import { getLanguage } from '../config/languages';
+import { planTrack } from '../services/trackPlanner';
+import { getCustomSegment } from '../services/segmentRegistry';
+import { findBackwardBranch } from '../services/segmentConditions';
+import { routineSeconds, selectRoutine } from '../config/stretchRoutines';
+import { patternSeconds, selectPattern } from '../config/breathingPatterns';
+import { MusicPlayback, MusicRequestError, resolveMusic } from '../services/musicProvider';
+import { CalendarImportError, importCalendar, rankEvents } from '../services/calendarImport';
+import { createTrackSessionSchema, trackAudioSchema } from '../validation/requestSchemas';
 
 const router = Router();
 
-// Store API keys for news fetching
-let grokApiKey: string | undefined;
+type NewsFetcher = (themes: string[], count: number) => Promise<NewsResult>;
+
+export interface TrackApiOptions {
+  grokApiKey?: string;
+  sessionStore?: Omit<TrackSessionStoreOptions, 'onRehydrate'>;
+  // Replaces Grok as the news source (tests use a local fake)
+  fetchNews?: NewsFetcher;
+}
+
+// News source (null when no Grok key is configured - news segment is skipped)
+let fetchNews: NewsFetcher | null = null;
 
-// Store active sessions with pre-generated greeting
-interface SessionData {
-  engine: TrackEngine;
-  greeting?: { text: string; audioBuffer: Buffer };
-  // News fetch that may still be in-flight (resolved when news segment is needed)
-  pendingNews?: Promise<NewsItem[] | undefined>;
+// Active sessions with pre-generated greeting (memory or file-backed)
+let sessions: TrackSessionStore = createTrackSessionStore();
+
+// Initialize the track API (the engine uses the shared LLM provider)
+export function initTrackApi(options: TrackApiOptions = {}) {
+  const { grokApiKey } = options;
+  fetchNews = options.fetchNews
+    || (grokApiKey ? (themes, count) => fetchNewsHeadlines(grokApiKey, themes, count) : null);
+  sessions = createTrackSessionStore({ ...options.sessionStore, onRehydrate: rehydrateSession });
+}
+
+// Save a session after awaiting generation, TTS or a fetch - unless it was
+// ended (DELETE) or expired in the meantime, which saving would undo
+async function saveIfLive(id: string, sessionData: TrackSessionData): Promise<void> {
+  if (await sessions.get(id) === sessionData) {
+    await sessions.save(id, sessionData);
+  }
 }
-const sessions = new Map<string, SessionData>();
-
-// Initialize the track engine with API keys
-export function initTrackApi(openaiKey: string, grokKey?: string) {
-  initTrackEngine(openaiKey);
-  // Also init the chainedSession's OpenAI client since trackEngine uses its TTS/transcribe
-  initOpenAI(openaiKey);
-  // Store Grok key for news fetching
-  grokApiKey = grokKey;
+
+// Kick off a background news fetch. The engine is updated (and the session
+// re-saved) once headlines arrive.
+function startNewsFetch(sessionId: string, sessionData: TrackSessionData, newsThemes: string[]): Promise<NewsItem[] | undefined> {
+  const newsStartTime = Date.now();
+  return fetchNews!(newsThemes, 3)
+    .then(async newsResult => {
+      const newsFetchTime = Date.now() - newsStartTime;
+      const newsItems: NewsItem[] = newsResult.headlines.map(h => ({
+        headline: h.title,
+        summary: h.title,
+        theme: h.category || newsThemes[0],
+      }));
+      console.log(`[TrackAPI] ⏱️ News fetch completed in background: ${newsFetchTime}ms (${newsItems.length} items from ${newsResult.source})`);
+      // Update the engine's news data now that it's available
+      sessionData.engine.setNews(newsItems);
+      await saveIfLive(sessionId, sessionData);
+      return newsItems;
+    })
+    .catch(newsError => {
+      console.error('[TrackAPI] Failed to fetch news:', newsError);
+      return undefined;
+    });
+}
+
+// Look up the forecast for a session that sent a location instead of
+// weather. Failures are logged and the session goes on without weather,
+// same as a client that sent none.
+async function fetchWeather(location: { latitude: number; longitude: number }, units: UnitSystem): Promise<WeatherData | undefined> {
+  const provider = getWeatherProvider();
+  if (!provider) return undefined;
+
+  const weatherStart = Date.now();
+  try {
+    const weather = await provider.getForecast({ ...location, units });
+    console.log(`[TrackAPI] ⏱️ Weather fetch (${provider.name}) completed in ${Date.now() - weatherStart}ms`);
+    return weather;
+  } catch (weatherError) {
+    console.error('[TrackAPI] Failed to fetch weather:', weatherError);
+    return undefined;
+  }
+}
+
+// Restore what a snapshot can't hold: the unplayed greeting audio and the
+// news fetch that was still running when the process went down.
+async function rehydrateSession(sessionData: TrackSessionData, snapshot: TrackSessionSnapshot) {
+  const { config, state } = snapshot.engine;
+
+  if (snapshot.greetingText) {
+    try {
+      const audioBuffer = await textToSpeech(snapshot.greetingText, config.voiceId);
+      sessionData.greeting = { text: snapshot.greetingText, audioBuffer };
+    } catch (error) {
+      // /start falls back to generating a fresh greeting
+      console.error(`[TrackAPI] Failed to regenerate greeting audio for ${state.sessionId}:`, error);
+    }
+  }
+
+  const needsNews = config.newsThemes && config.newsThemes.length > 0 && fetchNews
+    && (!config.news || config.news.length === 0)
+    && sessionData.engine.hasUpcomingSegment('news');
+  if (needsNews) {
+    console.log(`[TrackAPI] Restarting news fetch for rehydrated session ${state.sessionId}`);
+    sessionData.pendingNews = startNewsFetch(state.sessionId, sessionData, config.newsThemes!);
+  }
+}
+
+// If news is still loading and the next segment might need it, wait now.
+// The news fetch runs in the background during earlier segments; by the
+// time the news segment is reached it's almost always already done.
+// We check both the next segment and the one after (conversation mode
+// exit can skip to the segment after next).
+async function waitForNewsIfNeeded(sessionData: TrackSessionData) {
+  if (!sessionData.pendingNews) return;
+
+  const nextSeg = sessionData.engine.peekNextSegment(true);
+  const currentSeg = sessionData.engine.getCurrentSegment();
+  if (currentSeg?.type === 'news' || nextSeg?.type === 'news') {
+    console.log(`[TrackAPI] ⏳ News segment approaching — waiting for background fetch...`);
+    await sessionData.pendingNews;
+    sessionData.pendingNews = undefined; // Already resolved, clean up
+    console.log(`[TrackAPI] ✅ News data ready`);
+  }
+}
+
+// Look up a session the caller owns. Sends the 404/403 and returns
+// undefined if it doesn't exist or belongs to another client.
+async function findOwnedSession(id: string, res: Response): Promise<TrackSessionData | undefined> {
+  const sessionData = await sessions.get(id);
+  if (!sessionData) {
+    sendSessionNotFound(res);
+    return undefined;
+  }
+  if (!checkSessionOwner(res, sessionData.ownerId)) return undefined;
+  setUsageSession(id);
+  return sessionData;
+}
+
+// When the usage budget runs out mid-track, end the track so the client
+// sees isComplete instead of retrying, then report the 402. Anything else
+// is a 500.
+async function sendSegmentError(res: Response, id: string, sessionData: TrackSessionData, error: unknown, message: string) {
+  if (isBudgetExhausted(error)) {
+    sessionData.engine.endTrack('usage budget exhausted');
+    await saveIfLive(id, sessionData);
+  }
+  sendRouteError(res, error, message);
 }
 
 // ============================================
 // CREATE SESSION
 // ============================================
 
-router.post('/session', async (req: Request, res: Response) => {
+router.post('/session', validateBody(createTrackSessionSchema), async (req: Request, res: Response) => {
   const overallStart = Date.now();
   console.log(`[TrackAPI] ⏱️ POST /session - Request received`);
 
   try {
     const {
       personaId = 'morning-coach',
-      voiceId = 'alloy',
+      voiceId,
       userName = 'friend',
       segmentOrder,
+      segments,
       weather,
+      location,
+      timeZone,
+      locale,
+      units,
+      language,
       calendar,
+      calendarIcs,
+      calendarUrl,
       news,
       facts,
       newsThemes,
+      prepMinutes,
+      commuteMinutes,
+      targetDurationSeconds,
+      fitnessLevel,
+      breathingPattern,
+      ambientScene,
+      ambientSeconds,
+      musicProvider,
       spotifyPlaylistId,
+      spotifyPlaylistName,
+      localTrackId,
     } = req.body;
 
     // Convert segmentOrder from string[] to SegmentConfig[]
     // iOS client sends: ["greeting", "weather", "calendar"]
     // TrackEngine expects: [{type: "greeting", enabled: true}, ...]
-    let segments = getDefaultSegmentOrder();
-    if (segmentOrder && Array.isArray(segmentOrder)) {
-      segments = segmentOrder.map((type: string) => ({
-        type: type as any,
+    // (entries were already checked against the registered types by the schema).
+    // `segments` carries full configs with conditions and branches instead.
+    // The planner fits either to targetDurationSeconds when one is sent.
+    let requestedOrder = getDefaultSegmentOrder();
+    if (segments) {
+      const backward = findBackwardBranch(segments);
+      if (backward) {
+        return sendError(res, 400, 'validation_failed', backward.message, backward.field);
+      }
+      requestedOrder = (segments as Omit<SegmentConfig, 'enabled'>[]).map(segment => ({ ...segment, enabled: true }));
+    } else if (segmentOrder) {
+      requestedOrder = (segmentOrder as SegmentConfig['type'][]).map(type => ({
+        type,
         enabled: true,
       }));
     }
+    // News and calendar segments (and custom types that require them) with
+    // no way of getting data are skipped when reached, so don't budget time for them
+    const needs = (type: string, data: 'news' | 'calendar') =>
+      type === data || Boolean(getCustomSegment(type)?.requires?.includes(data));
+    const canHaveData = ({ type }: SegmentConfig) =>
+      (!needs(type, 'news') || Boolean(news?.length || (newsThemes?.length && fetchNews)))
+      && (!needs(type, 'calendar') || Boolean(calendar?.length || calendarIcs || calendarUrl));
+    const { plan, segmentOrder: plannedOrder } = planTrack(requestedOrder.filter(canHaveData), targetDurationSeconds, {
+      stretching: routineSeconds(selectRoutine(personaId, fitnessLevel)),
+      breathing: patternSeconds(selectPattern(personaId, breathingPattern)),
+    });
+    if (plan.dropped.length > 0) {
+      console.log(`[TrackAPI] 📋 Dropped to fit ${targetDurationSeconds}s: ${plan.dropped.join(', ')}`);
+    }
 
     console.log(`[TrackAPI] 📋 Received segmentOrder:`, segmentOrder);
-    console.log(`[TrackAPI] 📋 Converted segments:`, segments.map((s, i) => `[${i}] ${s.type}`).join(', '));
+    console.log(`[TrackAPI] 📋 Converted segments:`, plannedOrder.map((s, i) => `[${i}] ${s.type}`).join(', '));
 
     const step1Time = Date.now() - overallStart;
     console.log(`[TrackAPI] ⏱️ Step 1 (Parse request): ${step1Time}ms`);
 
+    const userLocale = resolveUserLocale({ timeZone, locale, units, language });
+
+    // An uploaded .ics is parsed right away (and rejected if it isn't one)
+    let importedCalendar: CalendarEvent[] | undefined;
+    if (calendarIcs) {
+      try {
+        importedCalendar = await importCalendar({ calendarIcs }, userLocale);
+      } catch (calendarError) {
+        if (calendarError instanceof CalendarImportError) {
+          sendError(res, 400, 'validation_failed', calendarError.message, 'calendarIcs');
+          return;
+        }
+        throw calendarError;
+      }
+    }
+
+    // What the music segment hands off to (a bad playlist or track id is a 400)
+    let music: MusicPlayback | null;
+    try {
+      music = resolveMusic({ personaId, musicProvider, spotifyPlaylistId, spotifyPlaylistName, localTrackId });
+    } catch (musicError) {
+      if (musicError instanceof MusicRequestError) {
+        sendError(res, 400, 'validation_failed', musicError.message, musicError.field);
+        return;
+      }
+      throw musicError;
+    }
+
     // Create engine immediately (without news — news will load in background)
     const engineStart = Date.now();
     const config: TrackConfig = {
       personaId,
-      voiceId,
+      voiceId: voiceId || getLanguage(userLocale.language).defaultVoice || 'alloy',
       userName,
-      segmentOrder: segments,
+      segmentOrder: plannedOrder,
       weather,
-      calendar,
+      calendar: importedCalendar || (calendar && rankEvents(calendar)),
       news: news,  // Use provided news (if any)
       facts,
+      userId: getPrincipal(res).id,
+      userLocale,
+      prepMinutes,
+      commuteMinutes,
+      fitnessLevel,
+      breathingPattern,
       newsThemes,
-      spotifyPlaylistId,
+      music: music || undefined,
+      ambientScene,
+      ambientSeconds,
     };
 
     const engine = new TrackEngine(config);
@@ -98,46 +315,50 @@ router.post('/session', async (req: Request, res: Response) => {
     console.log(`[TrackAPI] ⏱️ Step 2 (Create engine): ${Date.now() - engineStart}ms`);
 
     console.log(`[TrackAPI] Created session ${state.sessionId} with persona ${personaId}`);
+    setUsageSession(state.sessionId);
 
     // Start greeting generation immediately (don't wait for anything)
     const greetingStart = Date.now();
     const greetingPromise = engine.generateSegmentContent();
     console.log(`[TrackAPI] ⏱️ Greeting generation started`);
 
+    // Fetch the forecast alongside the greeting when the app only sent a
+    // location. Weather usually plays right after the greeting, so unlike
+    // news this is waited for before the next segment is pre-generated.
+    const weatherPromise = !weather && location && engine.hasUpcomingSegment('weather')
+      ? fetchWeather(location, userLocale.units)
+      : Promise.resolve(undefined);
+
+    // Same for a calendar feed - it has to be in before the calendar
+    // segment is reached, and the fetch is usually quick
+    const calendarPromise = !calendarIcs && calendarUrl && engine.hasUpcomingSegment('calendar')
+      ? importCalendar({ calendarUrl }, userLocale)
+      : Promise.resolve(undefined);
+
+    const sessionData: TrackSessionData = { engine, ownerId: getPrincipal(res).id };
+
     // Start news fetch in background (only if needed) — DON'T await it here.
     // The news segment won't be reached for 2+ minutes of playback, so we
     // let the fetch run while the user is listening to earlier segments.
-    const newsStartTime = Date.now();
-    const pendingNews: Promise<NewsItem[] | undefined> = (newsThemes && newsThemes.length > 0 && grokApiKey && !news)
-      ? fetchNewsHeadlines(grokApiKey, newsThemes, 3)
-          .then(newsResult => {
-            const newsFetchTime = Date.now() - newsStartTime;
-            const newsItems: NewsItem[] = newsResult.headlines.map(h => ({
-              headline: h.title,
-              summary: h.title,
-              theme: h.category || newsThemes[0],
-            }));
-            console.log(`[TrackAPI] ⏱️ News fetch completed in background: ${newsFetchTime}ms (${newsItems.length} items from ${newsResult.source})`);
-            // Update the engine's news data now that it's available
-            engine.setNews(newsItems);
-            return newsItems;
-          })
-          .catch(newsError => {
-            console.error('[TrackAPI] Failed to fetch news:', newsError);
-            return undefined;
-          })
-      : Promise.resolve(undefined);
-    console.log(`[TrackAPI] ⏱️ News fetch kicked off in background (not blocking response)`);
+    if (newsThemes && newsThemes.length > 0 && fetchNews && !news) {
+      sessionData.pendingNews = startNewsFetch(state.sessionId, sessionData, newsThemes);
+      console.log(`[TrackAPI] ⏱️ News fetch kicked off in background (not blocking response)`);
+    }
 
-    // Only wait for the greeting — news loads in background
-    const greeting = await greetingPromise;
+    // Wait for the greeting (and fetched weather/calendar) — news loads in background
+    sessionData.greeting = await greetingPromise;
     console.log(`[TrackAPI] ⏱️ Step 3 (Greeting only): ${Date.now() - greetingStart}ms`);
 
-    sessions.set(state.sessionId, {
-      engine,
-      greeting,
-      pendingNews,
-    });
+    const fetchedWeather = await weatherPromise;
+    if (fetchedWeather) engine.setWeather(fetchedWeather);
+
+    const feedCalendar = await calendarPromise;
+    if (feedCalendar) engine.setCalendar(feedCalendar);
+
+    await sessions.save(state.sessionId, sessionData);
+
+    // Start on the segment after the greeting while the client plays it
+    engine.pregenerateNextSegment();
 
     const totalTime = Date.now() - overallStart;
     console.log(`[TrackAPI] ⏱️ TOTAL /session time: ${totalTime}ms (news still loading in background)`);
@@ -146,10 +367,11 @@ router.post('/session', async (req: Request, res: Response) => {
     res.json({
       sessionId: state.sessionId,
       currentSegment: engine.getCurrentSegment(),
+      plan,
     });
   } catch (error) {
     console.error('[TrackAPI] Error creating session:', error);
-    res.status(500).json({ error: 'Failed to create session' });
+    sendRouteError(res, error, 'Failed to create session');
   }
 });
 
@@ -157,12 +379,10 @@ router.post('/session', async (req: Request, res: Response) => {
 // GET SESSION STATE
 // ============================================
 
-router.get('/session/:id', (req: Request, res: Response) => {
+router.get('/session/:id', async (req: Request, res: Response) => {
   const id = req.params.id as string;
-  const sessionData = sessions.get(id);
-  if (!sessionData) {
-    return res.status(404).json({ error: 'Session not found' });
-  }
+  const sessionData = await findOwnedSession(id, res);
+  if (!sessionData) return;
 
   res.json({
     state: sessionData.engine.getState(),
@@ -176,34 +396,25 @@ router.get('/session/:id', (req: Request, res: Response) => {
 // ============================================
 
 router.post('/session/:id/next', async (req: Request, res: Response) => {
-  try {
-    const id = req.params.id as string;
-    const sessionData = sessions.get(id);
-    if (!sessionData) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+  const id = req.params.id as string;
+  const sessionData = await findOwnedSession(id, res);
+  if (!sessionData) return;
 
-    // If news is still loading and the next segment might need it, wait now.
-    // The news fetch runs in the background during earlier segments; by the
-    // time the news segment is reached it's almost always already done.
-    // We check both the next segment and the one after (conversation mode
-    // exit can skip to the segment after next).
-    if (sessionData.pendingNews) {
-      const nextSeg = sessionData.engine.peekNextSegment();
-      const currentSeg = sessionData.engine.getCurrentSegment();
-      if (currentSeg?.type === 'news' || nextSeg?.type === 'news') {
-        console.log(`[TrackAPI] ⏳ News segment approaching — waiting for background fetch...`);
-        await sessionData.pendingNews;
-        sessionData.pendingNews = undefined; // Already resolved, clean up
-        console.log(`[TrackAPI] ✅ News data ready`);
-      }
-    }
+  try {
+    await waitForNewsIfNeeded(sessionData);
 
     const result = await sessionData.engine.handleSilence();
+    await saveIfLive(id, sessionData);
+
+    // Generate the following segment while this one plays
+    sessionData.engine.pregenerateNextSegment();
 
     res.json({
       text: result.text,
       audio: result.audioBuffer.toString('base64'),
+      ...(result.clips && { clips: result.clips.map(({ audioBuffer, ...clip }) => ({ ...clip, audio: audioBuffer.toString('base64') })) }),
+      ...(result.cues && { cues: result.cues.map(({ audioBuffer, ...cue }) => ({ ...cue, audio: audioBuffer.toString('base64') })) }),
+      ...(result.music && { music: result.music }),
       action: result.action,
       currentSegment: sessionData.engine.getCurrentSegment(),
       isComplete: sessionData.engine.isComplete(),
@@ -211,7 +422,87 @@ router.post('/session/:id/next', async (req: Request, res: Response) => {
   } catch (error: any) {
     console.error('[TrackAPI] Error generating next segment:', error?.message || error);
     console.error('[TrackAPI] Stack:', error?.stack);
-    res.status(500).json({ error: 'Failed to generate segment', details: error?.message });
+    await sendSegmentError(res, id, sessionData, error, 'Failed to generate segment');
+  }
+});
+
+// ============================================
+// STREAM NEXT SEGMENT (SSE, called on silence)
+// ============================================
+// Same as /next, but the segment is delivered sentence by sentence so
+// playback can start before the whole segment is generated.
+//
+// Events:
+//   chunk: { index, text, audio }            (one per sentence, in order;
+//          the cues of a stretching routine add move, holdSeconds, restSeconds;
+//          breathing cues add phase, startsAtSeconds, durationSeconds)
+//   done:  { text, action, currentSegment, isComplete }  (+ music for the music segment)
+//   error: { error: { code, message } }
+
+router.post('/session/:id/next/stream', async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  const sessionData = await findOwnedSession(id, res);
+  if (!sessionData) return;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Stop generating (and paying for TTS) once the app hangs up
+  const disconnected = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) disconnected.abort();
+  });
+
+  try {
+    await waitForNewsIfNeeded(sessionData);
+
+    const streamStart = Date.now();
+    const result = await sessionData.engine.handleSilenceStreaming(chunk => {
+      if (chunk.index === 0) {
+        console.log(`[TrackAPI] ⏱️ First audio chunk after ${Date.now() - streamStart}ms`);
+      }
+      sendEvent('chunk', {
+        index: chunk.index,
+        text: chunk.text,
+        audio: chunk.audioBuffer.toString('base64'),
+        ...chunk.timing,
+      });
+    }, disconnected.signal);
+    await saveIfLive(id, sessionData);
+
+    sessionData.engine.pregenerateNextSegment();
+
+    sendEvent('done', {
+      text: result.text,
+      ...(result.music && { music: result.music }),
+      action: result.action,
+      currentSegment: sessionData.engine.getCurrentSegment(),
+      isComplete: sessionData.engine.isComplete(),
+    });
+  } catch (error: any) {
+    if (disconnected.signal.aborted) {
+      console.log(`[TrackAPI] Client left session ${id} mid-stream - stopped generating`);
+      await saveIfLive(id, sessionData);
+      return;
+    }
+    console.error('[TrackAPI] Error streaming next segment:', error?.message || error);
+    if (isBudgetExhausted(error)) {
+      sessionData.engine.endTrack('usage budget exhausted');
+      await saveIfLive(id, sessionData);
+      sendEvent('error', errorBody('budget_exhausted', error.message));
+    } else {
+      sendEvent('error', errorBody('internal_error', 'Failed to generate segment'));
+    }
+  } finally {
+    res.end();
   }
 });
 
@@ -223,13 +514,11 @@ router.post('/session/:id/start', async (req: Request, res: Response) => {
   const startTime = Date.now();
   console.log(`[TrackAPI] ⏱️ POST /start - Request received`);
 
-  try {
-    const id = req.params.id as string;
-    const sessionData = sessions.get(id);
-    if (!sessionData) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+  const id = req.params.id as string;
+  const sessionData = await findOwnedSession(id, res);
+  if (!sessionData) return;
 
+  try {
     // Return pre-generated greeting (cached during session creation)
     if (sessionData.greeting) {
       const encodeStart = Date.now();
@@ -247,12 +536,15 @@ router.post('/session/:id/start', async (req: Request, res: Response) => {
 
       // Clear cached greeting after use
       delete sessionData.greeting;
+      await saveIfLive(id, sessionData);
     } else {
       // Fallback: generate greeting on-demand (shouldn't happen normally)
       console.warn(`[TrackAPI] No cached greeting for session ${id}, generating on-demand`);
       const genStart = Date.now();
       const result = await sessionData.engine.generateSegmentContent();
       console.log(`[TrackAPI] ⏱️ On-demand generation: ${Date.now() - genStart}ms`);
+      await saveIfLive(id, sessionData);
+      sessionData.engine.pregenerateNextSegment();
 
       res.json({
         text: result.text,
@@ -265,7 +557,7 @@ router.post('/session/:id/start', async (req: Request, res: Response) => {
   } catch (error: any) {
     console.error('[TrackAPI] Error starting session:', error?.message || error);
     console.error('[TrackAPI] Stack:', error?.stack);
-    res.status(500).json({ error: 'Failed to start session', details: error?.message });
+    await sendSegmentError(res, id, sessionData, error, 'Failed to start session');
   }
 });
 
@@ -273,23 +565,18 @@ router.post('/session/:id/start', async (req: Request, res: Response) => {
 // HANDLE USER AUDIO
 // ============================================
 
-router.post('/session/:id/audio', async (req: Request, res: Response) => {
-  try {
-    const id = req.params.id as string;
-    const sessionData = sessions.get(id);
-    if (!sessionData) {
-      return res.status(404).json({ error: 'Session not found' });
-    }
+router.post('/session/:id/audio', validateBody(trackAudioSchema), async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  const sessionData = await findOwnedSession(id, res);
+  if (!sessionData) return;
 
+  try {
     const { audio } = req.body;
-    if (!audio) {
-      return res.status(400).json({ error: 'No audio provided' });
-    }
-
     const audioBuffer = Buffer.from(audio, 'base64');
     console.log(`[TrackAPI] Received audio: ${audioBuffer.length} bytes`);
 
     const result = await sessionData.engine.handleUserSpeech(audioBuffer);
+    await saveIfLive(id, sessionData);
     console.log(`[TrackAPI] Speech result:`, result ? `transcript="${result.transcript}"` : 'no speech detected');
 
     if (!result) {
@@ -306,7 +593,7 @@ router.post('/session/:id/audio', async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('[TrackAPI] Error processing audio:', error);
-    res.status(500).json({ error: 'Failed to process audio' });
+    await sendSegmentError(res, id, sessionData, error, 'Failed to process audio');
   }
 });
 
@@ -314,14 +601,13 @@ router.post('/session/:id/audio', async (req: Request, res: Response) => {
 // MARK USER AS AWAKE
 // ============================================
 
-router.post('/session/:id/awake', (req: Request, res: Response) => {
+router.post('/session/:id/awake', async (req: Request, res: Response) => {
   const id = req.params.id as string;
-  const sessionData = sessions.get(id);
-  if (!sessionData) {
-    return res.status(404).json({ error: 'Session not found' });
-  }
+  const sessionData = await findOwnedSession(id, res);
+  if (!sessionData) return;
 
   sessionData.engine.markAwake();
+  await saveIfLive(id, sessionData);
 
   res.json({
     message: 'User marked as awake',
@@ -333,9 +619,11 @@ router.post('/session/:id/awake', (req: Request, res: Response) => {
 // END SESSION
 // ============================================
 
-router.delete('/session/:id', (req: Request, res: Response) => {
+router.delete('/session/:id', async (req: Request, res: Response) => {
   const id = req.params.id as string;
-  const deleted = sessions.delete(id);
+  const sessionData = await sessions.get(id);
+  if (sessionData && !checkSessionOwner(res, sessionData.ownerId)) return;
+  const deleted = await sessions.delete(id);
   res.json({ deleted });
 });
 
@@ -343,18 +631,31 @@ router.delete('/session/:id', (req: Request, res: Response) => {
 // GET SILENCE DURATION
 // ============================================
 
-router.get('/session/:id/silence-duration', (req: Request, res: Response) => {
+router.get('/session/:id/silence-duration', async (req: Request, res: Response) => {
   const id = req.params.id as string;
-  const sessionData = sessions.get(id);
-  if (!sessionData) {
-    return res.status(404).json({ error: 'Session not found' });
-  }
+  const sessionData = await findOwnedSession(id, res);
+  if (!sessionData) return;
 
   res.json({
     duration: sessionData.engine.getSilenceDuration(),
   });
 });
 
+// ============================================
+// FACT HISTORY (per user, across sessions)
+// ============================================
+
+router.get('/facts', async (req: Request, res: Response) => {
+  const facts = await getFactHistory().list(getPrincipal(res).id);
+  res.json({ facts });
+});
+
+// Lets a user hear facts they've already heard again
+router.delete('/facts', async (req: Request, res: Response) => {
+  const removed = await getFactHistory().reset(getPrincipal(res).id);
+  res.json({ removed });
+});
+
 // ============================================
 // GET NEWS THEMES (for onboarding)
 // ============================================
@@ -0,0 +1,51 @@
+/**
+ * Usage Limit Middleware
+ *
+ * Mounted after requireAuth on the session routers:
+ * - limitUsage counts the request against the caller's rate limit (429)
+ *   and charges any LLM/TTS work it triggers to the caller's budgets
+ * - sendRouteError turns a BudgetExhaustedError from a handler into a 402,
+ *   a TranscriptionError into a 502, anything else into a 500
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getPrincipal } from './authApi';
+import { sendError } from './apiError';
+import { consumeRequest } from '../services/rateLimiter';
+import { BudgetExhaustedError, runWithUsageContext } from '../services/usageBudget';
+import { TranscriptionError } from '../services/chainedSession';
+
+// Who limits and budgets are tracked against. With auth off everyone is
+// the same anonymous principal, so fall back to the client IP.
+function usageKey(req: Request, res: Response): string {
+  const principal = getPrincipal(res);
+  return principal.kind === 'anonymous' ? `anonymous:${req.ip}` : principal.id;
+}
+
+export function limitUsage(req: Request, res: Response, next: NextFunction) {
+  const key = usageKey(req, res);
+
+  const rate = consumeRequest(key);
+  if (!rate.allowed) {
+    res.set('Retry-After', String(rate.retryAfterSeconds));
+    sendError(res, 429, 'rate_limited', `Too many requests, retry in ${rate.retryAfterSeconds}s`);
+    return;
+  }
+
+  runWithUsageContext({ principalId: key }, next);
+}
+
+export function isBudgetExhausted(error: unknown): error is BudgetExhaustedError {
+  return error instanceof BudgetExhaustedError;
+}
+
+// Catch-all for session route handlers
+export function sendRouteError(res: Response, error: unknown, message: string) {
+  if (isBudgetExhausted(error)) {
+    return sendError(res, 402, 'budget_exhausted', error.message);
+  }
+  if (error instanceof TranscriptionError) {
+    return sendError(res, 502, 'transcription_failed', error.message);
+  }
+  return sendError(res, 500, 'internal_error', message);
+}
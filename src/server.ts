@@ -7,92 +7,132 @@
  * 3. Handles persona selection and session configuration
  */
 
-import express from 'express';
-import cors from 'cors';
 import { createServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-import path from 'path';
 import dotenv from 'dotenv';
 
-import { getPersona, getAllPersonas, Persona } from './config/personas';
+import { getPersona } from './config/personas';
 import {
   createRealtimeSession,
   sendAudio,
   triggerAgentResponse,
   endSession,
   RealtimeSession,
-  VOICE_OPTIONS,
 } from './services/realtimeSession';
 import { getNewsBriefing } from './services/grokNews';
 import { WakeSessionBrain } from './services/wakeSessionBrain';
-import chainedRouter, { initChainedApi } from './routes/chainedApi';
-import gptDrivenRouter, { initGptDrivenApi } from './routes/gptDrivenApi';
-import trackRouter, { initTrackApi } from './routes/trackApi';
-import deviceCheckRouter from './routes/deviceCheckApi';
+import { initTrackApi } from './routes/trackApi';
+import { createLLMProvider, initLLMProvider } from './services/llmProvider';
+import { startSessionSweeper } from './services/sessionRegistry';
+import { createApp } from './app';
+import { initAuth, authenticate } from './services/appAuth';
+import { isDeviceCheckConfigured } from './routes/deviceCheckApi';
+import { initRateLimiter, getDefaultRateLimitOptions } from './services/rateLimiter';
+import { initFactHistory, getDefaultFactHistoryOptions } from './services/factHistory';
+import { initFactLibrary, getDefaultFactLibraryOptions } from './services/factLibrary';
+import { initSegmentRegistry, getDefaultSegmentRegistryOptions } from './services/segmentRegistry';
+import { initUsageBudget, getDefaultUsageBudgetOptions, MeteredProvider } from './services/usageBudget';
+import { createWeatherProvider, initWeatherProvider } from './services/weatherProvider';
+import { getDefaultMusicLibraryOptions, initMusicLibrary } from './services/musicProvider';
+import { getDefaultAmbientOptions, initAmbientBeds } from './services/ambientMixer';
+import { CalendarImportError, calendarContextText, initCalendarFeeds } from './services/calendarImport';
+import { resolveUserLocale, formatTime } from './services/userLocale';
+import { validate } from './validation/schema';
+import { realtimeStartSchema } from './validation/requestSchemas';
 
 // Load environment variables
 dotenv.config();
 
 const PORT = process.env.PORT || 3000;
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const LLM_PROVIDER = process.env.LLM_PROVIDER === 'local' ? 'local' : 'openai';
 const GROK_API_KEY = process.env.GROK_API_KEY;
-
-if (!OPENAI_API_KEY) {
-  console.error('ERROR: OPENAI_API_KEY environment variable is required');
+const TRACK_SESSION_STORE = process.env.TRACK_SESSION_STORE === 'file' ? 'file' : 'memory';
+const TRACK_SESSION_DIR = process.env.TRACK_SESSION_DIR;
+const APP_TOKEN_SECRET = process.env.APP_TOKEN_SECRET;
+const DEV_API_KEY = process.env.DEV_API_KEY;
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+
+if (!OPENAI_API_KEY && LLM_PROVIDER === 'openai') {
+  console.error('ERROR: OPENAI_API_KEY environment variable is required (or set LLM_PROVIDER=local)');
   process.exit(1);
 }
 
-// Initialize Express app
-const app = express();
-app.use(cors());
-app.use(express.json({ limit: '10mb' }));  // Larger limit for audio data
+if (process.env.NODE_ENV === 'production' && !APP_TOKEN_SECRET) {
+  console.error('ERROR: APP_TOKEN_SECRET is required in production (session routes would be open to anyone)');
+  process.exit(1);
+}
 
-// Serve static files (web test page)
-app.use(express.static(path.join(__dirname, '../public')));
+// Session routes and /ws require an app token or the dev API key. In
+// production tokens are only issued to installs DeviceCheck vouches for.
+initAuth({
+  tokenSecret: APP_TOKEN_SECRET,
+  devApiKey: DEV_API_KEY,
+  tokenTtlSeconds: Number(process.env.APP_TOKEN_TTL_DAYS) * 24 * 60 * 60 || undefined,
+  requireDeviceCheck: process.env.NODE_ENV === 'production',
+  bindingsPath: process.env.INSTALL_BINDINGS_PATH,
+});
 
-// Initialize chained API
-initChainedApi(OPENAI_API_KEY!);
-app.use('/api/chained', chainedRouter);
+if (APP_TOKEN_SECRET && !isDeviceCheckConfigured()) {
+  console.warn(process.env.NODE_ENV === 'production'
+    ? '[Auth] ⚠️ DeviceCheck is not configured - POST /api/auth/token will refuse every install (set APPLE_TEAM_ID, DEVICECHECK_KEY_ID and DEVICECHECK_PRIVATE_KEY or _PATH)'
+    : '[Auth] ⚠️ DeviceCheck is not configured - app tokens are issued to anyone who asks (fine for local dev only)');
+}
 
-// Initialize GPT-driven API
-initGptDrivenApi(OPENAI_API_KEY!);
-app.use('/api/gpt-driven', gptDrivenRouter);
+// Per-client request rate and LLM/TTS spend limits on the session routes
+initRateLimiter(getDefaultRateLimitOptions());
+initUsageBudget(getDefaultUsageBudgetOptions());
+
+// Chat/TTS/transcription for every session type goes through this provider,
+// metered against the caller's usage budget
+initLLMProvider(new MeteredProvider(createLLMProvider({
+  provider: LLM_PROVIDER,
+  openaiApiKey: OPENAI_API_KEY,
+  chatModel: process.env.LLM_CHAT_MODEL,
+  ttsModel: process.env.LLM_TTS_MODEL,
+  transcribeModel: process.env.LLM_TRANSCRIBE_MODEL,
+  fixturesPath: process.env.LOCAL_LLM_FIXTURES,
+})));
+
+// Fact topics each user has heard (FACT_HISTORY_STORE=file keeps them across restarts)
+initFactHistory(getDefaultFactHistoryOptions());
+
+// Curated facts the fact segment retells (exits here if the corpus is malformed)
+initFactLibrary(getDefaultFactLibraryOptions());
+
+// Segment types defined in CUSTOM_SEGMENTS_PATH (exits here if a definition is invalid)
+initSegmentRegistry(getDefaultSegmentRegistryOptions());
+
+// Sounds bundled with the app, for sessions without a Spotify playlist
+// (exits here if MUSIC_LIBRARY_PATH is malformed)
+initMusicLibrary(getDefaultMusicLibraryOptions());
+
+// Recordings in AMBIENT_DIR replace the synthesized ambient beds
+// (exits here if one isn't a 16-bit PCM WAV)
+initAmbientBeds(getDefaultAmbientOptions());
+
+// Forecasts for track sessions that send a location instead of weather
+// (WEATHER_PROVIDER=off leaves weather entirely to the app)
+initWeatherProvider(process.env.WEATHER_PROVIDER === 'off' ? null : createWeatherProvider({
+  provider: process.env.WEATHER_PROVIDER === 'local' ? 'local' : 'openmeteo',
+  fixturesPath: process.env.WEATHER_FIXTURES,
+}));
+
+// Calendar feed URLs sent by clients (off unless CALENDAR_FEEDS=on - then
+// only public https hosts are fetched)
+initCalendarFeeds({ enabled: process.env.CALENDAR_FEEDS === 'on' });
 
 // Initialize Track Engine API (pass Grok key for news fetching)
-initTrackApi(OPENAI_API_KEY!, GROK_API_KEY);
-app.use('/api/track', trackRouter);
-
-// DeviceCheck API for free trial tracking
-app.use('/device', deviceCheckRouter);
-
-// ============================================
-// REST API ENDPOINTS
-// ============================================
-
-// Get all available personas
-app.get('/api/personas', (req, res) => {
-  const personas = getAllPersonas().map((p) => ({
-    id: p.id,
-    name: p.name,
-    description: p.description,
-    defaults: p.defaults,
-  }));
-  res.json(personas);
-});
-
-// Get available voices
-app.get('/api/voices', (req, res) => {
-  const voices = Object.entries(VOICE_OPTIONS).map(([id, info]) => ({
-    id,
-    description: info.description,
-  }));
-  res.json(voices);
+initTrackApi({
+  grokApiKey: GROK_API_KEY,
+  sessionStore: {
+    type: TRACK_SESSION_STORE,
+    directory: TRACK_SESSION_DIR,
+  },
 });
 
-// Health check
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+// Initialize Express app
+const app = createApp({ corsOrigins: CORS_ORIGINS });
 
 // ============================================
 // HTTP SERVER & WEBSOCKET SETUP
@@ -108,8 +148,21 @@ const silenceTimers = new Map<WebSocket, NodeJS.Timeout>();
 // Session brains - tracks state and makes decisions for each client
 const sessionBrains = new Map<WebSocket, WakeSessionBrain>();
 
-wss.on('connection', async (clientWs) => {
-  console.log('[Server] New client connected');
+wss.on('connection', async (clientWs, req) => {
+  // Browsers can't set headers on a WebSocket, so credentials may also
+  // come as ?token= / ?apiKey= query parameters
+  const query = new URL(req.url || '/', 'http://localhost').searchParams;
+  const principal = authenticate({
+    authorization: req.headers.authorization || (query.get('token') ? `Bearer ${query.get('token')}` : undefined),
+    apiKey: (req.headers['x-api-key'] as string | undefined) || query.get('apiKey') || undefined,
+  });
+  if (!principal) {
+    console.warn('[Server] Rejected WebSocket client without valid credentials');
+    clientWs.close(4401, 'Unauthorized');
+    return;
+  }
+
+  console.log(`[Server] New client connected (${principal.id})`);
 
   let realtimeSession: RealtimeSession | null = null;
   let sessionBrain: WakeSessionBrain | null = null;
@@ -165,16 +218,33 @@ wss.on('connection', async (clientWs) => {
       switch (message.type) {
         // ----------------------------------------
         // START SESSION
-        // Client sends: { type: 'start', personaId, voiceId, preferences?, context? }
+        // Client sends: { type: 'start', personaId, voiceId, preferences?, context?, timeZone?, locale?, units?, language? }
         // ----------------------------------------
         case 'start': {
-          const { personaId, voiceId, preferences, context } = message;
+          const invalid = validate(realtimeStartSchema, message);
+          if (invalid) {
+            clientWs.send(JSON.stringify({
+              type: 'error',
+              code: 'validation_failed',
+              message: invalid.message,
+              field: invalid.field,
+            }));
+            break;
+          }
+
+          const { personaId, voiceId, preferences, context, timeZone, locale, units, language } = message;
 
           console.log(`[Server] Starting session with persona: ${personaId}, voice: ${voiceId}`);
           currentPersonaId = personaId;
 
           try {
+            // The Realtime API is OpenAI-only, there is no local stand-in
+            if (!OPENAI_API_KEY) {
+              throw new Error('Realtime sessions require OPENAI_API_KEY');
+            }
+
             const persona = getPersona(personaId);
+            const userLocale = resolveUserLocale({ timeZone, locale, units, language });
 
             // Fetch news if enabled
             let newsHeadlines = '';
@@ -188,6 +258,7 @@ wss.on('connection', async (clientWs) => {
             const sessionConfig = {
               persona,
               voiceId: voiceId || 'soft-female',
+              userLocale,
               userPreferences: {
                 includeNews: preferences?.includeNews ?? persona.defaults.includeNews,
                 includeWeather: preferences?.includeWeather ?? persona.defaults.includeWeather,
@@ -196,12 +267,8 @@ wss.on('connection', async (clientWs) => {
               contextData: {
                 newsHeadlines,
                 weatherInfo: context?.weather || 'Weather information not available.',
-                calendarEvents: context?.calendar || 'No calendar events for today.',
-                currentTime: new Date().toLocaleTimeString('en-US', {
-                  hour: 'numeric',
-                  minute: '2-digit',
-                  hour12: true,
-                }),
+                calendarEvents: await calendarContextText(context, userLocale),
+                currentTime: formatTime(new Date(), userLocale),
               },
             };
 
@@ -219,7 +286,8 @@ wss.on('connection', async (clientWs) => {
                 calendar: sessionConfig.contextData.calendarEvents,
                 news: sessionConfig.contextData.newsHeadlines,
                 currentTime: sessionConfig.contextData.currentTime,
-              }
+              },
+              userLocale.language
             );
             sessionBrains.set(clientWs, sessionBrain);
             console.log('[Server] Session brain initialized');
@@ -339,10 +407,9 @@ wss.on('connection', async (clientWs) => {
           } catch (error) {
             console.error('[Server] Failed to start session:', error);
             clientWs.send(
-              JSON.stringify({
-                type: 'error',
-                message: 'Failed to start session',
-              })
+              JSON.stringify(error instanceof CalendarImportError
+                ? { type: 'error', code: 'validation_failed', message: error.message, field: 'context.calendarIcs' }
+                : { type: 'error', code: 'internal_error', message: 'Failed to start session' })
             );
           }
           break;
@@ -408,6 +475,9 @@ wss.on('connection', async (clientWs) => {
 // START SERVER
 // ============================================
 
+// Expire abandoned sessions in every router
+startSessionSweeper();
+
 server.listen(PORT, () => {
   console.log(`
 ╔════════════════════════════════════════════════════════════╗
@@ -422,6 +492,7 @@ server.listen(PORT, () => {
 ║  - GET /api/personas  - List available personas            ║
 ║  - GET /api/voices    - List available voices              ║
 ║  - GET /api/health    - Health check                       ║
+║  - GET /api/sessions/stats - Live/evicted session counts   ║
 ╚════════════════════════════════════════════════════════════╝
   `);
 });
@@ -0,0 +1,324 @@
+/**
+ * Ambient Mixer
+ *
+ * A looping soundscape (rain, forest, ocean) mixed under the spoken audio
+ * of the first segments, so the wake-up starts in a scene rather than in
+ * silence. It's opt-in: sessions ask for it with ambientScene or
+ * ambientSeconds. The mixing happens here: speech is requested from TTS
+ * as WAV, the bed is added underneath at a low level with short fades,
+ * and the segment's audio goes out as WAV.
+ *
+ * Beds loop seamlessly and carry on where the last clip stopped. The
+ * bundled beds are synthesized on first use, so no binary assets are
+ * checked in. AMBIENT_DIR swaps in real recordings: rain.wav, forest.wav
+ * and ocean.wav (16-bit PCM, any sample rate). Scenes without a file
+ * keep the synthesized bed.
+ *
+ * How long the bed plays comes from ambientSeconds or the persona
+ * (ambientDurationSeconds); which scene comes from the segment's theme,
+ * ambientScene, the weather, or the persona.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PersonaType } from './trackEngine';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const AMBIENT_SCENES = ['rain', 'forest', 'ocean'] as const;
+
+export type AmbientScene = typeof AMBIENT_SCENES[number];
+
+// Mono, -1..1, loops back to the start without a click
+export interface AmbientBed {
+  scene: AmbientScene;
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+export interface PcmAudio {
+  sampleRate: number;
+  channels: number;
+  samples: Int16Array;  // Interleaved
+}
+
+export interface MixOptions {
+  offsetSeconds: number;  // Where in the loop to start
+  maxSeconds: number;     // Bed time left - it fades out there
+  gain?: number;
+  fadeIn?: boolean;       // Default true; false when this clip continues the last one
+  fadeOut?: boolean;      // Default true; false when the next clip continues this one
+}
+
+export interface AmbientOptions {
+  directory?: string;  // Recordings to use instead of the synthesized beds
+}
+
+// Bed level under the voice (full scale = 1)
+const AMBIENT_GAIN = 0.15;
+const FADE_SECONDS = 0.75;
+
+const LOOP_SECONDS = 12;
+const SYNTH_SAMPLE_RATE = 24000;  // What OpenAI TTS returns, so no resampling
+
+// ============================================
+// SCENES
+// ============================================
+
+const SCENE_WORDS: Record<AmbientScene, RegExp> = {
+  rain: /\b(rain\w*|drizzle|showers?|storm\w*|thunder\w*)\b/i,
+  ocean: /\b(ocean|sea|seaside|beach|waves?|shore|coast\w*|surf)\b/i,
+  forest: /\b(forest|woods?|woodland|trees?|birds?|meadow|jungle)\b/i,
+};
+
+const PERSONA_SCENES: Record<PersonaType, AmbientScene> = {
+  'zen-guide': 'forest',
+  'morning-coach': 'ocean',
+  'strict-sergeant': 'rain',
+};
+
+// The scene a theme or description calls for, if it names one
+export function sceneForText(text: string): AmbientScene | null {
+  return AMBIENT_SCENES.find(scene => SCENE_WORDS[scene].test(text)) || null;
+}
+
+// Rain on a wet morning - otherwise the weather doesn't pick a scene
+export function sceneForWeather(conditions: string | undefined): AmbientScene | null {
+  return conditions && SCENE_WORDS.rain.test(conditions) ? 'rain' : null;
+}
+
+export function defaultScene(personaId: PersonaType): AmbientScene {
+  return PERSONA_SCENES[personaId];
+}
+
+// ============================================
+// WAV
+// ============================================
+
+// 16-bit PCM only (what TTS returns as WAV). Null for anything else.
+export function parseWav(buffer: Buffer): PcmAudio | null {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let format: { sampleRate: number; channels: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      if (buffer.readUInt16LE(body) !== 1 || buffer.readUInt16LE(body + 14) !== 16) return null;
+      format = { channels: buffer.readUInt16LE(body + 2), sampleRate: buffer.readUInt32LE(body + 4) };
+    } else if (id === 'data' && format) {
+      // Streamed WAVs leave the size unset (0xFFFFFFFF) - take what's there
+      const end = Math.min(buffer.length, body + size);
+      const samples = new Int16Array(Math.floor((end - body) / 2));
+      for (let i = 0; i < samples.length; i++) samples[i] = buffer.readInt16LE(body + i * 2);
+      return { ...format, samples };
+    }
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+export function encodeWav(audio: PcmAudio): Buffer {
+  const dataSize = audio.samples.length * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);  // PCM
+  wav.writeUInt16LE(audio.channels, 22);
+  wav.writeUInt32LE(audio.sampleRate, 24);
+  wav.writeUInt32LE(audio.sampleRate * audio.channels * 2, 28);
+  wav.writeUInt16LE(audio.channels * 2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(dataSize, 40);
+  audio.samples.forEach((sample, i) => wav.writeInt16LE(sample, 44 + i * 2));
+  return wav;
+}
+
+// ============================================
+// MIXING
+// ============================================
+
+// Adds the bed under a WAV clip, from offsetSeconds into the loop, fading
+// in at the start and out at the end (or where the bed time runs out).
+// A clip in the middle of a segment skips the fades so the bed runs on
+// through it. Returns the mixed WAV and the bed seconds used. Audio that
+// isn't 16-bit PCM comes back untouched.
+export function mixUnderSpeech(speech: Buffer, bed: AmbientBed, options: MixOptions): { audio: Buffer; seconds: number } {
+  const pcm = parseWav(speech);
+  if (!pcm || options.maxSeconds <= 0) return { audio: speech, seconds: 0 };
+
+  const { sampleRate, channels } = pcm;
+  const frames = Math.min(pcm.samples.length / channels, Math.floor(options.maxSeconds * sampleRate));
+  if (frames <= 0) return { audio: speech, seconds: 0 };
+
+  const gain = (options.gain ?? AMBIENT_GAIN) * 32767;
+  const fadeFrames = Math.max(1, Math.min(Math.floor(FADE_SECONDS * sampleRate), Math.floor(frames / 2)));
+  const loop = bed.samples.length;
+  const step = bed.sampleRate / sampleRate;
+  let position = (options.offsetSeconds * bed.sampleRate) % loop;
+
+  // Running out of bed time mid-clip always fades
+  const fadeIn = options.fadeIn ?? true;
+  const fadeOut = (options.fadeOut ?? true) || frames < pcm.samples.length / channels;
+
+  const samples = Int16Array.from(pcm.samples);
+  for (let frame = 0; frame < frames; frame++) {
+    const envelope = Math.min(
+      1,
+      fadeIn ? (frame + 1) / fadeFrames : 1,
+      fadeOut ? (frames - frame) / fadeFrames : 1
+    );
+    const i = Math.floor(position);
+    const a = bed.samples[i];
+    const b = bed.samples[(i + 1) % loop];
+    const value = (a + (b - a) * (position - i)) * gain * envelope;
+
+    for (let channel = 0; channel < channels; channel++) {
+      const index = frame * channels + channel;
+      samples[index] = Math.max(-32768, Math.min(32767, Math.round(samples[index] + value)));
+    }
+    position += step;
+    if (position >= loop) position -= loop;
+  }
+
+  return { audio: encodeWav({ sampleRate, channels, samples }), seconds: frames / sampleRate };
+}
+
+// ============================================
+// BUNDLED BEDS
+// ============================================
+
+// Small seeded PRNG so the synthesized beds are the same on every server
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Raw sound for a scene, a little longer than the loop for the crossfade
+function synthesize(scene: AmbientScene, length: number, sampleRate: number): Float32Array {
+  const next = random(AMBIENT_SCENES.indexOf(scene) + 1);
+  const noise = () => next() * 2 - 1;
+  const out = new Float32Array(length);
+
+  if (scene === 'rain') {
+    // Hiss, plus drops: short decaying clicks
+    let low = 0;
+    for (let i = 0; i < length; i++) {
+      low += 0.5 * (noise() - low);
+      out[i] = low * 0.4;
+    }
+    for (let drop = 0; drop < LOOP_SECONDS * 40; drop++) {
+      const start = Math.floor(next() * length);
+      const level = 0.2 + next() * 0.4;
+      for (let i = 0; i < sampleRate * 0.004 && start + i < length; i++) {
+        out[start + i] += noise() * level * Math.exp(-i / (sampleRate * 0.001));
+      }
+    }
+  } else if (scene === 'ocean') {
+    // Deep rumble swelling like waves - two swells per loop, so it repeats cleanly
+    let brown = 0;
+    for (let i = 0; i < length; i++) {
+      brown = 0.995 * brown + 0.05 * noise();
+      const swell = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (sampleRate * LOOP_SECONDS / 2));
+      out[i] = brown * (0.25 + 0.75 * swell);
+    }
+  } else {
+    // Soft wind in the leaves, plus a few bird chirps (rising whistles)
+    let low = 0;
+    for (let i = 0; i < length; i++) {
+      low += 0.05 * (noise() - low);
+      out[i] = low * 0.6;
+    }
+    for (let chirp = 0; chirp < LOOP_SECONDS; chirp++) {
+      const start = Math.floor(next() * (length - sampleRate * 0.1));
+      const from = 2500 + next() * 1000;
+      const chirpLength = Math.floor(sampleRate * 0.08);
+      let phase = 0;
+      for (let i = 0; i < chirpLength; i++) {
+        phase += (2 * Math.PI * (from + (1500 * i) / chirpLength)) / sampleRate;
+        out[start + i] += Math.sin(phase) * Math.sin((Math.PI * i) / chirpLength) * 0.3;
+      }
+    }
+  }
+  return out;
+}
+
+// One loop of the scene, with its tail crossfaded into its start and
+// peaks normalized to 1
+export function synthesizeBed(scene: AmbientScene, sampleRate = SYNTH_SAMPLE_RATE): AmbientBed {
+  const loop = LOOP_SECONDS * sampleRate;
+  const crossfade = Math.floor(sampleRate * 0.5);
+  const raw = synthesize(scene, loop + crossfade, sampleRate);
+
+  const samples = raw.slice(0, loop);
+  for (let i = 0; i < crossfade; i++) {
+    const mix = i / crossfade;
+    samples[i] = raw[i] * mix + raw[loop + i] * (1 - mix);
+  }
+  const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0) || 1;
+  return { scene, sampleRate, samples: samples.map(sample => sample / peak) };
+}
+
+// A recording as a bed (mixed down to mono)
+export function bedFromWav(scene: AmbientScene, wav: Buffer, origin: string): AmbientBed {
+  const pcm = parseWav(wav);
+  if (!pcm || pcm.samples.length < pcm.channels) {
+    throw new Error(`Invalid ambient recording ${origin}: expected a 16-bit PCM WAV`);
+  }
+  const samples = new Float32Array(pcm.samples.length / pcm.channels);
+  for (let frame = 0; frame < samples.length; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < pcm.channels; channel++) sum += pcm.samples[frame * pcm.channels + channel];
+    samples[frame] = sum / pcm.channels / 32768;
+  }
+  return { scene, sampleRate: pcm.sampleRate, samples };
+}
+
+// ============================================
+// SINGLETON
+// ============================================
+
+// Recordings from AMBIENT_DIR, and synthesized beds once they're first used
+const beds = new Map<AmbientScene, AmbientBed>();
+
+export function getDefaultAmbientOptions(): AmbientOptions {
+  return { directory: process.env.AMBIENT_DIR };
+}
+
+// Throws on a malformed recording so it fails at startup, not mid-alarm
+export function initAmbientBeds(options: AmbientOptions = {}) {
+  beds.clear();
+  if (!options.directory) return;
+
+  for (const scene of AMBIENT_SCENES) {
+    const file = path.join(options.directory, `${scene}.wav`);
+    if (!fs.existsSync(file)) continue;
+    beds.set(scene, bedFromWav(scene, fs.readFileSync(file), file));
+    console.log(`[Ambient] Loaded ${scene} bed from ${file}`);
+  }
+}
+
+export function getAmbientBed(scene: AmbientScene): AmbientBed {
+  let bed = beds.get(scene);
+  if (!bed) {
+    bed = synthesizeBed(scene);
+    beds.set(scene, bed);
+  }
+  return bed;
+}
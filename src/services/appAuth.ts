@@ -0,0 +1,190 @@
+/**
+ * App Authentication
+ *
+ * Who is calling. Two kinds of credentials are accepted:
+ * - App tokens: HS256 JWTs issued per install (POST /api/auth/token),
+ *   sent as `Authorization: Bearer <token>`. The install id is the caller.
+ * - Dev API key: a single shared key for local testing and the web test
+ *   pages, sent as `X-API-Key: <key>`.
+ *
+ * Auth is off when neither APP_TOKEN_SECRET nor DEV_API_KEY is configured
+ * (local dev); every caller is then the same anonymous principal.
+ *
+ * The principal id is also the owner recorded on every session, so one
+ * install can't drive or delete another install's session. For the same
+ * reason an install id is bound to the client it was first issued to:
+ * later tokens for it only go to a client holding one of its tokens.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Principal {
+  id: string;  // Session owner id: "install:<installId>", "dev" or "anonymous"
+  kind: 'install' | 'dev' | 'anonymous';
+}
+
+export interface AuthOptions {
+  tokenSecret?: string;
+  devApiKey?: string;
+  tokenTtlSeconds?: number;
+  requireDeviceCheck?: boolean;  // Only issue tokens to DeviceCheck-verified installs (production)
+  bindingsPath?: string;  // JSON file of installs already issued a token (in memory unless set)
+}
+
+export interface IssuedToken {
+  token: string;
+  expiresAt: string;
+}
+
+interface AppTokenClaims {
+  sub: string;  // Install id
+  typ: 'app';
+}
+
+// ============================================
+// MODULE STATE
+// ============================================
+
+const DEFAULT_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;  // 30 days
+const ANONYMOUS: Principal = { id: 'anonymous', kind: 'anonymous' };
+
+let options: AuthOptions = {};
+
+// Hashes of the install ids that have been issued a token
+let boundInstalls = new Set<string>();
+
+export function initAuth(authOptions: AuthOptions = {}) {
+  options = authOptions;
+  boundInstalls = new Set(loadBindings(options.bindingsPath));
+  if (isAuthEnabled()) {
+    const modes = [options.tokenSecret && 'app tokens', options.devApiKey && 'dev API key'].filter(Boolean);
+    console.log(`[Auth] Enabled (${modes.join(' + ')})`);
+  } else {
+    console.warn('[Auth] ⚠️ Disabled - set APP_TOKEN_SECRET and/or DEV_API_KEY to require credentials');
+  }
+}
+
+export function isAuthEnabled(): boolean {
+  return Boolean(options.tokenSecret || options.devApiKey);
+}
+
+export function canIssueTokens(): boolean {
+  return Boolean(options.tokenSecret);
+}
+
+export function requiresDeviceCheck(): boolean {
+  return Boolean(options.requireDeviceCheck);
+}
+
+// ============================================
+// APP TOKENS
+// ============================================
+
+export function issueAppToken(installId: string): IssuedToken {
+  if (!options.tokenSecret) throw new Error('APP_TOKEN_SECRET is not configured');
+
+  const ttl = options.tokenTtlSeconds || DEFAULT_TOKEN_TTL_SECONDS;
+  const claims: AppTokenClaims = { sub: installId, typ: 'app' };
+  const token = jwt.sign(claims, options.tokenSecret, { algorithm: 'HS256', expiresIn: ttl });
+
+  return { token, expiresAt: new Date(Date.now() + ttl * 1000).toISOString() };
+}
+
+// Returns the install id, or null if the token is invalid/expired
+function verifyAppToken(token: string, ignoreExpiration = false): string | null {
+  if (!options.tokenSecret) return null;
+  try {
+    const claims = jwt.verify(token, options.tokenSecret, { algorithms: ['HS256'], ignoreExpiration }) as Partial<AppTokenClaims>;
+    return claims.typ === 'app' && typeof claims.sub === 'string' ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// INSTALL BINDINGS
+// ============================================
+
+function hashInstallId(installId: string): string {
+  return crypto.createHash('sha256').update(installId).digest('hex');
+}
+
+function loadBindings(bindingsPath: string | undefined): string[] {
+  if (!bindingsPath || !fs.existsSync(bindingsPath)) return [];
+  const hashes = JSON.parse(fs.readFileSync(bindingsPath, 'utf8'));
+  if (!Array.isArray(hashes)) throw new Error(`Invalid install bindings in ${bindingsPath}`);
+  return hashes;
+}
+
+// Whether a token may be issued for this install: it has never had one,
+// or the caller holds one of its tokens (an expired one will do). Binds
+// the install on its first token, so two clients racing for the same id
+// can't both get one.
+export function claimInstall(installId: string, authorization?: string): boolean {
+  const hash = hashInstallId(installId);
+  if (boundInstalls.has(hash)) {
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    return bearer ? verifyAppToken(bearer, true) === installId : false;
+  }
+
+  boundInstalls.add(hash);
+  saveBindings();
+  return true;
+}
+
+// Saves are chained so an older list never overwrites a newer one
+let bindingsSaved: Promise<void> = Promise.resolve();
+
+function saveBindings() {
+  const { bindingsPath } = options;
+  if (!bindingsPath) return;
+  const json = JSON.stringify([...boundInstalls]);
+  bindingsSaved = bindingsSaved.then(async () => {
+    // Write to a temp file and rename so a crash never leaves half a file
+    const tmp = `${bindingsPath}.tmp`;
+    await fs.promises.writeFile(tmp, json, 'utf8');
+    await fs.promises.rename(tmp, bindingsPath);
+  }).catch(error => {
+    console.error('[Auth] Failed to save install bindings:', error);
+  });
+}
+
+function isDevApiKey(key: string): boolean {
+  if (!options.devApiKey) return false;
+  const expected = Buffer.from(options.devApiKey);
+  const actual = Buffer.from(key);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// ============================================
+// RESOLVING THE CALLER
+// ============================================
+
+export interface Credentials {
+  authorization?: string;  // "Bearer <token>"
+  apiKey?: string;
+}
+
+// The caller for a set of credentials, or null if auth is on and they're
+// missing or invalid
+export function authenticate(credentials: Credentials): Principal | null {
+  if (!isAuthEnabled()) return ANONYMOUS;
+
+  if (credentials.apiKey && isDevApiKey(credentials.apiKey)) {
+    return { id: 'dev', kind: 'dev' };
+  }
+
+  const bearer = credentials.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (bearer) {
+    const installId = verifyAppToken(bearer);
+    if (installId) return { id: `install:${installId}`, kind: 'install' };
+  }
+
+  return null;
+}
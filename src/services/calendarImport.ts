@@ -0,0 +1,823 @@
+/**
+ * Calendar Import
+ *
+ * Builds today's CalendarEvents from the user's own calendar instead of a
+ * list the app put together: an uploaded .ics file, or an ICS feed URL
+ * (the "secret address" Google, iCloud and Outlook publish, or a CalDAV
+ * server's export link). Parsing is done here - no calendar service or
+ * library involved.
+ *
+ * - parseIcs() reads the VEVENTs: time zones, all-day events, simple
+ *   recurrence (daily/weekly/monthly/yearly) and moved/cancelled occurrences
+ * - eventsForDay() keeps what's left of the user's today, in their time zone
+ * - rankEvents() marks what's worth saying out loud: the first event, ones
+ *   that need travel or start soon, long free stretches
+ * - describeCalendar() turns the top few into prompt lines, for the
+ *   calendar segment and the session brain alike
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Readable } from 'stream';
+import { CalendarEvent } from './trackEngine';
+import { UserLocale, formatTime } from './userLocale';
+
+// ============================================
+// TYPES
+// ============================================
+
+// A date/time as written in the file. Times without a zone are "floating"
+// and read in the user's time zone.
+export interface IcsTime {
+  date: string;       // "2026-10-18"
+  time?: string;      // "09:30:00" (absent for all-day dates)
+  timeZone?: string;  // TZID, or "UTC" for times ending in Z
+}
+
+export interface IcsEvent {
+  uid?: string;
+  summary: string;
+  location?: string;
+  start: IcsTime;
+  end?: IcsTime;
+  durationSeconds?: number;       // DURATION, when there's no DTEND
+  rrule?: Record<string, string>; // { FREQ: 'WEEKLY', BYDAY: 'MO,WE' }
+  exdates: string[];              // Dates of occurrences that were deleted
+  recurrenceId?: string;          // Date of the occurrence this event replaces
+  cancelled: boolean;
+}
+
+// Where a session's calendar comes from (both optional)
+export interface CalendarSource {
+  calendarIcs?: string;  // Contents of an uploaded .ics file
+  calendarUrl?: string;  // ICS feed (https:// or webcal://)
+}
+
+// Bad uploads are the client's fault (400); bad feeds are only logged
+export class CalendarImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarImportError';
+  }
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// "DTSTART;TZID=Europe/London:20261018T093000" -> name, params, value
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c)).trim();
+}
+
+export function parseIcsTime(value: string, params: Record<string, string> = {}): IcsTime | null {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly) {
+    return { date: `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}` };
+  }
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!dateTime) return null;
+  const [, year, month, day, hour, minute, second, utc] = dateTime;
+  return {
+    date: `${year}-${month}-${day}`,
+    time: `${hour}:${minute}:${second}`,
+    timeZone: utc ? 'UTC' : params.TZID,
+  };
+}
+
+// "PT1H30M" -> 5400, "P1D" -> 86400
+export function parseDuration(value: string): number | undefined {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks || 0) * 604800 + Number(days || 0) * 86400
+    + Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+  return sign === '-' ? -total : total;
+}
+
+// Events from an iCalendar file. Throws CalendarImportError if it isn't
+// one; events too broken to place in time are skipped.
+export function parseIcs(text: string): IcsEvent[] {
+  // Unfold continuation lines (they start with a space or tab)
+  const lines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new CalendarImportError('Not an iCalendar file (no BEGIN:VCALENDAR)');
+  }
+
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  let nestedDepth = 0;  // VALARMs and the like inside a VEVENT
+
+  for (const line of lines) {
+    const content = parseContentLine(line.trim());
+    if (!content) continue;
+    const { name, params, value } = content;
+
+    if (name === 'BEGIN') {
+      if (value.toUpperCase() === 'VEVENT' && !current) {
+        current = { exdates: [], cancelled: false };
+      } else if (current) {
+        nestedDepth++;
+      }
+      continue;
+    }
+    if (name === 'END') {
+      if (current && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && value.toUpperCase() === 'VEVENT') {
+        if (current.start) {
+          events.push({ summary: '(No title)', ...current } as IcsEvent);
+        }
+        current = null;
+      }
+      continue;
+    }
+    if (!current || nestedDepth > 0) continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value;
+        break;
+      case 'SUMMARY':
+        if (unescapeText(value)) current.summary = unescapeText(value);
+        break;
+      case 'LOCATION':
+        if (unescapeText(value)) current.location = unescapeText(value);
+        break;
+      case 'DTSTART':
+        current.start = parseIcsTime(value, params) || undefined;
+        break;
+      case 'DTEND':
+        current.end = parseIcsTime(value, params) || undefined;
+        break;
+      case 'DURATION':
+        current.durationSeconds = parseDuration(value);
+        break;
+      case 'RRULE':
+        current.rrule = Object.fromEntries(value.split(';').map(part => {
+          const [key, ruleValue = ''] = part.split('=');
+          return [key.toUpperCase(), ruleValue.toUpperCase()];
+        }));
+        break;
+      case 'EXDATE':
+        for (const exdate of value.split(',')) {
+          const time = parseIcsTime(exdate, params);
+          if (time) current.exdates!.push(time.date);
+        }
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseIcsTime(value, params)?.date;
+        break;
+      case 'STATUS':
+        current.cancelled = value.toUpperCase() === 'CANCELLED';
+        break;
+    }
+  }
+
+  return events;
+}
+
+// ============================================
+// TIME ZONES
+// ============================================
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock date and time of an instant in a time zone
+function wallClock(instant: Date, timeZone: string): { date: string; time: string } {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(instant)) parts[part.type] = part.value;
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+  };
+}
+
+function utcMillis(date: string, time = '00:00:00'): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second] = time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute, second);
+}
+
+// The instant a wall-clock time happens in a time zone. The second pass
+// settles times near a DST change.
+export function zonedTimeToDate(date: string, time: string, timeZone: string): Date {
+  const asUtc = utcMillis(date, time);
+  const offsetAt = (instant: number) => {
+    const local = wallClock(new Date(instant), timeZone);
+    return utcMillis(local.date, local.time) - Math.floor(instant / 1000) * 1000;
+  };
+  const guess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(guess));
+}
+
+export function localDate(instant: Date, timeZone: string): string {
+  return wallClock(instant, timeZone).date;
+}
+
+// ============================================
+// RECURRENCE
+// ============================================
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+function addDays(date: string, days: number): string {
+  return new Date(utcMillis(date) + days * 86400000).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((utcMillis(to) - utcMillis(from)) / 86400000);
+}
+
+function weekdayOf(date: string): string {
+  return WEEKDAYS[new Date(utcMillis(date)).getUTCDay()];
+}
+
+function daysInMonth(date: string): number {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// BYDAY entries like "MO" or, within a month, "1MO" / "-1FR"
+function matchesByDay(byDay: string, date: string): boolean {
+  const day = Number(date.slice(8, 10));
+  return byDay.split(',').some(entry => {
+    const match = entry.match(/^([+-]?\d)?([A-Z]{2})$/);
+    if (!match || match[2] !== weekdayOf(date)) return false;
+    const ordinal = Number(match[1] || 0);
+    if (ordinal > 0) return Math.ceil(day / 7) === ordinal;
+    if (ordinal < 0) return Math.ceil((daysInMonth(date) - day + 1) / 7) === -ordinal;
+    return true;
+  });
+}
+
+// BYMONTHDAY entries like "15" or "-1" (the last day of the month), as
+// days of this date's month
+function monthDays(byMonthDay: string, date: string): number[] {
+  const length = daysInMonth(date);
+  return byMonthDay.split(',')
+    .map(Number)
+    .map(day => (day < 0 ? length + day + 1 : day))
+    .filter(day => day >= 1 && day <= length);
+}
+
+// Days of the month a monthly or yearly rule keeps: BYDAY and BYMONTHDAY
+// both have to hold when both are set, else it's DTSTART's day
+function matchesMonthDay(rule: Record<string, string>, first: string, date: string): boolean {
+  const day = Number(date.slice(8, 10));
+  if (!rule.BYDAY && !rule.BYMONTHDAY) return day === Number(first.slice(8, 10));
+  return (!rule.BYDAY || matchesByDay(rule.BYDAY, date))
+    && (!rule.BYMONTHDAY || monthDays(rule.BYMONTHDAY, date).includes(day));
+}
+
+// Months of the year a rule keeps (yearly rules default to DTSTART's)
+function matchesMonth(rule: Record<string, string>, first: string, date: string): boolean {
+  const months = rule.BYMONTH ? rule.BYMONTH.split(',') : rule.FREQ === 'YEARLY' ? [first.slice(5, 7)] : null;
+  return !months || months.map(Number).includes(Number(date.slice(5, 7)));
+}
+
+const RULE_PARTS = new Set(['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'WKST', 'BYDAY', 'BYMONTHDAY', 'BYMONTH']);
+
+// Rules with parts we don't expand (BYSETPOS, BYWEEKNO, ...) - or a yearly
+// BYDAY counted through the whole year - only produce their first
+// occurrence, rather than occurrences on the wrong days
+function isExpandable(rule: Record<string, string>): boolean {
+  if (Object.keys(rule).some(part => !RULE_PARTS.has(part))) return false;
+  if (rule.BYMONTHDAY && !rule.BYMONTHDAY.split(',').every(day => /^[+-]?\d{1,2}$/.test(day) && Number(day) !== 0)) return false;
+  if (rule.BYMONTH && !rule.BYMONTH.split(',').every(month => /^\d{1,2}$/.test(month))) return false;
+  return rule.FREQ !== 'YEARLY' || !rule.BYDAY || Boolean(rule.BYMONTH);
+}
+
+// Start of the week a date falls in (WKST, Monday by default)
+function weekStartOf(rule: Record<string, string>, date: string): string {
+  const weekStart = Math.max(WEEKDAYS.indexOf(rule.WKST || 'MO'), 0);
+  return addDays(date, -((WEEKDAYS.indexOf(weekdayOf(date)) - weekStart + 7) % 7));
+}
+
+// Whether the rule produces an occurrence on this date (ignoring
+// UNTIL/COUNT). Rules we don't understand only produce the first one.
+function matchesRule(rule: Record<string, string>, first: string, date: string): boolean {
+  if (!isExpandable(rule)) return date === first;
+  const interval = Number(rule.INTERVAL) || 1;
+  const months = (Number(date.slice(0, 4)) - Number(first.slice(0, 4))) * 12
+    + Number(date.slice(5, 7)) - Number(first.slice(5, 7));
+
+  switch (rule.FREQ) {
+    case 'DAILY':
+      return daysBetween(first, date) % interval === 0 && (!rule.BYDAY || matchesByDay(rule.BYDAY, date));
+    case 'WEEKLY': {
+      const weeks = daysBetween(weekStartOf(rule, first), weekStartOf(rule, date)) / 7;
+      return weeks % interval === 0 && (rule.BYDAY || weekdayOf(first)).split(',').includes(weekdayOf(date));
+    }
+    case 'MONTHLY':
+      return months % interval === 0 && matchesMonth(rule, first, date) && matchesMonthDay(rule, first, date);
+    case 'YEARLY': {
+      const years = Number(date.slice(0, 4)) - Number(first.slice(0, 4));
+      return years % interval === 0 && matchesMonth(rule, first, date) && matchesMonthDay(rule, first, date);
+    }
+    default:
+      return date === first;
+  }
+}
+
+// Whether an event has an occurrence starting on this date (in its own zone)
+export function occursOn(event: IcsEvent, date: string): boolean {
+  const first = event.start.date;
+  if (date < first || event.exdates.includes(date)) return false;
+  const rule = event.rrule;
+  if (!rule) return date === first;
+
+  const until = rule.UNTIL ? parseIcsTime(rule.UNTIL) : null;
+  if (until && date > until.date) return false;
+  if (!matchesRule(rule, first, date)) return false;
+
+  // Deleted occurrences still count towards COUNT
+  const count = Number(rule.COUNT);
+  if (count && occurrencesBefore(rule, first, date, count) >= count) return false;
+  return true;
+}
+
+// Days in this month a monthly or yearly rule could land on
+function candidateDays(rule: Record<string, string>, first: string, monthStart: string): string[] {
+  let days: number[];
+  if (rule.BYDAY) {
+    // Every day with one of the BYDAY weekdays - matchesByDay picks from them
+    const offset = WEEKDAYS.indexOf(weekdayOf(monthStart));
+    const weekdays = new Set(rule.BYDAY.split(',').map(entry => WEEKDAYS.indexOf(entry.slice(-2))).filter(i => i >= 0));
+    days = [...weekdays].flatMap(weekday => {
+      const firstDay = 1 + ((weekday - offset + 7) % 7);
+      return [0, 7, 14, 21, 28].map(week => firstDay + week);
+    });
+  } else if (rule.BYMONTHDAY) {
+    days = [...new Set(monthDays(rule.BYMONTHDAY, monthStart))];
+  } else {
+    days = [Number(first.slice(8, 10))];
+  }
+  return days
+    .filter(day => day <= daysInMonth(monthStart))
+    .map(day => `${monthStart.slice(0, 8)}${String(day).padStart(2, '0')}`);
+}
+
+// How many times the rule occurred before this date, counted per period
+// rather than per day so a DTSTART decades back costs no more than a
+// recent one. Monthly and yearly rules stop counting at limit.
+function occurrencesBefore(rule: Record<string, string>, first: string, date: string, limit: number): number {
+  const interval = Number(rule.INTERVAL) || 1;
+  const inRange = (day: string) => day >= first && day < date;
+
+  switch (isExpandable(rule) && rule.FREQ) {
+    case 'DAILY': {
+      // Every INTERVAL days; with BYDAY, the weekdays repeat every 7 of those
+      const candidates = Math.ceil(daysBetween(first, date) / interval);
+      if (!rule.BYDAY) return candidates;
+      const matching = (from: number, to: number) => {
+        let seen = 0;
+        for (let k = from; k < to; k++) {
+          if (matchesByDay(rule.BYDAY, addDays(first, k * interval))) seen++;
+        }
+        return seen;
+      };
+      const cycles = Math.floor(candidates / 7);
+      return cycles * matching(0, 7) + matching(cycles * 7, candidates);
+    }
+    case 'WEEKLY': {
+      // Every INTERVAL weeks - only the first and last can be partial
+      const weekdays = new Set((rule.BYDAY || weekdayOf(first)).split(',').filter(day => WEEKDAYS.includes(day)));
+      const firstWeek = weekStartOf(rule, first);
+      const weeks = Math.ceil(daysBetween(firstWeek, date) / (7 * interval));
+      const inWeek = (week: number) => {
+        let seen = 0;
+        for (let offset = 0; offset < 7; offset++) {
+          const day = addDays(firstWeek, week * 7 * interval + offset);
+          if (inRange(day) && weekdays.has(weekdayOf(day))) seen++;
+        }
+        return seen;
+      };
+      if (weeks <= 2) return inWeek(0) + (weeks === 2 ? inWeek(1) : 0);
+      return inWeek(0) + inWeek(weeks - 1) + (weeks - 2) * weekdays.size;
+    }
+    case 'MONTHLY':
+    case 'YEARLY': {
+      // Yearly rules go month by month - BYMONTH can pick any of them
+      const step = rule.FREQ === 'YEARLY' ? 1 : interval;
+      const firstMonth = Number(first.slice(0, 4)) * 12 + Number(first.slice(5, 7)) - 1;
+      let seen = 0;
+      for (let month = firstMonth; seen < limit; month += step) {
+        const monthStart = `${String(Math.floor(month / 12)).padStart(4, '0')}-${String((month % 12) + 1).padStart(2, '0')}-01`;
+        if (monthStart >= date) break;
+        seen += candidateDays(rule, first, monthStart).filter(day => inRange(day) && matchesRule(rule, first, day)).length;
+      }
+      return seen;
+    }
+    default:
+      return date > first ? 1 : 0;
+  }
+}
+
+// ============================================
+// TODAY'S EVENTS
+// ============================================
+
+// Longest all-day event we look back for (a week-long trip still shows)
+const MAX_ALL_DAY_SPAN_DAYS = 31;
+
+interface Occurrence {
+  event: IcsEvent;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+// Occurrences overlapping the user's today that haven't ended yet
+function occurrencesForDay(events: IcsEvent[], userLocale: UserLocale, now: Date): Occurrence[] {
+  const { timeZone } = userLocale;
+  const today = localDate(now, timeZone);
+  const dayStart = zonedTimeToDate(today, '00:00:00', timeZone);
+  const dayEnd = zonedTimeToDate(addDays(today, 1), '00:00:00', timeZone);
+
+  // Moved or cancelled single occurrences replace the recurring event's
+  const replaced = new Set(events.filter(e => e.recurrenceId && e.uid).map(e => `${e.uid}|${e.recurrenceId}`));
+  const isReplaced = (event: IcsEvent, date: string) => !event.recurrenceId && replaced.has(`${event.uid}|${date}`);
+
+  const occurrences: Occurrence[] = [];
+  for (const event of events) {
+    if (event.cancelled) continue;
+
+    if (!event.start.time) {
+      // All-day: DTEND is exclusive, so a one-day event ends the next day
+      const spanDays = event.end
+        ? daysBetween(event.start.date, event.end.date)
+        : Math.ceil((event.durationSeconds || 86400) / 86400);
+      const span = Math.min(Math.max(spanDays, 1), MAX_ALL_DAY_SPAN_DAYS);
+      for (let back = 0; back < span; back++) {
+        const date = addDays(today, -back);
+        if (occursOn(event, date) && !isReplaced(event, date)) {
+          occurrences.push({ event, start: dayStart, end: dayEnd, allDay: true });
+          break;
+        }
+      }
+      continue;
+    }
+
+    // Timed: the event's own zone, unless it's floating or one Intl doesn't
+    // know (Outlook writes Windows names like "Pacific Standard Time")
+    const zone = event.start.timeZone && isTimeZone(event.start.timeZone) ? event.start.timeZone : timeZone;
+    const firstStart = zonedTimeToDate(event.start.date, event.start.time, zone);
+    let durationMs = 0;
+    if (event.end) {
+      const endZone = event.end.timeZone && isTimeZone(event.end.timeZone) ? event.end.timeZone : zone;
+      durationMs = zonedTimeToDate(event.end.date, event.end.time || '00:00:00', endZone).getTime() - firstStart.getTime();
+    } else if (event.durationSeconds) {
+      durationMs = event.durationSeconds * 1000;
+    }
+    durationMs = Math.max(durationMs, 0);
+
+    // The event's zone can be a day ahead of or behind the user's
+    for (const date of [addDays(today, -1), today, addDays(today, 1)]) {
+      if (!occursOn(event, date) || isReplaced(event, date)) continue;
+      const start = zonedTimeToDate(date, event.start.time, zone);
+      const end = new Date(start.getTime() + durationMs);
+      const endsAfter = durationMs > 0 ? end : new Date(start.getTime() + 1);
+      if (start < dayEnd && endsAfter > dayStart && endsAfter > now) {
+        occurrences.push({ event, start, end, allDay: false });
+      }
+    }
+  }
+
+  return occurrences.sort((a, b) => Number(b.allDay) - Number(a.allDay) || a.start.getTime() - b.start.getTime());
+}
+
+// Today's events from parsed ICS, in the user's time zone and ranked
+export function eventsForDay(events: IcsEvent[], userLocale: UserLocale, now = new Date()): CalendarEvent[] {
+  const calendarEvents = occurrencesForDay(events, userLocale, now).map(({ event, start, end, allDay }): CalendarEvent => {
+    const calendarEvent: CalendarEvent = {
+      title: event.summary,
+      time: allDay ? 'All day' : formatTime(start, userLocale),
+    };
+    if (allDay) {
+      calendarEvent.allDay = true;
+    } else {
+      calendarEvent.startsAt = start.toISOString();
+      calendarEvent.endsAt = end.toISOString();
+      calendarEvent.durationMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+    }
+    if (event.location) calendarEvent.location = event.location;
+    return calendarEvent;
+  });
+  return rankEvents(calendarEvents, now);
+}
+
+// ============================================
+// RANKING
+// ============================================
+
+// Locations that are links or call apps, not somewhere to get to
+const VIRTUAL_LOCATION = /https?:\/\/|\b(zoom|teams|google meet|meet\.google|webex|skype|facetime|phone|call)\b/i;
+
+export function isVirtualLocation(location: string): boolean {
+  return VIRTUAL_LOCATION.test(location);
+}
+
+// A gap this long after an event is worth pointing out
+const FREE_STRETCH_MINUTES = 120;
+
+// Starting this soon after the alarm makes an event urgent
+const SOON_MINUTES = 90;
+
+// Sets priority and highlights on each event (events stay in order).
+// Events without startsAt - sent by the app - only get all-day credit.
+export function rankEvents(events: CalendarEvent[], now = new Date()): CalendarEvent[] {
+  const timed = events.filter(e => e.startsAt && !e.allDay);
+
+  return events.map(event => {
+    let priority = 0;
+    const highlights: string[] = [];
+
+    if (event.allDay) {
+      priority += 1;
+      highlights.push('all day');
+    }
+
+    if (event.startsAt) {
+      const start = new Date(event.startsAt).getTime();
+      const index = timed.indexOf(event);
+
+      if (index === 0) {
+        priority += 3;
+        highlights.push('first event of the day');
+      }
+      if (start > now.getTime() && start - now.getTime() <= SOON_MINUTES * 60000) {
+        priority += 2;
+        highlights.push('starts soon');
+      }
+      if (event.location) {
+        if (isVirtualLocation(event.location)) {
+          highlights.push('video call');
+        } else {
+          priority += 2;
+          highlights.push('needs travel');
+        }
+      }
+      if ((event.durationMinutes || 0) >= 120) priority += 1;
+
+      const next = timed[index + 1];
+      if (next && event.endsAt) {
+        const freeMinutes = (new Date(next.startsAt!).getTime() - new Date(event.endsAt).getTime()) / 60000;
+        if (freeMinutes >= FREE_STRETCH_MINUTES) {
+          priority += 1;
+          highlights.push(`then free for ${Math.floor(freeMinutes / 60)} hours`);
+        }
+      }
+    }
+
+    return { ...event, priority, ...(highlights.length > 0 ? { highlights } : {}) };
+  });
+}
+
+// ============================================
+// PROMPT TEXT
+// ============================================
+
+// How many events the calendar segment and brain get told about
+export const MAX_MENTIONED_EVENTS = 3;
+
+function describeEvent(event: CalendarEvent): string {
+  const details: string[] = [];
+  if (event.durationMinutes) {
+    details.push(event.durationMinutes < 60 || event.durationMinutes % 60 !== 0
+      ? `${event.durationMinutes} min`
+      : `${event.durationMinutes / 60} h`);
+  }
+  if (event.location) details.push(event.location);
+
+  let line = event.allDay ? `- ${event.title}` : `- ${event.title} at ${event.time}`;
+  if (details.length > 0) line += ` (${details.join(', ')})`;
+  if (event.highlights?.length) line += ` - ${event.highlights.join(', ')}`;
+  return line;
+}
+
+// The few events worth mentioning, in time order, and a count of the rest
+export function describeCalendar(events: CalendarEvent[], limit = MAX_MENTIONED_EVENTS): string {
+  if (events.length === 0) return 'No calendar events for today.';
+
+  const mentioned = events
+    .map((event, order) => ({ event, order }))
+    .sort((a, b) => (b.event.priority || 0) - (a.event.priority || 0) || a.order - b.order)
+    .slice(0, limit)
+    .sort((a, b) => a.order - b.order)
+    .map(({ event }) => event);
+
+  const lines = mentioned.map(describeEvent);
+  const others = events.length - mentioned.length;
+  if (others > 0) {
+    lines.push(`Plus ${others} more ${others === 1 ? 'event' : 'events'} - don't list them.`);
+  }
+  return lines.join('\n');
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+const FEED_TIMEOUT_MS = 5000;
+const MAX_FEED_BYTES = 5_000_000;
+const MAX_FEED_REDIRECTS = 3;
+
+export type CalendarFeedFetcher = (url: string) => Promise<string>;
+
+export interface CalendarFeedOptions {
+  enabled: boolean;
+  fetchFeed?: CalendarFeedFetcher;  // Replaces the https fetch (tests use a local fake)
+}
+
+// Where a feed may not point: this network, private and carrier-grade NAT
+// ranges, loopback, link-local (cloud metadata lives at 169.254.169.254),
+// multicast and reserved addresses, and their IPv6 counterparts. BlockList
+// checks IPv4 addresses mapped into IPv6 (::ffff:127.0.0.1) against the
+// IPv4 ranges.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// dns.lookup that fails unless every address is public. It runs as the
+// request's own lookup, so the address checked is the one connected to.
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new CalendarImportError(`Calendar feed host ${hostname} is not a public address`), '');
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// One request, no redirects followed. IP literals skip the lookup, so
+// they're checked here.
+function getFeed(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  if (url.protocol !== 'https:') {
+    return Promise.reject(new CalendarImportError('Calendar feeds must use https'));
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    return Promise.reject(new CalendarImportError(`Calendar feed host ${host} is not a public address`));
+  }
+  return new Promise((resolve, reject) => {
+    https.get(url, { headers: { Accept: 'text/calendar' }, lookup: publicLookup, signal }, resolve).on('error', reject);
+  });
+}
+
+// Reads a feed body, giving up (and dropping the connection) as soon as
+// it's over the limit rather than after buffering all of it
+export async function readLimited(body: Readable, contentLength: string | undefined, limit = MAX_FEED_BYTES): Promise<string> {
+  const tooLarge = () => {
+    body.destroy();
+    return new CalendarImportError('Calendar feed is too large');
+  };
+  if (Number(contentLength) > limit) throw tooLarge();
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body) {
+    size += chunk.length;
+    if (size > limit) throw tooLarge();
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Fetches a client-supplied feed URL: https only, public addresses only,
+// and every redirect is checked again before it's followed
+export async function fetchCalendarFeed(url: string): Promise<string> {
+  const signal = AbortSignal.timeout(FEED_TIMEOUT_MS);
+  let target = new URL(url.replace(/^webcal:/i, 'https:'));
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await getFeed(target, signal);
+    const status = response.statusCode || 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.destroy();
+      if (redirects >= MAX_FEED_REDIRECTS) throw new CalendarImportError('Calendar feed redirects too many times');
+      target = new URL(response.headers.location.replace(/^webcal:/i, 'https:'), target);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new CalendarImportError(`Calendar feed error: ${status}`);
+    }
+    return readLimited(response, response.headers['content-length']);
+  }
+}
+
+// Feeds make the server fetch URLs clients choose, so they're off unless
+// the server turns them on (CALENDAR_FEEDS=on)
+let feeds: CalendarFeedOptions = { enabled: false };
+
+export function initCalendarFeeds(options: CalendarFeedOptions) {
+  feeds = options;
+  console.log(`[Calendar] ICS feed URLs ${options.enabled ? 'enabled' : 'disabled'}`);
+}
+
+// Today's ranked events from an upload or a feed (undefined when the
+// session sent neither). A malformed upload throws CalendarImportError;
+// a feed that fails is logged and treated as no calendar, like weather.
+export async function importCalendar(source: CalendarSource, userLocale: UserLocale, now = new Date()): Promise<CalendarEvent[] | undefined> {
+  if (source.calendarIcs) {
+    const events = eventsForDay(parseIcs(source.calendarIcs), userLocale, now);
+    console.log(`[Calendar] Imported ${events.length} events for today from uploaded ICS`);
+    return events;
+  }
+
+  if (source.calendarUrl && feeds.enabled) {
+    const fetchStart = Date.now();
+    try {
+      const fetchFeed = feeds.fetchFeed || fetchCalendarFeed;
+      const events = eventsForDay(parseIcs(await fetchFeed(source.calendarUrl)), userLocale, now);
+      console.log(`[Calendar] ⏱️ Feed imported in ${Date.now() - fetchStart}ms (${events.length} events today)`);
+      return events;
+    } catch (feedError) {
+      console.error('[Calendar] Failed to import feed:', feedError);
+    }
+  }
+
+  return undefined;
+}
+
+// Calendar text for the free-text context of chained, gpt-driven and
+// realtime sessions (the session brain reads it): the imported calendar
+// when one was sent, else whatever text the app sent
+export async function calendarContextText(
+  context: CalendarSource & { calendar?: string } | undefined,
+  userLocale: UserLocale
+): Promise<string> {
+  const events = context ? await importCalendar(context, userLocale) : undefined;
+  if (events) return describeCalendar(events);
+  return context?.calendar || 'No calendar events for today.';
+}
@@ -16,20 +16,18 @@
  * - Higher latency (~1-2 seconds per turn)
  */
 
-import OpenAI from 'openai';
+import crypto from 'crypto';
 import { Persona } from '../config/personas';
 import { WakeSessionBrain } from './wakeSessionBrain';
-
-// Initialize OpenAI client
-let openaiClient: OpenAI | null = null;
-
-export function initOpenAI(apiKey: string) {
-  openaiClient = new OpenAI({ apiKey });
-}
+import { getLLMProvider, SpeechFormat, TTSVoice } from './llmProvider';
+import { BudgetExhaustedError } from './usageBudget';
+import { UserLocale, describeUnits } from './userLocale';
+import { LanguageCode, getLanguage, isExactly, languageInstruction } from '../config/languages';
 
 export interface ChainedSessionConfig {
   persona: Persona;
   voiceId: string;
+  userLocale: UserLocale;
   preferences: {
     includeNews: boolean;
     includeWeather: boolean;
@@ -53,7 +51,7 @@ export interface ChainedSession {
 }
 
 // Voice mapping for TTS
-const TTS_VOICES: Record<string, 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'> = {
+const TTS_VOICES: Record<string, TTSVoice> = {
   'soft-female': 'shimmer',
   'warm-male': 'echo',
   'energetic-female': 'nova',
@@ -69,11 +67,12 @@ export function createChainedSession(config: ChainedSessionConfig): ChainedSessi
   const brain = new WakeSessionBrain(
     config.persona.id,
     config.preferences,
-    config.context
+    config.context,
+    config.userLocale.language
   );
 
   return {
-    id: `chained_${Date.now()}`,
+    id: `chained_${crypto.randomUUID()}`,
     config,
     brain,
     conversationHistory: [],
@@ -103,69 +102,53 @@ function detectAudioFormat(buffer: Buffer): { mimeType: string; extension: strin
   return { mimeType: 'audio/webm', extension: 'webm' };
 }
 
+// The transcription provider failed - unlike silence or noise, which
+// transcribe to ''
+export class TranscriptionError extends Error {
+  constructor() {
+    super('Speech could not be transcribed, try again');
+    this.name = 'TranscriptionError';
+  }
+}
+
 /**
  * Transcribe audio to text using Whisper
  * Uses gpt-4o-transcribe with VAD for better silence handling
  */
-export async function transcribeAudio(audioBuffer: Buffer): Promise<string> {
-  if (!openaiClient) throw new Error('OpenAI client not initialized');
-
+export async function transcribeAudio(audioBuffer: Buffer, language: LanguageCode = 'en'): Promise<string> {
   // Detect audio format
   const format = detectAudioFormat(audioBuffer);
   console.log(`[Chained] Detected audio format: ${format.mimeType} (${audioBuffer.length} bytes)`);
 
   try {
-    // Create a File-like object from the buffer with correct format
-    const blob = new Blob([new Uint8Array(audioBuffer)], { type: format.mimeType });
-    const file = new File([blob], `audio.${format.extension}`, { type: format.mimeType });
-
-    // Use gpt-4o-transcribe with prompt to filter noise
-    const response = await openaiClient.audio.transcriptions.create({
-      model: 'gpt-4o-transcribe',
-      file: file,
-      language: 'en',
+    // Use prompt to filter noise
+    const text = await getLLMProvider().transcribe({
+      audio: audioBuffer,
+      mimeType: format.mimeType,
+      extension: format.extension,
+      language,
       // Prompt helps guide the model - tell it this is conversational speech
-      prompt: 'This is a person speaking in response to a wake-up alarm. Transcribe only actual spoken words. If there is no speech, return an empty string.',
+      prompt: getLanguage(language).transcriptionPrompt,
     });
 
-    const text = response.text?.trim() || '';
-
     // Additional filter: if it's just punctuation, whitespace, or common noise transcriptions
     const noisePatterns = [
       /^[\s.,!?-]+$/, // Just punctuation/whitespace
       /^\.+$/, // Just dots
       /^(um|uh|hmm|mhm|ah)+$/i, // Just filler sounds (though these might be valid)
-      /^thanks for watching\.?$/i, // Common Whisper hallucination
-      /^thank you\.?$/i, // Another common hallucination on silence
-      /^you$/i, // Single word hallucination
-      /^bye\.?$/i, // Common hallucination
     ];
 
-    for (const pattern of noisePatterns) {
-      if (pattern.test(text)) {
-        console.log(`[Chained] Filtered noise transcript: "${text}"`);
-        return '';
-      }
+    // Whisper hallucinations on silence ("Thanks for watching", "Gracias por ver"...)
+    if (noisePatterns.some(pattern => pattern.test(text)) || isExactly(text, language, lexicon => lexicon.noiseTranscripts)) {
+      console.log(`[Chained] Filtered noise transcript: "${text}"`);
+      return '';
     }
 
     return text;
   } catch (error) {
+    if (error instanceof BudgetExhaustedError) throw error;
     console.error('[Chained] Transcription error:', error);
-    // Fall back to whisper-1 if gpt-4o-transcribe fails
-    try {
-      const blob = new Blob([new Uint8Array(audioBuffer)], { type: format.mimeType });
-      const file = new File([blob], `audio.${format.extension}`, { type: format.mimeType });
-
-      const response = await openaiClient.audio.transcriptions.create({
-        model: 'whisper-1',
-        file: file,
-        language: 'en',
-      });
-      return response.text?.trim() || '';
-    } catch (fallbackError) {
-      console.error('[Chained] Fallback transcription also failed:', fallbackError);
-      return '';
-    }
+    throw new TranscriptionError();
   }
 }
 
@@ -176,8 +159,6 @@ export async function generateResponse(
   session: ChainedSession,
   userMessage: string | null  // null for initial greeting or silence prompts
 ): Promise<string> {
-  if (!openaiClient) throw new Error('OpenAI client not initialized');
-
   const { persona, context } = session.config;
   const brain = session.brain;
 
@@ -204,6 +185,7 @@ export async function generateResponse(
 
   // Add context
   systemPrompt += `\n\n# CURRENT CONTEXT\nTime: ${context.currentTime}`;
+  systemPrompt += `\nUnits: ${describeUnits(session.config.userLocale.units)}`;
   if (context.weather) systemPrompt += `\nWeather: ${context.weather}`;
   if (context.calendar) systemPrompt += `\nCalendar: ${context.calendar}`;
   if (context.news) systemPrompt += `\nNews: ${context.news}`;
@@ -270,16 +252,17 @@ Time: ${context.currentTime}`;
     });
   }
 
+  // Non-English sessions: the prompts above stay in English, the reply doesn't
+  const language = languageInstruction(session.config.userLocale.language);
+  if (language) messages[0].content += `\n\n${language}`;
+
   try {
-    const response = await openaiClient.chat.completions.create({
-      model: 'gpt-4o',
-      messages: messages,
-      max_tokens: 300,
+    const assistantMessage = await getLLMProvider().chat({
+      messages,
+      maxTokens: 300,
       temperature: 0.8,
     });
 
-    const assistantMessage = response.choices[0]?.message?.content || '';
-
     // Store in history
     session.conversationHistory.push({ role: 'assistant', content: assistantMessage });
 
@@ -291,32 +274,21 @@ Time: ${context.currentTime}`;
 }
 
 /**
- * Convert text to speech using OpenAI TTS
+ * Convert text to speech using the configured TTS provider
  */
 export async function textToSpeech(
   text: string,
-  voiceId: string
+  voiceId: string,
+  format: SpeechFormat = 'mp3'
 ): Promise<Buffer> {
-  if (!openaiClient) throw new Error('OpenAI client not initialized');
-
   // Support both direct OpenAI voice names and legacy mappings
-  const validVoices = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
-  const voice = validVoices.includes(voiceId) 
-    ? voiceId 
+  const validVoices: TTSVoice[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+  const voice = validVoices.includes(voiceId as TTSVoice)
+    ? voiceId as TTSVoice
     : (TTS_VOICES[voiceId] || 'nova');
 
   try {
-    const response = await openaiClient.audio.speech.create({
-      model: 'tts-1',
-      voice: voice,
-      input: text,
-      response_format: 'mp3',  // MP3 format for iOS AVAudioPlayer compatibility
-      speed: 1.0,
-    });
-
-    // Get the audio data as a buffer
-    const arrayBuffer = await response.arrayBuffer();
-    return Buffer.from(arrayBuffer);
+    return await getLLMProvider().speech(text, voice, format);
   } catch (error) {
     console.error('[Chained] TTS error:', error);
     throw error;
@@ -335,7 +307,7 @@ export async function processUserAudio(
   try {
     // Step 1: Transcribe (now handles noise filtering internally)
     console.log('[Chained] Step 1: Transcribing audio...');
-    const transcript = await transcribeAudio(audioBuffer);
+    const transcript = await transcribeAudio(audioBuffer, session.config.userLocale.language);
 
     // If transcript is empty after noise filtering, skip response
     if (!transcript) {
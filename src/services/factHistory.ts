@@ -0,0 +1,206 @@
+/**
+ * Fact History
+ *
+ * Remembers which fact topics each user (app install / principal) has
+ * already heard, so the fact segment keeps finding new ones across
+ * sessions, restarts and deploys. Topics older than the retention window
+ * are forgotten and may come back.
+ *
+ * Two implementations, like the track session store:
+ * - MemoryFactHistoryStore: in-memory only, lost on restart (local dev)
+ * - FileFactHistoryStore: one JSON file per user on disk
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface FactRecord {
+  topic: string;   // Lowercased, as tagged by the fact segment
+  usedAt: string;  // ISO timestamp of the last time it was used
+}
+
+export interface FactHistoryStore {
+  // Topics still within the retention window, newest first
+  list(userId: string): Promise<FactRecord[]>;
+  record(userId: string, topic: string): Promise<void>;
+  // Forgets everything for the user; returns how many topics were removed
+  reset(userId: string): Promise<number>;
+}
+
+export interface FactHistoryOptions {
+  type?: 'memory' | 'file';
+  directory?: string;
+  retentionDays?: number;
+  maxTopicsPerUser?: number;
+}
+
+// ============================================
+// DEFAULTS (overridable via env)
+// ============================================
+
+const DEFAULT_RETENTION_DAYS = 90;
+const DEFAULT_MAX_TOPICS_PER_USER = 200;
+
+// ============================================
+// SHARED RETENTION LOGIC
+// ============================================
+
+abstract class BaseFactHistoryStore implements FactHistoryStore {
+  private retentionMs: number;
+  private maxTopics: number;
+  // Updates per user are chained so concurrent sessions don't drop each other's facts
+  private updates = new Map<string, Promise<void>>();
+
+  constructor(options: FactHistoryOptions) {
+    this.retentionMs = (options.retentionDays || DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+    this.maxTopics = options.maxTopicsPerUser || DEFAULT_MAX_TOPICS_PER_USER;
+  }
+
+  protected abstract read(userId: string): Promise<FactRecord[]>;
+  protected abstract write(userId: string, records: FactRecord[]): Promise<void>;
+
+  async list(userId: string): Promise<FactRecord[]> {
+    return this.prune(await this.read(userId));
+  }
+
+  async record(userId: string, topic: string): Promise<void> {
+    const normalized = topic.toLowerCase().trim();
+    if (!normalized) return;
+
+    return this.update(userId, async () => {
+      const records = (await this.read(userId)).filter(r => r.topic !== normalized);
+      records.push({ topic: normalized, usedAt: new Date().toISOString() });
+      const kept = this.prune(records);
+      await this.write(userId, kept);
+
+      console.log(`[FactHistory] Stored fact for ${userId}: "${normalized}" (total: ${kept.length} facts)`);
+    });
+  }
+
+  async reset(userId: string): Promise<number> {
+    return this.update(userId, async () => {
+      const count = this.prune(await this.read(userId)).length;
+      await this.write(userId, []);
+      console.log(`[FactHistory] Reset fact history for ${userId} (${count} facts)`);
+      return count;
+    });
+  }
+
+  private async update<T>(userId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.updates.get(userId) || Promise.resolve();
+    const result = previous.then(operation);
+    const settled = result.then(() => undefined, () => undefined);
+    this.updates.set(userId, settled);
+    try {
+      return await result;
+    } finally {
+      if (this.updates.get(userId) === settled) this.updates.delete(userId);
+    }
+  }
+
+  // Drop expired topics and keep the newest maxTopics, newest first
+  private prune(records: FactRecord[]): FactRecord[] {
+    const cutoff = Date.now() - this.retentionMs;
+    return records
+      .filter(r => Date.parse(r.usedAt) >= cutoff)
+      .sort((a, b) => Date.parse(b.usedAt) - Date.parse(a.usedAt))
+      .slice(0, this.maxTopics);
+  }
+}
+
+// ============================================
+// MEMORY STORE
+// ============================================
+
+export class MemoryFactHistoryStore extends BaseFactHistoryStore {
+  private users = new Map<string, FactRecord[]>();
+
+  protected async read(userId: string): Promise<FactRecord[]> {
+    return [...(this.users.get(userId) || [])];
+  }
+
+  protected async write(userId: string, records: FactRecord[]): Promise<void> {
+    if (records.length === 0) {
+      this.users.delete(userId);
+    } else {
+      this.users.set(userId, records);
+    }
+  }
+}
+
+// ============================================
+// FILE STORE
+// ============================================
+
+export class FileFactHistoryStore extends BaseFactHistoryStore {
+  private directory: string;
+
+  constructor(directory: string, options: FactHistoryOptions) {
+    super(options);
+    this.directory = directory;
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  protected async read(userId: string): Promise<FactRecord[]> {
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.fileFor(userId), 'utf8'));
+      return Array.isArray(data.facts) ? data.facts : [];
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.error(`[FactHistory] Failed to read fact history for ${userId}:`, error);
+      }
+      return [];
+    }
+  }
+
+  protected async write(userId: string, records: FactRecord[]): Promise<void> {
+    const file = this.fileFor(userId);
+    if (records.length === 0) {
+      await fs.promises.unlink(file).catch(() => undefined);
+      return;
+    }
+    // Write to a temp file and rename so a crash never leaves half a file
+    const tmp = `${file}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify({ userId, facts: records }), 'utf8');
+    await fs.promises.rename(tmp, file);
+  }
+
+  // User ids contain ':' and come from tokens - hash them into a safe filename
+  private fileFor(userId: string): string {
+    const hash = crypto.createHash('sha256').update(userId).digest('hex').slice(0, 32);
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+// ============================================
+// SINGLETON
+// ============================================
+
+let store: FactHistoryStore = new MemoryFactHistoryStore({});
+
+export function getDefaultFactHistoryOptions(): FactHistoryOptions {
+  return {
+    type: process.env.FACT_HISTORY_STORE === 'file' ? 'file' : 'memory',
+    directory: process.env.FACT_HISTORY_DIR,
+    retentionDays: Number(process.env.FACT_HISTORY_RETENTION_DAYS) || undefined,
+  };
+}
+
+export function initFactHistory(options: FactHistoryOptions = {}) {
+  if (options.type === 'file') {
+    const directory = options.directory || path.join(process.cwd(), 'data', 'facts');
+    console.log(`[FactHistory] Using file store at ${directory}`);
+    store = new FileFactHistoryStore(directory, options);
+  } else {
+    store = new MemoryFactHistoryStore(options);
+  }
+}
+
+export function getFactHistory(): FactHistoryStore {
+  return store;
+}
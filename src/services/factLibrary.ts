@@ -0,0 +1,147 @@
+/**
+ * Fact Library
+ *
+ * A curated corpus of facts for the fact segment, each with a topic,
+ * category, source citation and verification status. The engine picks a
+ * fact the user hasn't heard (see factHistory) and GPT only rephrases it
+ * in the persona's voice, so what's said is something we checked rather
+ * than something the model made up. Generation is the fallback once a
+ * user has heard everything in the library.
+ *
+ * The bundled corpus is src/config/facts.json; FACT_LIBRARY_PATH points
+ * at a different JSON file with the same shape.
+ */
+
+import fs from 'fs';
+import bundledCorpus from '../config/facts.json';
+import { ObjectSchema, validate } from '../validation/schema';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LibraryFact {
+  id: string;
+  topic: string;     // Short, lowercase - what the fact history remembers
+  category: string;  // e.g. animals, space, body
+  text: string;
+  source: { title: string; url?: string };
+  verified: boolean;  // Checked against the source
+}
+
+export interface FactLibraryOptions {
+  path?: string;  // JSON corpus to load instead of the bundled one
+  includeUnverified?: boolean;  // Off by default - only verified facts are spoken
+}
+
+// ============================================
+// CORPUS SCHEMA
+// ============================================
+
+const corpusSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'integer', minimum: 1, maximum: 1 },
+    facts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          topic: { type: 'string', minLength: 1, maxLength: 100 },
+          category: { type: 'string', minLength: 1 },
+          text: { type: 'string', minLength: 1, maxLength: 1000 },
+          source: {
+            type: 'object',
+            properties: {
+              title: { type: 'string', minLength: 1 },
+              url: { type: 'string' },
+            },
+            required: ['title'],
+          },
+          verified: { type: 'boolean' },
+        },
+        required: ['id', 'topic', 'category', 'text', 'source', 'verified'],
+      },
+    },
+  },
+  required: ['version', 'facts'],
+};
+
+export function normalizeTopic(topic: string): string {
+  return topic.toLowerCase().trim();
+}
+
+// Throws on a malformed corpus so a bad file fails at startup, not mid-alarm
+export function parseFactCorpus(corpus: unknown, origin: string): LibraryFact[] {
+  const error = validate(corpusSchema, corpus, 'corpus');
+  if (error) {
+    throw new Error(`Invalid fact library ${origin}: ${error.message}`);
+  }
+
+  const facts = (corpus as { facts: LibraryFact[] }).facts;
+  const ids = new Set<string>();
+  for (const fact of facts) {
+    if (ids.has(fact.id)) throw new Error(`Invalid fact library ${origin}: duplicate fact id "${fact.id}"`);
+    ids.add(fact.id);
+  }
+  return facts.map(fact => ({ ...fact, topic: normalizeTopic(fact.topic) }));
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+// Facts the app sent with the session (TrackConfig.facts) - the user chose
+// them, so they're used before the library and count as verified
+export function customFacts(texts: string[]): LibraryFact[] {
+  return texts.map((text, i) => ({
+    id: `custom-${i}`,
+    topic: normalizeTopic(text).slice(0, 100),
+    category: 'custom',
+    text,
+    source: { title: 'Provided by the app' },
+    verified: true,
+  }));
+}
+
+// A random fact whose topic isn't in usedTopics, or null when everything's been heard
+export function selectFact(facts: LibraryFact[], usedTopics: Iterable<string>, random: () => number = Math.random): LibraryFact | null {
+  const used = new Set(Array.from(usedTopics, normalizeTopic));
+  const candidates = facts.filter(fact => !used.has(fact.topic));
+  if (candidates.length === 0) return null;
+  return candidates[Math.floor(random() * candidates.length)];
+}
+
+// ============================================
+// SINGLETON
+// ============================================
+
+// Empty until initFactLibrary - every fact segment is generated
+let libraryFacts: LibraryFact[] = [];
+
+export function getDefaultFactLibraryOptions(): FactLibraryOptions {
+  return {
+    path: process.env.FACT_LIBRARY_PATH,
+    includeUnverified: process.env.FACT_LIBRARY_INCLUDE_UNVERIFIED === 'true',
+  };
+}
+
+export function initFactLibrary(options: FactLibraryOptions = {}) {
+  const facts = options.path
+    ? parseFactCorpus(JSON.parse(fs.readFileSync(options.path, 'utf8')), options.path)
+    : parseFactCorpus(bundledCorpus, 'src/config/facts.json');
+
+  initFactLibraryWith(facts, options);
+}
+
+// Use these facts instead of loading a corpus (tests)
+export function initFactLibraryWith(facts: LibraryFact[], options: FactLibraryOptions = {}) {
+  libraryFacts = options.includeUnverified ? facts : facts.filter(fact => fact.verified);
+  const skipped = facts.length - libraryFacts.length;
+  console.log(`[FactLibrary] Loaded ${libraryFacts.length} facts${skipped ? ` (${skipped} unverified skipped)` : ''}`);
+}
+
+export function getLibraryFacts(): LibraryFact[] {
+  return libraryFacts;
+}
@@ -17,14 +17,11 @@
  * - When the user is awake
  */
 
-import OpenAI from 'openai';
+import crypto from 'crypto';
 import { transcribeAudio, textToSpeech } from './chainedSession';
-
-let openaiClient: OpenAI | null = null;
-
-export function initGptDriven(apiKey: string) {
-  openaiClient = new OpenAI({ apiKey });
-}
+import { getLLMProvider } from './llmProvider';
+import { UserLocale, describeUnits } from './userLocale';
+import { languageInstruction } from '../config/languages';
 
 // ============================================
 // SHARED INSTRUCTIONS
@@ -113,6 +110,7 @@ Be tough. Vary your tactics. Get results.`
 export interface GptDrivenConfig {
   personaId: string;
   voiceId: string;
+  userLocale: UserLocale;
   context: {
     weather?: string;
     calendar?: string;
@@ -136,7 +134,7 @@ export interface GptDrivenSession {
 
 export function createGptDrivenSession(config: GptDrivenConfig): GptDrivenSession {
   return {
-    id: `gpt_${Date.now()}`,
+    id: `gpt_${crypto.randomUUID()}`,
     config,
     conversationHistory: [],
     turnCount: 0,
@@ -154,9 +152,7 @@ async function generateGptResponse(
   userMessage: string | null,
   isSilence: boolean = false
 ): Promise<string> {
-  if (!openaiClient) throw new Error('OpenAI client not initialized');
-
-  const { personaId, context } = session.config;
+  const { personaId, context, userLocale } = session.config;
   const personaPrompt = PERSONA_PROMPTS[personaId] || PERSONA_PROMPTS['morning-coach'];
 
   // Build system prompt
@@ -165,6 +161,7 @@ async function generateGptResponse(
   // Add the only things GPT can't know: external context
   systemPrompt += `\n\n# Context
 - Time: ${context.currentTime}
+- Units: ${describeUnits(userLocale.units)}
 - Weather: ${context.weather || 'Not available'}
 ${context.calendar ? `- Calendar: ${context.calendar}` : ''}
 ${context.news ? `- News: ${context.news}` : ''}
@@ -175,6 +172,9 @@ ${context.news ? `- News: ${context.news}` : ''}
     systemPrompt += `\n\nThis is your opening. Keep it short and warm - just a greeting.`;
   }
 
+  const language = languageInstruction(userLocale.language);
+  if (language) systemPrompt += `\n\n${language}`;
+
   // Build messages
   const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
     { role: 'system', content: systemPrompt },
@@ -197,15 +197,12 @@ ${context.news ? `- News: ${context.news}` : ''}
 
   console.log(`[GPT-Driven] Generating response (turn ${session.turnCount + 1}, silence=${isSilence})`);
 
-  const response = await openaiClient.chat.completions.create({
-    model: 'gpt-4o',
-    messages: messages,
-    max_tokens: 300,
+  const text = await getLLMProvider().chat({
+    messages,
+    maxTokens: 300,
     temperature: 0.85,
   });
 
-  const text = response.choices[0]?.message?.content || '';
-
   // Update session
   if (userMessage) {
     session.conversationHistory.push({ role: 'user', content: userMessage });
@@ -245,7 +242,7 @@ export async function processUserAudio(
 
   try {
     // Transcribe
-    const transcript = await transcribeAudio(audioBuffer);
+    const transcript = await transcribeAudio(audioBuffer, session.config.userLocale.language);
 
     if (!transcript) {
       console.log('[GPT-Driven] No speech detected');
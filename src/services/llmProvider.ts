@@ -0,0 +1,359 @@
+/**
+ * LLM Provider
+ *
+ * Single place where the backend talks to a language/speech model.
+ * Every session type (track, chained, gpt-driven) goes through the
+ * provider for:
+ * - Chat completion (plain and streamed)
+ * - Text-to-speech
+ * - Transcription
+ *
+ * Two implementations, selected by config (LLM_PROVIDER):
+ * - openai: the real thing (gpt-4o / tts-1 / gpt-4o-transcribe by default)
+ * - local:  deterministic, fixture-driven stub so every route can be
+ *           exercised offline and in tests
+ */
+
+import fs from 'fs';
+import OpenAI from 'openai';
+import { ObjectSchema, Schema } from '../validation/schema';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for a JSON object matching this schema (the caller still validates it)
+  responseSchema?: { name: string; schema: ObjectSchema };
+}
+
+export type TTSVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
+
+// MP3 for playback; WAV (16-bit PCM) when the backend mixes the audio itself
+export type SpeechFormat = 'mp3' | 'wav';
+
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimeType: string;
+  extension: string;
+  language?: string;
+  prompt?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: ChatRequest): Promise<string>;
+  chatStream(request: ChatRequest): AsyncIterable<string>;
+  speech(text: string, voice: TTSVoice, format?: SpeechFormat): Promise<Buffer>;
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+export interface LLMProviderConfig {
+  provider: 'openai' | 'local';
+  openaiApiKey?: string;
+  chatModel?: string;
+  ttsModel?: string;
+  transcribeModel?: string;
+  fixturesPath?: string;  // Local provider only
+}
+
+// ============================================
+// OPENAI PROVIDER
+// ============================================
+
+// Our schema subset -> OpenAI strict JSON schema. Strict mode wants
+// nullable as a type union and rejects some validation keywords, which
+// are dropped here (callers validate the reply against the full schema).
+function toStrictJsonSchema(schema: Schema): Record<string, unknown> {
+  const type = schema.nullable ? [schema.type, 'null'] : schema.type;
+  switch (schema.type) {
+    case 'object':
+      return {
+        type,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([name, property]) => [name, toStrictJsonSchema(property)])
+        ),
+        required: Object.keys(schema.properties),
+        additionalProperties: false,
+      };
+    case 'array':
+      return { type, items: toStrictJsonSchema(schema.items) };
+    case 'string':
+      return schema.enum ? { type, enum: schema.enum } : { type };
+    default:
+      return { type };
+  }
+}
+
+function responseFormat(request: ChatRequest) {
+  if (!request.responseSchema) return undefined;
+  return {
+    type: 'json_schema' as const,
+    json_schema: {
+      name: request.responseSchema.name,
+      schema: toStrictJsonSchema(request.responseSchema.schema),
+      strict: true,
+    },
+  };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+  private chatModel: string;
+  private ttsModel: string;
+  private transcribeModel: string;
+
+  constructor(apiKey: string, models: { chat?: string; tts?: string; transcribe?: string } = {}) {
+    this.client = new OpenAI({ apiKey });
+    this.chatModel = models.chat || 'gpt-4o';
+    this.ttsModel = models.tts || 'tts-1';
+    this.transcribeModel = models.transcribe || 'gpt-4o-transcribe';
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: responseFormat(request),
+    });
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: responseFormat(request),
+      stream: true,
+    });
+    for await (const part of stream) {
+      const token = part.choices[0]?.delta?.content;
+      if (token) yield token;
+    }
+  }
+
+  async speech(text: string, voice: TTSVoice, format: SpeechFormat = 'mp3'): Promise<Buffer> {
+    const response = await this.client.audio.speech.create({
+      model: this.ttsModel,
+      voice,
+      input: text,
+      response_format: format,  // MP3 by default for iOS AVAudioPlayer compatibility
+      speed: 1.0,
+    });
+
+    // Get the audio data as a buffer
+    const arrayBuffer = await response.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    const toFile = () => {
+      const blob = new Blob([new Uint8Array(request.audio)], { type: request.mimeType });
+      return new File([blob], `audio.${request.extension}`, { type: request.mimeType });
+    };
+
+    try {
+      const response = await this.client.audio.transcriptions.create({
+        model: this.transcribeModel,
+        file: toFile(),
+        language: request.language,
+        prompt: request.prompt,
+      });
+      return response.text?.trim() || '';
+    } catch (error) {
+      console.error(`[LLMProvider] ${this.transcribeModel} transcription failed, falling back to whisper-1:`, error);
+      // Fall back to whisper-1 if the primary model fails
+      const response = await this.client.audio.transcriptions.create({
+        model: 'whisper-1',
+        file: toFile(),
+        language: request.language,
+      });
+      return response.text?.trim() || '';
+    }
+  }
+}
+
+// ============================================
+// LOCAL PROVIDER (deterministic stub)
+// ============================================
+
+// A chat rule: the first rule whose pattern matches the conversation wins.
+// Array responses are used in turn (and repeat from the start when exhausted).
+export interface LocalChatRule {
+  match: string;  // Regex, tested against the system prompt + last user message
+  response: string | string[];
+}
+
+export interface LocalFixtures {
+  chat?: LocalChatRule[];
+  // Transcripts returned in order. When empty, audio that is valid UTF-8
+  // text is "transcribed" as that text (handy in tests), anything else as ''.
+  transcriptions?: string[];
+}
+
+// Plain-text replies are mapped onto a requested response schema, so the
+// same rules serve structured requests: the text (minus a trailing [tag])
+// fills the first string field, the tag fills `topic`, numbers get a
+// speaking-time estimate and arrays are empty. Replies that are already
+// JSON are returned as-is (to script malformed output in tests).
+function structuredReply(text: string, schema: ObjectSchema): string {
+  try {
+    JSON.parse(text);
+    return text;
+  } catch {
+    // Plain text - map it below
+  }
+
+  const tag = text.match(/\[([^\]]+)\]\s*$/);
+  const spoken = text.replace(/\s*\[[^\]]+\]\s*$/, '').trim();
+  const words = spoken ? spoken.split(/\s+/).length : 0;
+
+  let textUsed = false;
+  const reply: Record<string, unknown> = {};
+  for (const [name, property] of Object.entries(schema.properties)) {
+    if (name === 'topic') {
+      reply[name] = tag ? tag[1] : null;
+    } else if (property.type === 'string' && !textUsed) {
+      reply[name] = spoken;
+      textUsed = true;
+    } else if (property.type === 'number' || property.type === 'integer') {
+      reply[name] = Math.round(words / 2.5);
+    } else if (property.type === 'array') {
+      reply[name] = [];
+    } else {
+      reply[name] = null;
+    }
+  }
+  return JSON.stringify(reply);
+}
+
+// Default script, appended after any fixture rules
+const DEFAULT_CHAT_RULES: LocalChatRule[] = [
+  { match: '## The Fact\\n(.+)', response: 'Here is something fun. $1' },
+  { match: 'Generate the FACT segment', response: 'Here is something fun. Octopuses have three hearts. [octopus hearts]' },
+  { match: 'Generate the (\\w+) segment now', response: 'This is the local $1 segment.' },
+  { match: 'User is silent|Session starting', response: 'Good morning. Time to wake up.' },
+  { match: '.', response: 'Got it. Let us keep going.' },
+];
+
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local';
+  private rules: { pattern: RegExp; responses: string[]; used: number }[];
+  private transcriptions: string[];
+
+  constructor(fixtures: LocalFixtures = {}) {
+    this.rules = [...(fixtures.chat || []), ...DEFAULT_CHAT_RULES].map(rule => ({
+      pattern: new RegExp(rule.match, 'i'),
+      responses: Array.isArray(rule.response) ? rule.response : [rule.response],
+      used: 0,
+    }));
+    this.transcriptions = [...(fixtures.transcriptions || [])];
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const system = request.messages.find(m => m.role === 'system')?.content || '';
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+    const haystack = `${system}\n${lastUser}`;
+
+    for (const rule of this.rules) {
+      const match = haystack.match(rule.pattern);
+      if (!match) continue;
+      const template = rule.responses[rule.used % rule.responses.length];
+      rule.used++;
+      // Support $1..$9 references to capture groups
+      const text = template.replace(/\$(\d)/g, (_, n) => match[Number(n)] || '');
+      return request.responseSchema ? structuredReply(text, request.responseSchema.schema) : text;
+    }
+    return '';
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    const text = await this.chat(request);
+    // Word-sized tokens, like a real stream
+    for (const token of text.match(/\S+\s*/g) || []) {
+      yield token;
+    }
+  }
+
+  // A silent 8kHz mono WAV, ~300ms per word, so clients get real audio to
+  // play (whatever format was asked for)
+  async speech(text: string): Promise<Buffer> {
+    const words = text.trim() ? text.trim().split(/\s+/).length : 1;
+    const sampleRate = 8000;
+    const dataSize = Math.round(words * 0.3 * sampleRate) * 2;
+
+    const wav = Buffer.alloc(44 + dataSize);
+    wav.write('RIFF', 0);
+    wav.writeUInt32LE(36 + dataSize, 4);
+    wav.write('WAVE', 8);
+    wav.write('fmt ', 12);
+    wav.writeUInt32LE(16, 16);
+    wav.writeUInt16LE(1, 20);             // PCM
+    wav.writeUInt16LE(1, 22);             // Mono
+    wav.writeUInt32LE(sampleRate, 24);
+    wav.writeUInt32LE(sampleRate * 2, 28);
+    wav.writeUInt16LE(2, 32);
+    wav.writeUInt16LE(16, 34);
+    wav.write('data', 36);
+    wav.writeUInt32LE(dataSize, 40);
+    return wav;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    if (this.transcriptions.length > 0) {
+      return this.transcriptions.shift()!;
+    }
+    const text = request.audio.toString('utf8');
+    const isText = !text.includes('�') && !/[\x00-\x08\x0E-\x1F]/.test(text);
+    return isText ? text.trim() : '';
+  }
+}
+
+// ============================================
+// MODULE-LEVEL PROVIDER
+// ============================================
+
+let provider: LLMProvider | null = null;
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  if (config.provider === 'local') {
+    let fixtures: LocalFixtures = {};
+    if (config.fixturesPath) {
+      fixtures = JSON.parse(fs.readFileSync(config.fixturesPath, 'utf8'));
+      console.log(`[LLMProvider] Loaded local fixtures from ${config.fixturesPath}`);
+    }
+    return new LocalProvider(fixtures);
+  }
+
+  if (!config.openaiApiKey) {
+    throw new Error('OPENAI_API_KEY is required for the openai provider');
+  }
+  return new OpenAIProvider(config.openaiApiKey, {
+    chat: config.chatModel,
+    tts: config.ttsModel,
+    transcribe: config.transcribeModel,
+  });
+}
+
+export function initLLMProvider(instance: LLMProvider) {
+  provider = instance;
+  console.log(`[LLMProvider] Using ${instance.name} provider`);
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (!provider) throw new Error('LLM provider not initialized');
+  return provider;
+}
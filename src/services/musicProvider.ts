@@ -0,0 +1,218 @@
+/**
+ * Music Provider
+ *
+ * What the app plays when the track hands off to music. Instead of just a
+ * sentence, the music segment returns playback instructions: the provider,
+ * what to play, where to start, and how to bring the volume up. The
+ * persona introduces the playlist by name.
+ *
+ * - Spotify: passes the session's playlist through as a spotify: URI. The
+ *   app plays it with the Spotify SDK; the backend never calls Spotify, so
+ *   the playlist's name comes from the client (spotifyPlaylistName).
+ * - Local: a sound bundled with the app (see musicLibrary), picked by id
+ *   or by persona. Used when there's no playlist, so there's always music.
+ *
+ * The fade-in and volume ramp follow the persona: the Zen Guide eases in,
+ * the Sergeant starts loud.
+ */
+
+import fs from 'fs';
+import { PersonaType } from './trackEngine';
+import { BUNDLED_TRACKS, LocalTrack } from '../config/musicLibrary';
+import { ObjectSchema, validate } from '../validation/schema';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const MUSIC_PROVIDER_NAMES = ['spotify', 'local'] as const;
+
+export type MusicProviderName = typeof MUSIC_PROVIDER_NAMES[number];
+
+// The music fields of a session request
+export interface MusicRequest {
+  personaId: PersonaType;
+  musicProvider?: MusicProviderName;  // Default: Spotify when a playlist is sent, else local
+  spotifyPlaylistId?: string;         // Id, spotify: URI or open.spotify.com link
+  spotifyPlaylistName?: string;
+  localTrackId?: string;
+}
+
+// What to play, as a provider finds it
+export interface MusicSource {
+  provider: MusicProviderName;
+  uri: string;
+  name: string | null;  // Introduced by the persona when known
+  startOffsetSeconds: number;
+}
+
+export interface VolumeRamp {
+  fromPercent: number;
+  toPercent: number;
+  durationSeconds: number;  // From the start of playback
+}
+
+// What the app is told to do, with the persona's fade applied
+export interface MusicPlayback extends MusicSource {
+  fadeInSeconds: number;
+  volumeRamp: VolumeRamp;
+}
+
+export interface MusicProvider {
+  readonly name: MusicProviderName;
+  resolve(request: MusicRequest): MusicSource | null;  // Null when it has nothing to play
+}
+
+export interface MusicLibraryOptions {
+  path?: string;  // JSON file with { version: 1, tracks: [...] }
+}
+
+// A request the providers can't satisfy (sent back as a 400 on the field)
+export class MusicRequestError extends Error {
+  constructor(message: string, readonly field: string) {
+    super(message);
+    this.name = 'MusicRequestError';
+  }
+}
+
+const PERSONA_FADES: Record<PersonaType, Pick<MusicPlayback, 'fadeInSeconds' | 'volumeRamp'>> = {
+  'zen-guide': { fadeInSeconds: 10, volumeRamp: { fromPercent: 10, toPercent: 50, durationSeconds: 60 } },
+  'morning-coach': { fadeInSeconds: 3, volumeRamp: { fromPercent: 40, toPercent: 80, durationSeconds: 15 } },
+  'strict-sergeant': { fadeInSeconds: 0, volumeRamp: { fromPercent: 80, toPercent: 100, durationSeconds: 5 } },
+};
+
+// ============================================
+// SPOTIFY PROVIDER
+// ============================================
+
+// spotify:playlist:ID, https://open.spotify.com/playlist/ID?si=..., or a bare playlist id
+const SPOTIFY_REFERENCE = /^(?:spotify:(playlist|album|track):|https:\/\/open\.spotify\.com\/(?:intl-[a-z-]+\/)?(playlist|album|track)\/)?([A-Za-z0-9]{22})(?:\?\S*)?$/;
+
+export function toSpotifyUri(reference: string): string | null {
+  const match = reference.trim().match(SPOTIFY_REFERENCE);
+  if (!match) return null;
+  return `spotify:${match[1] || match[2] || 'playlist'}:${match[3]}`;
+}
+
+export class SpotifyMusicProvider implements MusicProvider {
+  readonly name = 'spotify';
+
+  resolve(request: MusicRequest): MusicSource | null {
+    if (!request.spotifyPlaylistId) return null;
+    const uri = toSpotifyUri(request.spotifyPlaylistId);
+    if (!uri) {
+      throw new MusicRequestError('spotifyPlaylistId must be a Spotify id, URI or open.spotify.com link', 'spotifyPlaylistId');
+    }
+    return { provider: 'spotify', uri, name: request.spotifyPlaylistName || null, startOffsetSeconds: 0 };
+  }
+}
+
+// ============================================
+// LOCAL PROVIDER
+// ============================================
+
+export class LocalMusicProvider implements MusicProvider {
+  readonly name = 'local';
+
+  constructor(private tracks: LocalTrack[] = BUNDLED_TRACKS) {}
+
+  resolve(request: MusicRequest): MusicSource | null {
+    let track: LocalTrack | undefined;
+    if (request.localTrackId) {
+      track = this.tracks.find(t => t.id === request.localTrackId);
+      if (!track) {
+        throw new MusicRequestError(
+          `localTrackId must be one of: ${this.tracks.map(t => t.id).join(', ')}`,
+          'localTrackId'
+        );
+      }
+    } else {
+      track = this.tracks.find(t => t.personas.includes(request.personaId)) || this.tracks[0];
+    }
+    if (!track) return null;
+    return { provider: 'local', uri: track.uri, name: track.name, startOffsetSeconds: track.startOffsetSeconds ?? 0 };
+  }
+}
+
+// ============================================
+// LIBRARY FILE
+// ============================================
+
+const librarySchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'integer', minimum: 1, maximum: 1 },
+    tracks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', pattern: '^[a-z0-9-]{1,40}$' },
+          name: { type: 'string', minLength: 1, maxLength: 100 },
+          uri: { type: 'string', minLength: 1, maxLength: 500 },
+          personas: { type: 'array', items: { type: 'string', enum: Object.keys(PERSONA_FADES) } },
+          startOffsetSeconds: { type: 'number', minimum: 0 },
+        },
+        required: ['id', 'name', 'uri', 'personas'],
+        additionalProperties: false,
+      },
+      minItems: 1,
+    },
+  },
+  required: ['version', 'tracks'],
+};
+
+// Throws on a malformed file so a bad library fails at startup, not mid-alarm
+export function parseMusicLibrary(library: unknown, origin: string): LocalTrack[] {
+  const error = validate(librarySchema, library, 'library');
+  if (error) {
+    throw new Error(`Invalid music library ${origin}: ${error.message}`);
+  }
+
+  const tracks = (library as { tracks: LocalTrack[] }).tracks;
+  const ids = new Set<string>();
+  for (const track of tracks) {
+    if (ids.has(track.id)) throw new Error(`Invalid music library ${origin}: ${track.id} is listed twice`);
+    ids.add(track.id);
+  }
+  return tracks;
+}
+
+// ============================================
+// SINGLETON
+// ============================================
+
+// Tried in order - Spotify only answers when the session sent a playlist
+let providers: MusicProvider[] = [new SpotifyMusicProvider(), new LocalMusicProvider()];
+
+export function getDefaultMusicLibraryOptions(): MusicLibraryOptions {
+  return { path: process.env.MUSIC_LIBRARY_PATH };
+}
+
+export function initMusicLibrary(options: MusicLibraryOptions = {}) {
+  const tracks = options.path
+    ? parseMusicLibrary(JSON.parse(fs.readFileSync(options.path, 'utf8')), options.path)
+    : BUNDLED_TRACKS;
+
+  initMusicLibraryWith(tracks);
+  if (options.path) console.log(`[Music] Loaded ${tracks.length} local track(s) from ${options.path}`);
+}
+
+// Use these tracks instead of loading a file (tests)
+export function initMusicLibraryWith(tracks: LocalTrack[]) {
+  providers = [new SpotifyMusicProvider(), new LocalMusicProvider(tracks)];
+}
+
+// Playback instructions for the music segment (null if nothing can play)
+export function resolveMusic(request: MusicRequest): MusicPlayback | null {
+  if (request.musicProvider === 'spotify' && !request.spotifyPlaylistId) {
+    throw new MusicRequestError('spotifyPlaylistId is required when musicProvider is spotify', 'spotifyPlaylistId');
+  }
+
+  for (const provider of providers) {
+    if (request.musicProvider && provider.name !== request.musicProvider) continue;
+    const source = provider.resolve(request);
+    if (source) return { ...source, ...PERSONA_FADES[request.personaId] };
+  }
+  return null;
+}
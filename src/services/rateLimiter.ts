@@ -0,0 +1,81 @@
+/**
+ * Rate Limiter
+ *
+ * Fixed one-minute windows per caller (install, dev key, or IP when auth
+ * is off). Every session request can end up in an LLM or TTS call, so a
+ * misbehaving client looping on /next gets a 429 instead of our credits.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RateLimitOptions {
+  requestsPerMinute?: number;  // Unlimited when unset/0
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;  // Until the window resets (0 when allowed)
+}
+
+interface RateWindow {
+  startedAt: number;
+  count: number;
+}
+
+// ============================================
+// DEFAULTS (overridable via env)
+// ============================================
+
+const WINDOW_MS = 60 * 1000;
+
+// RATE_LIMIT_PER_MINUTE=0 turns the limit off
+export function getDefaultRateLimitOptions(): RateLimitOptions {
+  const raw = process.env.RATE_LIMIT_PER_MINUTE;
+  const value = Number(raw);
+  return { requestsPerMinute: raw && Number.isFinite(value) && value >= 0 ? value : 30 };
+}
+
+// ============================================
+// LIMITER
+// ============================================
+
+let limit = 0;
+const windows = new Map<string, RateWindow>();
+
+export function initRateLimiter(options: RateLimitOptions = {}) {
+  limit = options.requestsPerMinute || 0;
+  windows.clear();
+  console.log(`[RateLimit] ${limit ? `${limit} requests per minute per client` : 'Disabled'}`);
+}
+
+// Counts one request against `key`
+export function consumeRequest(key: string, now: number = Date.now()): RateLimitResult {
+  if (!limit) return { allowed: true, remaining: Infinity, retryAfterSeconds: 0 };
+
+  let window = windows.get(key);
+  if (!window || now - window.startedAt >= WINDOW_MS) {
+    pruneWindows(now);
+    window = { startedAt: now, count: 0 };
+    windows.set(key, window);
+  }
+
+  if (window.count >= limit) {
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: Math.ceil((window.startedAt + WINDOW_MS - now) / 1000),
+    };
+  }
+
+  window.count++;
+  return { allowed: true, remaining: limit - window.count, retryAfterSeconds: 0 };
+}
+
+function pruneWindows(now: number) {
+  for (const [key, window] of windows) {
+    if (now - window.startedAt >= WINDOW_MS) windows.delete(key);
+  }
+}
@@ -9,6 +9,8 @@
 
 import WebSocket from 'ws';
 import { Persona } from '../config/personas';
+import { UserLocale, describeUnits } from './userLocale';
+import { languageInstruction } from '../config/languages';
 
 // OpenAI Realtime API endpoint
 const OPENAI_REALTIME_URL = 'wss://api.openai.com/v1/realtime';
@@ -31,6 +33,7 @@ export const VOICE_OPTIONS: Record<string, { id: OpenAIVoice; description: strin
 export interface SessionConfig {
   persona: Persona;
   voiceId: string;
+  userLocale: UserLocale;
   userPreferences: {
     includeNews: boolean;
     includeWeather: boolean;
@@ -59,6 +62,7 @@ function buildSystemPrompt(config: SessionConfig): string {
 
   let contextSection = `\n\n# Current Context\n`;
   contextSection += `- Current time: ${contextData.currentTime}\n`;
+  contextSection += `- Units: ${describeUnits(config.userLocale.units)}\n`;
 
   if (userPreferences.includeCalendar && contextData.calendarEvents) {
     contextSection += `\n## Today's Calendar\n${contextData.calendarEvents}\n`;
@@ -89,7 +93,8 @@ The user may give you commands during the session. Handle these naturally:
 - "I'm awake" / "I'm up" → Verify with movement challenge, then end warmly
 `;
 
-  return persona.systemPrompt + contextSection + preferencesSection + voiceCommandsSection;
+  const language = languageInstruction(config.userLocale.language);
+  return persona.systemPrompt + contextSection + preferencesSection + voiceCommandsSection + (language ? `\n\n${language}` : '');
 }
 
 /**
@@ -128,6 +133,7 @@ export async function createRealtimeSession(
           output_audio_format: 'pcm16',
           input_audio_transcription: {
             model: 'whisper-1',
+            language: config.userLocale.language,
           },
           turn_detection: {
             type: 'server_vad',
@@ -0,0 +1,138 @@
+/**
+ * Segment Conditions
+ *
+ * Lets a track adapt while it plays instead of being a fixed list:
+ *
+ *   { "type": "visualization", "when": { "weather": ["rain", "drizzle"] }, "data": { "theme": "cozy rain on the window" } }
+ *   { "type": "fact", "branches": [{ "when": { "userHasSpoken": false }, "goTo": "engagement" }] }
+ *
+ * - `when` on a segment: it's only played if the condition holds (checked
+ *   when the track reaches it, like the "no data" skips)
+ * - `branches` on a segment: checked in order when the track moves past
+ *   it; the first that holds jumps ahead to `goTo` (the id of a later
+ *   segment, or the next segment of that type)
+ *
+ * Every field of a condition must hold; an empty condition always does.
+ */
+
+import { WeatherData } from './trackEngine';
+import { ObjectSchema } from '../validation/schema';
+
+// ============================================
+// TYPES
+// ============================================
+
+// How the user has been answering: not at all, in a word or two, or properly
+export type Responsiveness = 'silent' | 'brief' | 'chatty';
+
+export interface SegmentCondition {
+  days?: 'weekday' | 'weekend';  // In the user's time zone
+  weather?: string[];            // Any of these words in the current conditions ("rain", "snow")
+  minPrecipChance?: number;      // Percent
+  userHasSpoken?: boolean;
+  responsiveness?: Responsiveness[];
+  minElapsedSeconds?: number;    // Since the track started
+  maxElapsedSeconds?: number;
+  minSegmentsPlayed?: number;
+}
+
+export interface SegmentBranch {
+  when: SegmentCondition;
+  goTo: string;  // Segment id, or a segment type (the next one ahead)
+}
+
+// What conditions are checked against, gathered by the track engine
+export interface ConditionContext {
+  weekend: boolean;
+  weather?: WeatherData;
+  userReplies: string[];  // What the user has said so far
+  elapsedSeconds: number;
+  segmentsPlayed: number;
+}
+
+// ============================================
+// SCHEMA
+// ============================================
+
+// Conditions as clients (and segment definitions) send them
+export const segmentConditionSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    days: { type: 'string', enum: ['weekday', 'weekend'] },
+    weather: {
+      type: 'array',
+      items: { type: 'string', minLength: 1, maxLength: 50 },
+      maxItems: 10,
+      description: 'Words to look for in the current conditions, e.g. ["rain", "drizzle"]',
+    },
+    minPrecipChance: { type: 'number', minimum: 0, maximum: 100 },
+    userHasSpoken: { type: 'boolean' },
+    responsiveness: { type: 'array', items: { type: 'string', enum: ['silent', 'brief', 'chatty'] }, maxItems: 3 },
+    minElapsedSeconds: { type: 'number', minimum: 0 },
+    maxElapsedSeconds: { type: 'number', minimum: 0 },
+    minSegmentsPlayed: { type: 'number', minimum: 0 },
+  },
+  additionalProperties: false,
+};
+
+// Branches only jump ahead: a goTo naming its own segment or an earlier
+// one could replay the track forever. Returns the first one that doesn't.
+export function findBackwardBranch(
+  segments: { id?: string; branches?: SegmentBranch[] }[]
+): { field: string; message: string } | null {
+  for (const [index, segment] of segments.entries()) {
+    for (const [b, branch] of (segment.branches || []).entries()) {
+      const target = segments.findIndex(s => s.id === branch.goTo);
+      if (target !== -1 && target <= index) {
+        return {
+          field: `segments[${index}].branches[${b}].goTo`,
+          message: `goTo must name a segment after this one ("${branch.goTo}" is at or before it)`,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+// A reply of this many words or fewer counts as brief
+const BRIEF_REPLY_WORDS = 3;
+
+export function responsivenessOf(userReplies: string[]): Responsiveness {
+  if (userReplies.length === 0) return 'silent';
+  const words = userReplies.reduce((sum, reply) => sum + reply.trim().split(/\s+/).length, 0);
+  return words / userReplies.length <= BRIEF_REPLY_WORDS ? 'brief' : 'chatty';
+}
+
+export function isWeekend(now: Date, timeZone: string): boolean {
+  const weekday = now.toLocaleDateString('en-US', { timeZone, weekday: 'short' });
+  return weekday === 'Sat' || weekday === 'Sun';
+}
+
+export function matchesCondition(condition: SegmentCondition, context: ConditionContext): boolean {
+  if (condition.days && (condition.days === 'weekend') !== context.weekend) return false;
+
+  if (condition.weather) {
+    const conditions = context.weather?.conditions.toLowerCase() || '';
+    if (!condition.weather.some(word => conditions.includes(word.toLowerCase()))) return false;
+  }
+  if (condition.minPrecipChance !== undefined && (context.weather?.precipChance ?? 0) < condition.minPrecipChance) {
+    return false;
+  }
+
+  if (condition.userHasSpoken !== undefined && condition.userHasSpoken !== context.userReplies.length > 0) {
+    return false;
+  }
+  if (condition.responsiveness && !condition.responsiveness.includes(responsivenessOf(context.userReplies))) {
+    return false;
+  }
+
+  if (condition.minElapsedSeconds !== undefined && context.elapsedSeconds < condition.minElapsedSeconds) return false;
+  if (condition.maxElapsedSeconds !== undefined && context.elapsedSeconds > condition.maxElapsedSeconds) return false;
+  if (condition.minSegmentsPlayed !== undefined && context.segmentsPlayed < condition.minSegmentsPlayed) return false;
+
+  return true;
+}
@@ -0,0 +1,162 @@
+/**
+ * Segment Output
+ *
+ * Track segments are generated as structured JSON instead of free text:
+ *
+ *   { "spokenText": "...", "topic": "octopus hearts", "estimatedDurationSeconds": 12, "toneTags": ["playful"] }
+ *
+ * so bookkeeping (usedFacts, segmentHistory) never depends on the model
+ * remembering a trailing [topic] tag. Replies are validated against
+ * segmentOutputSchema; the engine retries once on a mismatch and falls
+ * back to treating the reply as plain text after that.
+ *
+ * Streamed segments can't wait for the whole object, so
+ * SpokenTextReader pulls spokenText out of the partial JSON as it arrives.
+ */
+
+import { ObjectSchema, validate } from '../validation/schema';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SegmentOutput {
+  spokenText: string;
+  topic: string | null;  // Fact segments only
+  estimatedDurationSeconds: number;
+  toneTags: string[];
+}
+
+export type SegmentOutputResult =
+  | { ok: true; output: SegmentOutput }
+  | { ok: false; error: string };
+
+// ============================================
+// SCHEMA + PROMPT
+// ============================================
+
+// Property order matters: spokenText comes first so streaming can start speaking early
+export const segmentOutputSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    spokenText: { type: 'string', minLength: 1, maxLength: 4000 },
+    topic: { type: 'string', maxLength: 100, nullable: true },
+    estimatedDurationSeconds: { type: 'number', minimum: 0, maximum: 600 },
+    toneTags: { type: 'array', items: { type: 'string', maxLength: 30 }, maxItems: 5 },
+  },
+  required: ['spokenText', 'topic', 'estimatedDurationSeconds', 'toneTags'],
+  additionalProperties: false,
+};
+
+export const SEGMENT_OUTPUT_INSTRUCTIONS = `## Output Format
+Respond with a JSON object only:
+- spokenText: exactly what you'll say out loud, nothing else
+- topic: for a fact, its core topic in a few lowercase words (like "octopus hearts"); null for any other segment
+- estimatedDurationSeconds: roughly how long spokenText takes to say
+- toneTags: 1-3 words for the delivery, like "calm" or "upbeat"`;
+
+// ============================================
+// PARSING
+// ============================================
+
+export function parseSegmentOutput(raw: string, options: { requireTopic?: boolean } = {}): SegmentOutputResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'Response is not valid JSON' };
+  }
+
+  const error = validate(segmentOutputSchema, value, 'response');
+  if (error) return { ok: false, error: error.message };
+
+  const output = value as SegmentOutput;
+  if (!output.spokenText.trim()) return { ok: false, error: 'response.spokenText is empty' };
+  if (options.requireTopic && !output.topic?.trim()) {
+    return { ok: false, error: 'response.topic is required for a fact' };
+  }
+  return { ok: true, output: { ...output, topic: output.topic?.toLowerCase().trim() || null } };
+}
+
+// Last resort once retries are used up: salvage spokenText from JSON if
+// there is any, otherwise take the reply as plain text (and a trailing
+// [topic] tag, the old format, as the topic)
+export function fallbackSegmentOutput(raw: string): SegmentOutput {
+  let text = raw;
+  try {
+    const value = JSON.parse(raw);
+    if (typeof value?.spokenText === 'string') text = value.spokenText;
+  } catch {
+    // Plain text
+  }
+
+  const tag = text.match(/\[([^\]]+)\]\s*$/);
+  const spokenText = text.replace(/\s*\[[^\]]+\]\s*$/, '').trim();
+  return {
+    spokenText,
+    topic: tag ? tag[1].toLowerCase().trim() : null,
+    estimatedDurationSeconds: estimateSpeakingSeconds(spokenText),
+    toneTags: [],
+  };
+}
+
+// ~150 words per minute
+export function estimateSpeakingSeconds(text: string): number {
+  const words = text.trim() ? text.trim().split(/\s+/).length : 0;
+  return Math.round(words / 2.5);
+}
+
+// ============================================
+// STREAMING
+// ============================================
+
+// Incrementally decodes the spokenText string value from a JSON object
+// that's still being streamed. push() returns the newly decoded text.
+export class SpokenTextReader {
+  private buffer = '';
+  private position = -1;  // Index just after the opening quote, once found
+  private done = false;
+
+  get started(): boolean {
+    return this.position >= 0;
+  }
+
+  push(token: string): string {
+    this.buffer += token;
+    if (this.done) return '';
+
+    if (this.position < 0) {
+      const start = this.buffer.match(/"spokenText"\s*:\s*"/);
+      if (!start) return '';
+      this.position = start.index! + start[0].length;
+    }
+
+    let text = '';
+    while (this.position < this.buffer.length) {
+      const char = this.buffer[this.position];
+      if (char === '"') {
+        this.done = true;
+        break;
+      }
+      if (char !== '\\') {
+        text += char;
+        this.position++;
+        continue;
+      }
+
+      // Escape sequence - wait for the rest of it if it's split across tokens
+      const next = this.buffer[this.position + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = this.buffer.slice(this.position + 2, this.position + 6);
+        if (hex.length < 4) break;
+        text += String.fromCharCode(parseInt(hex, 16));
+        this.position += 6;
+        continue;
+      }
+      text += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[next] ?? next;
+      this.position += 2;
+    }
+    return text;
+  }
+}
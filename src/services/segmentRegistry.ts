@@ -0,0 +1,178 @@
+/**
+ * Segment Registry
+ *
+ * Segment types defined in config rather than code - an affirmation, a
+ * quote of the day, a word in the language they're learning. Each
+ * definition gives the prompt, the data it needs, when to skip it and how
+ * long it may run:
+ *
+ *   {
+ *     "type": "affirmation",
+ *     "prompt": "Give {{userName}} one short, believable affirmation for today.",
+ *     "maxSentences": 2,
+ *     "optional": true
+ *   }
+ *
+ * Definitions are validated at startup (a bad file stops the server, not
+ * an alarm) and their types can then be used in segmentOrder and segments
+ * like the built-in ones. CUSTOM_SEGMENTS_PATH points at the JSON file.
+ */
+
+import fs from 'fs';
+import { ObjectSchema, StringSchema, validate } from '../validation/schema';
+import { SEGMENT_TYPES } from './trackEngine';
+import { SegmentCondition, segmentConditionSchema } from './segmentConditions';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Session data a segment can't do without - it's skipped when missing
+export type SegmentData = 'weather' | 'calendar' | 'news';
+
+export interface CustomSegmentDefinition {
+  type: string;            // camelCase name used in segmentOrder
+  name?: string;           // How the prompt refers to it ("quote of the day"; default: type)
+  prompt: string;          // The task; may use {{userName}}, {{date}} and {{time}}
+  requires?: SegmentData[];
+  skipWhen?: SegmentCondition;  // Skipped when this holds (see segmentConditions)
+  optional?: boolean;      // Skipped when the user is short on time, like the visualization
+  minSentences?: number;   // When the track planner is short on time (default 1)
+  maxSentences: number;
+  repeatsUntilAwake?: boolean;  // Loops like callToAction until the user is up
+  importance?: number;     // For the track planner: 1 (dropped first) to 8 (default 3)
+}
+
+export interface SegmentRegistryOptions {
+  path?: string;  // JSON file with { version: 1, segments: [...] }
+}
+
+// Placeholders a prompt template may use
+export const PROMPT_PLACEHOLDERS = ['userName', 'date', 'time'] as const;
+
+export const DEFAULT_IMPORTANCE = 3;
+
+// ============================================
+// DEFINITION SCHEMA
+// ============================================
+
+const definitionsSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'integer', minimum: 1, maximum: 1 },
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', pattern: '^[a-z][A-Za-z0-9]{1,39}$' },
+          name: { type: 'string', minLength: 1, maxLength: 50 },
+          prompt: { type: 'string', minLength: 1, maxLength: 4000 },
+          requires: { type: 'array', items: { type: 'string', enum: ['weather', 'calendar', 'news'] }, maxItems: 3 },
+          skipWhen: segmentConditionSchema,
+          optional: { type: 'boolean' },
+          minSentences: { type: 'integer', minimum: 1, maximum: 10 },
+          maxSentences: { type: 'integer', minimum: 1, maximum: 10 },
+          repeatsUntilAwake: { type: 'boolean' },
+          importance: { type: 'integer', minimum: 1, maximum: 8 },
+        },
+        required: ['type', 'prompt', 'maxSentences'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['version', 'segments'],
+};
+
+// Throws on a malformed file so a bad definition fails at startup, not mid-alarm
+export function parseSegmentDefinitions(definitions: unknown, origin: string): CustomSegmentDefinition[] {
+  const error = validate(definitionsSchema, definitions, 'definitions');
+  if (error) {
+    throw new Error(`Invalid segment definitions ${origin}: ${error.message}`);
+  }
+
+  const segments = (definitions as { segments: CustomSegmentDefinition[] }).segments;
+  const types = new Set<string>(SEGMENT_TYPES);
+  for (const segment of segments) {
+    const fail = (message: string) => new Error(`Invalid segment definitions ${origin}: ${segment.type} ${message}`);
+    if (types.has(segment.type)) {
+      throw fail((SEGMENT_TYPES as readonly string[]).includes(segment.type) ? 'is a built-in segment type' : 'is defined twice');
+    }
+    types.add(segment.type);
+
+    if ((segment.minSentences ?? 1) > segment.maxSentences) throw fail('has minSentences above maxSentences');
+    for (const [, placeholder] of segment.prompt.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+      if (!(PROMPT_PLACEHOLDERS as readonly string[]).includes(placeholder)) {
+        throw fail(`uses unknown placeholder {{${placeholder}}} (use ${PROMPT_PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')})`);
+      }
+    }
+  }
+  return segments;
+}
+
+// ============================================
+// PROMPTS
+// ============================================
+
+// The task section of a custom segment's prompt, framed like the built-ins
+export function renderSegmentTask(definition: CustomSegmentDefinition, values: Record<typeof PROMPT_PLACEHOLDERS[number], string>): string {
+  const task = definition.prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: keyof typeof values) => values[key]);
+  const sentences = definition.maxSentences === 1 ? '1 sentence' : `At most ${definition.maxSentences} sentences`;
+
+  return `Generate the ${(definition.name || definition.type).toUpperCase()} segment.
+
+This is MID-CONVERSATION. Do not greet them or say hello again.
+
+${task.trim()}
+
+${sentences} total.`;
+}
+
+// ============================================
+// SINGLETON
+// ============================================
+
+// Empty until initSegmentRegistry - only the built-in types exist
+let definitions = new Map<string, CustomSegmentDefinition>();
+
+export function getDefaultSegmentRegistryOptions(): SegmentRegistryOptions {
+  return { path: process.env.CUSTOM_SEGMENTS_PATH };
+}
+
+export function initSegmentRegistry(options: SegmentRegistryOptions = {}) {
+  const segments = options.path
+    ? parseSegmentDefinitions(JSON.parse(fs.readFileSync(options.path, 'utf8')), options.path)
+    : [];
+
+  initSegmentRegistryWith(segments);
+}
+
+// Use these definitions instead of loading a file (tests)
+export function initSegmentRegistryWith(segments: CustomSegmentDefinition[]) {
+  definitions = new Map(segments.map(segment => [segment.type, segment]));
+
+  if (segments.length > 0) {
+    console.log(`[SegmentRegistry] Registered ${segments.length} custom segment type(s): ${segments.map(s => s.type).join(', ')}`);
+  }
+}
+
+// The definition for a custom type (undefined for built-in or unknown types)
+export function getCustomSegment(type: string): CustomSegmentDefinition | undefined {
+  return definitions.get(type);
+}
+
+// Every type a session may use: the built-ins, then the registered ones
+export function getSegmentTypeNames(): string[] {
+  return [...SEGMENT_TYPES, ...definitions.keys()];
+}
+
+// A segment type in request and response schemas. The enum is read from
+// the registry on each use, so registered types are accepted in
+// segmentOrder and listed in the OpenAPI document (don't spread it - that
+// would copy today's list).
+export const segmentTypeSchema: StringSchema = {
+  type: 'string',
+  get enum() {
+    return getSegmentTypeNames();
+  },
+};
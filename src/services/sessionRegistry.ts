@@ -0,0 +1,246 @@
+/**
+ * Session Registry
+ *
+ * Shared bookkeeping for every kind of live session (track, chained,
+ * gpt-driven). Clients are supposed to DELETE their session when the
+ * alarm ends, but phones die and apps get killed, so the registry also:
+ * - Expires sessions that haven't been touched for the idle TTL
+ * - Expires sessions older than the max session age
+ * - Caps the number of live sessions (least recently used goes first)
+ *
+ * Eviction counts are kept per registry so we can tell whether clients
+ * are forgetting to end sessions (evicted) vs ending them properly (ended).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type EvictionReason = 'idle' | 'maxAge' | 'capacity';
+
+export interface SessionRegistryOptions {
+  idleTtlMs: number;
+  maxAgeMs: number;
+  maxSessions: number;
+  clock?: () => number;  // Date.now unless injected (tests)
+}
+
+export interface SessionRegistryStats {
+  name: string;
+  live: number;
+  created: number;
+  ended: number;  // Removed by the client (DELETE)
+  evicted: Record<EvictionReason, number>;
+}
+
+interface RegistryEntry<T> {
+  value: T;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+type EvictionListener<T> = (id: string, value: T, reason: EvictionReason) => void;
+
+// ============================================
+// DEFAULTS (overridable via env)
+// ============================================
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getDefaultRegistryOptions(): SessionRegistryOptions {
+  return {
+    idleTtlMs: envNumber('SESSION_IDLE_TTL_MINUTES', 30) * 60 * 1000,
+    maxAgeMs: envNumber('SESSION_MAX_AGE_MINUTES', 120) * 60 * 1000,
+    maxSessions: envNumber('MAX_LIVE_SESSIONS', 500),
+  };
+}
+
+// ============================================
+// REGISTRY CLASS
+// ============================================
+
+export class SessionRegistry<T> {
+  readonly name: string;
+  private options: SessionRegistryOptions;
+  private entries = new Map<string, RegistryEntry<T>>();
+  private listeners: EvictionListener<T>[] = [];
+  private stats: Omit<SessionRegistryStats, 'name' | 'live'> = {
+    created: 0,
+    ended: 0,
+    evicted: { idle: 0, maxAge: 0, capacity: 0 },
+  };
+
+  constructor(name: string, options: SessionRegistryOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  // The registry's idea of the current time, for timestamps kept elsewhere
+  now(): number {
+    return (this.options.clock || Date.now)();
+  }
+
+  // Look up a session and mark it as active
+  get(id: string): T | undefined {
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+
+    const now = this.now();
+    const reason = this.expiryReason(entry, now);
+    if (reason) {
+      this.evict(id, entry, reason);
+      return undefined;
+    }
+
+    entry.lastSeenAt = now;
+    return entry.value;
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  // Add or replace a session. createdAt can be passed when restoring a
+  // session that started before a restart so max age still applies.
+  set(id: string, value: T, createdAt?: number): void {
+    const now = this.now();
+    const existing = this.entries.get(id);
+    if (existing) {
+      existing.value = value;
+      existing.lastSeenAt = now;
+      return;
+    }
+
+    while (this.entries.size >= this.options.maxSessions) {
+      this.evictLeastRecentlyUsed();
+    }
+
+    this.entries.set(id, { value, createdAt: createdAt ?? now, lastSeenAt: now });
+    this.stats.created++;
+  }
+
+  // Client ended the session
+  delete(id: string): boolean {
+    const deleted = this.entries.delete(id);
+    if (deleted) this.stats.ended++;
+    return deleted;
+  }
+
+  // Remove every expired session. Returns how many were evicted.
+  sweep(now: number = this.now()): number {
+    let evicted = 0;
+    for (const [id, entry] of this.entries) {
+      const reason = this.expiryReason(entry, now);
+      if (reason) {
+        this.evict(id, entry, reason);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+
+  onEvict(listener: EvictionListener<T>): void {
+    this.listeners.push(listener);
+  }
+
+  // Whether a session with these timestamps would already be expired
+  isExpired(createdAt: number, lastSeenAt: number, now: number = this.now()): boolean {
+    return this.expiryReason({ createdAt, lastSeenAt } as RegistryEntry<T>, now) !== null;
+  }
+
+  getStats(): SessionRegistryStats {
+    return {
+      name: this.name,
+      live: this.entries.size,
+      created: this.stats.created,
+      ended: this.stats.ended,
+      evicted: { ...this.stats.evicted },
+    };
+  }
+
+  private expiryReason(entry: RegistryEntry<T>, now: number): EvictionReason | null {
+    if (now - entry.createdAt > this.options.maxAgeMs) return 'maxAge';
+    if (now - entry.lastSeenAt > this.options.idleTtlMs) return 'idle';
+    return null;
+  }
+
+  private evictLeastRecentlyUsed(): void {
+    let oldestId: string | null = null;
+    let oldest: RegistryEntry<T> | null = null;
+    for (const [id, entry] of this.entries) {
+      if (!oldest || entry.lastSeenAt < oldest.lastSeenAt) {
+        oldestId = id;
+        oldest = entry;
+      }
+    }
+    if (oldestId && oldest) {
+      this.evict(oldestId, oldest, 'capacity');
+    }
+  }
+
+  private evict(id: string, entry: RegistryEntry<T>, reason: EvictionReason): void {
+    this.entries.delete(id);
+    this.stats.evicted[reason]++;
+    console.log(`[SessionRegistry] 🧹 Evicted ${this.name} session ${id} (${reason})`);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(id, entry.value, reason);
+      } catch (error) {
+        console.error(`[SessionRegistry] Eviction listener failed for ${id}:`, error);
+      }
+    }
+  }
+}
+
+// ============================================
+// SHARED REGISTRIES + SWEEPER
+// ============================================
+
+const registries = new Map<string, SessionRegistry<unknown>>();
+let sweepTimer: NodeJS.Timeout | null = null;
+
+// Create (or replace) the registry for a session kind
+export function createSessionRegistry<T>(
+  name: string,
+  options: SessionRegistryOptions = getDefaultRegistryOptions()
+): SessionRegistry<T> {
+  const registry = new SessionRegistry<T>(name, options);
+  registries.set(name, registry as SessionRegistry<unknown>);
+  return registry;
+}
+
+export function getSessionRegistryStats(): SessionRegistryStats[] {
+  return Array.from(registries.values()).map(r => r.getStats());
+}
+
+export function sweepAllRegistries(now?: number): number {
+  let evicted = 0;
+  for (const registry of registries.values()) {
+    evicted += registry.sweep(now);
+  }
+  return evicted;
+}
+
+// Start the periodic sweeper (idempotent). The timer is unref'd so it
+// never keeps the process alive on its own.
+export function startSessionSweeper(intervalMs: number = envNumber('SESSION_SWEEP_INTERVAL_SECONDS', 60) * 1000) {
+  if (sweepTimer) return;
+  sweepTimer = setInterval(() => {
+    const evicted = sweepAllRegistries();
+    if (evicted > 0) {
+      console.log(`[SessionRegistry] Sweep evicted ${evicted} abandoned session(s)`);
+    }
+  }, intervalMs);
+  sweepTimer.unref();
+}
+
+export function stopSessionSweeper() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Time Budget
+ *
+ * "Your first meeting is at 9 and you need 40 minutes to get there."
+ * Works out when the user has to be out of bed to make their first event
+ * of the day: its start, minus the commute (none for video calls), minus
+ * the time they need to get ready.
+ *
+ * The track engine uses the result to skip optional segments when time
+ * is short and to make the call to action more urgent when they're late.
+ */
+
+import { CalendarEvent } from './trackEngine';
+import { UserLocale, formatTime } from './userLocale';
+import { isVirtualLocation } from './calendarImport';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TimeBudgetSettings {
+  prepMinutes?: number;     // Shower, dress, breakfast (default DEFAULT_PREP_MINUTES)
+  commuteMinutes?: number;  // Door to first event (default 0)
+}
+
+// relaxed: plenty of time; tight: under TIGHT_MINUTES left; late: past the deadline
+export type TimePressure = 'relaxed' | 'tight' | 'late';
+
+export interface TimeBudget {
+  event: CalendarEvent;   // First event still to start
+  outOfBedBy: Date;
+  prepMinutes: number;
+  commuteMinutes: number;  // 0 when the event is a video call
+  minutesLeft: number;     // Until outOfBedBy (negative when late)
+  pressure: TimePressure;
+}
+
+export const DEFAULT_PREP_MINUTES = 30;
+
+// Less than this left before they must be up counts as tight
+export const TIGHT_MINUTES = 20;
+
+// ============================================
+// DEADLINE
+// ============================================
+
+// Budget for the first timed event that hasn't started yet (null when
+// there isn't one, or none of the events have a start time)
+export function computeTimeBudget(
+  events: CalendarEvent[] | undefined,
+  settings: TimeBudgetSettings = {},
+  now = new Date()
+): TimeBudget | null {
+  const event = (events || [])
+    .filter(e => e.startsAt && !e.allDay && new Date(e.startsAt).getTime() > now.getTime())
+    .sort((a, b) => new Date(a.startsAt!).getTime() - new Date(b.startsAt!).getTime())[0];
+  if (!event) return null;
+
+  const prepMinutes = settings.prepMinutes ?? DEFAULT_PREP_MINUTES;
+  const commuteMinutes = event.location && isVirtualLocation(event.location) ? 0 : settings.commuteMinutes ?? 0;
+  const outOfBedBy = new Date(new Date(event.startsAt!).getTime() - (prepMinutes + commuteMinutes) * 60000);
+  const minutesLeft = Math.round((outOfBedBy.getTime() - now.getTime()) / 60000);
+
+  return {
+    event,
+    outOfBedBy,
+    prepMinutes,
+    commuteMinutes,
+    minutesLeft,
+    pressure: minutesLeft <= 0 ? 'late' : minutesLeft < TIGHT_MINUTES ? 'tight' : 'relaxed',
+  };
+}
+
+// ============================================
+// PROMPT TEXT
+// ============================================
+
+// Facts for segment prompts, in the user's time format
+export function describeTimeBudget(budget: TimeBudget, userLocale: UserLocale): string {
+  const { event, prepMinutes, commuteMinutes, minutesLeft } = budget;
+  const needs = commuteMinutes > 0
+    ? `${prepMinutes} min to get ready + ${commuteMinutes} min to get there`
+    : `${prepMinutes} min to get ready`;
+
+  const lines = [
+    `- First event: ${event.title} at ${event.time}${event.location ? ` (${event.location})` : ''}`,
+    `- Out of bed by: ${formatTime(budget.outOfBedBy, userLocale)} (${needs})`,
+    minutesLeft > 0 ? `- That's ${minutesLeft} minutes from now`
+      : minutesLeft === 0 ? '- That\'s right now'
+      : `- They're ${-minutesLeft} minutes behind already`,
+  ];
+  return lines.join('\n');
+}
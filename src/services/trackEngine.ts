@@ -16,30 +16,72 @@
  * - Natural variation in wording
  */
 
-import OpenAI from 'openai';
+import crypto from 'crypto';
 import { textToSpeech, transcribeAudio } from './chainedSession';
+import { ChatMessage, getLLMProvider } from './llmProvider';
+import { getFactHistory } from './factHistory';
+import { LibraryFact, customFacts, getLibraryFacts, selectFact } from './factLibrary';
+import { UserLocale, resolveUserLocale, formatDate, formatTime } from './userLocale';
+import { describeWeather } from './weatherProvider';
+import { describeCalendar } from './calendarImport';
+import { TimeBudget, TimePressure, computeTimeBudget, describeTimeBudget } from './timeBudget';
+import { ConditionContext, SegmentBranch, SegmentCondition, isWeekend, matchesCondition } from './segmentConditions';
+import { SegmentData, getCustomSegment, renderSegmentTask } from './segmentRegistry';
+import { getLanguage, isExactly, languageInstruction, saysAny } from '../config/languages';
+import { FitnessLevel, routineCues, routineSeconds, selectRoutine } from '../config/stretchRoutines';
+import { BreathPhase, BreathingPatternId, breathingSchedule, describePattern, selectPattern } from '../config/breathingPatterns';
+import { MusicPlayback } from './musicProvider';
+import { AmbientScene, MixOptions, defaultScene, getAmbientBed, mixUnderSpeech, sceneForText, sceneForWeather } from './ambientMixer';
+import { getPersona } from '../config/personas';
+import {
+  SegmentOutput,
+  segmentOutputSchema,
+  parseSegmentOutput,
+  fallbackSegmentOutput,
+  SpokenTextReader,
+  SEGMENT_OUTPUT_INSTRUCTIONS,
+} from './segmentOutput';
 
 // ============================================
 // TYPES
 // ============================================
 
-export type SegmentType =
-  | 'greeting'
-  | 'weather'
-  | 'visualization'
-  | 'fact'
-  | 'news'
-  | 'calendar'
-  | 'engagement'
-  | 'callToAction'
-  | 'music';
+export const SEGMENT_TYPES = [
+  'greeting',
+  'weather',
+  'visualization',
+  'breathing',
+  'fact',
+  'news',
+  'calendar',
+  'engagement',
+  'callToAction',
+  'stretching',
+  'music',
+] as const;
+
+export type SegmentType = typeof SEGMENT_TYPES[number];
+
+// A type defined in config (see segmentRegistry). Branded so a plain
+// string isn't taken for one - request bodies are checked by the schema
+// before they're cast.
+export type CustomSegmentType = string & { readonly __customSegmentType: true };
+
+export function isBuiltInSegmentType(type: string): type is SegmentType {
+  return (SEGMENT_TYPES as readonly string[]).includes(type);
+}
 
 export type PersonaType = 'zen-guide' | 'morning-coach' | 'strict-sergeant';
 
 export interface SegmentConfig {
-  type: SegmentType;
+  type: SegmentType | CustomSegmentType;
   enabled: boolean;
-  data?: Record<string, unknown>;  // Segment-specific data (weather data, calendar events, etc.)
+  id?: string;  // Name for branches to jump to
+  data?: Record<string, unknown>;  // Segment-specific data (theme: a scene or angle to use)
+  sentences?: number;  // Length set by the track planner (overrides the prompt's own)
+  when?: SegmentCondition;  // Only played when this holds (see segmentConditions)
+  branches?: SegmentBranch[];  // Where to jump when moving past this segment
+  ambient?: boolean;  // Mix the ambient bed under it (default: AMBIENT_SEGMENTS)
 }
 
 export interface TrackConfig {
@@ -53,10 +95,18 @@ export interface TrackConfig {
   calendar?: CalendarEvent[];
   news?: NewsItem[];
   facts?: string[];  // Pool of interesting facts
+  userId?: string;  // Whose fact history to avoid/extend (see factHistory)
+  userLocale?: UserLocale;  // Time zone, locale and units (server defaults when missing)
 
   // User preferences
+  prepMinutes?: number;     // Getting ready before the first event (see timeBudget)
+  commuteMinutes?: number;  // Travel to the first event
+  fitnessLevel?: FitnessLevel;  // Picks the stretching routine (default beginner)
+  breathingPattern?: BreathingPatternId;  // Default depends on the persona
   newsThemes?: string[];  // ['technology', 'culture', 'finance']
-  spotifyPlaylistId?: string;
+  music?: MusicPlayback;  // What the music segment hands off to (see musicProvider)
+  ambientScene?: AmbientScene;  // Bed under the first segments (default: theme, weather, then persona)
+  ambientSeconds?: number;  // How long the bed plays (default: none, or the persona's time with ambientScene)
 }
 
 export interface WeatherData {
@@ -66,17 +116,25 @@ export interface WeatherData {
   windDirection: string;
   windStrength: string;
   precipChance: number;
-  precipTiming?: string;
+  precipTiming?: string | null;
   highTemp: number;
   eveningTemp: number;
   uvIndex: number;
-  airQuality?: string;  // Only if notable
-  nightSummary?: string;  // "It was a rainy night..."
+  airQuality?: string | null;  // Only if notable
+  nightSummary?: string | null;  // "It was a rainy night..."
 }
 
 export interface CalendarEvent {
   title: string;
-  time: string;
+  time: string;  // As it should be said: "9:30 AM", "All day"
+  // Set on events imported from ICS (see calendarImport)
+  startsAt?: string;  // ISO timestamps
+  endsAt?: string;
+  durationMinutes?: number;
+  location?: string;
+  allDay?: boolean;
+  priority?: number;      // Higher is more worth mentioning
+  highlights?: string[];  // Why: "first event of the day", "needs travel", ...
 }
 
 export interface NewsItem {
@@ -88,13 +146,19 @@ export interface NewsItem {
 export interface TrackState {
   sessionId: string;
   currentSegmentIndex: number;
+  currentSegmentPlayed: boolean;  // False after markAwake jumps ahead, so the next silence plays it
   conversationMode: boolean;
   factsUsed: number;  // How many facts we've delivered
+  ambientSecondsPlayed?: number;  // Bed time used so far (absent in older snapshots)
 
   // History for variation
   segmentHistory: {
-    segment: SegmentType;
+    segment: SegmentType | CustomSegmentType;
     content: string;
+    // From the structured reply (absent in sessions saved before it existed)
+    topic?: string | null;
+    estimatedDurationSeconds?: number;
+    toneTags?: string[];
     timestamp: Date;
   }[];
 
@@ -113,6 +177,55 @@ export interface TrackState {
   isProcessing: boolean;
 }
 
+// One sentence of a streamed segment, in playback order
+export interface SegmentAudioChunk {
+  index: number;
+  text: string;
+  audioBuffer: Buffer;
+  timing?: ClipTiming | CueTiming;  // Set on the cues of timed and paced segments
+}
+
+// How long the client waits after a cue of a timed segment (stretching)
+// before playing the next one: hold the move, then rest
+export interface ClipTiming {
+  move: string | null;  // StretchMove id (null for the closing cue)
+  holdSeconds: number;
+  restSeconds: number;
+}
+
+// A cue of a timed segment, played in order after the segment's intro
+export interface TimedClip extends ClipTiming {
+  index: number;
+  text: string;
+  audioBuffer: Buffer;
+}
+
+// When a cue of a paced segment (breathing) starts, counted from the end
+// of the intro, and how long its phase lasts. Cues are scheduled rather
+// than chained, so the pace doesn't drift with the length of the audio.
+export interface CueTiming {
+  phase: BreathPhase;
+  startsAtSeconds: number;
+  durationSeconds: number;
+}
+
+export interface PacedCue extends CueTiming {
+  index: number;
+  text: string;
+  audioBuffer: Buffer;
+}
+
+// Serializable form of an engine (config + state) used by the session store.
+// Dates are stored as ISO strings so the snapshot survives JSON round-trips.
+export interface TrackEngineSnapshot {
+  config: TrackConfig;
+  state: Omit<TrackState, 'segmentHistory' | 'lastAgentSpokeAt' | 'isProcessing'> & {
+    // Same fields as TrackState (structured reply fields included)
+    segmentHistory: (Omit<TrackState['segmentHistory'][number], 'timestamp'> & { timestamp: string })[];
+    lastAgentSpokeAt: string;
+  };
+}
+
 // ============================================
 // PERSONA DEFINITIONS
 // ============================================
@@ -201,7 +314,7 @@ Start with a brief intro, then share ONE interesting fact.
 - Surprising or curiosity-sparking
 - 2-3 sentences total
 
-At the end of your response, add a line with just the core topic of the fact in brackets, like: [octopus hearts] or [honey preservation]
+Put the core topic of the fact in "topic", like "octopus hearts" or "honey preservation".
 This helps us track what facts have been shared.`,
 
   news: `Generate the NEWS segment.
@@ -215,8 +328,10 @@ Just the facts, simple and clear.`,
 
 This is MID-CONVERSATION. Do not greet them or say hello again.
 
-Brief transition, then list their events:
+Brief transition, then the events worth mentioning:
 - Time and title for each
+- Use the notes after each event (first of the day, needs travel, free time after) to say why it matters
+- Don't read out the others one by one - at most say there's more
 - Simple and clear`,
 
   engagement: `Generate the ENGAGEMENT QUESTION segment.
@@ -236,69 +351,124 @@ Give them ONE physical action to get out of bed:
 
 If not the first call to action, pick a DIFFERENT action. Escalate the urgency.`,
 
+  breathing: `Generate the BREATHING segment intro.
+
+This is MID-CONVERSATION. Do not greet them or say hello again.
+
+Invite them into the breathing exercise below:
+- Name it and give the count in a few words
+- They can stay lying down
+- Do NOT count or cue the breaths yourself - the cues play right after you
+- 1-2 sentences total`,
+
+  stretching: `Generate the STRETCHING segment intro.
+
+This is MID-CONVERSATION. Do not greet them or say hello again.
+
+They're out of bed. Introduce the short stretching routine below:
+- Say what it is and roughly how long it takes
+- Tell them to find a bit of space
+- Do NOT describe the moves - each move's cue is played right after you
+- 1-2 sentences total`,
+
   music: `Generate the MUSIC handoff segment.
 
 This is MID-CONVERSATION. Do not greet them or say hello again.
 
-One sentence to hand off to music.`,
+One sentence to hand off to music. If the music is named below, introduce
+it by name.`,
 };
 
-// ============================================
-// GLOBAL FACT STORE (persists across sessions)
-// ============================================
+// Segments the ambient bed plays under, while there's bed time left
+const AMBIENT_SEGMENTS: SegmentType[] = ['greeting', 'weather', 'visualization', 'breathing', 'fact'];
+
+// Added under the time budget, by how close the deadline is
+const TIME_PRESSURE_NOTES: Record<TimePressure, { callToAction: string; other: string }> = {
+  relaxed: {
+    callToAction: 'They have time, but mention when they need to be up.',
+    other: 'They have time - no need to rush them.',
+  },
+  tight: {
+    callToAction: 'They\'re short on time - get them moving. Tell them when they need to be out of bed.',
+    other: 'They\'re short on time - keep this to 1-2 sentences.',
+  },
+  late: {
+    callToAction: 'They\'re already late - no gentle wake-up now. Be blunt and urgent: they need to get up NOW.',
+    other: 'They\'re already late - one sentence only, and tell them to get up.',
+  },
+};
 
-// Store used facts globally so they persist across sessions
-// Map structure: fact topic (lowercase) -> timestamp when used
-const globalUsedFacts = new Map<string, Date>();
+// Fact segment when a library fact was picked - the model only retells it
+const FACT_REPHRASE_PROMPT = `Generate the FACT segment.
+
+This is MID-CONVERSATION. Do not greet them or say hello again.
 
-// Maximum facts to remember (keep last 100 facts)
-const MAX_FACTS_TO_REMEMBER = 100;
+Start with a brief intro, then retell the fact below in your own voice.
+- Keep every detail accurate - do not add numbers, names or claims that aren't in it
+- 2-3 sentences total`;
+
+// ============================================
+// STREAMING HELPERS
+// ============================================
 
-// Add used facts to global store
-function addUsedFactToGlobalStore(factTopic: string) {
-  const topic = factTopic.toLowerCase().trim();
-  globalUsedFacts.set(topic, new Date());
+// Words whose period doesn't end the sentence ("Dr. Smith", "e.g. tea")
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'vs', 'e.g', 'i.e',  // en
+  'sr', 'sra', 'srta', 'dra', 'mme', 'mlle', 'z.b', 'bzw', 'nr',      // es, fr, de
+]);
 
-  // Clean up old facts if we exceed the limit
-  if (globalUsedFacts.size > MAX_FACTS_TO_REMEMBER) {
-    // Convert to array and sort by date (oldest first)
-    const sortedFacts = Array.from(globalUsedFacts.entries())
-      .sort((a, b) => a[1].getTime() - b[1].getTime());
+function endsWithAbbreviation(text: string): boolean {
+  const word = text.match(/([\p{L}.]+)$/u)?.[1];
+  return !!word && ABBREVIATIONS.has(word.toLowerCase());
+}
 
-    // Remove oldest facts
-    const toRemove = sortedFacts.slice(0, globalUsedFacts.size - MAX_FACTS_TO_REMEMBER);
-    for (const [topic] of toRemove) {
-      globalUsedFacts.delete(topic);
+// Split streamed text into complete sentences. Whatever follows the last
+// sentence boundary is returned as `rest` until more tokens arrive.
+export function splitSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (let i = 0; i < buffer.length - 1; i++) {
+    // A boundary is terminal punctuation followed by whitespace, so "3.5"
+    // or a sentence still being streamed isn't cut early
+    if (buffer[i] === '.' && endsWithAbbreviation(buffer.slice(start, i))) continue;
+    if ('.!?…'.includes(buffer[i]) && /\s/.test(buffer[i + 1])) {
+      const sentence = buffer.slice(start, i + 1).trim();
+      if (sentence) sentences.push(sentence);
+      start = i + 1;
     }
   }
 
-  console.log(`[FactStore] Stored fact: "${topic}" (total: ${globalUsedFacts.size} facts)`);
+  return { sentences, rest: buffer.slice(start) };
 }
 
-// Get all used facts from global store
-function getAllUsedFacts(): string[] {
-  return Array.from(globalUsedFacts.keys());
-}
+// One retry when a segment reply doesn't match segmentOutputSchema
+const MAX_SEGMENT_OUTPUT_ATTEMPTS = 2;
 
 // ============================================
 // TRACK ENGINE CLASS
 // ============================================
 
-let openaiClient: OpenAI | null = null;
-
-export function initTrackEngine(apiKey: string) {
-  openaiClient = new OpenAI({ apiKey });
+interface RenderedSegment {
+  output: SegmentOutput;
+  audioBuffer: Buffer;
+  clips?: TimedClip[];  // Timed segments only
+  cues?: PacedCue[];    // Paced segments only
+  ambientSeconds: number;  // Bed time mixed into audioBuffer
 }
 
 export class TrackEngine {
   private config: TrackConfig;
   private state: TrackState;
+  // Speculative generation of the upcoming segment (not persisted)
+  private pregenerated: { segmentIndex: number; result: Promise<RenderedSegment | null> } | null = null;
 
   constructor(config: TrackConfig) {
     this.config = config;
     this.state = {
-      sessionId: `track_${Date.now()}`,
+      sessionId: `track_${crypto.randomUUID()}`,  // The only handle on the session - not guessable
       currentSegmentIndex: 0,
+      currentSegmentPlayed: false,
       conversationMode: false,
       factsUsed: 0,
       segmentHistory: [],
@@ -311,6 +481,11 @@ export class TrackEngine {
     };
   }
 
+  // Snapshots from before sessions carried a locale get the server defaults
+  private get userLocale(): UserLocale {
+    return this.config.userLocale || resolveUserLocale();
+  }
+
   // Get current segment
   getCurrentSegment(): SegmentConfig | null {
     // Prevent infinite recursion with a max depth
@@ -327,52 +502,152 @@ export class TrackEngine {
     const segment = this.config.segmentOrder[this.state.currentSegmentIndex];
     if (!segment) return null;
 
-    // Skip disabled segments
-    if (!segment.enabled) {
-      console.log(`[TrackEngine] ⏭️ Skipping disabled segment at index ${this.state.currentSegmentIndex}: ${segment.type}`);
+    // Skip disabled segments, and data segments with nothing to say
+    const skipReason = this.getSkipReason(segment);
+    if (skipReason) {
+      console.log(`[TrackEngine] ⏭️ Skipping ${segment.type} segment at index ${this.state.currentSegmentIndex} (${skipReason})`);
       this.state.currentSegmentIndex++;
       return this.getCurrentSegmentWithDepth(depth + 1);
     }
 
+    return segment;
+  }
+
+  // Why a segment can't be played right now (null if it can)
+  private getSkipReason(segment: SegmentConfig): string | null {
+    if (!segment.enabled) return 'disabled';
+
     // Skip calendar if no events
     if (segment.type === 'calendar' && (!this.config.calendar || this.config.calendar.length === 0)) {
-      console.log(`[TrackEngine] ⏭️ Skipping calendar segment at index ${this.state.currentSegmentIndex} (no events)`);
-      this.state.currentSegmentIndex++;
-      return this.getCurrentSegmentWithDepth(depth + 1);
+      return 'no events';
     }
 
     // Skip news if not configured
     if (segment.type === 'news' && (!this.config.news || this.config.news.length === 0)) {
-      console.log(`[TrackEngine] ⏭️ Skipping news segment at index ${this.state.currentSegmentIndex} (no data)`);
-      this.state.currentSegmentIndex++;
-      return this.getCurrentSegmentWithDepth(depth + 1);
+      return 'no data';
     }
 
-    return segment;
+    // Custom types (see segmentRegistry) bring their own rules
+    const custom = getCustomSegment(segment.type);
+    if (!custom && !isBuiltInSegmentType(segment.type)) {
+      return 'unknown type';  // Restored session whose type is no longer registered
+    }
+    if (custom?.requires?.some(data => !this.hasData(data))) return 'no data';
+    if (custom?.skipWhen && matchesCondition(custom.skipWhen, this.getConditionContext())) {
+      return 'skip rule';
+    }
+
+    if (segment.when && !matchesCondition(segment.when, this.getConditionContext())) {
+      return 'condition not met';
+    }
+
+    // No time for extras when they have to be up soon
+    const optional = segment.type === 'visualization' || segment.type === 'stretching' || segment.type === 'breathing'
+      || (segment.type === 'fact' && this.state.factsUsed > 0) || custom?.optional;
+    if (optional) {
+      const pressure = this.getTimeBudget()?.pressure;
+      if (pressure === 'tight' || pressure === 'late') return 'short on time';
+    }
+
+    return null;
+  }
+
+  private hasData(data: SegmentData): boolean {
+    if (data === 'weather') return Boolean(this.config.weather);
+    return Boolean(this.config[data]?.length);
+  }
+
+  // callToAction (and custom types like it) repeat until the user is awake
+  private repeatsUntilAwake(segment: SegmentConfig | null | undefined): boolean {
+    if (!segment) return false;
+    return segment.type === 'callToAction' || Boolean(getCustomSegment(segment.type)?.repeatsUntilAwake);
+  }
+
+  // When they must be out of bed for their first event (null without one)
+  getTimeBudget(now = new Date()): TimeBudget | null {
+    return computeTimeBudget(this.config.calendar, {
+      prepMinutes: this.config.prepMinutes,
+      commuteMinutes: this.config.commuteMinutes,
+    }, now);
+  }
+
+  // What segment conditions and branches are checked against
+  private getConditionContext(): ConditionContext {
+    const now = new Date();
+    const trackStart = this.state.segmentHistory[0]?.timestamp || now;
+    return {
+      weekend: isWeekend(now, this.userLocale.timeZone),
+      weather: this.config.weather,
+      userReplies: this.state.conversationHistory.filter(m => m.role === 'user').map(m => m.content),
+      elapsedSeconds: (now.getTime() - trackStart.getTime()) / 1000,
+      segmentsPlayed: this.state.segmentHistory.length,
+    };
   }
 
-  // Peek at what segment comes after the current one (without advancing)
-  peekNextSegment(): SegmentConfig | null {
-    const nextIndex = this.state.currentSegmentIndex + 1;
-    for (let i = nextIndex; i < this.config.segmentOrder.length; i++) {
-      const seg = this.config.segmentOrder[i];
-      if (seg.enabled) return seg;
+  // Where the track goes after the segment at `index`: the target of its
+  // first branch that holds, otherwise the next segment
+  private nextIndexAfter(index: number): number {
+    const branches = this.config.segmentOrder[index]?.branches;
+    if (branches) {
+      const context = this.getConditionContext();
+      for (const branch of branches) {
+        if (!matchesCondition(branch.when, context)) continue;
+        const target = this.resolveBranchTarget(branch, index);
+        if (target !== null) return target;
+      }
+    }
+    return index + 1;
+  }
+
+  // A later segment with that id, else the next segment of that type.
+  // Only jumps ahead count, so a branch can't loop the track forever.
+  private resolveBranchTarget(branch: SegmentBranch, from: number): number | null {
+    const order = this.config.segmentOrder;
+    const byId = order.findIndex((s, i) => i > from && s.id === branch.goTo);
+    if (byId !== -1) return byId;
+    const byType = order.findIndex((s, i) => i > from && s.type === branch.goTo);
+    if (byType !== -1) return byType;
+    console.warn(`[TrackEngine] Branch target "${branch.goTo}" not found after index ${from}`);
+    return null;
+  }
+
+  // Index of the first playable segment at or after `from` (without
+  // advancing). While news is still loading, segments that need it count
+  // as playable.
+  private findPlayableIndex(from: number, newsPending = false): number | null {
+    for (let i = from; i < this.config.segmentOrder.length; i++) {
+      const segment = this.config.segmentOrder[i];
+      const reason = this.getSkipReason(segment);
+      if (!reason) return i;
+      if (newsPending && reason === 'no data' && this.needsNews(segment)) return i;
     }
     return null;
   }
 
+  private needsNews(segment: SegmentConfig): boolean {
+    return segment.type === 'news' || Boolean(getCustomSegment(segment.type)?.requires?.includes('news'));
+  }
+
+  // Peek at the segment the track moves on to next (without advancing),
+  // following branches and skipping what won't play
+  peekNextSegment(newsPending = false): SegmentConfig | null {
+    const index = this.findPlayableIndex(this.nextIndexAfter(this.state.currentSegmentIndex), newsPending);
+    return index === null ? null : this.config.segmentOrder[index];
+  }
+
   // Advance to next segment
   advanceSegment(): boolean {
     const beforeIndex = this.state.currentSegmentIndex;
     // Special case: stay on callToAction until user is awake
     const current = this.config.segmentOrder[this.state.currentSegmentIndex];
-    if (current?.type === 'callToAction') {
+    if (this.repeatsUntilAwake(current)) {
       // Don't advance - we'll vary the call to action instead
-      console.log('[TrackEngine] Staying on callToAction segment');
+      console.log(`[TrackEngine] Staying on ${current.type} segment`);
       return false;  // Indicate we didn't advance
     }
 
-    this.state.currentSegmentIndex++;
+    this.state.currentSegmentIndex = this.nextIndexAfter(beforeIndex);
+    this.state.currentSegmentPlayed = false;
     console.log(`[TrackEngine] 📍 Advanced from index ${beforeIndex} to ${this.state.currentSegmentIndex}`);
     return true;  // Indicate we advanced
   }
@@ -383,8 +658,13 @@ export class TrackEngine {
   }
 
   // Generate content for current segment
-  async generateSegmentContent(): Promise<{ text: string; audioBuffer: Buffer }> {
-    if (!openaiClient) throw new Error('OpenAI client not initialized');
+  async generateSegmentContent(): Promise<{
+    text: string;
+    audioBuffer: Buffer;
+    clips?: TimedClip[];
+    cues?: PacedCue[];
+    music?: MusicPlayback;
+  }> {
     if (this.state.isProcessing) throw new Error('Already processing');
 
     this.state.isProcessing = true;
@@ -395,63 +675,400 @@ export class TrackEngine {
         throw new Error('No more segments');
       }
 
-      const prompt = this.buildSegmentPrompt(segment);
+      // Serve the speculative generation if it's for this segment
+      const pregenerated = this.takePregenerated();
+      let rendered = pregenerated ? await pregenerated : null;
+      if (rendered) {
+        console.log(`[TrackEngine] ⚡ Serving pre-generated ${segment.type} segment`);
+      } else {
+        console.log(`[TrackEngine] Generating ${segment.type} segment`);
+        rendered = await this.renderSegment(segment);
+      }
 
-      console.log(`[TrackEngine] Generating ${segment.type} segment`);
+      const text = this.recordSegment(segment, rendered.output);
+      this.countAmbient(rendered.ambientSeconds);
 
-      const response = await openaiClient.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: prompt },
-          { role: 'user', content: `Generate the ${segment.type} segment now.` },
-        ],
-        max_tokens: 500,
+      return { text, audioBuffer: rendered.audioBuffer, clips: rendered.clips, cues: rendered.cues, music: this.musicFor(segment) };
+    } finally {
+      this.state.isProcessing = false;
+    }
+  }
+
+  // Generate text + audio for a segment without touching state, so it can
+  // also be used for speculative pre-generation
+  private async renderSegment(segment: SegmentConfig): Promise<RenderedSegment> {
+    const { prompt, fact } = await this.prepareSegmentPrompt(segment);
+
+    const output = await this.generateSegmentOutput(segment, prompt, fact);
+
+    // Convert to speech (a routine's or exercise's cues alongside its intro)
+    const scene = this.ambientSceneFor(segment);
+    const [speech, clips, cues] = await Promise.all([
+      textToSpeech(output.spokenText, this.config.voiceId, scene ? 'wav' : 'mp3'),
+      segment.type === 'stretching' ? this.renderRoutineClips() : undefined,
+      segment.type === 'breathing' ? this.renderBreathingCues() : undefined,
+    ]);
+    const { audio: audioBuffer, seconds: ambientSeconds } = this.mixAmbient(speech, scene);
+
+    return { output, audioBuffer, clips, cues, ambientSeconds };
+  }
+
+  // The bed's scene under this segment, or null if it gets none (not an
+  // ambient segment, or the bed time is used up)
+  private ambientSceneFor(segment: SegmentConfig): AmbientScene | null {
+    const byDefault = isBuiltInSegmentType(segment.type) && AMBIENT_SEGMENTS.includes(segment.type);
+    if (!(segment.ambient ?? byDefault) || this.ambientSecondsLeft <= 0) return null;
+    const theme = typeof segment.data?.theme === 'string' ? sceneForText(segment.data.theme) : null;
+    return theme || this.config.ambientScene || sceneForWeather(this.config.weather?.conditions)
+      || defaultScene(this.config.personaId);
+  }
+
+  // No bed unless the session asked for one (a scene, a length, or both)
+  private get ambientSecondsLeft(): number {
+    const { ambientScene, ambientSeconds, personaId } = this.config;
+    const total = ambientSeconds ?? (ambientScene ? getPersona(personaId).defaults.ambientDurationSeconds : 0);
+    return total - (this.state.ambientSecondsPlayed || 0);
+  }
+
+  // Speech (as WAV) with the bed under it, picking up the loop where the
+  // last clip left it. Streamed chunks only fade at the segment's ends.
+  // Doesn't touch state - see countAmbient.
+  private mixAmbient(
+    speech: Buffer,
+    scene: AmbientScene | null,
+    fades: Pick<MixOptions, 'fadeIn' | 'fadeOut'> = {}
+  ): { audio: Buffer; seconds: number } {
+    if (!scene) return { audio: speech, seconds: 0 };
+    return mixUnderSpeech(speech, getAmbientBed(scene), {
+      offsetSeconds: this.state.ambientSecondsPlayed || 0,
+      maxSeconds: this.ambientSecondsLeft,
+      ...fades,
+    });
+  }
+
+  private countAmbient(seconds: number) {
+    if (seconds > 0) this.state.ambientSecondsPlayed = (this.state.ambientSecondsPlayed || 0) + seconds;
+  }
+
+  // The breathing schedule, with each distinct cue spoken once
+  private async renderBreathingCues(): Promise<PacedCue[]> {
+    const words = getLanguage(this.userLocale.language).breathCues;
+    const schedule = breathingSchedule(selectPattern(this.config.personaId, this.config.breathingPattern));
+    const audio = new Map<BreathPhase, Promise<Buffer>>();
+    for (const { phase } of schedule) {
+      if (!audio.has(phase)) audio.set(phase, textToSpeech(words[phase], this.config.voiceId));
+    }
+    return Promise.all(schedule.map(async (breath, index) => ({
+      ...breath,
+      index,
+      text: words[breath.phase],
+      audioBuffer: await audio.get(breath.phase)!,
+    })));
+  }
+
+  // The stretching routine's cues, spoken in the session voice
+  private async renderRoutineClips(): Promise<TimedClip[]> {
+    const cues = routineCues(selectRoutine(this.config.personaId, this.config.fitnessLevel));
+    return Promise.all(cues.map(async (cue, index) => ({
+      ...cue,
+      index,
+      audioBuffer: await textToSpeech(cue.text, this.config.voiceId),
+    })));
+  }
+
+  // Ask for the segment as JSON, retrying with the validation error if the
+  // reply doesn't match the schema. A generated fact must name its topic.
+  private async generateSegmentOutput(segment: SegmentConfig, prompt: string, fact: LibraryFact | null): Promise<SegmentOutput> {
+    const requireTopic = segment.type === 'fact' && !fact;
+    let messages: ChatMessage[] = [
+      { role: 'system', content: prompt },
+      { role: 'user', content: `Generate the ${segment.type} segment now.` },
+    ];
+
+    let raw = '';
+    for (let attempt = 1; attempt <= MAX_SEGMENT_OUTPUT_ATTEMPTS; attempt++) {
+      raw = await getLLMProvider().chat({
+        messages,
+        maxTokens: 500,
         temperature: 0.9,  // Higher for more variation
+        responseSchema: { name: 'segment', schema: segmentOutputSchema },
       });
 
-      let text = response.choices[0]?.message?.content || '';
+      const result = parseSegmentOutput(raw, { requireTopic });
+      if (result.ok) return this.withFactTopic(result.output, fact);
+
+      console.warn(`[TrackEngine] ${segment.type} reply rejected (attempt ${attempt}): ${result.error}`);
+      messages = [
+        ...messages,
+        { role: 'assistant', content: raw },
+        { role: 'user', content: `That reply was rejected: ${result.error}. Reply again with only the JSON object.` },
+      ];
+    }
 
-      // Extract and store fact topic if this is a fact segment
-      if (segment.type === 'fact') {
-        const factMatch = text.match(/\[([^\]]+)\]\s*$/);
-        if (factMatch) {
-          const factTopic = factMatch[1].toLowerCase().trim();
+    console.warn(`[TrackEngine] Using ${segment.type} reply as plain text after ${MAX_SEGMENT_OUTPUT_ATTEMPTS} attempts`);
+    return this.withFactTopic(fallbackSegmentOutput(raw), fact);
+  }
 
-          // Add to session state
-          this.state.usedFacts.push(factTopic);
+  // Library facts already know their topic, whatever the model says
+  private withFactTopic(output: SegmentOutput, fact: LibraryFact | null): SegmentOutput {
+    return fact ? { ...output, topic: fact.topic } : output;
+  }
 
-          // Add to global persistent store
-          addUsedFactToGlobalStore(factTopic);
+  // Speculatively generate the segment the next silence will play, while
+  // the current one is still playing, so /next can answer instantly.
+  // Discarded if the user starts talking or new context (news) arrives.
+  pregenerateNextSegment(): void {
+    if (this.state.conversationMode) return;
 
-          // Remove the tag from the spoken text
-          text = text.replace(/\s*\[[^\]]+\]\s*$/, '').trim();
+    // callToAction repeats (with a new variation) until the user is awake,
+    // and a segment we jumped to hasn't been played yet
+    const current = this.config.segmentOrder[this.state.currentSegmentIndex];
+    const from = this.repeatsUntilAwake(current) || !this.state.currentSegmentPlayed
+      ? this.state.currentSegmentIndex
+      : this.nextIndexAfter(this.state.currentSegmentIndex);
+    const segmentIndex = this.findPlayableIndex(from);
+    if (segmentIndex === null) return;
+    if (this.pregenerated?.segmentIndex === segmentIndex) return;
+
+    const segment = this.config.segmentOrder[segmentIndex];
+    console.log(`[TrackEngine] 🔮 Pre-generating ${segment.type} segment (index ${segmentIndex})`);
+
+    const result = this.renderSegment(segment).catch(error => {
+      console.error(`[TrackEngine] Pre-generation of ${segment.type} failed:`, error?.message || error);
+      return null;
+    });
+    this.pregenerated = { segmentIndex, result };
+  }
+
+  private invalidatePregenerated(reason: string): void {
+    if (!this.pregenerated) return;
+    const segment = this.config.segmentOrder[this.pregenerated.segmentIndex];
+    console.log(`[TrackEngine] 🗑️ Discarding pre-generated ${segment?.type} segment (${reason})`);
+    this.pregenerated = null;
+  }
+
+  // Hand over the pre-generated segment if it's for the current position
+  private takePregenerated(): Promise<RenderedSegment | null> | null {
+    const pregenerated = this.pregenerated;
+    this.pregenerated = null;
+    if (!pregenerated) return null;
+
+    if (pregenerated.segmentIndex !== this.state.currentSegmentIndex) {
+      console.log(`[TrackEngine] Pre-generated segment is for index ${pregenerated.segmentIndex}, now at ${this.state.currentSegmentIndex} - discarding`);
+      return null;
+    }
+    return pregenerated.result;
+  }
+
+  // Streaming variant of generateSegmentContent: chat tokens are split into
+  // sentences as they arrive, each sentence is sent to TTS as soon as it's
+  // complete, and audio chunks are delivered to onChunk strictly in order.
+  // The segmentHistory entry is recorded once the full text is known.
+  // Aborting the signal (the listener went away) stops generation and
+  // delivery, and the call rejects with the abort reason.
+  async streamSegmentContent(
+    onChunk: (chunk: SegmentAudioChunk) => void | Promise<void>,
+    signal?: AbortSignal
+  ): Promise<{ text: string; music?: MusicPlayback }> {
+    if (this.state.isProcessing) throw new Error('Already processing');
+
+    this.state.isProcessing = true;
+
+    try {
+      const segment = this.getCurrentSegment();
+      if (!segment) {
+        throw new Error('No more segments');
+      }
+
+      // A ready pre-generated segment beats streaming - send it as one
+      // chunk. Timed and paced segments are rendered whole: their cues
+      // follow the intro.
+      const pregenerated = this.takePregenerated();
+      let rendered = pregenerated ? await pregenerated : null;
+      if (rendered) {
+        console.log(`[TrackEngine] ⚡ Serving pre-generated ${segment.type} segment`);
+      } else if (segment.type === 'stretching' || segment.type === 'breathing') {
+        rendered = await this.renderSegment(segment);
+      }
+      if (rendered) {
+        const text = this.recordSegment(segment, rendered.output);
+        this.countAmbient(rendered.ambientSeconds);
+        await onChunk({ index: 0, text, audioBuffer: rendered.audioBuffer });
+        for (const { index, text: cue, audioBuffer, ...timing } of [...(rendered.clips || []), ...(rendered.cues || [])]) {
+          await onChunk({ index: index + 1, text: cue, audioBuffer, timing });
         }
-        this.state.factsUsed++;
+        return { text, music: this.musicFor(segment) };
       }
 
-      // Record in history
-      this.state.segmentHistory.push({
-        segment: segment.type,
-        content: text,
-        timestamp: new Date(),
+      const { prompt, fact } = await this.prepareSegmentPrompt(segment);
+
+      console.log(`[TrackEngine] Streaming ${segment.type} segment`);
+
+      const stream = getLLMProvider().chatStream({
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: `Generate the ${segment.type} segment now.` },
+        ],
+        maxTokens: 500,
+        temperature: 0.9,
+        responseSchema: { name: 'segment', schema: segmentOutputSchema },
       });
-      this.state.conversationHistory.push({ role: 'assistant', content: text });
-      this.state.lastAgentSpokeAt = new Date();
 
-      // Convert to speech
-      const audioBuffer = await textToSpeech(text, this.config.voiceId);
+      let raw = '';
+      let pending = '';
+      let index = 0;
+      // spokenText is decoded out of the JSON as it streams in
+      const reader = new SpokenTextReader();
+      // TTS requests run in parallel, delivery is chained to keep order
+      // (and the bed is mixed in that order, so it runs on across chunks)
+      let delivery: Promise<void> = Promise.resolve();
+      const scene = this.ambientSceneFor(segment);
+      // Whether the chunk before is the segment's last - its bed fades out
+      // only then, so with a bed each chunk waits until the next is queued
+      let settleLast: (last: boolean) => void = () => undefined;
+
+      const speak = (sentence: string) => {
+        const spoken = sentence.trim();
+        if (!spoken) return;
+        const chunkIndex = index++;
+        const audio = textToSpeech(spoken, this.config.voiceId, scene ? 'wav' : 'mp3');
+        settleLast(false);
+        const last = new Promise<boolean>(resolve => { settleLast = resolve; });
+        delivery = delivery.then(async () => {
+          if (signal?.aborted) return;
+          const fades = scene ? { fadeIn: chunkIndex === 0, fadeOut: await last } : {};
+          const mixed = this.mixAmbient(await audio, scene, fades);
+          this.countAmbient(mixed.seconds);
+          await onChunk({ index: chunkIndex, text: spoken, audioBuffer: mixed.audio });
+        });
+        // Surface TTS failures through the delivery chain, not as unhandled rejections
+        audio.catch(() => undefined);
+      };
+
+      let output: SegmentOutput;
+      try {
+        for await (const token of stream) {
+          if (signal?.aborted) break;
+          raw += token;
+          pending += reader.push(token);
+
+          const { sentences, rest } = splitSentences(pending);
+          sentences.forEach(speak);
+          pending = rest;
+        }
+        signal?.throwIfAborted();
+
+        // No retry once audio is out - a reply that doesn't validate is kept
+        // as whatever was spoken (or, if it wasn't JSON at all, spoken now)
+        const result = parseSegmentOutput(raw, { requireTopic: segment.type === 'fact' && !fact });
+        if (result.ok) {
+          output = result.output;
+        } else {
+          console.warn(`[TrackEngine] Streamed ${segment.type} reply rejected: ${result.error}`);
+          output = fallbackSegmentOutput(raw);
+          if (!reader.started) pending = output.spokenText;
+        }
+        speak(pending);
+        settleLast(true);
+
+        await delivery;
+        signal?.throwIfAborted();
+      } catch (error) {
+        // Let queued chunks settle before giving up, so one that fails
+        // later can't surface as an unhandled rejection
+        settleLast(true);
+        await delivery.catch(() => undefined);
+        throw error;
+      }
 
-      return { text, audioBuffer };
+      const text = this.recordSegment(segment, this.withFactTopic(output, fact));
+      console.log(`[TrackEngine] Streamed ${segment.type} segment in ${index} chunk(s)`);
+
+      return { text, music: this.musicFor(segment) };
     } finally {
       this.state.isProcessing = false;
     }
   }
 
+  // Playback instructions go out with the music segment only
+  private musicFor(segment: SegmentConfig): MusicPlayback | undefined {
+    return segment.type === 'music' ? this.config.music : undefined;
+  }
+
+  // Record a generated segment in history. Returns the text to speak.
+  private recordSegment(segment: SegmentConfig, output: SegmentOutput): string {
+    const text = output.spokenText.trim();
+
+    // Store the fact topic if this is a fact segment
+    if (segment.type === 'fact') {
+      const factTopic = output.topic;
+      if (factTopic) {
+        // Add to session state
+        this.state.usedFacts.push(factTopic);
+
+        // Remember it for this user's future sessions
+        if (this.config.userId) {
+          getFactHistory().record(this.config.userId, factTopic).catch(error => {
+            console.error('[TrackEngine] Failed to store fact topic:', error?.message || error);
+          });
+        }
+      } else {
+        console.warn('[TrackEngine] Fact segment has no topic - it may be repeated');
+      }
+      this.state.factsUsed++;
+    }
+
+    this.state.currentSegmentPlayed = true;
+
+    // Record in history
+    this.state.segmentHistory.push({
+      segment: segment.type,
+      content: text,
+      topic: output.topic,
+      estimatedDurationSeconds: output.estimatedDurationSeconds,
+      toneTags: output.toneTags,
+      timestamp: new Date(),
+    });
+    this.state.conversationHistory.push({ role: 'assistant', content: text });
+    this.state.lastAgentSpokeAt = new Date();
+
+    return text;
+  }
+
+  // Fact segments retell a library fact the user hasn't heard, and are
+  // only generated from scratch once the library is exhausted for them
+  private async prepareSegmentPrompt(segment: SegmentConfig): Promise<{ prompt: string; fact: LibraryFact | null }> {
+    if (segment.type !== 'fact') {
+      return { prompt: this.buildSegmentPrompt(segment, [], null), fact: null };
+    }
+
+    const usedTopics = await this.getUsedFactTopics();
+    const fact = selectFact(customFacts(this.config.facts || []), usedTopics)
+      || selectFact(getLibraryFacts(), usedTopics);
+    if (fact) {
+      console.log(`[TrackEngine] 📚 Using library fact "${fact.id}" (${fact.category})`);
+    } else {
+      console.log('[TrackEngine] Fact library exhausted for this user - generating a fact');
+    }
+    return { prompt: this.buildSegmentPrompt(segment, usedTopics, fact), fact };
+  }
+
   // Build the prompt for a segment
-  private buildSegmentPrompt(segment: SegmentConfig): string {
+  private buildSegmentPrompt(segment: SegmentConfig, usedFacts: string[], fact: LibraryFact | null): string {
     const persona = this.config.personaId;
     const personaTone = PERSONA_TONES[persona];
-    const segmentRules = SEGMENT_PROMPTS[segment.type];
+    const custom = getCustomSegment(segment.type);
+    const now = new Date();
+    const segmentRules = fact ? FACT_REPHRASE_PROMPT
+      : isBuiltInSegmentType(segment.type) ? SEGMENT_PROMPTS[segment.type]
+      // Types no longer registered were skipped before getting here
+      : renderSegmentTask(custom!, {
+        userName: this.config.userName,
+        date: formatDate(now, this.userLocale),
+        time: formatTime(now, this.userLocale),
+      });
+    // Data sections go to their own segment, and to custom ones that need them
+    const needs = (data: SegmentData) => segment.type === data || Boolean(custom?.requires?.includes(data));
 
     let prompt = `# You are the ${persona.replace('-', ' ').replace(/\b\w/g, c => c.toUpperCase())}
 
@@ -459,40 +1076,98 @@ ${personaTone}
 
 ## Your Task
 ${segmentRules}
-
+${segment.sentences ? `\nLength: ${segment.sentences} ${segment.sentences === 1 ? 'sentence' : 'sentences'} in total - this overrides any length given above.\n` : ''}
 ## User Name
 ${this.config.userName}
+
+## Local Time
+${formatDate(now, this.userLocale)}, ${formatTime(now, this.userLocale)}
 `;
 
     // Add segment-specific data
-    if (segment.type === 'weather' && this.config.weather) {
+    if (typeof segment.data?.theme === 'string') {
+      prompt += `
+## Theme
+Build this segment around: ${segment.data.theme}
+`;
+    }
+
+    if (needs('weather') && this.config.weather) {
       prompt += `
 ## Weather Data
-${JSON.stringify(this.config.weather, null, 2)}
+${describeWeather(this.config.weather, this.userLocale.units)}
 `;
     }
 
-    if (segment.type === 'calendar' && this.config.calendar) {
+    if (needs('calendar') && this.config.calendar) {
       prompt += `
 ## Today's Events
-${this.config.calendar.map(e => `- ${e.title} at ${e.time}`).join('\n')}
+${describeCalendar(this.config.calendar)}
 `;
     }
 
-    if (segment.type === 'news' && this.config.news) {
+    // The deadline matters to the calendar and call to action, and to
+    // every other segment once time is short
+    const timeBudget = this.getTimeBudget();
+    if (timeBudget && (segment.type === 'calendar' || segment.type === 'callToAction' || timeBudget.pressure !== 'relaxed')) {
+      prompt += `
+## Time Budget
+${describeTimeBudget(timeBudget, this.userLocale)}
+${TIME_PRESSURE_NOTES[timeBudget.pressure][segment.type === 'callToAction' ? 'callToAction' : 'other']}
+`;
+    }
+
+    // No theme picked the scene, so the scene follows the bed
+    const scene = this.ambientSceneFor(segment);
+    if (segment.type === 'visualization' && scene && typeof segment.data?.theme !== 'string') {
+      prompt += `
+## Background Sound
+${scene} - set your scene where this sound belongs
+`;
+    }
+
+    if (segment.type === 'music' && this.config.music?.name) {
+      prompt += `
+## Music
+${this.config.music.name}${this.config.music.provider === 'spotify' ? ' (their Spotify playlist)' : ''}
+`;
+    }
+
+    if (segment.type === 'breathing') {
+      prompt += `
+## Breathing Exercise
+${describePattern(selectPattern(this.config.personaId, this.config.breathingPattern))}
+`;
+    }
+
+    if (segment.type === 'stretching') {
+      const routine = selectRoutine(this.config.personaId, this.config.fitnessLevel);
+      prompt += `
+## Routine
+${routine.name}, about ${Math.round(routineSeconds(routine) / 60)} minutes:
+${routine.moves.map(move => `- ${move.name}`).join('\n')}
+`;
+    }
+
+    if (needs('news') && this.config.news) {
       prompt += `
 ## News Items
 ${this.config.news.map(n => `- ${n.headline}: ${n.summary}`).join('\n')}
 `;
     }
 
-    // Add used facts to avoid repetition (from GLOBAL store)
-    if (segment.type === 'fact') {
-      const allUsedFacts = getAllUsedFacts();
-      if (allUsedFacts.length > 0) {
+    if (fact) {
+      prompt += `
+## The Fact
+${fact.text}
+(Source: ${fact.source.title})
+`;
+    } else if (segment.type === 'fact') {
+      // Add used facts to avoid repetition (this user's history + this session)
+      if (usedFacts.length > 0) {
         prompt += `
 ## Facts Already Used (DO NOT repeat these topics)
-${allUsedFacts.map(f => `- ${f}`).join('\n')}
+${usedFacts.map(f => `- ${f}`).join('\n')}
 
 Pick a completely different topic. Be creative and find something totally new.
 `;
@@ -514,11 +1189,30 @@ Generate something FRESH and DIFFERENT.
 `;
     }
 
+    prompt += `
+${SEGMENT_OUTPUT_INSTRUCTIONS}
+`;
 
+    const language = languageInstruction(this.userLocale.language);
+    if (language) prompt += `\n${language}\n`;
 
     return prompt;
   }
 
+  private async getUsedFactTopics(): Promise<string[]> {
+    const topics = new Set(this.state.usedFacts);
+    if (this.config.userId) {
+      try {
+        for (const record of await getFactHistory().list(this.config.userId)) {
+          topics.add(record.topic);
+        }
+      } catch (error: any) {
+        console.error('[TrackEngine] Failed to load fact history:', error?.message || error);
+      }
+    }
+    return Array.from(topics);
+  }
+
   // Handle user speech
   async handleUserSpeech(audioBuffer: Buffer): Promise<{ transcript: string; text: string; audioBuffer: Buffer } | null> {
     if (this.state.isProcessing) {
@@ -530,7 +1224,7 @@ Generate something FRESH and DIFFERENT.
 
     try {
       console.log(`[TrackEngine] Transcribing ${audioBuffer.length} bytes of audio...`);
-      const transcript = await transcribeAudio(audioBuffer);
+      const transcript = await transcribeAudio(audioBuffer, this.userLocale.language);
 
       if (!transcript || transcript.trim() === '') {
         console.log('[TrackEngine] No transcript returned (silence or noise)');
@@ -538,13 +1232,7 @@ Generate something FRESH and DIFFERENT.
       }
 
       // Filter out common false positives from Whisper
-      const falsePositives = [
-        'okay', 'ok', 'um', 'uh', 'hmm', 'mm', 'ah', 'oh',
-        'you', 'the', 'a', 'i', 'it', 'so', 'bye', 'thank you',
-        'thanks for watching', 'subscribe', // YouTube artifacts Whisper sometimes hallucinates
-      ];
-      const cleanTranscript = transcript.trim().toLowerCase();
-      if (falsePositives.includes(cleanTranscript)) {
+      if (isExactly(transcript, this.userLocale.language, lexicon => lexicon.falsePositives)) {
         console.log(`[TrackEngine] Filtered out likely false positive: "${transcript}"`);
         return null;
       }
@@ -553,6 +1241,7 @@ Generate something FRESH and DIFFERENT.
 
       // Enter conversation mode
       this.state.conversationMode = true;
+      this.invalidatePregenerated('user is talking');
       this.state.conversationHistory.push({ role: 'user', content: transcript });
 
       // Generate conversational response
@@ -577,22 +1266,11 @@ Generate something FRESH and DIFFERENT.
 
   // Detect if user is trying to sleep/dismiss/snooze
   private detectSleepIntent(message: string): boolean {
-    const lowerMsg = message.toLowerCase();
-    const sleepPatterns = [
-      'go to sleep', 'going to sleep', 'back to sleep', 'let me sleep',
-      'want to sleep', 'wanna sleep', 'need sleep', 'more sleep',
-      'be quiet', 'shut up', 'stop', 'go away', 'leave me alone',
-      'five more minutes', '5 more minutes', 'snooze', 'later',
-      'not now', 'too tired', 'so tired', 'exhausted',
-      'turn off', 'stop talking', 'be silent', 'quiet',
-    ];
-    return sleepPatterns.some(pattern => lowerMsg.includes(pattern));
+    return saysAny(message, this.userLocale.language, lexicon => lexicon.sleepIntent);
   }
 
   // Generate a conversational response
   private async generateConversationResponse(userMessage: string): Promise<string> {
-    if (!openaiClient) throw new Error('OpenAI client not initialized');
-
     const persona = this.config.personaId;
     const personaTone = PERSONA_TONES[persona];
     const currentSegment = this.getCurrentSegment();
@@ -662,6 +1340,9 @@ Current segment: ${currentSegment?.type || 'unknown'}
 User's name: ${this.config.userName}`;
     }
 
+    const language = languageInstruction(this.userLocale.language);
+    if (language) systemPrompt += `\n\n${language}`;
+
     const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
       { role: 'system', content: systemPrompt },
     ];
@@ -672,18 +1353,51 @@ User's name: ${this.config.userName}`;
       messages.push(msg);
     }
 
-    const response = await openaiClient.chat.completions.create({
-      model: 'gpt-4o',
+    return getLLMProvider().chat({
       messages,
-      max_tokens: 200,
+      maxTokens: 200,
       temperature: 0.85,
     });
-
-    return response.choices[0]?.message?.content || '';
   }
 
   // Handle silence - either advance segment or stay in conversation mode
-  async handleSilence(): Promise<{ text: string; audioBuffer: Buffer; action: 'segment' | 'waiting' }> {
+  async handleSilence(): Promise<{
+    text: string;
+    audioBuffer: Buffer;
+    clips?: TimedClip[];
+    cues?: PacedCue[];
+    music?: MusicPlayback;
+    action: 'segment' | 'waiting';
+  }> {
+    this.moveToNextSegment();
+
+    // Generate content for current segment
+    const result = await this.generateSegmentContent();
+
+    // Clear the flag after generating content
+    this.state.justExitedConversation = false;
+    this.state.recentConversation = [];
+
+    return { ...result, action: 'segment' };
+  }
+
+  // Same as handleSilence, but delivers the segment as ordered audio chunks
+  async handleSilenceStreaming(
+    onChunk: (chunk: SegmentAudioChunk) => void | Promise<void>,
+    signal?: AbortSignal
+  ): Promise<{ text: string; music?: MusicPlayback; action: 'segment' | 'waiting' }> {
+    this.moveToNextSegment();
+
+    const result = await this.streamSegmentContent(onChunk, signal);
+
+    this.state.justExitedConversation = false;
+    this.state.recentConversation = [];
+
+    return { ...result, action: 'segment' };
+  }
+
+  // Exit conversation mode (if needed) and advance the track
+  private moveToNextSegment(): void {
     // If in conversation mode, exit and resume track
     if (this.state.conversationMode) {
       console.log(`[TrackEngine] Exiting conversation mode, resuming track`);
@@ -697,6 +1411,9 @@ User's name: ${this.config.userName}`;
       this.state.conversationMode = false;
     }
 
+    // Segment we jumped to (markAwake) hasn't been heard yet - play it first
+    if (!this.state.currentSegmentPlayed) return;
+
     // Try to advance to next segment
     const advanced = this.advanceSegment();
 
@@ -704,31 +1421,88 @@ User's name: ${this.config.userName}`;
       // We're on callToAction - generate a NEW call to action variation
       console.log('[TrackEngine] Generating new callToAction variation');
     }
-
-    // Generate content for current segment
-    const result = await this.generateSegmentContent();
-
-    // Clear the flag after generating content
-    this.state.justExitedConversation = false;
-    this.state.recentConversation = [];
-
-    return { ...result, action: 'segment' };
   }
 
   // Mark user as awake (called when movement is detected)
   markAwake(): void {
+    this.invalidatePregenerated('user is awake');
     // Move past callToAction to music
-    while (this.getCurrentSegment()?.type === 'callToAction') {
+    while (this.repeatsUntilAwake(this.getCurrentSegment())) {
       this.state.currentSegmentIndex++;
+      this.state.currentSegmentPlayed = false;
     }
   }
 
+  // Stop the track early (usage budget exhausted) - isComplete() is true afterwards
+  endTrack(reason: string): void {
+    this.invalidatePregenerated(reason);
+    this.state.conversationMode = false;
+    this.state.currentSegmentIndex = this.config.segmentOrder.length;
+    this.state.currentSegmentPlayed = false;
+    console.log(`[TrackEngine] ⏹️ Track ended early (${reason})`);
+  }
+
   // Update news data after deferred fetch completes
   setNews(items: NewsItem[]) {
     this.config.news = items;
+    this.invalidatePregenerated('news arrived');
     console.log(`[TrackEngine] 📰 News data loaded (${items.length} items)`);
   }
 
+  // Update weather data after the backend fetched it (see weatherProvider)
+  setWeather(weather: WeatherData) {
+    this.config.weather = weather;
+    this.invalidatePregenerated('weather arrived');
+    console.log(`[TrackEngine] 🌤️ Weather data loaded (${weather.conditions}, ${weather.currentTemp}°)`);
+  }
+
+  // Update calendar events after the backend imported a feed (see calendarImport)
+  setCalendar(events: CalendarEvent[]) {
+    this.config.calendar = events;
+    this.invalidatePregenerated('calendar arrived');
+    console.log(`[TrackEngine] 📅 Calendar loaded (${events.length} events today)`);
+  }
+
+  // Serialize config + state so the session can be rehydrated after a restart
+  toSnapshot(): TrackEngineSnapshot {
+    const { isProcessing, ...state } = this.state;
+    return {
+      config: this.config,
+      state: {
+        ...state,
+        segmentHistory: state.segmentHistory.map(h => ({
+          ...h,
+          timestamp: h.timestamp.toISOString(),
+        })),
+        lastAgentSpokeAt: state.lastAgentSpokeAt.toISOString(),
+      },
+    };
+  }
+
+  // Rebuild an engine from a snapshot. Any generation that was in flight when
+  // the snapshot was taken is lost, so isProcessing always starts false.
+  static fromSnapshot(snapshot: TrackEngineSnapshot): TrackEngine {
+    const engine = new TrackEngine(snapshot.config);
+    engine.state = {
+      ...snapshot.state,
+      segmentHistory: snapshot.state.segmentHistory.map(h => ({
+        ...h,
+        timestamp: new Date(h.timestamp),
+      })),
+      lastAgentSpokeAt: new Date(snapshot.state.lastAgentSpokeAt),
+      currentSegmentPlayed: snapshot.state.currentSegmentPlayed ?? true,
+      isProcessing: false,
+    };
+    return engine;
+  }
+
+  // Whether a segment of this type is still ahead of (or at) the current position
+  hasUpcomingSegment(type: SegmentConfig['type']): boolean {
+    return this.config.segmentOrder
+      .slice(this.state.currentSegmentIndex)
+      .some(s => s.enabled && s.type === type);
+  }
+
   // Getters
   getState(): TrackState {
     return { ...this.state };
@@ -0,0 +1,174 @@
+/**
+ * Track Planner
+ *
+ * Fits a track into the time the user has. Given the segment order and a
+ * target length ("4 minutes"), it:
+ * - drops the least important segments until the shortest version fits
+ *   (a second fact and the visualization go first; the greeting, call to
+ *   action and music handoff always stay)
+ * - then gives the time left back as sentences, most important first
+ *
+ * Without a target, the plan just estimates the track as requested, so
+ * the client can still show progress.
+ *
+ * Durations are estimates from sentence counts - the segment prompts are
+ * told how many sentences to use, and the model's own
+ * estimatedDurationSeconds is reported per segment as it plays. Timed
+ * segments (stretching, breathing) add their cues, holds and rests on top.
+ */
+
+import { SegmentConfig, SegmentType, isBuiltInSegmentType } from './trackEngine';
+import { DEFAULT_IMPORTANCE, getCustomSegment } from './segmentRegistry';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SegmentSize {
+  min: number;         // Sentences when time is short
+  default: number;     // What the segment prompt asks for on its own
+  max: number;
+  importance: number;  // Higher is kept longer and grown first
+}
+
+export interface PlannedSegment {
+  type: SegmentConfig['type'];
+  sentences: number;
+  estimatedSeconds: number;
+}
+
+export interface TrackPlan {
+  targetSeconds: number | null;
+  estimatedSeconds: number;
+  segments: PlannedSegment[];  // In playback order
+  dropped: SegmentConfig['type'][];  // Left out to fit the target
+}
+
+// The plan for the client, and the segment order for the engine. Sentence
+// counts are only pinned when there was a target; otherwise each prompt
+// keeps its own length.
+export interface PlannedTrack {
+  plan: TrackPlan;
+  segmentOrder: SegmentConfig[];
+}
+
+// ============================================
+// ESTIMATES
+// ============================================
+
+// About 11 words at a calm morning pace
+export const SECONDS_PER_SENTENCE = 4.5;
+
+// Silence the client waits for before asking for the next segment
+export const SEGMENT_GAP_SECONDS = 3;
+
+// Segments this important are never dropped
+const REQUIRED_IMPORTANCE = 9;
+
+export const SEGMENT_SIZES: Record<SegmentType, SegmentSize> = {
+  greeting: { min: 1, default: 2, max: 2, importance: 10 },
+  weather: { min: 2, default: 4, max: 5, importance: 6 },
+  visualization: { min: 3, default: 5, max: 6, importance: 2 },
+  fact: { min: 2, default: 3, max: 3, importance: 5 },
+  news: { min: 2, default: 4, max: 5, importance: 3 },
+  calendar: { min: 2, default: 3, max: 4, importance: 7 },
+  engagement: { min: 1, default: 1, max: 2, importance: 4 },
+  callToAction: { min: 1, default: 2, max: 2, importance: 10 },
+  stretching: { min: 1, default: 2, max: 2, importance: 3 },  // The intro - cues are timed separately
+  breathing: { min: 1, default: 2, max: 2, importance: 3 },   // Likewise
+  music: { min: 1, default: 1, max: 1, importance: 9 },
+};
+
+// Custom types (see segmentRegistry) are sized from their definition
+export function segmentSize(type: SegmentConfig['type']): SegmentSize {
+  if (isBuiltInSegmentType(type)) return SEGMENT_SIZES[type];
+  // The schema only lets registered types through
+  const custom = getCustomSegment(type)!;
+  return {
+    min: custom.minSentences ?? 1,
+    default: custom.maxSentences,
+    max: custom.maxSentences,
+    importance: custom.importance ?? DEFAULT_IMPORTANCE,
+  };
+}
+
+export function estimateSegmentSeconds(sentences: number): number {
+  return Math.round(sentences * SECONDS_PER_SENTENCE) + SEGMENT_GAP_SECONDS;
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+interface Slot {
+  config: SegmentConfig;
+  type: SegmentConfig['type'];
+  index: number;
+  sentences: number;
+  importance: number;
+  timedSeconds: number;  // Fixed time on top of the sentences
+}
+
+// Conditional segments (see segmentConditions) are budgeted as if they play.
+// timedSeconds gives the fixed length of timed segments by type.
+export function planTrack(
+  order: SegmentConfig[],
+  targetSeconds?: number,
+  timedSeconds: Partial<Record<SegmentType, number>> = {}
+): PlannedTrack {
+  // A repeated type (the second fact) matters less than its first play
+  const seen = new Set<SegmentConfig['type']>();
+  let slots: Slot[] = order.map((config, index) => {
+    const { type } = config;
+    const size = segmentSize(type);
+    const importance = size.importance - (seen.has(type) ? 2 : 0);
+    seen.add(type);
+    const sentences = targetSeconds ? size.min : size.default;
+    return { config, type, index, importance, sentences, timedSeconds: (isBuiltInSegmentType(type) && timedSeconds[type]) || 0 };
+  });
+  const slotSeconds = (slot: Slot) => estimateSegmentSeconds(slot.sentences) + slot.timedSeconds;
+  const total = () => slots.reduce((sum, slot) => sum + slotSeconds(slot), 0);
+  const dropped: SegmentConfig['type'][] = [];
+
+  if (targetSeconds) {
+    // Least important first; among equals, the later one. Branch targets stay.
+    const targets = new Set(order.flatMap(config => (config.branches || []).map(branch => branch.goTo)));
+    const droppable = slots
+      .filter(slot => slot.importance < REQUIRED_IMPORTANCE && !(slot.config.id && targets.has(slot.config.id)))
+      .sort((a, b) => a.importance - b.importance || b.index - a.index);
+    for (const slot of droppable) {
+      if (total() <= targetSeconds) break;
+      slots = slots.filter(s => s !== slot);
+      dropped.push(slot.type);
+    }
+
+    // Grow everything to its usual size before anything goes past it
+    const byImportance = [...slots].sort((a, b) => b.importance - a.importance || a.index - b.index);
+    for (const limit of ['default', 'max'] as const) {
+      let grew = true;
+      while (grew) {
+        grew = false;
+        for (const slot of byImportance) {
+          if (slot.sentences >= segmentSize(slot.type)[limit]) continue;
+          if (total() + SECONDS_PER_SENTENCE > targetSeconds) break;
+          slot.sentences++;
+          grew = true;
+        }
+      }
+    }
+  }
+
+  return {
+    plan: {
+      targetSeconds: targetSeconds ?? null,
+      estimatedSeconds: total(),
+      segments: slots.map(slot => ({
+        type: slot.type,
+        sentences: slot.sentences,
+        estimatedSeconds: slotSeconds(slot),
+      })),
+      dropped,
+    },
+    segmentOrder: slots.map(slot => (targetSeconds ? { ...slot.config, sentences: slot.sentences } : slot.config)),
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Track Session Store
+ *
+ * Holds the live TrackEngine for every /api/track session.
+ *
+ * Two implementations:
+ * - MemoryTrackSessionStore: in-memory only, lost on restart (local dev)
+ * - FileTrackSessionStore: keeps a JSON snapshot per session on disk and
+ *   rehydrates the engine on lookup, so a deploy or crash mid-alarm
+ *   doesn't kill wake-ups in progress
+ *
+ * Both keep live sessions in a SessionRegistry, so abandoned sessions are
+ * expired by the shared sweeper (the file store also removes their snapshot).
+ *
+ * Only config + state are persisted. The cached greeting audio and the
+ * in-flight news fetch can't be serialized, so the file store hands them
+ * back to the caller through onRehydrate to regenerate.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { TrackEngine, TrackEngineSnapshot, NewsItem } from './trackEngine';
+import { SessionRegistry, SessionRegistryOptions, createSessionRegistry, getDefaultRegistryOptions } from './sessionRegistry';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TrackSessionData {
+  engine: TrackEngine;
+  ownerId?: string;  // Principal that created the session (see appAuth)
+  greeting?: { text: string; audioBuffer: Buffer };
+  // News fetch that may still be in-flight (resolved when news segment is needed)
+  pendingNews?: Promise<NewsItem[] | undefined>;
+}
+
+export interface TrackSessionSnapshot {
+  version: 1;
+  createdAt: string;
+  savedAt: string;
+  engine: TrackEngineSnapshot;
+  ownerId?: string;
+  // Greeting text that hadn't been played yet (audio is regenerated on rehydrate)
+  greetingText?: string;
+}
+
+export interface TrackSessionStore {
+  get(id: string): Promise<TrackSessionData | undefined>;
+  save(id: string, data: TrackSessionData): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type RehydrateHook = (data: TrackSessionData, snapshot: TrackSessionSnapshot) => Promise<void>;
+
+export interface TrackSessionStoreOptions {
+  type?: 'memory' | 'file';
+  directory?: string;
+  onRehydrate?: RehydrateHook;
+}
+
+// ============================================
+// MEMORY STORE
+// ============================================
+
+export class MemoryTrackSessionStore implements TrackSessionStore {
+  private sessions: SessionRegistry<TrackSessionData> = createSessionRegistry('track');
+
+  async get(id: string): Promise<TrackSessionData | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async save(id: string, data: TrackSessionData): Promise<void> {
+    this.sessions.set(id, data);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+}
+
+// ============================================
+// FILE STORE
+// ============================================
+
+export class FileTrackSessionStore implements TrackSessionStore {
+  private directory: string;
+  private onRehydrate?: RehydrateHook;
+
+  // Live sessions stay in memory; disk is only read on a cache miss (after restart)
+  private cache: SessionRegistry<TrackSessionData>;
+  private createdAt = new Map<string, number>();
+  // Concurrent lookups of the same session share one rehydration
+  private loading = new Map<string, Promise<TrackSessionData | undefined>>();
+  // Writes per session are chained so an older snapshot never lands last
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(
+    directory: string,
+    onRehydrate?: RehydrateHook,
+    registryOptions: SessionRegistryOptions = getDefaultRegistryOptions()
+  ) {
+    this.directory = directory;
+    this.onRehydrate = onRehydrate;
+    this.cache = createSessionRegistry('track', registryOptions);
+    fs.mkdirSync(directory, { recursive: true });
+
+    // An abandoned session shouldn't come back from disk either
+    this.cache.onEvict(id => {
+      this.createdAt.delete(id);
+      const file = this.fileFor(id);
+      if (file) fs.promises.unlink(file).catch(() => undefined);
+    });
+
+    // Snapshots of sessions nobody asked for since the last restart
+    this.pruneExpired().catch(error => {
+      console.error('[SessionStore] Failed to prune expired snapshots:', error);
+    });
+  }
+
+  async get(id: string): Promise<TrackSessionData | undefined> {
+    const cached = this.cache.get(id);
+    if (cached) return cached;
+
+    const file = this.fileFor(id);
+    if (!file) return undefined;
+
+    let pending = this.loading.get(id);
+    if (!pending) {
+      pending = this.load(id, file).finally(() => this.loading.delete(id));
+      this.loading.set(id, pending);
+    }
+    return pending;
+  }
+
+  async save(id: string, data: TrackSessionData): Promise<void> {
+    const file = this.fileFor(id);
+    if (!file) throw new Error(`Invalid session id: ${id}`);
+
+    if (!this.createdAt.has(id)) this.createdAt.set(id, this.cache.now());
+    const createdAt = this.createdAt.get(id)!;
+    this.cache.set(id, data, createdAt);
+
+    const snapshot: TrackSessionSnapshot = {
+      version: 1,
+      createdAt: new Date(createdAt).toISOString(),
+      savedAt: new Date(this.cache.now()).toISOString(),
+      engine: data.engine.toSnapshot(),
+      ownerId: data.ownerId,
+      greetingText: data.greeting?.text,
+    };
+    const json = JSON.stringify(snapshot);
+
+    const previous = this.writes.get(id) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        // Write to a temp file and rename so a crash never leaves half a snapshot
+        const tmp = `${file}.tmp`;
+        await fs.promises.writeFile(tmp, json, 'utf8');
+        await fs.promises.rename(tmp, file);
+      });
+    this.writes.set(id, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(id) === write) this.writes.delete(id);
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const file = this.fileFor(id);
+    if (!file) return false;
+
+    const wasCached = this.cache.delete(id);
+    this.createdAt.delete(id);
+    await this.writes.get(id)?.catch(() => undefined);
+
+    try {
+      await fs.promises.unlink(file);
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return wasCached;
+      throw error;
+    }
+  }
+
+  private async load(id: string, file: string): Promise<TrackSessionData | undefined> {
+    let snapshot: TrackSessionSnapshot;
+    try {
+      snapshot = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.error(`[SessionStore] Failed to read snapshot for ${id}:`, error);
+      }
+      return undefined;
+    }
+
+    if (snapshot.version !== 1) {
+      console.warn(`[SessionStore] Ignoring snapshot for ${id} with unknown version ${snapshot.version}`);
+      return undefined;
+    }
+
+    const createdAt = Date.parse(snapshot.createdAt);
+    if (this.cache.isExpired(createdAt, Date.parse(snapshot.savedAt))) {
+      console.log(`[SessionStore] Snapshot for ${id} expired while the server was down`);
+      await fs.promises.unlink(file).catch(() => undefined);
+      return undefined;
+    }
+
+    const data: TrackSessionData = {
+      engine: TrackEngine.fromSnapshot(snapshot.engine),
+      ownerId: snapshot.ownerId,
+    };
+
+    if (this.onRehydrate) {
+      await this.onRehydrate(data, snapshot);
+    }
+
+    console.log(`[SessionStore] ♻️ Rehydrated session ${id} (saved ${snapshot.savedAt})`);
+    this.createdAt.set(id, createdAt);
+    this.cache.set(id, data, createdAt);
+    return data;
+  }
+
+  private async pruneExpired(): Promise<void> {
+    const files = await fs.promises.readdir(this.directory);
+    let pruned = 0;
+    for (const name of files) {
+      if (!name.endsWith('.json')) continue;
+      const file = path.join(this.directory, name);
+      try {
+        const snapshot: TrackSessionSnapshot = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+        if (this.cache.isExpired(Date.parse(snapshot.createdAt), Date.parse(snapshot.savedAt))) {
+          await fs.promises.unlink(file);
+          pruned++;
+        }
+      } catch {
+        // Unreadable snapshot - leave it for a human to look at
+      }
+    }
+    if (pruned > 0) {
+      console.log(`[SessionStore] Pruned ${pruned} expired snapshot(s)`);
+    }
+  }
+
+  // Session ids come from the URL - only allow safe filename characters
+  private fileFor(id: string): string | null {
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) return null;
+    return path.join(this.directory, `${id}.json`);
+  }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+export function createTrackSessionStore(options: TrackSessionStoreOptions = {}): TrackSessionStore {
+  if (options.type === 'file') {
+    const directory = options.directory || path.join(process.cwd(), 'data', 'sessions');
+    console.log(`[SessionStore] Using file store at ${directory}`);
+    return new FileTrackSessionStore(directory, options.onRehydrate);
+  }
+  return new MemoryTrackSessionStore();
+}
@@ -0,0 +1,284 @@
+/**
+ * Usage Budget
+ *
+ * Estimates what each LLM/TTS/transcription call costs and enforces two
+ * budgets before making the next one. A call reserves its estimated cost
+ * up front and settles it with the actual cost once done, so calls made
+ * in parallel (pre-generation, concurrent requests) can't all slip
+ * through on the same remaining budget:
+ * - Per session: one wake-up can't run away (e.g. a client stuck calling /next)
+ * - Per device per day (UTC): one install can't burn credits across sessions
+ *
+ * Costs are attributed through an AsyncLocalStorage context set by the
+ * session routes (who is calling, which session), so work started during
+ * a request - including background pre-generation - is charged to it.
+ *
+ * Estimates are deliberately simple (~4 characters per token, audio
+ * length from byte size); they're for budgeting, not billing.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { LLMProvider, ChatRequest, SpeechFormat, TTSVoice, TranscriptionRequest } from './llmProvider';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface UsagePricing {
+  chatInputPerMillionTokens: number;
+  chatOutputPerMillionTokens: number;
+  ttsPerMillionChars: number;
+  transcriptionPerMinute: number;
+}
+
+export interface UsageBudgetOptions {
+  sessionBudgetUsd?: number;  // Unlimited when unset/0
+  dailyBudgetUsd?: number;    // Unlimited when unset/0
+  pricing?: Partial<UsagePricing>;
+}
+
+export interface UsageContext {
+  principalId: string;
+  sessionId?: string;  // Set once the route knows which session it's working on
+}
+
+export type BudgetScope = 'session' | 'daily';
+
+export class BudgetExhaustedError extends Error {
+  readonly scope: BudgetScope;
+  readonly spentUsd: number;
+  readonly budgetUsd: number;
+
+  constructor(scope: BudgetScope, spentUsd: number, budgetUsd: number) {
+    super(scope === 'session'
+      ? `Session usage budget of $${budgetUsd.toFixed(2)} reached`
+      : `Daily usage budget of $${budgetUsd.toFixed(2)} reached`);
+    this.name = 'BudgetExhaustedError';
+    this.scope = scope;
+    this.spentUsd = spentUsd;
+    this.budgetUsd = budgetUsd;
+  }
+}
+
+// ============================================
+// DEFAULTS (overridable via env)
+// ============================================
+
+// OpenAI list prices for gpt-4o / tts-1 / gpt-4o-transcribe
+const DEFAULT_PRICING: UsagePricing = {
+  chatInputPerMillionTokens: 2.5,
+  chatOutputPerMillionTokens: 10,
+  ttsPerMillionChars: 15,
+  transcriptionPerMinute: 0.006,
+};
+
+const CHARS_PER_TOKEN = 4;
+// Reply length reserved for chat calls that don't set maxTokens
+const DEFAULT_CHAT_OUTPUT_TOKENS = 1000;
+// Compressed speech from the app (m4a/webm) is roughly 16 KB per second
+const AUDIO_BYTES_PER_SECOND = 16000;
+
+// Unlike the registry limits, 0 is meaningful here (no budget)
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw !== undefined && raw !== '' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getDefaultUsageBudgetOptions(): UsageBudgetOptions {
+  return {
+    sessionBudgetUsd: envNumber('SESSION_BUDGET_USD', 0.5),
+    dailyBudgetUsd: envNumber('DAILY_BUDGET_USD', 2),
+  };
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+const SESSION_SPEND_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+let options: UsageBudgetOptions = {};
+let pricing: UsagePricing = DEFAULT_PRICING;
+
+const sessionSpend = new Map<string, { usd: number; lastAt: number }>();
+const dailySpend = new Map<string, number>();  // principalId -> usd, for currentDay
+let currentDay = '';
+
+const usageStorage = new AsyncLocalStorage<UsageContext>();
+
+export function initUsageBudget(budgetOptions: UsageBudgetOptions = {}) {
+  options = budgetOptions;
+  pricing = { ...DEFAULT_PRICING, ...budgetOptions.pricing };
+  sessionSpend.clear();
+  dailySpend.clear();
+
+  const describe = (usd?: number) => (usd ? `$${usd.toFixed(2)}` : 'unlimited');
+  console.log(`[Usage] Budgets: ${describe(options.sessionBudgetUsd)} per session, ${describe(options.dailyBudgetUsd)} per device per day`);
+}
+
+function today(): string {
+  const day = new Date().toISOString().slice(0, 10);
+  if (day !== currentDay) {
+    currentDay = day;
+    dailySpend.clear();
+  }
+  return day;
+}
+
+// usd is negative when a reservation settles for less than it held
+function record(context: UsageContext, usd: number) {
+  today();
+  dailySpend.set(context.principalId, Math.max(0, (dailySpend.get(context.principalId) || 0) + usd));
+
+  if (context.sessionId) {
+    const now = Date.now();
+    const entry = sessionSpend.get(context.sessionId) || { usd: 0, lastAt: now };
+    entry.usd = Math.max(0, entry.usd + usd);
+    entry.lastAt = now;
+    sessionSpend.set(context.sessionId, entry);
+
+    // Sessions expire long before this - drop spend nobody will ask about
+    for (const [id, spend] of sessionSpend) {
+      if (now - spend.lastAt > SESSION_SPEND_RETENTION_MS) sessionSpend.delete(id);
+    }
+  }
+}
+
+// Throws if the next call would be made over budget
+export function assertWithinBudget(context: UsageContext) {
+  today();
+  const daily = dailySpend.get(context.principalId) || 0;
+  if (options.dailyBudgetUsd && daily >= options.dailyBudgetUsd) {
+    throw new BudgetExhaustedError('daily', daily, options.dailyBudgetUsd);
+  }
+
+  const session = context.sessionId ? sessionSpend.get(context.sessionId)?.usd || 0 : 0;
+  if (options.sessionBudgetUsd && session >= options.sessionBudgetUsd) {
+    throw new BudgetExhaustedError('session', session, options.sessionBudgetUsd);
+  }
+}
+
+// Checks the budget and holds estimatedUsd against it; the returned
+// function settles the hold with what the call actually cost
+export function reserveBudget(context: UsageContext, estimatedUsd: number): (actualUsd: number) => void {
+  assertWithinBudget(context);
+  // The session the hold was charged to, even if the route picks one later
+  const charged = { ...context };
+  record(charged, estimatedUsd);
+
+  let settled = false;
+  return (actualUsd: number) => {
+    if (settled) return;
+    settled = true;
+    record(charged, actualUsd - estimatedUsd);
+  };
+}
+
+export function getSessionSpend(sessionId: string): number {
+  return sessionSpend.get(sessionId)?.usd || 0;
+}
+
+export function getDailySpend(principalId: string): number {
+  today();
+  return dailySpend.get(principalId) || 0;
+}
+
+// ============================================
+// REQUEST CONTEXT
+// ============================================
+
+// Run fn (and everything it starts) charged to this caller
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageStorage.run(context, fn);
+}
+
+// Attribute the rest of the current request to a session
+export function setUsageSession(sessionId: string) {
+  const context = usageStorage.getStore();
+  if (context) context.sessionId = sessionId;
+}
+
+// ============================================
+// METERED PROVIDER
+// ============================================
+
+function chatInputChars(request: ChatRequest): number {
+  return request.messages.reduce((total, message) => total + message.content.length, 0);
+}
+
+function chatCost(inputChars: number, outputChars: number): number {
+  return (inputChars / CHARS_PER_TOKEN) * pricing.chatInputPerMillionTokens / 1e6
+    + (outputChars / CHARS_PER_TOKEN) * pricing.chatOutputPerMillionTokens / 1e6;
+}
+
+function estimatedChatCost(request: ChatRequest): number {
+  return chatCost(chatInputChars(request), (request.maxTokens || DEFAULT_CHAT_OUTPUT_TOKENS) * CHARS_PER_TOKEN);
+}
+
+// Wraps a provider so every call is checked against, and charged to, the
+// current usage context. Calls outside any context (startup, scripts) are
+// free. A call that fails is charged nothing.
+export class MeteredProvider implements LLMProvider {
+  readonly name: string;
+  private inner: LLMProvider;
+
+  constructor(inner: LLMProvider) {
+    this.inner = inner;
+    this.name = inner.name;
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const settle = this.reserve(estimatedChatCost(request));
+    try {
+      const text = await this.inner.chat(request);
+      settle(chatCost(chatInputChars(request), text.length));
+      return text;
+    } finally {
+      settle(0);
+    }
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    const settle = this.reserve(estimatedChatCost(request));
+    let outputChars = 0;
+    try {
+      for await (const token of this.inner.chatStream(request)) {
+        outputChars += token.length;
+        yield token;
+      }
+    } finally {
+      // Tokens already streamed were paid for, even if the stream broke off
+      settle(outputChars ? chatCost(chatInputChars(request), outputChars) : 0);
+    }
+  }
+
+  async speech(text: string, voice: TTSVoice, format?: SpeechFormat): Promise<Buffer> {
+    const cost = text.length * pricing.ttsPerMillionChars / 1e6;
+    const settle = this.reserve(cost);
+    try {
+      const audio = await this.inner.speech(text, voice, format);
+      settle(cost);
+      return audio;
+    } finally {
+      settle(0);
+    }
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    const cost = request.audio.length / AUDIO_BYTES_PER_SECOND / 60 * pricing.transcriptionPerMinute;
+    const settle = this.reserve(cost);
+    try {
+      const transcript = await this.inner.transcribe(request);
+      settle(cost);
+      return transcript;
+    } finally {
+      settle(0);
+    }
+  }
+
+  private reserve(estimatedUsd: number): (actualUsd: number) => void {
+    const context = usageStorage.getStore();
+    return context ? reserveBudget(context, estimatedUsd) : () => {};
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * User Locale
+ *
+ * Where the user is and how they like to be spoken to: IANA time zone,
+ * BCP 47 locale, unit system and language (see config/languages). Every
+ * session config carries one, so times and temperatures are formatted on
+ * the server for the user - not in the server's own time zone, and never
+ * left for GPT to guess whether 14 is Celsius or Fahrenheit.
+ */
+
+import { LanguageCode, getLanguage, languageForLocale } from '../config/languages';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface UserLocale {
+  timeZone: string;  // e.g. "Europe/London"
+  locale: string;    // e.g. "en-GB"
+  units: UnitSystem;
+  language: LanguageCode;  // What the session is spoken in
+}
+
+// What a client may send - anything missing gets a default
+export interface UserLocaleInput {
+  timeZone?: string;
+  locale?: string;
+  units?: UnitSystem;
+  language?: LanguageCode;
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_LOCALE = 'en-US';
+
+// Regions that use Fahrenheit and miles per hour
+const IMPERIAL_REGIONS = new Set(['US', 'LR', 'MM']);
+
+export function serverTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function defaultUnitsFor(locale: string): UnitSystem {
+  const region = new Intl.Locale(locale).maximize().region;
+  return region && IMPERIAL_REGIONS.has(region) ? 'imperial' : 'metric';
+}
+
+// Fill in what the client didn't send. Values are assumed to be valid
+// already (see the time-zone/locale formats in validation/schema).
+// Language and locale default from each other: "fr" alone formats like
+// fr-FR, and an es-MX locale alone speaks Spanish.
+export function resolveUserLocale(input: UserLocaleInput = {}): UserLocale {
+  const locale = input.locale || (input.language ? getLanguage(input.language).defaultLocale : DEFAULT_LOCALE);
+  return {
+    timeZone: input.timeZone || serverTimeZone(),
+    locale,
+    units: input.units || defaultUnitsFor(locale),
+    language: input.language || languageForLocale(locale) || 'en',
+  };
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export function formatTemperature(value: number, units: UnitSystem): string {
+  return `${Math.round(value)}°${units === 'imperial' ? 'F' : 'C'}`;
+}
+
+// "6:45 AM" (en-US), "6:45" (en-GB)
+export function formatTime(date: Date, userLocale: UserLocale): string {
+  return date.toLocaleTimeString(userLocale.locale, {
+    timeZone: userLocale.timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// "Sunday, October 18"
+export function formatDate(date: Date, userLocale: UserLocale): string {
+  return date.toLocaleDateString(userLocale.locale, {
+    timeZone: userLocale.timeZone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+// For prompts that take free-text weather, so GPT reads numbers right
+export function describeUnits(units: UnitSystem): string {
+  return units === 'imperial'
+    ? 'Fahrenheit and miles per hour'
+    : 'Celsius and kilometres per hour';
+}
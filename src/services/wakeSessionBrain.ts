@@ -11,6 +11,8 @@
  * ensuring it follows a logical progression rather than random attempts.
  */
 
+import { LanguageCode, isExactly, saysAny } from '../config/languages';
+
 // ============================================
 // SESSION PHASES (redesigned for natural wake-up flow)
 // ============================================
@@ -142,13 +144,16 @@ const TOOL_PRIORITY: Record<string, Record<SessionPhase, EngagementTool[]>> = {
 export class WakeSessionBrain {
   private state: WakeSessionState;
   private personaId: string;
+  private language: LanguageCode;  // Which lexicon the keyword checks use
 
   constructor(
     personaId: string,
     preferences: WakeSessionState['preferences'],
-    context: WakeSessionState['context']
+    context: WakeSessionState['context'],
+    language: LanguageCode = 'en'
   ) {
     this.personaId = personaId;
+    this.language = language;
     this.state = {
       phase: 'brain_wakeup',
       startTime: new Date(),
@@ -192,15 +197,10 @@ export class WakeSessionBrain {
     this.state.lastUserResponse = transcript;
 
     // Classify response quality - not just word count, but CONTENT
-    const lower = transcript.trim().toLowerCase();
     const wordCount = transcript.trim().split(/\s+/).length;
 
     // Lazy/minimal responses - single acknowledgments
-    const lazyPatterns = [
-      /^(ok|okay|k|yes|yeah|yea|yep|no|nope|nah|mm|mmm|mhm|hmm|uh|um|ah|oh)\.?$/i,
-      /^(sure|fine|alright|right|cool)\.?$/i,
-    ];
-    const isLazy = lazyPatterns.some(pattern => pattern.test(lower));
+    const isLazy = isExactly(transcript, this.language, lexicon => lexicon.acknowledgements);
 
     // Determine responsiveness
     if (isLazy) {
@@ -290,15 +290,13 @@ export class WakeSessionBrain {
    * Check for voice commands in user speech
    */
   private checkVoiceCommands(transcript: string): void {
-    const lower = transcript.toLowerCase();
-
-    if (lower.includes('skip news') || lower.includes('no news')) {
+    if (saysAny(transcript, this.language, lexicon => lexicon.skipNews)) {
       this.state.preferences.includeNews = false;
     }
-    if (lower.includes('skip weather') || lower.includes('no weather')) {
+    if (saysAny(transcript, this.language, lexicon => lexicon.skipWeather)) {
       this.state.preferences.includeWeather = false;
     }
-    if (lower.includes("i'm awake") || lower.includes('i am awake') || lower.includes("i'm up")) {
+    if (saysAny(transcript, this.language, lexicon => lexicon.awake)) {
       this.state.phase = 'verification';
     }
   }
@@ -0,0 +1,325 @@
+/**
+ * Weather Provider
+ *
+ * Lets the backend build WeatherData itself when the app only sends a
+ * location. Forecasts come from Open-Meteo (free, no API key) or, for
+ * tests and offline development, from a fixture in the same shape.
+ *
+ * Both providers share mapForecast(), which turns the raw hourly/daily
+ * forecast into the WeatherData the weather segment talks about,
+ * including a nightSummary built from the overnight hours.
+ *
+ * Forecasts are always requested in metric and converted here, so the
+ * wording thresholds (wind, rain) only exist once.
+ */
+
+import fs from 'fs';
+import { WeatherData } from './trackEngine';
+import { UnitSystem, formatTemperature } from './userLocale';
+import bundledFixture from '../config/weather-fixture.json';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WeatherQuery {
+  latitude: number;
+  longitude: number;
+  units: UnitSystem;
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  getForecast(query: WeatherQuery): Promise<WeatherData>;
+}
+
+export interface WeatherProviderConfig {
+  provider: 'openmeteo' | 'local';
+  fixturesPath?: string;  // Local provider: forecast JSON to serve (default: bundled fixture)
+}
+
+// Open-Meteo forecast response (only the fields we request). Times are
+// local to the location (timezone=auto), e.g. "2026-10-18T06:00".
+export interface RawForecast {
+  current: {
+    time: string;
+    temperature_2m: number;
+    apparent_temperature: number;
+    weather_code: number;
+    wind_speed_10m: number;      // km/h
+    wind_direction_10m: number;  // Degrees the wind blows from
+  };
+  hourly: {
+    time: string[];
+    temperature_2m: number[];
+    precipitation_probability: number[];
+    precipitation: number[];  // mm
+    weather_code: number[];
+    uv_index: number[];
+  };
+  daily: {
+    time: string[];
+    temperature_2m_max: number[];
+    uv_index_max: number[];
+  };
+}
+
+// ============================================
+// MAPPING
+// ============================================
+
+// WMO weather interpretation codes
+const WEATHER_CODES: Record<number, string> = {
+  0: 'Clear sky',
+  1: 'Mostly clear',
+  2: 'Partly cloudy',
+  3: 'Overcast',
+  45: 'Fog',
+  48: 'Freezing fog',
+  51: 'Light drizzle',
+  53: 'Drizzle',
+  55: 'Heavy drizzle',
+  56: 'Freezing drizzle',
+  57: 'Freezing drizzle',
+  61: 'Light rain',
+  63: 'Rain',
+  65: 'Heavy rain',
+  66: 'Freezing rain',
+  67: 'Freezing rain',
+  71: 'Light snow',
+  73: 'Snow',
+  75: 'Heavy snow',
+  77: 'Snow grains',
+  80: 'Light showers',
+  81: 'Showers',
+  82: 'Heavy showers',
+  85: 'Snow showers',
+  86: 'Heavy snow showers',
+  95: 'Thunderstorms',
+  96: 'Thunderstorms with hail',
+  99: 'Thunderstorms with hail',
+};
+
+const SNOW_CODES = new Set([71, 73, 75, 77, 85, 86]);
+const COMPASS = ['North', 'Northeast', 'East', 'Southeast', 'South', 'Southwest', 'West', 'Northwest'];
+
+const LIKELY_RAIN_PERCENT = 50;  // precipTiming covers hours at or above this
+const WET_HOUR_MM = 0.1;
+const HEAVY_NIGHT_MM = 10;
+
+export function describeWeatherCode(code: number): string {
+  return WEATHER_CODES[code] || 'Unsettled';
+}
+
+export function compassDirection(degrees: number): string {
+  return COMPASS[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+}
+
+// Roughly the Beaufort scale, from km/h
+export function describeWindSpeed(kmh: number): string {
+  if (kmh < 6) return 'Calm';
+  if (kmh < 20) return 'Light breeze';
+  if (kmh < 29) return 'Moderate breeze';
+  if (kmh < 39) return 'Fresh breeze';
+  if (kmh < 50) return 'Strong wind';
+  if (kmh < 62) return 'Near gale';
+  return 'Gale';
+}
+
+// "6am", "noon", "3pm"
+function formatHour(hour: number): string {
+  if (hour === 0 || hour === 24) return 'midnight';
+  if (hour === 12) return 'noon';
+  return hour < 12 ? `${hour}am` : `${hour - 12}pm`;
+}
+
+function hourOf(time: string): number {
+  return Number(time.slice(11, 13));
+}
+
+function previousDate(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+}
+
+// Overnight = 10pm yesterday until 6am (or now, if it's earlier than that)
+function summarizeNight(raw: RawForecast, now: string, units: UnitSystem, toUnits: (celsius: number) => number): string | undefined {
+  const today = now.slice(0, 10);
+  const from = `${previousDate(today)}T22:00`;
+  const until = `${today}T06:00`;
+
+  const hours = raw.hourly.time
+    .map((time, i) => ({ time, i }))
+    .filter(({ time }) => time >= from && time < until && time <= now);
+  if (hours.length === 0) return undefined;
+
+  const codes = hours.map(({ i }) => raw.hourly.weather_code[i]);
+  const wetHours = hours.filter(({ i }) => raw.hourly.precipitation[i] >= WET_HOUR_MM);
+  const totalPrecip = hours.reduce((sum, { i }) => sum + raw.hourly.precipitation[i], 0);
+  const low = formatTemperature(toUnits(Math.min(...hours.map(({ i }) => raw.hourly.temperature_2m[i]))), units);
+
+  let summary: string;
+  if (codes.some(code => code >= 95)) {
+    summary = 'There were thunderstorms overnight';
+  } else if (wetHours.length > 0) {
+    const snowed = codes.some(code => SNOW_CODES.has(code));
+    summary = `It ${snowed ? 'snowed' : 'rained'}${totalPrecip >= HEAVY_NIGHT_MM ? ' heavily' : ''} overnight`;
+    // Say when it stopped if the last hours were dry
+    const lastWet = wetHours[wetHours.length - 1];
+    if (lastWet !== hours[hours.length - 1]) {
+      summary += `, dry since about ${formatHour(hourOf(lastWet.time) + 1)}`;
+    }
+  } else if (codes.some(code => code === 45 || code === 48)) {
+    summary = 'It was a foggy night';
+  } else if (codes.filter(code => code <= 1).length >= codes.length / 2) {
+    summary = 'It was a clear night';
+  } else {
+    summary = 'It was a cloudy night';
+  }
+  return `${summary}, with a low of ${low}.`;
+}
+
+// Map an Open-Meteo forecast into WeatherData. "Now" is the forecast's own
+// current time, so everything stays in the location's local time.
+export function mapForecast(raw: RawForecast, units: UnitSystem): WeatherData {
+  const toUnits = (celsius: number) => units === 'imperial' ? celsius * 9 / 5 + 32 : celsius;
+  const now = raw.current.time;
+  const today = now.slice(0, 10);
+  const currentHour = `${now.slice(0, 13)}:00`;
+
+  // The rest of today, starting with the current hour
+  const upcoming = raw.hourly.time
+    .map((time, i) => ({ time, i }))
+    .filter(({ time }) => time.startsWith(today) && time >= currentHour);
+
+  const chances = upcoming.map(({ i }) => raw.hourly.precipitation_probability[i] ?? 0);
+  const likely = upcoming.filter(({ i }) => (raw.hourly.precipitation_probability[i] ?? 0) >= LIKELY_RAIN_PERCENT);
+  const precipTiming = likely.length > 0
+    ? `Likely between ${formatHour(hourOf(likely[0].time))} and ${formatHour(hourOf(likely[likely.length - 1].time) + 1)}`
+    : undefined;
+
+  const dayIndex = raw.daily.time.indexOf(today);
+  const eveningIndex = raw.hourly.time.indexOf(`${today}T18:00`);
+  const round = (celsius: number) => Math.round(toUnits(celsius));
+
+  const weather: WeatherData = {
+    currentTemp: round(raw.current.temperature_2m),
+    feelsLike: round(raw.current.apparent_temperature),
+    conditions: describeWeatherCode(raw.current.weather_code),
+    windDirection: compassDirection(raw.current.wind_direction_10m),
+    windStrength: describeWindSpeed(raw.current.wind_speed_10m),
+    precipChance: chances.length > 0 ? Math.max(...chances) : 0,
+    highTemp: round(dayIndex >= 0 ? raw.daily.temperature_2m_max[dayIndex] : raw.current.temperature_2m),
+    eveningTemp: round(eveningIndex >= 0 ? raw.hourly.temperature_2m[eveningIndex] : raw.current.temperature_2m),
+    uvIndex: Math.round(dayIndex >= 0 ? raw.daily.uv_index_max[dayIndex] : 0),
+  };
+  if (precipTiming) weather.precipTiming = precipTiming;
+
+  const nightSummary = summarizeNight(raw, now, units, toUnits);
+  if (nightSummary) weather.nightSummary = nightSummary;
+  return weather;
+}
+
+// ============================================
+// PROMPT TEXT
+// ============================================
+
+// WeatherData as prompt lines with units spelled out, so GPT never has to
+// guess whether a bare 14 is Celsius or Fahrenheit
+export function describeWeather(weather: WeatherData, units: UnitSystem): string {
+  const temp = (value: number) => formatTemperature(value, units);
+  const lines = [
+    `- Now: ${temp(weather.currentTemp)}${weather.feelsLike !== undefined ? `, feels like ${temp(weather.feelsLike)}` : ''}, ${weather.conditions}`,
+  ];
+  if (weather.windStrength) {
+    lines.push(`- Wind: ${weather.windStrength}${weather.windDirection ? ` from the ${weather.windDirection}` : ''}`);
+  }
+  if (weather.precipChance !== undefined) {
+    lines.push(`- Rain chance: ${weather.precipChance}%${weather.precipTiming ? ` (${weather.precipTiming})` : ''}`);
+  }
+  if (weather.highTemp !== undefined) lines.push(`- High today: ${temp(weather.highTemp)}`);
+  if (weather.eveningTemp !== undefined) lines.push(`- This evening: ${temp(weather.eveningTemp)}`);
+  if (weather.uvIndex !== undefined) lines.push(`- UV index: ${weather.uvIndex}`);
+  if (weather.airQuality) lines.push(`- Air quality: ${weather.airQuality}`);
+  if (weather.nightSummary) lines.push(`- Overnight: ${weather.nightSummary}`);
+  return lines.join('\n');
+}
+
+// ============================================
+// OPEN-METEO PROVIDER
+// ============================================
+
+const OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast';
+const REQUEST_TIMEOUT_MS = 5000;
+
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name = 'openmeteo';
+
+  async getForecast(query: WeatherQuery): Promise<WeatherData> {
+    const params = new URLSearchParams({
+      latitude: String(query.latitude),
+      longitude: String(query.longitude),
+      current: 'temperature_2m,apparent_temperature,weather_code,wind_speed_10m,wind_direction_10m',
+      hourly: 'temperature_2m,precipitation_probability,precipitation,weather_code,uv_index',
+      daily: 'temperature_2m_max,uv_index_max',
+      timezone: 'auto',
+      past_days: '1',  // Yesterday evening, for the night summary
+      forecast_days: '1',
+    });
+
+    const response = await fetch(`${OPEN_METEO_URL}?${params}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Open-Meteo error: ${response.status} ${await response.text()}`);
+    }
+
+    const raw = await response.json() as RawForecast;
+    if (!raw?.current || !raw.hourly?.time || !raw.daily?.time) {
+      throw new Error('Open-Meteo returned an unexpected forecast shape');
+    }
+    return mapForecast(raw, query.units);
+  }
+}
+
+// ============================================
+// LOCAL PROVIDER
+// ============================================
+
+// Serves the same forecast for every location - for tests and offline dev
+export class LocalWeatherProvider implements WeatherProvider {
+  readonly name = 'local';
+
+  constructor(private forecast: RawForecast = bundledFixture) {}
+
+  async getForecast(query: WeatherQuery): Promise<WeatherData> {
+    return mapForecast(this.forecast, query.units);
+  }
+}
+
+// ============================================
+// SINGLETON
+// ============================================
+
+// Null until initWeatherProvider - sessions without weather data go without
+let provider: WeatherProvider | null = null;
+
+export function createWeatherProvider(config: WeatherProviderConfig): WeatherProvider {
+  if (config.provider === 'local') {
+    if (!config.fixturesPath) return new LocalWeatherProvider();
+    const forecast: RawForecast = JSON.parse(fs.readFileSync(config.fixturesPath, 'utf8'));
+    console.log(`[Weather] Loaded local forecast from ${config.fixturesPath}`);
+    return new LocalWeatherProvider(forecast);
+  }
+  return new OpenMeteoProvider();
+}
+
+export function initWeatherProvider(instance: WeatherProvider | null) {
+  provider = instance;
+  console.log(`[Weather] ${instance ? `Using ${instance.name} provider` : 'Weather lookups disabled'}`);
+}
+
+export function getWeatherProvider(): WeatherProvider | null {
+  return provider;
+}
@@ -0,0 +1,323 @@
+/**
+ * Request Body Schemas
+ *
+ * One schema per request body the server accepts (REST routes and the
+ * WebSocket `start` message). Enums come from the same constants the
+ * services use, so adding a persona, segment type or news theme
+ * automatically updates validation.
+ */
+
+import { PERSONAS } from '../config/personas';
+import { segmentTypeSchema } from '../services/segmentRegistry';
+import { segmentConditionSchema } from '../services/segmentConditions';
+import { NEWS_THEMES } from '../services/grokNews';
+import { LANGUAGE_CODES } from '../config/languages';
+import { FITNESS_LEVELS } from '../config/stretchRoutines';
+import { BREATHING_PATTERN_IDS } from '../config/breathingPatterns';
+import { MUSIC_PROVIDER_NAMES } from '../services/musicProvider';
+import { AMBIENT_SCENES } from '../services/ambientMixer';
+import { Schema, ObjectSchema } from './schema';
+
+// ============================================
+// SHARED PIECES
+// ============================================
+
+const personaId: Schema = {
+  type: 'string',
+  enum: Object.keys(PERSONAS),
+  description: 'Persona id (see GET /api/personas)',
+};
+
+const voiceId: Schema = {
+  type: 'string',
+  minLength: 1,
+  maxLength: 50,
+  description: 'OpenAI voice name or legacy voice id (see GET /api/voices)',
+};
+
+const shortText: Schema = { type: 'string', maxLength: 2000 };
+
+// Where the user is and how times/temperatures are said (see userLocale)
+const userLocale: Record<string, Schema> = {
+  timeZone: { type: 'string', maxLength: 100, format: 'time-zone', description: 'IANA time zone, e.g. Europe/London (default: the server\'s)' },
+  locale: { type: 'string', maxLength: 35, format: 'locale', description: 'BCP 47 locale, e.g. en-GB (default en-US)' },
+  units: { type: 'string', enum: ['metric', 'imperial'], description: 'Temperature/wind units (default: from the locale\'s region)' },
+  language: { type: 'string', enum: LANGUAGE_CODES, description: 'Language the session is spoken in (default: from the locale, else en)' },
+};
+
+// The user's own calendar, imported for today (see calendarImport)
+const calendarSource: Record<string, Schema> = {
+  calendarIcs: { type: 'string', minLength: 1, maxLength: 5_000_000, description: 'Contents of an uploaded .ics file' },
+  calendarUrl: {
+    type: 'string',
+    maxLength: 2000,
+    pattern: '^(https|webcal)://',
+    description: 'ICS feed URL (https:// or webcal://) - fetched when calendarIcs is not sent',
+  },
+};
+
+// Base64-encoded audio recorded by the client
+const audioBody: ObjectSchema = {
+  type: 'object',
+  properties: {
+    audio: { type: 'string', minLength: 1, pattern: '^[A-Za-z0-9+/=\\s]+$', description: 'Base64-encoded audio' },
+  },
+  required: ['audio'],
+};
+
+// Persona content preferences (chained + realtime)
+const preferences: Schema = {
+  type: 'object',
+  properties: {
+    includeNews: { type: 'boolean' },
+    includeWeather: { type: 'boolean' },
+    includeCalendar: { type: 'boolean' },
+    includeStories: { type: 'boolean' },
+  },
+};
+
+// Free-text context (chained, gpt-driven + realtime). An imported
+// calendar replaces the free-text one.
+const textContext: Schema = {
+  type: 'object',
+  properties: {
+    weather: shortText,
+    calendar: shortText,
+    news: shortText,
+    ...calendarSource,
+  },
+};
+
+// ============================================
+// TRACK API
+// ============================================
+
+const weather: Schema = {
+  type: 'object',
+  properties: {
+    currentTemp: { type: 'number' },
+    feelsLike: { type: 'number' },
+    conditions: { type: 'string', maxLength: 200 },
+    windDirection: { type: 'string', maxLength: 50 },
+    windStrength: { type: 'string', maxLength: 50 },
+    precipChance: { type: 'number', minimum: 0, maximum: 100 },
+    precipTiming: { type: 'string', maxLength: 200, nullable: true },
+    highTemp: { type: 'number' },
+    eveningTemp: { type: 'number' },
+    uvIndex: { type: 'number', minimum: 0 },
+    airQuality: { type: 'string', maxLength: 200, nullable: true },
+    nightSummary: { type: 'string', maxLength: 500, nullable: true },
+  },
+  required: ['currentTemp', 'conditions'],
+};
+
+const location: Schema = {
+  type: 'object',
+  properties: {
+    latitude: { type: 'number', minimum: -90, maximum: 90 },
+    longitude: { type: 'number', minimum: -180, maximum: 180 },
+  },
+  required: ['latitude', 'longitude'],
+  description: 'Where the user is - the backend fetches the forecast when weather is not sent',
+};
+
+const calendarEvent: Schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: 200 },
+    time: { type: 'string', minLength: 1, maxLength: 50 },
+    startsAt: {
+      type: 'string',
+      pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})$',
+      description: 'ISO 8601 start with offset - lets the backend work out when they must be up',
+    },
+    location: { type: 'string', maxLength: 200 },
+  },
+  required: ['title', 'time'],
+};
+
+const segmentId: Schema = { type: 'string', pattern: '^[A-Za-z0-9_-]{1,50}$' };
+
+const segmentConfig: Schema = {
+  type: 'object',
+  properties: {
+    type: segmentTypeSchema,
+    id: { ...segmentId, description: 'Name for branches to jump to' },
+    when: { ...segmentConditionSchema, description: 'Only play this segment when the condition holds' },
+    branches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          when: segmentConditionSchema,
+          goTo: { ...segmentId, description: 'Id of a later segment, or a segment type (the next one ahead)' },
+        },
+        required: ['when', 'goTo'],
+      },
+      maxItems: 5,
+      description: 'Checked in order when the track moves past this segment; the first that holds jumps to goTo',
+    },
+    ambient: { type: 'boolean', description: 'Mix the ambient bed under this segment (default: greeting, weather, visualization, breathing, fact)' },
+    data: {
+      type: 'object',
+      properties: { theme: { type: 'string', maxLength: 200, description: 'Scene or angle for the segment, e.g. "cozy rain on the window"' } },
+      additionalProperties: false,
+    },
+  },
+  required: ['type'],
+  additionalProperties: false,
+};
+
+const newsItem: Schema = {
+  type: 'object',
+  properties: {
+    headline: { type: 'string', minLength: 1, maxLength: 500 },
+    summary: { type: 'string', maxLength: 2000 },
+    theme: { type: 'string', maxLength: 50 },
+  },
+  required: ['headline'],
+};
+
+export const createTrackSessionSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    personaId,
+    voiceId,
+    userName: { type: 'string', minLength: 1, maxLength: 50 },
+    segmentOrder: {
+      type: 'array',
+      items: segmentTypeSchema,
+      minItems: 1,
+      maxItems: 30,
+      description: 'Segment types in playback order (defaults to the standard track)',
+    },
+    segments: {
+      type: 'array',
+      items: segmentConfig,
+      minItems: 1,
+      maxItems: 30,
+      description: 'Segments with conditions and branches - used instead of segmentOrder when sent',
+    },
+    weather,
+    location,
+    ...userLocale,
+    calendar: { type: 'array', items: calendarEvent, maxItems: 20 },
+    ...calendarSource,
+    news: { type: 'array', items: newsItem, maxItems: 10 },
+    facts: {
+      type: 'array',
+      items: { type: 'string', maxLength: 500 },
+      maxItems: 50,
+      description: 'Facts to retell before any from the fact library',
+    },
+    newsThemes: {
+      type: 'array',
+      items: { type: 'string', enum: NEWS_THEMES.map(t => t.id) },
+      maxItems: NEWS_THEMES.length,
+    },
+    targetDurationSeconds: {
+      type: 'number',
+      minimum: 30,
+      maximum: 1800,
+      description: 'How long the track should last - segments are dropped and sized to fit (see plan in the response)',
+    },
+    fitnessLevel: { type: 'string', enum: FITNESS_LEVELS, description: 'Picks the stretching routine (default beginner)' },
+    breathingPattern: { type: 'string', enum: BREATHING_PATTERN_IDS, description: 'Breathing exercise (default depends on the persona)' },
+    prepMinutes: { type: 'number', minimum: 0, maximum: 240, description: 'Time needed to get ready before the first event (default 30)' },
+    commuteMinutes: { type: 'number', minimum: 0, maximum: 240, description: 'Travel time to the first event (default 0)' },
+    ambientScene: { type: 'string', enum: AMBIENT_SCENES, description: 'Turns on an ambient bed under the first segments, in this scene (audio is then WAV)' },
+    ambientSeconds: {
+      type: 'number',
+      minimum: 0,
+      maximum: 600,
+      description: 'Turns on an ambient bed for this long (default: off, or the persona\'s time with ambientScene). The scene follows the theme, weather or persona',
+    },
+    musicProvider: {
+      type: 'string',
+      enum: MUSIC_PROVIDER_NAMES,
+      description: 'What the music segment plays from (default: spotify when spotifyPlaylistId is sent, else local)',
+    },
+    spotifyPlaylistId: { type: 'string', maxLength: 200, description: 'Playlist id, spotify: URI or open.spotify.com link' },
+    spotifyPlaylistName: { type: 'string', maxLength: 100, description: 'How the persona introduces the playlist' },
+    localTrackId: { type: 'string', maxLength: 40, description: 'Bundled sound to play (default depends on the persona)' },
+  },
+};
+
+export const trackAudioSchema = audioBody;
+
+// ============================================
+// CHAINED + GPT-DRIVEN APIS
+// ============================================
+
+export const createChainedSessionSchema: ObjectSchema = {
+  type: 'object',
+  properties: { personaId, voiceId, preferences, context: textContext, ...userLocale },
+  required: ['personaId'],
+};
+
+export const createGptDrivenSessionSchema: ObjectSchema = {
+  type: 'object',
+  properties: { personaId, voiceId, context: textContext, ...userLocale },
+};
+
+export const respondAudioSchema = audioBody;
+
+// ============================================
+// DEVICE API
+// ============================================
+
+const deviceToken: Schema = {
+  type: 'string',
+  minLength: 1,
+  maxLength: 10000,
+  description: 'DeviceCheck token from the iOS client',
+};
+
+export const deviceStatusSchema: ObjectSchema = {
+  type: 'object',
+  properties: { device_token: deviceToken },
+  required: ['device_token'],
+};
+
+export const deviceUpdateSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    device_token: deviceToken,
+    increment_session: { type: 'boolean' },
+  },
+  required: ['device_token'],
+};
+
+// ============================================
+// AUTH API
+// ============================================
+
+export const issueTokenSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    installId: {
+      type: 'string',
+      pattern: '^[A-Za-z0-9_-]{8,128}$',
+      description: 'Stable per-install id generated by the app (e.g. a UUID)',
+    },
+    device_token: { ...deviceToken, description: 'DeviceCheck token (required when the server has DeviceCheck configured)' },
+  },
+  required: ['installId'],
+};
+
+// ============================================
+// WEBSOCKET MESSAGES
+// ============================================
+
+export const realtimeStartSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['start'] },
+    personaId,
+    voiceId,
+    preferences,
+    context: textContext,
+    ...userLocale,
+  },
+  required: ['personaId'],
+};
@@ -0,0 +1,173 @@
+/**
+ * Request Schemas
+ *
+ * A small JSON-Schema subset for describing request bodies. The same
+ * schema objects are used to validate incoming requests and (being plain
+ * JSON Schema) can be published as API documentation.
+ *
+ * Validation stops at the first problem and reports the field path
+ * (e.g. "segmentOrder[2]" or "weather.currentTemp") so clients get a
+ * precise 400 instead of a crash deep inside prompt building.
+ */
+
+// ============================================
+// SCHEMA TYPES
+// ============================================
+
+interface BaseSchema {
+  description?: string;
+  nullable?: boolean;
+}
+
+export interface StringSchema extends BaseSchema {
+  type: 'string';
+  enum?: readonly string[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'time-zone' | 'locale';  // IANA time zone / BCP 47 language tag, checked with Intl
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number' | 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean';
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: 'array';
+  items: Schema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: 'object';
+  properties: Record<string, Schema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;  // Extra properties are allowed unless false
+}
+
+export type Schema = StringSchema | NumberSchema | BooleanSchema | ArraySchema | ObjectSchema;
+
+export interface ValidationError {
+  field: string;
+  message: string;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+// Returns the first validation error, or null if the value matches
+export function validate(schema: Schema, value: unknown, field: string = ''): ValidationError | null {
+  const label = field || 'body';
+  if (value === null && schema.nullable) return null;
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return { field: label, message: `${label} must be a string` };
+      if (schema.enum && !schema.enum.includes(value)) {
+        return { field: label, message: `${label} must be one of: ${schema.enum.join(', ')}` };
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return { field: label, message: `${label} must be at least ${schema.minLength} characters` };
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return { field: label, message: `${label} must be at most ${schema.maxLength} characters` };
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return { field: label, message: `${label} has an invalid format` };
+      }
+      if (schema.format && !matchesFormat(schema.format, value)) {
+        return { field: label, message: `${label} must be a valid ${schema.format === 'time-zone' ? 'IANA time zone' : 'locale'}` };
+      }
+      return null;
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { field: label, message: `${label} must be a number` };
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return { field: label, message: `${label} must be an integer` };
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return { field: label, message: `${label} must be at least ${schema.minimum}` };
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return { field: label, message: `${label} must be at most ${schema.maximum}` };
+      }
+      return null;
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : { field: label, message: `${label} must be a boolean` };
+
+    case 'array': {
+      if (!Array.isArray(value)) return { field: label, message: `${label} must be an array` };
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return { field: label, message: `${label} must have at least ${schema.minItems} item(s)` };
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return { field: label, message: `${label} must have at most ${schema.maxItems} items` };
+      }
+      for (let i = 0; i < value.length; i++) {
+        const error = validate(schema.items, value[i], `${field}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { field: label, message: `${label} must be an object` };
+      }
+      const record = value as Record<string, unknown>;
+
+      for (const key of schema.required || []) {
+        const missing = record[key] === undefined || (record[key] === null && !schema.properties[key]?.nullable);
+        if (missing) {
+          const path = field ? `${field}.${key}` : key;
+          return { field: path, message: `${path} is required` };
+        }
+      }
+
+      for (const [key, propValue] of Object.entries(record)) {
+        const path = field ? `${field}.${key}` : key;
+        const propSchema = schema.properties[key];
+        if (!propSchema) {
+          if (schema.additionalProperties === false) {
+            return { field: path, message: `${path} is not allowed` };
+          }
+          continue;
+        }
+        // Optional properties may be omitted, but only nullable ones may be
+        // null (handlers' destructuring defaults don't apply to null)
+        if (propValue === undefined) continue;
+        const error = validate(propSchema, propValue, path);
+        if (error) return error;
+      }
+      return null;
+    }
+  }
+}
+
+// Intl throws a RangeError for unknown time zones and malformed locales
+function matchesFormat(format: 'time-zone' | 'locale', value: string): boolean {
+  try {
+    if (format === 'time-zone') {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+    } else {
+      Intl.getCanonicalLocales(value);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Ambient bed - WAV handling, mixing under speech, and the bed under the
+ * first segments of a track (when asked for) for as long as the persona
+ * allows
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  encodeWav,
+  mixUnderSpeech,
+  parseWav,
+  sceneForText,
+  sceneForWeather,
+  synthesizeBed,
+} from '../src/services/ambientMixer';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const silence = (seconds: number, sampleRate = 8000) =>
+  encodeWav({ sampleRate, channels: 1, samples: new Int16Array(seconds * sampleRate) });
+
+const loudFrames = (audio: Buffer) => parseWav(audio)!.samples.filter(sample => sample !== 0).length;
+
+// How loud the first and last 80 samples are, next to the whole clip
+function edges(audio: Buffer): { start: number; end: number } {
+  const { samples } = parseWav(audio)!;
+  const level = (part: Int16Array) => part.reduce((sum, sample) => sum + Math.abs(sample), 0) / part.length;
+  const overall = level(samples);
+  return { start: level(samples.slice(0, 80)) / overall, end: level(samples.slice(-80)) / overall };
+}
+
+describe('mixing', () => {
+  test('reads back the WAV it writes, including streamed WAVs without a size', () => {
+    const wav = encodeWav({ sampleRate: 24000, channels: 1, samples: Int16Array.from([0, 1000, -1000]) });
+    assert.deepEqual(parseWav(wav), { sampleRate: 24000, channels: 1, samples: Int16Array.from([0, 1000, -1000]) });
+
+    wav.writeUInt32LE(0xFFFFFFFF, 40);
+    assert.equal(parseWav(wav)?.samples.length, 3);
+    assert.equal(parseWav(Buffer.from('ID3 not a wav')), null);
+  });
+
+  test('mixes the bed under the whole clip, fading in and out', () => {
+    const bed = synthesizeBed('ocean');
+    const { audio, seconds } = mixUnderSpeech(silence(2), bed, { offsetSeconds: 0, maxSeconds: 60 });
+    const { samples } = parseWav(audio)!;
+
+    assert.equal(seconds, 2);
+    assert.equal(samples.length, 16000);
+    assert.ok(Math.abs(samples[0]) < 50);
+    assert.ok(Math.abs(samples[15999]) < 50);
+    assert.ok(loudFrames(audio) > 15000);
+  });
+
+  test('skips the fades inside a segment', () => {
+    const { audio } = mixUnderSpeech(silence(2), synthesizeBed('ocean'), {
+      offsetSeconds: 0,
+      maxSeconds: 60,
+      fadeIn: false,
+      fadeOut: false,
+    });
+    const { start, end } = edges(audio);
+    assert.ok(start > 0.3 && end > 0.3, `${start} ${end}`);
+  });
+
+  test('stops where the bed time runs out', () => {
+    const { audio, seconds } = mixUnderSpeech(silence(2), synthesizeBed('rain'), { offsetSeconds: 3, maxSeconds: 0.5, fadeOut: false });
+    assert.equal(seconds, 0.5);
+    const { samples } = parseWav(audio)!;
+    assert.deepEqual(samples.slice(4000).filter(sample => sample !== 0), new Int16Array(0));
+    // Fades out there even mid-segment
+    assert.ok(Math.abs(samples[3999]) < 50);
+  });
+
+  test('leaves audio it can\'t mix alone', () => {
+    const mp3 = Buffer.from('ID3 pretend mp3');
+    assert.deepEqual(mixUnderSpeech(mp3, synthesizeBed('forest'), { offsetSeconds: 0, maxSeconds: 10 }), { audio: mp3, seconds: 0 });
+  });
+
+  test('synthesizes the same normalized loop every time', () => {
+    const bed = synthesizeBed('forest', 8000);
+    assert.deepEqual(bed.samples, synthesizeBed('forest', 8000).samples);
+    assert.equal(Math.max(...bed.samples.map(Math.abs)), 1);
+  });
+
+  test('picks scenes from themes and weather', () => {
+    assert.equal(sceneForText('waves rolling onto a quiet beach'), 'ocean');
+    assert.equal(sceneForText('a cabin in the woods'), 'forest');
+    assert.equal(sceneForText('a mountain summit'), null);
+    assert.equal(sceneForWeather('Light drizzle'), 'rain');
+    assert.equal(sceneForWeather('Clear sky'), null);
+  });
+});
+
+describe('ambient bed in a track', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [
+          { match: 'Generate the GREETING segment', response: 'Good morning, take your time to wake up slowly today.' },
+          { match: 'Generate the VISUALIZATION segment[\\s\\S]*## Background Sound\\n(\\w+)', response: 'Picture the $1. Hear it all around you.' },
+          { match: 'Generate the FACT segment', response: 'Octopuses have three hearts.' },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function createTrack(body: object): Promise<{ sessionId: string; greeting: Buffer }> {
+    const created = await server.request('POST', '/api/track/session', body);
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+    const start = await server.request('POST', `/api/track/session/${sessionId}/start`);
+    return { sessionId, greeting: Buffer.from(start.body.audio, 'base64') };
+  }
+
+  const next = async (sessionId: string) =>
+    Buffer.from((await server.request('POST', `/api/track/session/${sessionId}/next`)).body.audio, 'base64');
+
+  test('is off unless the session asks for it', async () => {
+    const { sessionId, greeting } = await createTrack({ personaId: 'zen-guide', segmentOrder: ['greeting', 'fact', 'music'] });
+    assert.equal(loudFrames(greeting), 0);
+    assert.equal(loudFrames(await next(sessionId)), 0);
+  });
+
+  test('plays under the first segments for the persona\'s ambient time', async () => {
+    // 10 words of greeting = 3s of audio; the Sergeant's bed lasts 15s
+    const { sessionId, greeting } = await createTrack({
+      personaId: 'strict-sergeant',
+      ambientScene: 'rain',
+      segmentOrder: ['greeting', 'fact', 'music'],
+    });
+    assert.ok(loudFrames(greeting) > 20000);
+
+    await next(sessionId);
+    const state = await server.request('GET', `/api/track/session/${sessionId}`);
+    assert.equal(Math.round(state.body.state.ambientSecondsPlayed * 10) / 10, 3 + 1.2);
+  });
+
+  test('stops once the bed time is used up', async () => {
+    const { sessionId, greeting } = await createTrack({ ambientSeconds: 1, segmentOrder: ['greeting', 'fact', 'music'] });
+    assert.equal(loudFrames(greeting) > 7000, true);
+    assert.equal(loudFrames(greeting) <= 8000, true);
+    assert.equal(loudFrames(await next(sessionId)), 0);
+  });
+
+  test('only plays under ambient segments unless a segment asks for it', async () => {
+    const { sessionId, greeting } = await createTrack({
+      segments: [{ type: 'greeting', ambient: false }, { type: 'fact' }, { type: 'music', ambient: true }],
+      ambientScene: 'forest',
+    });
+    assert.equal(loudFrames(greeting), 0);
+    assert.ok(loudFrames(await next(sessionId)) > 0);
+  });
+
+  test('sets the visualization where the bed is, and runs on across chunks', async () => {
+    const { sessionId } = await createTrack({ ambientScene: 'ocean', segmentOrder: ['greeting', 'visualization', 'music'] });
+    // Talking discards the pre-generated visualization, so it's streamed instead
+    await server.request('POST', `/api/track/session/${sessionId}/audio`, { audio: Buffer.from('hello there').toString('base64') });
+    const response = await fetch(`${server.baseUrl}/api/track/session/${sessionId}/next/stream`, { method: 'POST' });
+    const chunks = (await response.text()).split('\n\n')
+      .filter(event => event.startsWith('event: chunk'))
+      .map(event => JSON.parse(event.split('\ndata: ')[1]));
+
+    assert.deepEqual(chunks.map(chunk => chunk.text), ['Picture the ocean.', 'Hear it all around you.']);
+    // Fading in at the start of the segment and out at its end only
+    const [first, second] = chunks.map(chunk => edges(Buffer.from(chunk.audio, 'base64')));
+    assert.ok(first.start < 0.1 && first.end > 0.3, `first chunk ${JSON.stringify(first)}`);
+    assert.ok(second.start > 0.3 && second.end < 0.1, `second chunk ${JSON.stringify(second)}`);
+
+    // Greeting (3s), then both chunks (0.9s and 1.5s) off the same bed
+    const state = await server.request('GET', `/api/track/session/${sessionId}`);
+    assert.equal(Math.round(state.body.state.ambientSecondsPlayed * 10) / 10, 3 + 0.9 + 1.5);
+  });
+});
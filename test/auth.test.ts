@@ -0,0 +1,167 @@
+/**
+ * Auth - credentials on session routes, app token issuance and
+ * session ownership
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { claimInstall, initAuth, issueAppToken } from '../src/services/appAuth';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const DEV_KEY = 'test-dev-key';
+
+describe('auth', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ auth: { tokenSecret: 'test-secret', devApiKey: DEV_KEY } });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function tokenFor(installId: string): Promise<Record<string, string>> {
+    const issued = await server.request('POST', '/api/auth/token', { installId });
+    assert.equal(issued.status, 200);
+    assert.ok(Date.parse(issued.body.expiresAt) > Date.now());
+    return { Authorization: `Bearer ${issued.body.token}` };
+  }
+
+  test('rejects session routes without valid credentials', async () => {
+    const anonymous = await server.request('POST', '/api/track/session', {});
+    assert.equal(anonymous.status, 401);
+    assert.equal(anonymous.body.error.code, 'unauthorized');
+
+    const badKey = await server.request('POST', '/api/chained/session', { personaId: 'zen-guide' }, { 'X-API-Key': 'nope' });
+    assert.equal(badKey.status, 401);
+
+    const badToken = await server.request('POST', '/api/gpt-driven/session', {}, { Authorization: 'Bearer not-a-jwt' });
+    assert.equal(badToken.status, 401);
+
+    // Public routes stay open
+    assert.equal((await server.request('GET', '/api/personas')).status, 200);
+    assert.equal((await server.request('GET', '/api/openapi.json')).status, 200);
+  });
+
+  test('keeps session stats behind credentials', async () => {
+    assert.equal((await server.request('GET', '/api/sessions/stats')).status, 401);
+    const stats = await server.request('GET', '/api/sessions/stats', undefined, { 'X-API-Key': DEV_KEY });
+    assert.equal(stats.status, 200);
+    assert.ok(stats.body.registries.some((r: { name: string }) => r.name === 'track'));
+  });
+
+  test('accepts the dev API key and issued app tokens', async () => {
+    const dev = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting'] }, { 'X-API-Key': DEV_KEY });
+    assert.equal(dev.status, 200);
+
+    const app = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting'] }, await tokenFor('install-aaaa-1111'));
+    assert.equal(app.status, 200);
+
+    const invalidInstall = await server.request('POST', '/api/auth/token', { installId: 'x' });
+    assert.equal(invalidInstall.status, 400);
+  });
+
+  test('only issues another token for an install to the client holding one', async () => {
+    const first = await tokenFor('install-bound-0001');
+
+    // A second device claiming the same install id
+    const claimed = await server.request('POST', '/api/auth/token', { installId: 'install-bound-0001' });
+    assert.equal(claimed.status, 403);
+    assert.equal(claimed.body.error.field, 'installId');
+    const otherToken = await tokenFor('install-other-0001');
+    const withOther = await server.request('POST', '/api/auth/token', { installId: 'install-bound-0001' }, otherToken);
+    assert.equal(withOther.status, 403);
+
+    const renewed = await server.request('POST', '/api/auth/token', { installId: 'install-bound-0001' }, first);
+    assert.equal(renewed.status, 200);
+  });
+
+  test('only the creating client can drive or delete a session', async () => {
+    const alice = await tokenFor('install-alice-0001');
+    const bob = await tokenFor('install-bob-00002');
+
+    const track = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'music'] }, alice);
+    const trackId = track.body.sessionId;
+
+    for (const [method, path] of [
+      ['POST', `/api/track/session/${trackId}/start`],
+      ['POST', `/api/track/session/${trackId}/next`],
+      ['GET', `/api/track/session/${trackId}`],
+      ['DELETE', `/api/track/session/${trackId}`],
+    ]) {
+      const response = await server.request(method, path, undefined, bob);
+      assert.equal(response.status, 403, `${method} ${path}`);
+      assert.equal(response.body.error.code, 'forbidden');
+    }
+    // The dev key is a different client too
+    assert.equal((await server.request('POST', `/api/track/session/${trackId}/awake`, undefined, { 'X-API-Key': DEV_KEY })).status, 403);
+
+    assert.equal((await server.request('POST', `/api/track/session/${trackId}/start`, undefined, alice)).status, 200);
+    assert.deepEqual((await server.request('DELETE', `/api/track/session/${trackId}`, undefined, alice)).body, { deleted: true });
+
+    const chained = await server.request('POST', '/api/chained/session', { personaId: 'zen-guide' }, alice);
+    const chainedId = chained.body.sessionId;
+    assert.equal((await server.request('POST', `/api/chained/session/${chainedId}/greeting`, undefined, bob)).status, 403);
+    assert.equal((await server.request('DELETE', `/api/chained/session/${chainedId}`, undefined, bob)).status, 403);
+    assert.equal((await server.request('GET', `/api/chained/session/${chainedId}/state`, undefined, alice)).status, 200);
+
+    const gpt = await server.request('POST', '/api/gpt-driven/session', {}, bob);
+    const gptId = gpt.body.sessionId;
+    assert.equal((await server.request('POST', `/api/gpt-driven/session/${gptId}/silence`, undefined, alice)).status, 403);
+    assert.deepEqual((await server.request('DELETE', `/api/gpt-driven/session/${gptId}`, undefined, bob)).body, { success: true });
+  });
+
+  test('does not send CORS headers to other origins', async () => {
+    const response = await fetch(`${server.baseUrl}/api/personas`, { headers: { Origin: 'https://evil.example' } });
+    assert.equal(response.headers.get('access-control-allow-origin'), null);
+  });
+});
+
+describe('auth in production', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ auth: { tokenSecret: 'test-secret', requireDeviceCheck: true } });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('refuses to issue tokens without DeviceCheck', async () => {
+    const issued = await server.request('POST', '/api/auth/token', { installId: 'install-aaaa-1111' });
+    assert.equal(issued.status, 503);
+    assert.equal(issued.body.error.code, 'not_configured');
+  });
+});
+
+describe('install bindings', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wub-auth-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('survive a restart when kept on disk', async () => {
+    const bindingsPath = path.join(directory, 'bindings.json');
+    initAuth({ tokenSecret: 'test-secret', bindingsPath });
+    assert.equal(claimInstall('install-kept-0001'), true);
+    const { token } = issueAppToken('install-kept-0001');
+    for (let i = 0; i < 50 && !fs.existsSync(bindingsPath); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    initAuth({ tokenSecret: 'test-secret', bindingsPath });
+    assert.equal(claimInstall('install-kept-0001'), false);
+    assert.equal(claimInstall('install-kept-0001', `Bearer ${token}`), true);
+    assert.ok(!fs.readFileSync(bindingsPath, 'utf8').includes('install-kept'));
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Breathing - patterns picked by persona or by id, and the segment
+ * delivered as cues scheduled from the end of its intro
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { BREATHING_PATTERNS, breathingSchedule, describePattern, patternSeconds, selectPattern } from '../src/config/breathingPatterns';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+describe('patterns', () => {
+  test('defaults by persona, or takes the requested pattern', () => {
+    assert.equal(selectPattern('zen-guide').id, 'box');
+    assert.equal(selectPattern('strict-sergeant').id, 'energizing');
+    assert.equal(selectPattern('morning-coach', '4-7-8').id, '4-7-8');
+  });
+
+  test('schedules every phase back to back, then closes', () => {
+    const pattern = BREATHING_PATTERNS['4-7-8'];
+    const schedule = breathingSchedule(pattern);
+    assert.equal(schedule.length, 4 * 3 + 1);
+    assert.deepEqual(schedule.slice(0, 4), [
+      { phase: 'inhale', startsAtSeconds: 0, durationSeconds: 4 },
+      { phase: 'hold', startsAtSeconds: 4, durationSeconds: 7 },
+      { phase: 'exhale', startsAtSeconds: 11, durationSeconds: 8 },
+      { phase: 'inhale', startsAtSeconds: 19, durationSeconds: 4 },
+    ]);
+    assert.deepEqual(schedule[12], { phase: 'done', startsAtSeconds: 76, durationSeconds: 0 });
+    assert.equal(patternSeconds(pattern), 76);
+  });
+
+  test('describes the pattern for the prompt', () => {
+    assert.equal(describePattern(BREATHING_PATTERNS.box), 'Box breathing: in 4, hold 4, out 4, hold 4 - 4 rounds, about 60 seconds');
+  });
+});
+
+describe('breathing segment', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [{ match: 'Generate the BREATHING segment intro[\\s\\S]*## Breathing Exercise\\n([^:]+):', response: 'Let us do some $1.' }],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function createTrack(body: object): Promise<string> {
+    const created = await server.request('POST', '/api/track/session', body);
+    assert.equal(created.status, 200);
+    await server.request('POST', `/api/track/session/${created.body.sessionId}/start`);
+    return created.body.sessionId;
+  }
+
+  test('returns the intro, then the cues with their start times', async () => {
+    const sessionId = await createTrack({ breathingPattern: '4-7-8', segmentOrder: ['greeting', 'breathing', 'music'] });
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.status, 200);
+    assert.equal(next.body.text, 'Let us do some 4-7-8 breathing.');
+
+    const { cues } = next.body;
+    assert.equal(cues.length, 13);
+    assert.deepEqual(
+      { index: cues[2].index, text: cues[2].text, phase: cues[2].phase, startsAtSeconds: cues[2].startsAtSeconds, durationSeconds: cues[2].durationSeconds },
+      { index: 2, text: 'Breathe out', phase: 'exhale', startsAtSeconds: 11, durationSeconds: 8 }
+    );
+    assert.equal(cues[12].text, 'And breathe normally.');
+    assert.ok(cues.every((cue: { audio: string }) => cue.audio));
+    assert.equal(next.body.clips, undefined);
+  });
+
+  test('speaks the cues in the session language', async () => {
+    const sessionId = await createTrack({ language: 'es', personaId: 'morning-coach', segmentOrder: ['greeting', 'breathing'] });
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.deepEqual(next.body.cues.slice(0, 2).map((cue: { text: string }) => cue.text), ['Inhala', 'Exhala']);
+  });
+
+  test('budgets the exercise in the plan', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      personaId: 'morning-coach',
+      segmentOrder: ['greeting', 'breathing'],
+    });
+    const [, breathing] = created.body.plan.segments;
+    assert.equal(breathing.estimatedSeconds, 12 + patternSeconds(BREATHING_PATTERNS.energizing));
+  });
+
+  test('rejects unknown patterns', async () => {
+    const created = await server.request('POST', '/api/track/session', { breathingPattern: 'panting' });
+    assert.equal(created.status, 400);
+    assert.equal(created.body.error.field, 'breathingPattern');
+  });
+
+  test('streams the cues with their timing', async () => {
+    const sessionId = await createTrack({ personaId: 'zen-guide', segmentOrder: ['greeting', 'breathing'] });
+    const response = await fetch(`${server.baseUrl}/api/track/session/${sessionId}/next/stream`, { method: 'POST' });
+    const chunks = (await response.text()).split('\n\n')
+      .filter(event => event.startsWith('event: chunk'))
+      .map(event => JSON.parse(event.split('\ndata: ')[1]));
+
+    assert.equal(chunks.length, 1 + 4 * 4 + 1);
+    assert.equal(chunks[0].text, 'Let us do some Box breathing.');
+    assert.deepEqual(
+      { index: chunks[4].index, phase: chunks[4].phase, startsAtSeconds: chunks[4].startsAtSeconds, durationSeconds: chunks[4].durationSeconds },
+      { index: 4, phase: 'hold', startsAtSeconds: 12, durationSeconds: 4 }
+    );
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Calendar import - parsing ICS, picking out today's events in the user's
+ * time zone, ranking them, and track sessions that send a calendar file
+ * or feed instead of a list of events
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import {
+  parseIcs,
+  eventsForDay,
+  occursOn,
+  describeCalendar,
+  fetchCalendarFeed,
+  isPublicAddress,
+  readLimited,
+} from '../src/services/calendarImport';
+import { resolveUserLocale } from '../src/services/userLocale';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+// Monday 19 October 2026, 07:00 in London
+const NOW = new Date('2026-10-19T06:00:00Z');
+const LONDON = resolveUserLocale({ timeZone: 'Europe/London', locale: 'en-GB' });
+
+const ics = (...events: string[]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Wake Up Better//Tests//EN',
+  ...events,
+  'END:VCALENDAR',
+].join('\r\n');
+
+const CALENDAR = ics(
+  // Every Monday and Wednesday
+  'BEGIN:VEVENT', 'UID:standup', 'SUMMARY:Team standup',
+  'DTSTART;TZID=Europe/London:20261005T093000', 'DTEND;TZID=Europe/London:20261005T094500',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO,WE', 'LOCATION:https://meet.google.com/abc-defg-hij', 'END:VEVENT',
+  // UTC, with a duration, an escaped comma and an alarm of its own
+  'BEGIN:VEVENT', 'UID:dentist', 'SUMMARY:Dentist', 'DTSTART:20261019T100000Z', 'DURATION:PT45M',
+  'LOCATION:12 High Street\\, London',
+  'BEGIN:VALARM', 'ACTION:EMAIL', 'SUMMARY:Reminder', 'TRIGGER:-PT1H', 'END:VALARM', 'END:VEVENT',
+  // 10:00 in New York is 15:00 in London; the title is folded
+  'BEGIN:VEVENT', 'UID:nyc', 'SUMMARY:Call with New', '  York office',
+  'DTSTART;TZID=America/New_York:20261019T100000', 'DTEND;TZID=America/New_York:20261019T110000', 'END:VEVENT',
+  // Weekly 1:1 moved from 14:00 to 16:00 this week
+  'BEGIN:VEVENT', 'UID:one-on-one', 'SUMMARY:1:1 with Sam',
+  'DTSTART;TZID=Europe/London:20261012T140000', 'DTEND;TZID=Europe/London:20261012T143000',
+  'RRULE:FREQ=WEEKLY', 'END:VEVENT',
+  'BEGIN:VEVENT', 'UID:one-on-one', 'SUMMARY:1:1 with Sam', 'RECURRENCE-ID;TZID=Europe/London:20261019T140000',
+  'DTSTART;TZID=Europe/London:20261019T160000', 'DTEND;TZID=Europe/London:20261019T163000', 'END:VEVENT',
+  // All-day, Saturday to Tuesday (DTEND is exclusive)
+  'BEGIN:VEVENT', 'UID:visit', 'SUMMARY:Aunt visiting',
+  'DTSTART;VALUE=DATE:20261017', 'DTEND;VALUE=DATE:20261021', 'END:VEVENT',
+  // Not today: already over, tomorrow, past its COUNT, deleted, cancelled
+  'BEGIN:VEVENT', 'UID:gym', 'SUMMARY:Early gym', 'DTSTART:20261019T050000Z', 'DTEND:20261019T055000Z', 'END:VEVENT',
+  'BEGIN:VEVENT', 'UID:tomorrow', 'SUMMARY:Tomorrow', 'DTSTART:20261020T090000Z', 'END:VEVENT',
+  'BEGIN:VEVENT', 'UID:vitamins', 'SUMMARY:Vitamins', 'DTSTART:20261015T120000Z', 'RRULE:FREQ=DAILY;COUNT=3', 'END:VEVENT',
+  'BEGIN:VEVENT', 'UID:piano', 'SUMMARY:Piano', 'DTSTART;TZID=Europe/London:20261005T180000',
+  'RRULE:FREQ=WEEKLY', 'EXDATE;TZID=Europe/London:20261019T180000', 'END:VEVENT',
+  'BEGIN:VEVENT', 'UID:lunch', 'SUMMARY:Lunch', 'DTSTART:20261019T120000Z', 'STATUS:CANCELLED', 'END:VEVENT',
+);
+
+describe('ICS parsing', () => {
+  test('reads events, skipping alarms and undoing folding and escapes', () => {
+    const events = parseIcs(CALENDAR);
+    assert.equal(events.length, 11);
+
+    const dentist = events.find(e => e.uid === 'dentist')!;
+    assert.equal(dentist.summary, 'Dentist');
+    assert.equal(dentist.location, '12 High Street, London');
+    assert.equal(dentist.durationSeconds, 2700);
+    assert.deepEqual(dentist.start, { date: '2026-10-19', time: '10:00:00', timeZone: 'UTC' });
+
+    assert.equal(events.find(e => e.uid === 'nyc')!.summary, 'Call with New York office');
+  });
+
+  test('rejects files that are not iCalendar', () => {
+    assert.throws(() => parseIcs('Standup at 9'), { name: 'CalendarImportError' });
+  });
+});
+
+describe('today\'s events', () => {
+  test('keeps what is left of the day, in the user\'s time zone', () => {
+    const events = eventsForDay(parseIcs(CALENDAR), LONDON, NOW);
+    assert.deepEqual(events.map(e => [e.title, e.time]), [
+      ['Aunt visiting', 'All day'],
+      ['Team standup', '9:30'],
+      ['Dentist', '11:00'],
+      ['Call with New York office', '15:00'],
+      ['1:1 with Sam', '16:00'],
+    ]);
+    assert.equal(events[3].durationMinutes, 60);
+    assert.equal(events[1].startsAt, '2026-10-19T08:30:00.000Z');
+  });
+
+  test('mentions the events that matter and counts the rest', () => {
+    const events = eventsForDay(parseIcs(CALENDAR), LONDON, NOW);
+    assert.equal(describeCalendar(events), [
+      '- Aunt visiting - all day',
+      '- Team standup at 9:30 (15 min, https://meet.google.com/abc-defg-hij) - first event of the day, video call',
+      '- Dentist at 11:00 (45 min, 12 High Street, London) - needs travel, then free for 3 hours',
+      'Plus 2 more events - don\'t list them.',
+    ].join('\n'));
+  });
+
+  test('flags an event that starts soon after the alarm', () => {
+    const events = eventsForDay(parseIcs(CALENDAR), LONDON, new Date('2026-10-19T09:00:00Z'));
+    assert.deepEqual(events.find(e => e.title === 'Dentist')!.highlights, ['first event of the day', 'starts soon', 'needs travel', 'then free for 3 hours']);
+  });
+
+  test('counts occurrences of rules that started decades ago', () => {
+    // Today is occurrence 20746 of the daily rule, 5927 of the weekly one
+    // and 682 of the monthly one - each with a COUNT that just reaches it
+    // and one that ends the day before
+    const repeating = (uid: string, start: string, rule: string) => [
+      'BEGIN:VEVENT', `UID:${uid}`, `SUMMARY:${uid}`, `DTSTART:${start}T120000Z`, `RRULE:${rule}`, 'END:VEVENT',
+    ];
+    const calendar = ics(
+      ...repeating('daily', '19700101', 'FREQ=DAILY;COUNT=20746'),
+      ...repeating('daily-ended', '19700101', 'FREQ=DAILY;COUNT=20745'),
+      ...repeating('weekly', '19700105', 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5927'),
+      ...repeating('weekly-ended', '19700105', 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5926'),
+      ...repeating('monthly', '19700119', 'FREQ=MONTHLY;BYDAY=3MO;COUNT=682'),
+      ...repeating('monthly-ended', '19700119', 'FREQ=MONTHLY;BYDAY=3MO;COUNT=681'),
+    );
+
+    const events = eventsForDay(parseIcs(calendar), LONDON, NOW);
+    assert.deepEqual(events.map(e => e.title).sort(), ['daily', 'monthly', 'weekly']);
+  });
+});
+
+describe('recurrence rules', () => {
+  // Every date from..to (inclusive) the rule lands on
+  const occurrences = (start: string, rule: string, from: string, to: string) => {
+    const [event] = parseIcs(ics('BEGIN:VEVENT', 'UID:rule', 'SUMMARY:Rule', `DTSTART;VALUE=DATE:${start}`, `RRULE:${rule}`, 'END:VEVENT'));
+    const dates: string[] = [];
+    for (let day = new Date(`${from}T00:00:00Z`); day <= new Date(`${to}T00:00:00Z`); day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = day.toISOString().slice(0, 10);
+      if (occursOn(event, date)) dates.push(date);
+    }
+    return dates;
+  };
+
+  test('expands yearly rules by month, weekday and day of the month', () => {
+    // Thanksgiving - the fourth Thursday of November
+    assert.deepEqual(occurrences('20241128', 'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', '2024-01-01', '2027-12-31'),
+      ['2024-11-28', '2025-11-27', '2026-11-26', '2027-11-25']);
+    assert.deepEqual(occurrences('20250301', 'FREQ=YEARLY;BYMONTH=3,9;BYMONTHDAY=1;COUNT=3', '2025-01-01', '2027-12-31'),
+      ['2025-03-01', '2025-09-01', '2026-03-01']);
+    assert.deepEqual(occurrences('20240229', 'FREQ=YEARLY', '2024-01-01', '2028-12-31'), ['2024-02-29', '2028-02-29']);
+  });
+
+  test('counts negative days of the month back from its end', () => {
+    assert.deepEqual(occurrences('20260131', 'FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-01', '2026-04-30'),
+      ['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    assert.deepEqual(occurrences('20260115', 'FREQ=MONTHLY;BYMONTHDAY=15,-1;COUNT=5', '2026-01-01', '2026-12-31'),
+      ['2026-01-15', '2026-01-31', '2026-02-15', '2026-02-28', '2026-03-15']);
+  });
+
+  test('only keeps the first occurrence of rules it cannot expand', () => {
+    // The last weekday of the month, and the 20th Monday of the year
+    assert.deepEqual(occurrences('20261030', 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2026-10-01', '2027-03-31'), ['2026-10-30']);
+    assert.deepEqual(occurrences('20260518', 'FREQ=YEARLY;BYDAY=20MO', '2026-01-01', '2028-12-31'), ['2026-05-18']);
+  });
+});
+
+// An Etc/GMT zone where it's currently 6 o'clock in the morning, so the
+// session tests below see their events as "later today"
+function morningZone(): { timeZone: string; today: string } {
+  const offset = ((6 - new Date().getUTCHours() + 36) % 24) - 12;
+  const timeZone = offset === 0 ? 'Etc/GMT' : `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+  const today = new Date(Date.now() + offset * 3600000).toISOString().slice(0, 10).replace(/-/g, '');
+  return { timeZone, today };
+}
+
+describe('feed safety', () => {
+  test('only treats public addresses as public', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'not an address']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+    assert.equal(isPublicAddress('8.8.8.8'), true);
+    assert.equal(isPublicAddress('2606:4700::1111'), true);
+  });
+
+  test('refuses loopback, private and link-local hosts, and plain http', async () => {
+    await assert.rejects(fetchCalendarFeed('https://127.0.0.1/calendar.ics'), /127\.0\.0\.1 is not a public address/);
+    await assert.rejects(fetchCalendarFeed('webcal://169.254.169.254/latest/meta-data'), /not a public address/);
+    await assert.rejects(fetchCalendarFeed('https://[::1]/calendar.ics'), /::1 is not a public address/);
+    await assert.rejects(fetchCalendarFeed('https://localhost/calendar.ics'), /localhost is not a public address/);
+    await assert.rejects(fetchCalendarFeed('http://calendar.example.com/calendar.ics'), /must use https/);
+  });
+
+  test('stops reading a feed once it passes the limit', async () => {
+    await assert.rejects(readLimited(Readable.from([Buffer.from('x')]), '5000001'), /too large/);
+
+    // No Content-Length: an endless body is cut off at the limit
+    let sent = 0;
+    const endless = new Readable({
+      read() {
+        sent += 1000;
+        this.push(Buffer.alloc(1000, 'x'));
+      },
+    });
+    await assert.rejects(readLimited(endless, undefined, 10_000), /too large/);
+    assert.ok(sent <= 12_000);
+    assert.ok(endless.destroyed);
+
+    assert.equal(await readLimited(Readable.from([Buffer.from('BEGIN:'), Buffer.from('VCALENDAR')]), '15'), 'BEGIN:VCALENDAR');
+  });
+});
+
+describe('track sessions with an imported calendar', () => {
+  let server: TestServer;
+  const feedUrl = 'https://calendar.example.com/calendar.ics';
+  const { timeZone, today } = morningZone();
+
+  // Floating times, read in the session's time zone
+  const sessionCalendar = ics(
+    'BEGIN:VEVENT', 'SUMMARY:Dentist', `DTSTART:${today}T090000`, `DTEND:${today}T093000`, 'LOCATION:Clinic', 'END:VEVENT',
+    'BEGIN:VEVENT', 'SUMMARY:Lunch with Ana', `DTSTART:${today}T123000`, `DTEND:${today}T133000`, 'END:VEVENT',
+  );
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [{ match: 'Generate the CALENDAR segment[\\s\\S]*## Today\'s Events\\n- (.+)', response: 'First up: $1.' }],
+      },
+      // Fake feed host (the real fetch only reaches public https hosts)
+      calendarFeeds: {
+        enabled: true,
+        fetchFeed: async url => {
+          if (url !== feedUrl) throw new Error(`Calendar feed error: 404`);
+          return sessionCalendar;
+        },
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function calendarSegment(body: Record<string, unknown>): Promise<string> {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'calendar'],
+      timeZone,
+      ...body,
+    });
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    return next.body.text;
+  }
+
+  test('reads an uploaded .ics file', async () => {
+    assert.equal(
+      await calendarSegment({ calendarIcs: sessionCalendar }),
+      'First up: Dentist at 9:00 AM (30 min, Clinic) - first event of the day, needs travel, then free for 3 hours.'
+    );
+  });
+
+  test('fetches an ICS feed', async () => {
+    assert.equal(
+      await calendarSegment({ calendarUrl: feedUrl }),
+      'First up: Dentist at 9:00 AM (30 min, Clinic) - first event of the day, needs travel, then free for 3 hours.'
+    );
+  });
+
+  test('rejects uploads that are not iCalendar', async () => {
+    const track = await server.request('POST', '/api/track/session', { calendarIcs: 'Dentist at 9' });
+    assert.equal(track.status, 400);
+    assert.equal(track.body.error.field, 'calendarIcs');
+
+    const chained = await server.request('POST', '/api/chained/session', {
+      personaId: 'zen-guide',
+      context: { calendarIcs: 'Dentist at 9' },
+    });
+    assert.equal(chained.status, 400);
+    assert.equal(chained.body.error.field, 'context.calendarIcs');
+  });
+
+  test('rejects feeds that are not https or webcal', async () => {
+    const track = await server.request('POST', '/api/track/session', { calendarUrl: 'http://calendar.example.com/calendar.ics' });
+    assert.equal(track.status, 400);
+    assert.equal(track.body.error.field, 'calendarUrl');
+  });
+});
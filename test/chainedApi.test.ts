@@ -0,0 +1,64 @@
+/**
+ * Chained API - end-to-end wake-up flow
+ *
+ * /api/chained/session → /greeting → /respond → /silence → DELETE
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, spokenAudio, TestServer } from './helpers/testServer';
+
+describe('chained api', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [{ match: 'want some coffee', response: 'Coffee is a great reason to get up.' }],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('runs a session from greeting to end', async () => {
+    const created = await server.request('POST', '/api/chained/session', { personaId: 'morning-coach' });
+    assert.equal(created.status, 200);
+    assert.deepEqual(created.body.persona, { id: 'morning-coach', name: 'Morning Coach' });
+    const { sessionId } = created.body;
+
+    const greeting = await server.request('POST', `/api/chained/session/${sessionId}/greeting`);
+    assert.equal(greeting.status, 200);
+    assert.equal(greeting.body.text, 'Good morning. Time to wake up.');
+    assert.ok(greeting.body.audio);
+
+    const reply = await server.request('POST', `/api/chained/session/${sessionId}/respond`, {
+      audio: spokenAudio('I really want some coffee right now'),
+    });
+    assert.equal(reply.body.transcript, 'I really want some coffee right now');
+    assert.equal(reply.body.response, 'Coffee is a great reason to get up.');
+    assert.equal(reply.body.brainState.responseCount, 1);
+    assert.equal(reply.body.brainState.phase, 'soft_chat');
+
+    const silence = await server.request('POST', `/api/chained/session/${sessionId}/silence`);
+    assert.ok(silence.body.response);
+    assert.equal(silence.body.brainState.silenceCount, 1);
+
+    const state = await server.request('GET', `/api/chained/session/${sessionId}/state`);
+    assert.equal(state.body.historyLength, 4);
+
+    const deleted = await server.request('DELETE', `/api/chained/session/${sessionId}`);
+    assert.deepEqual(deleted.body, { success: true });
+
+    const gone = await server.request('GET', `/api/chained/session/${sessionId}/state`);
+    assert.equal(gone.status, 404);
+  });
+
+  test('requires audio to respond', async () => {
+    const created = await server.request('POST', '/api/chained/session', { personaId: 'zen-guide' });
+    const missing = await server.request('POST', `/api/chained/session/${created.body.sessionId}/respond`, {});
+    assert.equal(missing.status, 400);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Fact history - per-user fact memory across sessions, the view/reset
+ * API and the file store
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FactRecord, FileFactHistoryStore } from '../src/services/factHistory';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+describe('fact history', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      auth: { tokenSecret: 'test-secret' },
+      fixtures: {
+        // Echo the most recent used topic so we can tell it reached the prompt
+        chat: [{ match: 'Facts Already Used[^\\n]*\\n- ([^\\n]+)', response: 'Not $1 again. Here is a new one. [sloth digestion]' }],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function tokenFor(installId: string): Promise<Record<string, string>> {
+    const issued = await server.request('POST', '/api/auth/token', { installId });
+    return { Authorization: `Bearer ${issued.body.token}` };
+  }
+
+  async function playFact(headers: Record<string, string>): Promise<string> {
+    const created = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'fact'] }, headers);
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`, undefined, headers);
+    const fact = await server.request('POST', `/api/track/session/${sessionId}/next`, undefined, headers);
+    assert.equal(fact.status, 200);
+    return fact.body.text;
+  }
+
+  test('remembers facts per user across sessions, and can be reset', async () => {
+    const alice = await tokenFor('install-alice-0001');
+    const bob = await tokenFor('install-bob-00002');
+
+    assert.match(await playFact(alice), /Octopuses have three hearts/);
+
+    const aliceHistory = await server.request('GET', '/api/track/facts', undefined, alice);
+    assert.deepEqual(aliceHistory.body.facts.map((f: FactRecord) => f.topic), ['octopus hearts']);
+    assert.ok(Date.parse(aliceHistory.body.facts[0].usedAt) > 0);
+
+    // Bob's history is his own
+    assert.deepEqual((await server.request('GET', '/api/track/facts', undefined, bob)).body.facts, []);
+    assert.match(await playFact(bob), /Octopuses have three hearts/);
+
+    // Alice's next session avoids what she already heard
+    assert.match(await playFact(alice), /Not octopus hearts again/);
+    const updated = await server.request('GET', '/api/track/facts', undefined, alice);
+    assert.deepEqual(updated.body.facts.map((f: FactRecord) => f.topic), ['sloth digestion', 'octopus hearts']);
+
+    assert.deepEqual((await server.request('DELETE', '/api/track/facts', undefined, alice)).body, { removed: 2 });
+    assert.deepEqual((await server.request('GET', '/api/track/facts', undefined, alice)).body.facts, []);
+    assert.equal((await server.request('GET', '/api/track/facts', undefined, bob)).body.facts.length, 1);
+  });
+});
+
+describe('file fact history store', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wub-facts-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('persists across instances and forgets topics past the retention window', async () => {
+    const store = new FileFactHistoryStore(directory, { retentionDays: 30 });
+    await Promise.all([
+      store.record('install:abc', 'Octopus Hearts'),
+      store.record('install:abc', 'honey never spoils'),
+    ]);
+
+    const reopened = new FileFactHistoryStore(directory, { retentionDays: 30 });
+    assert.deepEqual((await reopened.list('install:abc')).map(f => f.topic).sort(), ['honey never spoils', 'octopus hearts']);
+    assert.deepEqual(await reopened.list('install:other'), []);
+
+    // Rewrite one topic as used 60 days ago
+    const [file] = fs.readdirSync(directory).map(name => path.join(directory, name));
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    data.facts[0].usedAt = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString();
+    fs.writeFileSync(file, JSON.stringify(data));
+
+    assert.equal((await reopened.list('install:abc')).length, 1);
+    assert.equal(await reopened.reset('install:abc'), 1);
+    assert.deepEqual(fs.readdirSync(directory), []);
+  });
+});
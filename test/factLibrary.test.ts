@@ -0,0 +1,88 @@
+/**
+ * Fact library - corpus loading, selection of unheard facts and the
+ * fact segment retelling library facts before falling back to generation
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LibraryFact,
+  initFactLibrary,
+  getLibraryFacts,
+  parseFactCorpus,
+  selectFact,
+} from '../src/services/factLibrary';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+function fact(id: string, topic: string, text: string, verified = true): LibraryFact {
+  return { id, topic, category: 'test', text, source: { title: 'Test source' }, verified };
+}
+
+const LIBRARY = [
+  fact('honey', 'honey preservation', 'Honey found in ancient tombs was still edible.'),
+  fact('venus', 'venus day length', 'A day on Venus is longer than its year.'),
+  fact('rumor', 'unverified rumor', 'This one was never checked.', false),
+];
+
+describe('fact corpus', () => {
+  test('the bundled corpus is valid and only verified facts are used', () => {
+    initFactLibrary();
+    const facts = getLibraryFacts();
+    assert.ok(facts.length >= 20);
+    assert.ok(facts.every(f => f.verified && f.source.title && f.topic === f.topic.toLowerCase()));
+
+    initFactLibrary({ includeUnverified: true });
+    assert.ok(getLibraryFacts().length > facts.length);
+  });
+
+  test('rejects malformed corpora', () => {
+    assert.throws(() => parseFactCorpus({ version: 1, facts: [{ id: 'x', topic: 'x' }] }, 'test.json'), /corpus\.facts\[0\]/);
+    assert.throws(() => parseFactCorpus({ version: 1, facts: [LIBRARY[0], LIBRARY[0]] }, 'test.json'), /duplicate fact id "honey"/);
+  });
+
+  test('selects facts whose topic has not been heard', () => {
+    assert.equal(selectFact(LIBRARY, ['Honey Preservation', 'unverified rumor'])?.id, 'venus');
+    assert.equal(selectFact(LIBRARY, LIBRARY.map(f => f.topic)), null);
+  });
+});
+
+describe('fact segment', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ factLibrary: LIBRARY });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('retells custom and library facts before generating one', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'fact', 'fact', 'fact', 'fact'],
+      facts: ['Your cat sleeps sixteen hours a day.'],
+    });
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    const spoken: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+      assert.equal(next.status, 200);
+      assert.ok(!next.body.text.includes('['), 'topic tag is not spoken');
+      spoken.push(next.body.text);
+    }
+
+    // The app's own fact first, then the verified library facts in any order
+    assert.equal(spoken[0], 'Here is something fun. Your cat sleeps sixteen hours a day.');
+    assert.deepEqual(spoken.slice(1, 3).sort(), [
+      'Here is something fun. A day on Venus is longer than its year.',
+      'Here is something fun. Honey found in ancient tombs was still edible.',
+    ]);
+    // Library exhausted - generated
+    assert.equal(spoken[3], 'Here is something fun. Octopuses have three hearts.');
+
+    const state = await server.request('GET', `/api/track/session/${sessionId}`);
+    assert.deepEqual(state.body.state.usedFacts.slice(1).sort(), ['honey preservation', 'octopus hearts', 'venus day length']);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * GPT-driven API - end-to-end wake-up flow
+ *
+ * /api/gpt-driven/session → /greeting → /respond → /silence → DELETE
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, spokenAudio, TestServer } from './helpers/testServer';
+
+describe('gpt-driven api', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [{ match: 'User is silent', response: ['Still there?', 'Come on, sit up.'] }],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('runs a session from greeting to end', async () => {
+    const created = await server.request('POST', '/api/gpt-driven/session', { personaId: 'strict-sergeant' });
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+
+    const greeting = await server.request('POST', `/api/gpt-driven/session/${sessionId}/greeting`);
+    assert.equal(greeting.body.text, 'Good morning. Time to wake up.');
+    assert.ok(greeting.body.audio);
+
+    // Silence escalates through the scripted responses
+    const first = await server.request('POST', `/api/gpt-driven/session/${sessionId}/silence`);
+    const second = await server.request('POST', `/api/gpt-driven/session/${sessionId}/silence`);
+    assert.equal(first.body.text, 'Still there?');
+    assert.equal(second.body.text, 'Come on, sit up.');
+
+    let state = await server.request('GET', `/api/gpt-driven/session/${sessionId}/state`);
+    assert.equal(state.body.silenceCount, 2);
+
+    const reply = await server.request('POST', `/api/gpt-driven/session/${sessionId}/respond`, {
+      audio: spokenAudio('Okay okay I am getting up'),
+    });
+    assert.equal(reply.body.transcript, 'Okay okay I am getting up');
+    assert.ok(reply.body.text);
+
+    state = await server.request('GET', `/api/gpt-driven/session/${sessionId}/state`);
+    assert.deepEqual(state.body, { turnCount: 4, silenceCount: 0, historyLength: 5 });
+
+    const deleted = await server.request('DELETE', `/api/gpt-driven/session/${sessionId}`);
+    assert.deepEqual(deleted.body, { success: true });
+  });
+
+  test('404s unknown sessions', async () => {
+    const missing = await server.request('POST', '/api/gpt-driven/session/gpt_missing/greeting');
+    assert.equal(missing.status, 404);
+  });
+});
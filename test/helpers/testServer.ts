@@ -0,0 +1,105 @@
+/**
+ * Test server harness
+ *
+ * Boots the real Express app on a random port with OpenAI, Grok and the
+ * weather service replaced by local fakes, and gives tests a tiny JSON client.
+ */
+
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createApp } from '../../src/app';
+import { initTrackApi, TrackApiOptions } from '../../src/routes/trackApi';
+import { initLLMProvider, LocalProvider, LocalFixtures } from '../../src/services/llmProvider';
+import { NewsResult } from '../../src/services/grokNews';
+import { initAuth, AuthOptions } from '../../src/services/appAuth';
+import { initFactHistory, FactHistoryOptions } from '../../src/services/factHistory';
+import { initFactLibraryWith, LibraryFact } from '../../src/services/factLibrary';
+import { initSegmentRegistryWith, CustomSegmentDefinition } from '../../src/services/segmentRegistry';
+import { initRateLimiter, RateLimitOptions } from '../../src/services/rateLimiter';
+import { initUsageBudget, UsageBudgetOptions, MeteredProvider } from '../../src/services/usageBudget';
+import { initWeatherProvider, LocalWeatherProvider, WeatherProvider } from '../../src/services/weatherProvider';
+import { initMusicLibraryWith } from '../../src/services/musicProvider';
+import { initAmbientBeds } from '../../src/services/ambientMixer';
+import { CalendarFeedOptions, initCalendarFeeds } from '../../src/services/calendarImport';
+import { BUNDLED_TRACKS, LocalTrack } from '../../src/config/musicLibrary';
+
+// The app logs every step - keep test output readable unless asked
+if (!process.env.TEST_VERBOSE) {
+  console.log = () => undefined;
+  console.warn = () => undefined;
+}
+
+export interface TestServerOptions {
+  fixtures?: LocalFixtures;
+  track?: TrackApiOptions;
+  auth?: AuthOptions;  // Auth is off unless set
+  rateLimit?: RateLimitOptions;  // Unlimited unless set
+  budget?: UsageBudgetOptions;  // Unlimited unless set
+  factHistory?: FactHistoryOptions;  // Fresh in-memory store unless set
+  factLibrary?: LibraryFact[];  // Empty (facts are generated) unless set
+  segments?: CustomSegmentDefinition[];  // Only the built-in segment types unless set
+  weather?: WeatherProvider | null;  // Bundled local forecast unless set
+  musicLibrary?: LocalTrack[];  // Bundled tracks unless set
+  calendarFeeds?: CalendarFeedOptions;  // Off unless set
+}
+
+export interface TestServer {
+  baseUrl: string;
+  request<T = any>(
+    method: string,
+    path: string,
+    body?: unknown,
+    headers?: Record<string, string>
+  ): Promise<{ status: number; body: T }>;
+  close(): Promise<void>;
+}
+
+// Fake Grok: returns fixed headlines for whatever themes are asked for
+export async function fakeNews(themes: string[], count: number): Promise<NewsResult> {
+  return {
+    headlines: themes.slice(0, count).map(theme => ({ title: `Local ${theme} headline`, category: theme })),
+    fetchedAt: new Date(),
+    source: 'grok',
+  };
+}
+
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  initLLMProvider(new MeteredProvider(new LocalProvider(options.fixtures)));
+  initTrackApi({ fetchNews: fakeNews, ...options.track });
+  initAuth(options.auth);
+  initRateLimiter(options.rateLimit);
+  initUsageBudget(options.budget);
+  initFactHistory(options.factHistory);
+  initFactLibraryWith(options.factLibrary || []);
+  initSegmentRegistryWith(options.segments || []);
+  initWeatherProvider(options.weather === undefined ? new LocalWeatherProvider() : options.weather);
+  initMusicLibraryWith(options.musicLibrary || BUNDLED_TRACKS);
+  initAmbientBeds();
+  initCalendarFeeds(options.calendarFeeds || { enabled: false });
+
+  const server: Server = createApp().listen(0);
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    baseUrl,
+    async request(method, path, body, headers = {}) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      return { status: response.status, body: text ? JSON.parse(text) : undefined };
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+// Base64 "audio" the local provider transcribes back to this text
+export function spokenAudio(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64');
+}
@@ -0,0 +1,98 @@
+/**
+ * Session languages - lexicon matching for the keyword detectors,
+ * transcription settings, and sessions spoken in Spanish
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { saysAny, isExactly, normalizeSpeech } from '../src/config/languages';
+import { resolveUserLocale } from '../src/services/userLocale';
+import { transcribeAudio } from '../src/services/chainedSession';
+import { initLLMProvider, LocalProvider, TranscriptionRequest } from '../src/services/llmProvider';
+import { startTestServer, spokenAudio, TestServer } from './helpers/testServer';
+
+describe('lexicons', () => {
+  test('match whole phrases regardless of case, accents and punctuation', () => {
+    assert.equal(normalizeSpeech('¡Déjame dormir!'), 'dejame dormir');
+    assert.ok(saysAny('¡Déjame DORMIR, por favor!', 'es', lexicon => lexicon.sleepIntent));
+    assert.ok(saysAny('Noch fünf Minuten', 'de', lexicon => lexicon.sleepIntent));
+    assert.ok(saysAny("OK je suis réveillée", 'fr', lexicon => lexicon.awake));
+    assert.ok(!saysAny('Where is my stopwatch', 'en', lexicon => lexicon.sleepIntent));
+    assert.ok(isExactly('Gracias.', 'es', lexicon => lexicon.noiseTranscripts));
+    assert.ok(!isExactly('Gracias, ya me levanto', 'es', lexicon => lexicon.noiseTranscripts));
+  });
+
+  test('recognize English phrases in every language', () => {
+    assert.ok(saysAny('snooze', 'fr', lexicon => lexicon.sleepIntent));
+    assert.ok(!saysAny('dejame dormir', 'en', lexicon => lexicon.sleepIntent));
+  });
+
+  test('language and locale default from each other', () => {
+    assert.deepEqual(
+      { ...resolveUserLocale({ language: 'fr' }), timeZone: undefined },
+      { timeZone: undefined, locale: 'fr-FR', units: 'metric', language: 'fr' }
+    );
+    assert.equal(resolveUserLocale({ locale: 'es-MX' }).language, 'es');
+    assert.equal(resolveUserLocale({ locale: 'it-IT' }).language, 'en');
+  });
+});
+
+describe('transcription', () => {
+  test('asks for the session language and drops its hallucinations', async () => {
+    const requests: TranscriptionRequest[] = [];
+    const provider = new LocalProvider({ transcriptions: ['Buenos días', 'Gracias por ver el vídeo.'] });
+    const transcribe = provider.transcribe.bind(provider);
+    provider.transcribe = request => {
+      requests.push(request);
+      return transcribe(request);
+    };
+    initLLMProvider(provider);
+
+    assert.equal(await transcribeAudio(Buffer.from('audio'), 'es'), 'Buenos días');
+    assert.equal(await transcribeAudio(Buffer.from('audio'), 'es'), '');
+    assert.equal(requests[0].language, 'es');
+    assert.match(requests[0].prompt!, /alarma despertador/);
+  });
+});
+
+describe('spanish track session', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [
+          { match: 'trying to go back to sleep[\\s\\S]*Speak only (\\w+)', response: 'No way, up you get, in $1.' },
+          { match: 'Speak only (\\w+)', response: 'Spoken in $1.' },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('speaks the language and understands sleep requests in it', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'engagement'],
+      language: 'es',
+    });
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+
+    const start = await server.request('POST', `/api/track/session/${sessionId}/start`);
+    assert.equal(start.body.text, 'Spoken in Spanish.');
+
+    const reply = await server.request('POST', `/api/track/session/${sessionId}/audio`, {
+      audio: spokenAudio('Déjame dormir un rato más'),
+    });
+    assert.equal(reply.body.text, 'No way, up you get, in Spanish.');
+  });
+
+  test('rejects languages that are not supported', async () => {
+    const created = await server.request('POST', '/api/track/session', { language: 'it' });
+    assert.equal(created.status, 400);
+    assert.equal(created.body.error.field, 'language');
+  });
+});
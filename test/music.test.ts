@@ -0,0 +1,121 @@
+/**
+ * Music - playback instructions from the Spotify passthrough and the
+ * bundled library, returned with the music segment
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMusicLibrary, resolveMusic, toSpotifyUri } from '../src/services/musicProvider';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const PLAYLIST_ID = '37i9dQZF1DX0UrRvztWcAU';
+
+describe('providers', () => {
+  test('turns Spotify ids and links into URIs', () => {
+    assert.equal(toSpotifyUri(PLAYLIST_ID), `spotify:playlist:${PLAYLIST_ID}`);
+    assert.equal(toSpotifyUri(`spotify:album:${PLAYLIST_ID}`), `spotify:album:${PLAYLIST_ID}`);
+    assert.equal(toSpotifyUri(`https://open.spotify.com/playlist/${PLAYLIST_ID}?si=abc123`), `spotify:playlist:${PLAYLIST_ID}`);
+    assert.equal(toSpotifyUri('https://example.com/playlist'), null);
+  });
+
+  test('prefers the playlist, falling back to the persona\'s bundled sound', () => {
+    const spotify = resolveMusic({ personaId: 'zen-guide', spotifyPlaylistId: PLAYLIST_ID, spotifyPlaylistName: 'Slow Mornings' });
+    assert.deepEqual(spotify, {
+      provider: 'spotify',
+      uri: `spotify:playlist:${PLAYLIST_ID}`,
+      name: 'Slow Mornings',
+      startOffsetSeconds: 0,
+      fadeInSeconds: 10,
+      volumeRamp: { fromPercent: 10, toPercent: 50, durationSeconds: 60 },
+    });
+
+    const local = resolveMusic({ personaId: 'morning-coach' });
+    assert.equal(local?.provider, 'local');
+    assert.equal(local?.name, 'Upbeat Acoustic');
+    assert.equal(local?.startOffsetSeconds, 2);
+
+    const forced = resolveMusic({ personaId: 'strict-sergeant', musicProvider: 'local', spotifyPlaylistId: PLAYLIST_ID });
+    assert.equal(forced?.uri, 'sounds/drum-march.m4a');
+    assert.equal(forced?.fadeInSeconds, 0);
+  });
+
+  test('rejects references it can\'t play', () => {
+    assert.throws(() => resolveMusic({ personaId: 'zen-guide', spotifyPlaylistId: 'my playlist' }), /Spotify id, URI or open\.spotify\.com link/);
+    assert.throws(() => resolveMusic({ personaId: 'zen-guide', localTrackId: 'whale-song' }), /localTrackId must be one of: forest-morning/);
+    assert.throws(() => resolveMusic({ personaId: 'zen-guide', musicProvider: 'spotify' }), /spotifyPlaylistId is required/);
+  });
+
+  test('validates library files', () => {
+    const track = { id: 'rain', name: 'Rain', uri: 'sounds/rain.m4a', personas: ['zen-guide'] };
+    assert.deepEqual(parseMusicLibrary({ version: 1, tracks: [track] }, 'test.json'), [track]);
+    assert.throws(() => parseMusicLibrary({ version: 1, tracks: [track, track] }, 'test.json'), /rain is listed twice/);
+    assert.throws(
+      () => parseMusicLibrary({ version: 1, tracks: [{ ...track, personas: ['dj'] }] }, 'test.json'),
+      /library\.tracks\[0\]\.personas\[0\]/
+    );
+  });
+});
+
+describe('music segment', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      musicLibrary: [{ id: 'rain', name: 'Gentle Rain', uri: 'sounds/rain.m4a', personas: [] }],
+      fixtures: {
+        chat: [
+          { match: 'Generate the MUSIC handoff segment[\\s\\S]*## Music\\n(.+)', response: 'Here comes $1.' },
+          { match: 'Generate the MUSIC handoff segment', response: 'Here comes your music.' },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function createTrack(body: object): Promise<string> {
+    const created = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'music'], ...body });
+    assert.equal(created.status, 200);
+    await server.request('POST', `/api/track/session/${created.body.sessionId}/start`);
+    return created.body.sessionId;
+  }
+
+  test('introduces the playlist by name and returns how to play it', async () => {
+    const sessionId = await createTrack({
+      personaId: 'morning-coach',
+      spotifyPlaylistId: `https://open.spotify.com/playlist/${PLAYLIST_ID}`,
+      spotifyPlaylistName: 'Wake Up Happy',
+    });
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.status, 200);
+    assert.equal(next.body.text, 'Here comes Wake Up Happy (their Spotify playlist).');
+    assert.equal(next.body.music.uri, `spotify:playlist:${PLAYLIST_ID}`);
+    assert.deepEqual(next.body.music.volumeRamp, { fromPercent: 40, toPercent: 80, durationSeconds: 15 });
+  });
+
+  test('plays from the local library without a playlist', async () => {
+    const sessionId = await createTrack({ personaId: 'zen-guide' });
+    const response = await fetch(`${server.baseUrl}/api/track/session/${sessionId}/next/stream`, { method: 'POST' });
+    const done = (await response.text()).split('\n\n').find(event => event.startsWith('event: done'))!;
+    const { text, music } = JSON.parse(done.split('\ndata: ')[1]);
+
+    assert.equal(text, 'Here comes Gentle Rain.');
+    assert.equal(music.provider, 'local');
+    assert.equal(music.uri, 'sounds/rain.m4a');
+  });
+
+  test('sends music with the music segment only', async () => {
+    const sessionId = await createTrack({ segmentOrder: ['greeting', 'fact', 'music'] });
+    const fact = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(fact.body.music, undefined);
+  });
+
+  test('rejects a playlist it can\'t pass through', async () => {
+    const created = await server.request('POST', '/api/track/session', { spotifyPlaylistId: 'morning vibes' });
+    assert.equal(created.status, 400);
+    assert.equal(created.body.error.field, 'spotifyPlaylistId');
+  });
+});
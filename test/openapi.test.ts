@@ -0,0 +1,136 @@
+/**
+ * OpenAPI - the route table, the Express routers, the generated client
+ * and the real responses must all agree
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { createApp, MOUNTED_ROUTERS } from '../src/app';
+import { API_ROUTES, AUTHENTICATED_PREFIXES } from '../src/openapi/apiRoutes';
+import { generateClient, CLIENT_PATH } from '../src/openapi/generateClient';
+import { validate } from '../src/validation/schema';
+import { startTestServer, spokenAudio, TestServer } from './helpers/testServer';
+
+// The generated client is plain JS - its JSDoc types come through allowJs
+// (set for ts-node in tsconfig.json)
+const { createApiClient, ApiError }: typeof import('../public/api-client.js') = require('../public/api-client.js');
+
+type ApiClient = ReturnType<typeof createApiClient>;
+type OperationId = Exclude<keyof ApiClient, 'setAuth'>;
+
+// The part of an Express router read below. Express sets route.methods
+// but its typings leave it out, hence optional.
+interface RouterStack {
+  stack: { route?: { path: string; methods?: Record<string, boolean> } }[];
+}
+
+// "post /api/track/session/:id/next" for every route Express will serve
+function expressRoutes(): string[] {
+  const routes: string[] = [];
+  const collect = ({ stack }: RouterStack, prefix: string) => {
+    for (const layer of stack) {
+      if (!layer.route) continue;
+      for (const method of Object.keys(layer.route.methods || {})) {
+        routes.push(`${method} ${prefix}${layer.route.path}`);
+      }
+    }
+  };
+  collect(createApp().router, '');
+  for (const { prefix, router } of MOUNTED_ROUTERS) {
+    collect(router, prefix);
+  }
+  return routes.sort();
+}
+
+describe('openapi', () => {
+  let server: TestServer;
+  let api: ApiClient;
+
+  before(async () => {
+    server = await startTestServer();
+    api = createApiClient(server.baseUrl);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // Calls the route through the generated client and checks the response schema
+  async function call<K extends OperationId>(operationId: K, ...args: Parameters<ApiClient[K]>): Promise<Awaited<ReturnType<ApiClient[K]>>> {
+    const route = API_ROUTES.find(r => r.operationId === operationId)!;
+    const method = api[operationId] as (...args: Parameters<ApiClient[K]>) => ReturnType<ApiClient[K]>;
+    const body = await method(...args);
+    const error = validate(route.response, body);
+    assert.equal(error, null, `${operationId} response: ${error?.message}`);
+    return body;
+  }
+
+  test('route table matches the Express routers', () => {
+    const documented = API_ROUTES.map(r => `${r.method} ${r.path}`).sort();
+    assert.deepEqual(documented, expressRoutes());
+
+    // The spec's security requirements match what app.ts enforces
+    for (const { prefix, auth } of MOUNTED_ROUTERS) {
+      assert.equal(AUTHENTICATED_PREFIXES.includes(prefix), auth, prefix);
+    }
+  });
+
+  test('generated client is up to date', () => {
+    const committed = fs.readFileSync(CLIENT_PATH, 'utf8');
+    assert.ok(committed === generateClient(), 'public/api-client.js is stale - run `npm run generate:client`');
+  });
+
+  test('serves the document', async () => {
+    const doc = await call('getOpenApiDocument');
+    assert.equal(doc.openapi, '3.0.3');
+    assert.ok(doc.paths['/api/track/session/{id}/next'].post);
+    assert.equal(doc.paths['/api/chained/session'].post.requestBody.content['application/json'].schema.required[0], 'personaId');
+  });
+
+  test('track responses match the spec', async () => {
+    const created = await call('createTrackSession', { segmentOrder: ['greeting', 'fact', 'callToAction'] });
+    const id = created.sessionId;
+    await call('getTrackSession', id);
+    await call('startTrackSession', id);
+    await call('nextTrackSegment', id);
+    await call('sendTrackAudio', id, { audio: spokenAudio('what a cool fact') });
+    await call('sendTrackAudio', id, { audio: Buffer.from([0xff, 0xfe, 0x00]).toString('base64') });
+    await call('markTrackAwake', id);
+    await call('getTrackSilenceDuration', id);
+    await call('listNewsThemes');
+    await call('endTrackSession', id);
+
+    await assert.rejects(api.nextTrackSegment(id), (error: InstanceType<typeof ApiError>) => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.status, 404);
+      assert.equal(error.code, 'session_not_found');
+      return true;
+    });
+  });
+
+  test('chained and gpt-driven responses match the spec', async () => {
+    const chained = await call('createChainedSession', { personaId: 'zen-guide' });
+    await call('chainedGreeting', chained.sessionId);
+    await call('chainedRespond', chained.sessionId, { audio: spokenAudio('good morning') });
+    await call('chainedSilence', chained.sessionId);
+    await call('getChainedState', chained.sessionId);
+    await call('endChainedSession', chained.sessionId);
+
+    const gpt = await call('createGptDrivenSession', {});
+    await call('gptDrivenGreeting', gpt.sessionId);
+    await call('gptDrivenRespond', gpt.sessionId, { audio: spokenAudio('five more minutes') });
+    await call('gptDrivenSilence', gpt.sessionId);
+    await call('getGptDrivenState', gpt.sessionId);
+    await call('endGptDrivenSession', gpt.sessionId);
+  });
+
+  test('device and general responses match the spec', async () => {
+    await call('getDeviceStatus', { device_token: 'test-device' });
+    await call('updateDevice', { device_token: 'test-device', increment_session: true });
+    await call('listPersonas');
+    await call('listVoices');
+    await call('getSessionStats');
+    await call('getHealth');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Pre-generation - the next segment is generated while the current one
+ * plays, served on the next silence, and thrown away when the track goes
+ * somewhere else (the user talks, or a branch no longer holds)
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatRequest, LocalProvider, initLLMProvider } from '../src/services/llmProvider';
+import { MeteredProvider } from '../src/services/usageBudget';
+import { startTestServer, spokenAudio, TestServer } from './helpers/testServer';
+
+// Local provider that remembers which segments it was asked to generate
+class CountingProvider extends LocalProvider {
+  generated: string[] = [];
+
+  async chat(request: ChatRequest): Promise<string> {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+    const segment = lastUser.match(/^Generate the (\w+) segment now/);
+    if (segment) this.generated.push(segment[1]);
+    return super.chat(request);
+  }
+}
+
+describe('pre-generation', () => {
+  let server: TestServer;
+  let provider: CountingProvider;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // A fresh provider per session, so counts start at zero
+  async function createTrack(body: object): Promise<string> {
+    provider = new CountingProvider({
+      chat: [
+        { match: 'Generate the FACT segment', response: 'Octopuses have three hearts.' },
+        { match: 'Generate the CALLTOACTION segment', response: 'Time to get up.' },
+      ],
+    });
+    initLLMProvider(new MeteredProvider(provider));
+
+    const created = await server.request('POST', '/api/track/session', body);
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+    return sessionId;
+  }
+
+  test('serves the segment generated while the greeting played', async () => {
+    const sessionId = await createTrack({ segmentOrder: ['greeting', 'fact', 'callToAction'] });
+    assert.deepEqual(provider.generated, ['greeting', 'fact']);
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.body.currentSegment.type, 'fact');
+    assert.equal(next.body.text, 'Octopuses have three hearts.');
+    // Not generated again - and the one after is already on its way
+    assert.deepEqual(provider.generated, ['greeting', 'fact', 'callToAction']);
+  });
+
+  test('generates afresh once the user has talked', async () => {
+    const sessionId = await createTrack({ segmentOrder: ['greeting', 'fact', 'callToAction'] });
+    const reply = await server.request('POST', `/api/track/session/${sessionId}/audio`, {
+      audio: spokenAudio('I dreamt I was flying over the sea'),
+    });
+    assert.equal(reply.body.conversationMode, true);
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.body.currentSegment.type, 'fact');
+    assert.deepEqual(provider.generated.filter(type => type === 'fact'), ['fact', 'fact']);
+  });
+
+  test('throws it away when a branch no longer holds', async () => {
+    // Within the first second the greeting jumps straight to the call to
+    // action, so that's what gets pre-generated - but by the time the
+    // greeting ends the branch doesn't hold and the fact plays instead
+    const sessionId = await createTrack({
+      segments: [
+        { type: 'greeting', branches: [{ when: { maxElapsedSeconds: 1 }, goTo: 'wake-up' }] },
+        { type: 'fact' },
+        { type: 'callToAction', id: 'wake-up' },
+      ],
+    });
+    assert.deepEqual(provider.generated, ['greeting', 'callToAction']);
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.body.currentSegment.type, 'fact');
+    assert.equal(next.body.text, 'Octopuses have three hearts.');
+  });
+});
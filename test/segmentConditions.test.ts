@@ -0,0 +1,200 @@
+/**
+ * Segment conditions - segments that only play in some weather or moods,
+ * and branches that jump ahead when the user isn't answering
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConditionContext, isWeekend, matchesCondition, responsivenessOf } from '../src/services/segmentConditions';
+import { WeatherData } from '../src/services/trackEngine';
+import { fakeNews, startTestServer, spokenAudio, TestServer } from './helpers/testServer';
+
+const RAIN: WeatherData = {
+  currentTemp: 11,
+  feelsLike: 9,
+  conditions: 'Light rain',
+  windDirection: 'SW',
+  windStrength: 'breezy',
+  precipChance: 70,
+  highTemp: 14,
+  eveningTemp: 10,
+  uvIndex: 1,
+};
+
+const context: ConditionContext = {
+  weekend: false,
+  weather: RAIN,
+  userReplies: [],
+  elapsedSeconds: 40,
+  segmentsPlayed: 2,
+};
+
+describe('conditions', () => {
+  test('an empty condition always holds', () => {
+    assert.equal(matchesCondition({}, context), true);
+  });
+
+  test('matches weather words and rain chance', () => {
+    assert.equal(matchesCondition({ weather: ['rain', 'drizzle'] }, context), true);
+    assert.equal(matchesCondition({ weather: ['snow'] }, context), false);
+    assert.equal(matchesCondition({ minPrecipChance: 80 }, context), false);
+    assert.equal(matchesCondition({ weather: ['rain'] }, { ...context, weather: undefined }), false);
+  });
+
+  test('needs every field to hold', () => {
+    assert.equal(matchesCondition({ days: 'weekday', minSegmentsPlayed: 2, maxElapsedSeconds: 60 }, context), true);
+    assert.equal(matchesCondition({ days: 'weekday', minElapsedSeconds: 60 }, context), false);
+    assert.equal(matchesCondition({ days: 'weekend' }, context), false);
+  });
+
+  test('reads how the user has been answering', () => {
+    assert.equal(responsivenessOf([]), 'silent');
+    assert.equal(responsivenessOf(['mm', 'five more minutes']), 'brief');
+    assert.equal(responsivenessOf(['I dreamt I was flying over the sea']), 'chatty');
+    assert.equal(matchesCondition({ userHasSpoken: false, responsiveness: ['silent'] }, context), true);
+    assert.equal(matchesCondition({ userHasSpoken: true }, { ...context, userReplies: ['hi'] }), true);
+  });
+
+  test('works out the weekend in the user\'s time zone', () => {
+    // Saturday 01:00 in London is still Friday evening in New York
+    const now = new Date('2026-10-17T00:00:00Z');
+    assert.equal(isWeekend(now, 'Europe/London'), true);
+    assert.equal(isWeekend(now, 'America/New_York'), false);
+  });
+});
+
+describe('conditional tracks', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [
+          { match: 'Generate the VISUALIZATION segment[\\s\\S]*Build this segment around: (.+)', response: 'Picture $1.' },
+          { match: 'Generate the FACT segment', response: 'A fact.' },
+          { match: 'Generate the NEWS segment', response: 'The news.' },
+          { match: 'Generate the ENGAGEMENT segment', response: 'What did you dream?' },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function play(body: object, replyAfterStart?: string): Promise<string[]> {
+    const created = await server.request('POST', '/api/track/session', body);
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+    if (replyAfterStart) {
+      await server.request('POST', `/api/track/session/${sessionId}/audio`, { audio: spokenAudio(replyAfterStart) });
+    }
+
+    const played: string[] = [];
+    for (let i = 0; i < 10; i++) {
+      const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+      if (!next.body.currentSegment) break;
+      played.push(next.body.currentSegment.type);
+      if (next.body.currentSegment.type === 'callToAction') break;
+    }
+    return played;
+  }
+
+  const rainyVisualization = {
+    type: 'visualization',
+    when: { weather: ['rain', 'drizzle'] },
+    data: { theme: 'cozy rain on the window' },
+  };
+
+  test('plays a rainy-day visualization only when it rains', async () => {
+    const segments = [{ type: 'greeting' }, rainyVisualization, { type: 'callToAction' }];
+    const rainy = await play({ segments, weather: RAIN });
+    assert.deepEqual(rainy, ['visualization', 'callToAction']);
+
+    const sunny = await play({ segments, weather: { ...RAIN, conditions: 'Sunny', precipChance: 0 } });
+    assert.deepEqual(sunny, ['callToAction']);
+  });
+
+  test('gives the segment prompt its theme', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segments: [{ type: 'greeting' }, rainyVisualization, { type: 'callToAction' }],
+      weather: { ...RAIN, conditions: 'Drizzle' },
+    });
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.body.text, 'Picture cozy rain on the window.');
+  });
+
+  test('branches past segments when the user stays quiet', async () => {
+    const segments = [
+      { type: 'greeting' },
+      { type: 'fact', branches: [{ when: { userHasSpoken: false }, goTo: 'wake-check' }] },
+      { type: 'news' },
+      { type: 'fact' },
+      { type: 'engagement', id: 'wake-check' },
+      { type: 'callToAction' },
+    ];
+    const news = [{ headline: 'Headline', summary: 'Something happened.' }];
+
+    assert.deepEqual(await play({ segments, news }), ['fact', 'engagement', 'callToAction']);
+    assert.deepEqual(
+      await play({ segments, news }, 'morning'),
+      ['fact', 'news', 'fact', 'engagement', 'callToAction']
+    );
+  });
+
+  test('rejects branches that jump back', async () => {
+    for (const goTo of ['intro', 'fact']) {
+      const created = await server.request('POST', '/api/track/session', {
+        segments: [
+          { type: 'greeting', id: 'intro' },
+          { type: 'fact', id: 'fact', branches: [{ when: {}, goTo }] },
+          { type: 'callToAction' },
+        ],
+      });
+      assert.equal(created.status, 400, goTo);
+      assert.equal(created.body.error.field, 'segments[1].branches[0].goTo');
+    }
+  });
+
+  test('waits for news when a branch is about to jump to it', async () => {
+    // The branch skips the weather and lands on the news, which is still
+    // loading - the track waits for it instead of skipping past
+    const slowServer = await startTestServer({
+      fixtures: { chat: [{ match: 'Generate the NEWS segment', response: 'The news.' }] },
+      track: { fetchNews: (themes, count) => new Promise(resolve => setTimeout(() => resolve(fakeNews(themes, count)), 300)) },
+    });
+    try {
+      const created = await slowServer.request('POST', '/api/track/session', {
+        segments: [
+          { type: 'greeting' },
+          { type: 'fact', branches: [{ when: { userHasSpoken: false }, goTo: 'headlines' }] },
+          { type: 'weather' },
+          { type: 'news', id: 'headlines' },
+          { type: 'callToAction' },
+        ],
+        newsThemes: ['technology'],
+      });
+      const { sessionId } = created.body;
+      await slowServer.request('POST', `/api/track/session/${sessionId}/start`);
+      const fact = await slowServer.request('POST', `/api/track/session/${sessionId}/next`);
+      assert.equal(fact.body.currentSegment.type, 'fact');
+      const news = await slowServer.request('POST', `/api/track/session/${sessionId}/next`);
+      assert.equal(news.body.currentSegment.type, 'news');
+      assert.equal(news.body.text, 'The news.');
+    } finally {
+      await slowServer.close();
+    }
+  });
+
+  test('rejects unknown condition fields', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segments: [{ type: 'fact', when: { mood: 'happy' } }],
+    });
+    assert.equal(created.status, 400);
+    assert.equal(created.body.error.field, 'segments[0].when.mood');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Segment output - structured segment replies, the retry on schema
+ * failures and spokenText streaming out of partial JSON
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpokenTextReader, parseSegmentOutput } from '../src/services/segmentOutput';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+function reply(spokenText: string, topic: string | null) {
+  return JSON.stringify({ spokenText, topic, estimatedDurationSeconds: 6, toneTags: ['playful'] });
+}
+
+describe('segment output parsing', () => {
+  test('validates replies and requires a topic for generated facts', () => {
+    assert.equal(parseSegmentOutput('Just text.').ok, false);
+    assert.equal(parseSegmentOutput(JSON.stringify({ spokenText: 'Hi.' })).ok, false);
+
+    const noTopic = reply('Sloths are slow.', null);
+    assert.equal(parseSegmentOutput(noTopic).ok, true);
+    assert.deepEqual(parseSegmentOutput(noTopic, { requireTopic: true }), { ok: false, error: 'response.topic is required for a fact' });
+
+    const parsed = parseSegmentOutput(reply('Sloths are slow.', ' Sloth Digestion '), { requireTopic: true });
+    assert.ok(parsed.ok && parsed.output.topic === 'sloth digestion');
+  });
+
+  test('streams spokenText out of partial JSON, including split escapes', () => {
+    const json = JSON.stringify({ spokenText: 'Say "hi" \\ now.\nNext é line.', topic: null });
+    const reader = new SpokenTextReader();
+    let text = '';
+    for (let i = 0; i < json.length; i += 3) {
+      text += reader.push(json.slice(i, i + 3));
+    }
+    assert.equal(text, 'Say "hi" \\ now.\nNext é line.');
+
+    const escaped = new SpokenTextReader();
+    assert.equal(escaped.push('{"spokenText": "caf\\u00'), 'caf');
+    assert.equal(escaped.push('e9 au lait", "topic": "x"}'), 'é au lait');
+  });
+});
+
+describe('structured segment generation', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [
+          {
+            match: 'Generate the FACT segment',
+            response: [
+              reply('A fact without a topic.', null),         // Rejected: generated facts need a topic
+              reply('Sloths take a month to digest a leaf.', 'sloth digestion'),
+              '{"spokenText": 42}',                           // Rejected twice -> plain text fallback
+              'Not JSON at all. [honey]',
+            ],
+          },
+          { match: 'Generate the WEATHER segment', response: reply('It is "crisp" out. Wear a coat.', null) },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('retries a rejected reply and records its topic', async () => {
+    const created = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'fact', 'fact'] });
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    const first = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(first.body.text, 'Sloths take a month to digest a leaf.');
+
+    const second = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(second.body.text, 'Not JSON at all.');
+
+    const state = await server.request('GET', `/api/track/session/${sessionId}`);
+    assert.deepEqual(state.body.state.usedFacts, ['sloth digestion', 'honey']);
+    const [, fact] = state.body.state.segmentHistory;
+    assert.equal(fact.topic, 'sloth digestion');
+    assert.equal(fact.estimatedDurationSeconds, 6);
+    assert.deepEqual(fact.toneTags, ['playful']);
+  });
+
+  test('streams sentences decoded from the JSON reply', async () => {
+    const created = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'weather', 'music'] });
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+    // Talking discards the pre-generated weather, so it's streamed instead
+    await server.request('POST', `/api/track/session/${sessionId}/audio`, { audio: Buffer.from('hello there').toString('base64') });
+
+    const response = await fetch(`${server.baseUrl}/api/track/session/${sessionId}/next/stream`, { method: 'POST' });
+    const body = await response.text();
+    const chunks = body.split('\n\n')
+      .filter(event => event.startsWith('event: chunk'))
+      .map(event => JSON.parse(event.split('\ndata: ')[1]).text);
+    assert.deepEqual(chunks, ['It is "crisp" out.', 'Wear a coat.']);
+  });
+});
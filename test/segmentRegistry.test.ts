@@ -0,0 +1,124 @@
+/**
+ * Segment registry - custom segment types from config: validation at
+ * startup, and playing them in a track like the built-in types
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { CustomSegmentDefinition, parseSegmentDefinitions, renderSegmentTask } from '../src/services/segmentRegistry';
+import { planTrack } from '../src/services/trackPlanner';
+import { CustomSegmentType } from '../src/services/trackEngine';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const AFFIRMATION: CustomSegmentDefinition = {
+  type: 'affirmation',
+  prompt: 'Give {{userName}} one short, believable affirmation for today.',
+  maxSentences: 2,
+  optional: true,
+};
+
+const SEGMENTS: CustomSegmentDefinition[] = [
+  AFFIRMATION,
+  { type: 'headlineQuiz', name: 'headline quiz', prompt: 'Quiz them on one of the headlines.', requires: ['news'], maxSentences: 3 },
+  { type: 'weekendNudge', name: 'weekend nudge', prompt: 'Nudge them out of bed.', maxSentences: 1, repeatsUntilAwake: true },
+];
+
+describe('definitions', () => {
+  test('accepts valid definitions', () => {
+    assert.deepEqual(parseSegmentDefinitions({ version: 1, segments: SEGMENTS }, 'test.json'), SEGMENTS);
+  });
+
+  test('rejects malformed definitions', () => {
+    const parse = (segments: unknown[]) => () => parseSegmentDefinitions({ version: 1, segments }, 'test.json');
+    assert.throws(parse([{ type: 'affirmation', prompt: 'Hi' }]), /definitions\.segments\[0\]\.maxSentences is required/);
+    assert.throws(parse([{ ...AFFIRMATION, loops: true }]), /definitions\.segments\[0\]\.loops is not allowed/);
+    assert.throws(parse([{ ...AFFIRMATION, type: 'fact' }]), /fact is a built-in segment type/);
+    assert.throws(parse([AFFIRMATION, AFFIRMATION]), /affirmation is defined twice/);
+    assert.throws(parse([{ ...AFFIRMATION, prompt: 'About {{weather}}' }]), /unknown placeholder \{\{weather\}\}/);
+    assert.throws(parse([{ ...AFFIRMATION, minSentences: 3 }]), /minSentences above maxSentences/);
+  });
+
+  test('frames the prompt like the built-in segments', () => {
+    const task = renderSegmentTask(SEGMENTS[1], { userName: 'Sam', date: 'Monday', time: '7:00' });
+    assert.match(task, /^Generate the HEADLINE QUIZ segment\./);
+    assert.match(task, /At most 3 sentences total\.$/);
+    assert.match(renderSegmentTask(AFFIRMATION, { userName: 'Sam', date: '', time: '' }), /Give Sam one short/);
+  });
+});
+
+describe('custom segments in a track', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      segments: SEGMENTS,
+      fixtures: {
+        chat: [
+          { match: 'Generate the AFFIRMATION segment[\\s\\S]*Give (\\w+) one', response: 'You have got this, $1.' },
+          { match: 'Generate the HEADLINE QUIZ segment[\\s\\S]*## News Items\\n- (.+):', response: 'Quiz: $1?' },
+          { match: 'Generate the WEEKEND NUDGE segment', response: 'Feet on the floor.' },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function play(body: object, count: number): Promise<string[]> {
+    const created = await server.request('POST', '/api/track/session', body);
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    const texts: string[] = [];
+    for (let i = 0; i < count; i++) {
+      texts.push((await server.request('POST', `/api/track/session/${sessionId}/next`)).body.text);
+    }
+    return texts;
+  }
+
+  test('plays registered types from segmentOrder', async () => {
+    const texts = await play({
+      userName: 'Sam',
+      segmentOrder: ['greeting', 'affirmation', 'headlineQuiz', 'callToAction'],
+      news: [{ headline: 'Rivers are rising', summary: 'After a wet week.' }],
+    }, 2);
+    assert.deepEqual(texts, ['You have got this, Sam.', 'Quiz: Rivers are rising?']);
+  });
+
+  test('leaves out a type whose data is missing', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'headlineQuiz', 'weekendNudge'],
+    });
+    assert.deepEqual(created.body.plan.segments.map((s: { type: string }) => s.type), ['greeting', 'weekendNudge']);
+  });
+
+  test('repeats a looping type until the user is awake', async () => {
+    const texts = await play({ segmentOrder: ['greeting', 'weekendNudge', 'music'] }, 3);
+    assert.deepEqual(texts, ['Feet on the floor.', 'Feet on the floor.', 'Feet on the floor.']);
+  });
+
+  test('rejects types that are not registered', async () => {
+    const created = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'horoscope'] });
+    assert.equal(created.status, 400);
+    assert.equal(created.body.error.field, 'segmentOrder[1]');
+    assert.match(created.body.error.message, /affirmation, headlineQuiz, weekendNudge/);
+  });
+
+  test('lists registered types in the OpenAPI document', async () => {
+    const doc = (await server.request('GET', '/api/openapi.json')).body;
+    const body = doc.paths['/api/track/session'].post.requestBody.content['application/json'].schema;
+    assert.deepEqual(body.properties.segmentOrder.items.enum.slice(-3), ['affirmation', 'headlineQuiz', 'weekendNudge']);
+  });
+
+  test('sizes custom types from their definition', () => {
+    const { plan } = planTrack([
+      { type: 'greeting', enabled: true },
+      { type: 'affirmation' as CustomSegmentType, enabled: true },
+      { type: 'callToAction', enabled: true },
+    ], 20);
+    assert.deepEqual(plan.dropped, ['affirmation']);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Session registry - idle and max-age expiry, the live session cap, the
+ * stats counters, and the file store's snapshots going with the session
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EvictionReason, SessionRegistry, SessionRegistryOptions } from '../src/services/sessionRegistry';
+import { FileTrackSessionStore } from '../src/services/trackSessionStore';
+import { TrackEngine } from '../src/services/trackEngine';
+
+const MINUTE = 60 * 1000;
+
+// Options with a clock the test moves by hand
+function manualClock(overrides: Partial<SessionRegistryOptions> = {}) {
+  const clock = { now: 0 };
+  const options: SessionRegistryOptions = {
+    idleTtlMs: 30 * MINUTE,
+    maxAgeMs: 120 * MINUTE,
+    maxSessions: 10,
+    clock: () => clock.now,
+    ...overrides,
+  };
+  return { clock, options };
+}
+
+// Resolves once the file is gone (snapshots are removed in the background)
+async function removed(file: string): Promise<boolean> {
+  for (let i = 0; i < 50 && fs.existsSync(file); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return !fs.existsSync(file);
+}
+
+describe('session registry', () => {
+  test('expires sessions left idle, and a lookup keeps them alive', () => {
+    const { clock, options } = manualClock();
+    const registry = new SessionRegistry<string>('test', options);
+    registry.set('kept', 'a');
+    registry.set('idle', 'b');
+
+    clock.now = 20 * MINUTE;
+    assert.equal(registry.get('kept'), 'a');
+
+    clock.now = 31 * MINUTE;
+    assert.equal(registry.get('kept'), 'a');
+    assert.equal(registry.get('idle'), undefined);
+    assert.deepEqual(registry.getStats().evicted, { idle: 1, maxAge: 0, capacity: 0 });
+  });
+
+  test('expires sessions past the max age however active they are', () => {
+    const { clock, options } = manualClock();
+    const registry = new SessionRegistry<string>('test', options);
+    registry.set('busy', 'a');
+    // Restored after a restart: started an hour and a half before
+    registry.set('restored', 'b', -90 * MINUTE);
+
+    for (clock.now = 0; clock.now <= 120 * MINUTE; clock.now += 10 * MINUTE) {
+      if (clock.now === 40 * MINUTE) assert.equal(registry.get('restored'), undefined);
+      assert.equal(registry.get('busy'), 'a');
+    }
+    clock.now += 1;
+    assert.equal(registry.get('busy'), undefined);
+    assert.deepEqual(registry.getStats().evicted, { idle: 0, maxAge: 2, capacity: 0 });
+  });
+
+  test('evicts the least recently used session when full', () => {
+    const { clock, options } = manualClock({ maxSessions: 2 });
+    const registry = new SessionRegistry<string>('test', options);
+    const evictions: [string, string, EvictionReason][] = [];
+    registry.onEvict((id, value, reason) => evictions.push([id, value, reason]));
+
+    registry.set('first', 'a');
+    clock.now = 1;
+    registry.set('second', 'b');
+    clock.now = 2;
+    registry.get('first');
+    clock.now = 3;
+    registry.set('third', 'c');
+
+    assert.deepEqual(evictions, [['second', 'b', 'capacity']]);
+    assert.equal(registry.has('first'), true);
+    assert.equal(registry.has('third'), true);
+  });
+
+  test('counts created, ended and swept sessions', () => {
+    const { clock, options } = manualClock();
+    const registry = new SessionRegistry<string>('test', options);
+    registry.set('a', 'a');
+    registry.set('b', 'b');
+    registry.set('a', 'a again');  // Replacing isn't creating
+    registry.set('c', 'c');
+    assert.equal(registry.delete('b'), true);
+    assert.equal(registry.delete('b'), false);
+
+    clock.now = 10 * MINUTE;
+    registry.get('c');
+    clock.now = 35 * MINUTE;
+    assert.equal(registry.sweep(), 1);
+    assert.equal(registry.isExpired(0, 10 * MINUTE), false);
+    assert.equal(registry.isExpired(0, 0), true);
+
+    assert.deepEqual(registry.getStats(), {
+      name: 'test',
+      live: 1,
+      created: 3,
+      ended: 1,
+      evicted: { idle: 1, maxAge: 0, capacity: 0 },
+    });
+  });
+});
+
+describe('file store expiry', () => {
+  let directory: string;
+
+  const engine = () => new TrackEngine({
+    personaId: 'morning-coach',
+    voiceId: 'alloy',
+    userName: 'Sam',
+    segmentOrder: [{ type: 'greeting', enabled: true }],
+  });
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wub-registry-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('removes the snapshot of an evicted session', async () => {
+    const { clock, options } = manualClock();
+    const store = new FileTrackSessionStore(directory, undefined, options);
+    await store.save('abandoned', { engine: engine() });
+    const file = path.join(directory, 'abandoned.json');
+    assert.ok(fs.existsSync(file));
+
+    clock.now = 31 * MINUTE;
+    assert.equal(await store.get('abandoned'), undefined);
+    assert.ok(await removed(file));
+  });
+
+  test('prunes snapshots that expired while the server was down', async () => {
+    const { clock, options } = manualClock();
+    await new FileTrackSessionStore(directory, undefined, options).save('stale', { engine: engine() });
+    clock.now = 10 * MINUTE;
+    await new FileTrackSessionStore(directory, undefined, options).save('fresh', { engine: engine() });
+
+    // Restart 35 minutes in: "stale" was last saved 35 minutes ago
+    clock.now = 35 * MINUTE;
+    const restarted = new FileTrackSessionStore(directory, undefined, options);
+    assert.ok(await removed(path.join(directory, 'stale.json')));
+    assert.ok(fs.existsSync(path.join(directory, 'fresh.json')));
+    assert.ok(await restarted.get('fresh'));
+  });
+});
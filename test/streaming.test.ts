@@ -0,0 +1,140 @@
+/**
+ * Streaming segments - splitting tokens into sentences, keeping audio
+ * chunks in order when TTS finishes out of order, and stopping when the
+ * app hangs up mid-stream
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitSentences } from '../src/services/trackEngine';
+import { ChatRequest, LocalProvider, initLLMProvider } from '../src/services/llmProvider';
+import { MeteredProvider } from '../src/services/usageBudget';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const reply = (spokenText: string) =>
+  JSON.stringify({ spokenText, topic: null, estimatedDurationSeconds: 6, toneTags: ['calm'] });
+
+// Local provider whose TTS calls can be held back and whose tokens trickle
+class PacedProvider extends LocalProvider {
+  speechDelays: number[] = [];
+  tokenDelayMs = 0;
+  tokensSent = 0;
+
+  async speech(text: string): Promise<Buffer> {
+    await sleep(this.speechDelays.shift() || 0);
+    return super.speech(text);
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    for await (const token of super.chatStream(request)) {
+      await sleep(this.tokenDelayMs);
+      this.tokensSent++;
+      yield token;
+    }
+  }
+}
+
+describe('sentence splitting', () => {
+  test('splits on terminal punctuation followed by whitespace', () => {
+    assert.deepEqual(splitSentences('Good morning! Ready? Let\'s go. '), {
+      sentences: ['Good morning!', 'Ready?', 'Let\'s go.'],
+      rest: ' ',
+    });
+  });
+
+  test('keeps abbreviations and decimals inside the sentence', () => {
+    const { sentences } = splitSentences('Dr. Patel says 3.5 hours is enough, e.g. for a nap. Sra. López agrees. ');
+    assert.deepEqual(sentences, ['Dr. Patel says 3.5 hours is enough, e.g. for a nap.', 'Sra. López agrees.']);
+  });
+
+  test('holds back text without final punctuation', () => {
+    assert.deepEqual(splitSentences('It is sunny. Highs of 21'), { sentences: ['It is sunny.'], rest: ' Highs of 21' });
+    assert.deepEqual(splitSentences('Stretch your arms'), { sentences: [], rest: 'Stretch your arms' });
+    // The end of the buffer may be mid-token ("3." then "5")
+    assert.deepEqual(splitSentences('It will be 3.'), { sentences: [], rest: 'It will be 3.' });
+  });
+});
+
+describe('streamed segments', () => {
+  let server: TestServer;
+  let provider: PacedProvider;
+
+  before(async () => {
+    server = await startTestServer();
+    provider = new PacedProvider({
+      chat: [
+        { match: 'Generate the WEATHER segment', response: reply('Clear skies today. Highs of 21. A light breeze later.') },
+        {
+          match: 'Generate the FACT segment',
+          response: reply(Array.from({ length: 10 }, (_, i) => `This is sentence number ${i + 1}.`).join(' ')),
+        },
+      ],
+    });
+    initLLMProvider(new MeteredProvider(provider));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // A session at its greeting, with the pre-generated segment discarded so
+  // the next one is streamed
+  async function sessionReadyToStream(segmentOrder: string[]): Promise<string> {
+    const created = await server.request('POST', '/api/track/session', { segmentOrder });
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+    await server.request('POST', `/api/track/session/${sessionId}/audio`, { audio: Buffer.from('hello there').toString('base64') });
+    return sessionId;
+  }
+
+  test('delivers chunks in order when TTS finishes out of order', async () => {
+    const sessionId = await sessionReadyToStream(['greeting', 'weather', 'music']);
+    // The first sentence's audio is ready last
+    provider.speechDelays = [120, 60, 0];
+
+    const response = await fetch(`${server.baseUrl}/api/track/session/${sessionId}/next/stream`, { method: 'POST' });
+    const chunks = (await response.text()).split('\n\n')
+      .filter(event => event.startsWith('event: chunk'))
+      .map(event => JSON.parse(event.split('\ndata: ')[1]));
+
+    assert.deepEqual(chunks.map(c => [c.index, c.text]), [
+      [0, 'Clear skies today.'],
+      [1, 'Highs of 21.'],
+      [2, 'A light breeze later.'],
+    ]);
+  });
+
+  test('stops generating when the app disconnects', async () => {
+    const sessionId = await sessionReadyToStream(['greeting', 'fact', 'music']);
+    provider.tokenDelayMs = 20;
+    provider.tokensSent = 0;
+
+    const controller = new AbortController();
+    const response = await fetch(`${server.baseUrl}/api/track/session/${sessionId}/next/stream`, {
+      method: 'POST',
+      signal: controller.signal,
+    });
+    const reader = response.body!.getReader();
+    let received = '';
+    while (!received.includes('event: chunk')) {
+      const { value } = await reader.read();
+      received += Buffer.from(value!).toString('utf8');
+    }
+    controller.abort();
+
+    await sleep(200);
+    const sent = provider.tokensSent;
+    await sleep(200);
+    provider.tokenDelayMs = 0;
+    assert.equal(provider.tokensSent, sent, 'no tokens are pulled after the disconnect');
+    assert.ok(sent < 50, `stopped early (${sent} tokens)`);
+
+    // Nothing was recorded, and the session can carry on
+    const state = await server.request('GET', `/api/track/session/${sessionId}`);
+    assert.deepEqual(state.body.state.segmentHistory.map((s: { segment: string }) => s.segment), ['greeting']);
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.status, 200);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Stretching - routines picked by persona and fitness level, and the
+ * segment delivered as timed cues after its intro
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { STRETCH_ROUTINES, routineCues, routineSeconds, selectRoutine } from '../src/config/stretchRoutines';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+describe('routines', () => {
+  test('every persona has a routine at every level', () => {
+    for (const personaId of ['zen-guide', 'morning-coach', 'strict-sergeant'] as const) {
+      for (const level of ['beginner', 'intermediate', 'advanced'] as const) {
+        const routine = selectRoutine(personaId, level);
+        assert.equal(routine.level, level);
+        assert.ok(routine.personas.includes(personaId), `${personaId} ${level}`);
+      }
+    }
+    assert.equal(new Set(STRETCH_ROUTINES.map(r => r.id)).size, STRETCH_ROUTINES.length);
+  });
+
+  test('picks by persona and level', () => {
+    assert.equal(selectRoutine('zen-guide').id, 'sunrise-flow');
+    assert.equal(selectRoutine('strict-sergeant', 'advanced').id, 'power-start');
+  });
+
+  test('cues each side of a one-sided move, then closes', () => {
+    const routine = selectRoutine('zen-guide', 'beginner');
+    const cues = routineCues(routine);
+    assert.equal(cues.length, 6);
+    assert.deepEqual(cues[2], {
+      move: 'side-bend',
+      holdSeconds: 15,
+      restSeconds: 5,
+      text: 'Left side first. Keep one arm up and lean gently to the side. 15 seconds.',
+    });
+    assert.equal(cues[3].text, 'Now the right side. 15 seconds.');
+    assert.deepEqual(cues[5], { move: null, holdSeconds: 0, restSeconds: 0, text: routine.closing });
+
+    // 5 timed cues and the closing, 4 seconds each, plus holds and rests
+    assert.equal(routineSeconds(routine), 6 * 4 + 25 + 25 + 40 + 20);
+  });
+});
+
+describe('stretching segment', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [{ match: 'Generate the STRETCHING segment intro[\\s\\S]*## Routine\\n(.+),', response: 'Time for the $1.' }],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function createTrack(body: object): Promise<string> {
+    const created = await server.request('POST', '/api/track/session', body);
+    assert.equal(created.status, 200);
+    await server.request('POST', `/api/track/session/${created.body.sessionId}/start`);
+    return created.body.sessionId;
+  }
+
+  test('returns the intro, then the routine as timed clips', async () => {
+    const sessionId = await createTrack({ personaId: 'morning-coach', fitnessLevel: 'intermediate', segmentOrder: ['greeting', 'stretching', 'music'] });
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.status, 200);
+    assert.equal(next.body.text, 'Time for the Morning circuit.');
+    assert.ok(next.body.audio);
+
+    const { clips } = next.body;
+    assert.deepEqual(clips.map((clip: { move: string | null }) => clip.move), [
+      'arm-swings', 'squats', 'lunge-twist', 'lunge-twist', 'toe-touches', null,
+    ]);
+    assert.deepEqual(clips.map((clip: { index: number }) => clip.index), [0, 1, 2, 3, 4, 5]);
+    assert.equal(clips[1].text, 'Feet shoulder width. Sit back into slow squats. 30 seconds.');
+    assert.equal(clips[1].holdSeconds, 30);
+    assert.equal(clips[1].restSeconds, 10);
+    assert.ok(clips.every((clip: { audio: string }) => clip.audio));
+
+    // Other segments have no clips
+    const music = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(music.body.clips, undefined);
+  });
+
+  test('budgets the routine in the plan', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      personaId: 'zen-guide',
+      segmentOrder: ['greeting', 'stretching'],
+    });
+    const [, stretching] = created.body.plan.segments;
+    assert.equal(stretching.estimatedSeconds, 12 + routineSeconds(selectRoutine('zen-guide')));
+  });
+
+  test('streams the cues with their timing', async () => {
+    const sessionId = await createTrack({ personaId: 'zen-guide', segmentOrder: ['greeting', 'stretching'] });
+    const response = await fetch(`${server.baseUrl}/api/track/session/${sessionId}/next/stream`, { method: 'POST' });
+    const chunks = (await response.text()).split('\n\n')
+      .filter(event => event.startsWith('event: chunk'))
+      .map(event => JSON.parse(event.split('\ndata: ')[1]));
+
+    assert.equal(chunks.length, 7);
+    assert.equal(chunks[0].text, 'Time for the Sunrise flow.');
+    assert.equal(chunks[0].holdSeconds, undefined);
+    assert.deepEqual(
+      { index: chunks[1].index, move: chunks[1].move, holdSeconds: chunks[1].holdSeconds, restSeconds: chunks[1].restSeconds },
+      { index: 1, move: 'neck-rolls', holdSeconds: 20, restSeconds: 5 }
+    );
+  });
+});
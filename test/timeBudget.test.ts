@@ -0,0 +1,106 @@
+/**
+ * Time budget - the "out of bed by" deadline for the first event, and
+ * tracks that drop extras and push harder when time is short
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTimeBudget, describeTimeBudget } from '../src/services/timeBudget';
+import { CalendarEvent } from '../src/services/trackEngine';
+import { resolveUserLocale } from '../src/services/userLocale';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const NOW = new Date('2026-10-19T06:30:00Z');
+const LONDON = resolveUserLocale({ timeZone: 'Europe/London', locale: 'en-GB' });
+
+const standup: CalendarEvent = { title: 'Standup', time: '9:00', startsAt: '2026-10-19T08:00:00Z', location: 'Office' };
+
+describe('deadline', () => {
+  test('counts back from the first event by commute and prep time', () => {
+    const budget = computeTimeBudget([
+      { title: 'Offsite', time: 'All day', allDay: true },
+      { title: 'Gym', time: '7:00', startsAt: '2026-10-19T06:00:00Z' },
+      { title: 'Lunch', time: '12:30', startsAt: '2026-10-19T11:30:00Z' },
+      standup,
+    ], { prepMinutes: 25, commuteMinutes: 40 }, NOW)!;
+
+    assert.equal(budget.event.title, 'Standup');
+    assert.equal(budget.outOfBedBy.toISOString(), '2026-10-19T06:55:00.000Z');
+    assert.equal(budget.minutesLeft, 25);
+    assert.equal(budget.pressure, 'relaxed');
+    assert.equal(describeTimeBudget(budget, LONDON), [
+      '- First event: Standup at 9:00 (Office)',
+      '- Out of bed by: 7:55 (25 min to get ready + 40 min to get there)',
+      '- That\'s 25 minutes from now',
+    ].join('\n'));
+  });
+
+  test('gets tight, then late', () => {
+    assert.equal(computeTimeBudget([standup], { commuteMinutes: 45 }, NOW)!.pressure, 'tight');
+    const late = computeTimeBudget([standup], { prepMinutes: 60, commuteMinutes: 45 }, NOW)!;
+    assert.equal(late.pressure, 'late');
+    assert.match(describeTimeBudget(late, LONDON), /They're 15 minutes behind already/);
+  });
+
+  test('skips the commute for video calls', () => {
+    const call = { ...standup, location: 'https://zoom.us/j/123' };
+    assert.equal(computeTimeBudget([call], { commuteMinutes: 45 }, NOW)!.commuteMinutes, 0);
+  });
+
+  test('needs an event with a start time', () => {
+    assert.equal(computeTimeBudget([{ title: 'Standup', time: '9:00 AM' }], {}, NOW), null);
+    assert.equal(computeTimeBudget(undefined, {}, NOW), null);
+  });
+});
+
+describe('tracks with a deadline', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [
+          { match: 'Generate the CALL TO ACTION segment[\\s\\S]*(short on time|already late|They have time)', response: 'Up: $1.' },
+          { match: 'Generate the VISUALIZATION segment', response: 'Picture a quiet beach.' },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // The first event starts this many minutes from now
+  async function playTrack(startsInMinutes: number): Promise<string[]> {
+    const startsAt = new Date(Date.now() + startsInMinutes * 60000).toISOString();
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'visualization', 'callToAction'],
+      calendar: [{ title: 'Standup', time: 'soon', startsAt, location: 'Office' }],
+      prepMinutes: 30,
+      commuteMinutes: 20,
+    });
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+
+    const texts = [(await server.request('POST', `/api/track/session/${sessionId}/start`)).body.text];
+    for (let i = 0; i < 2; i++) {
+      texts.push((await server.request('POST', `/api/track/session/${sessionId}/next`)).body.text);
+    }
+    return texts.slice(1);
+  }
+
+  test('plays everything when there is time', async () => {
+    assert.deepEqual(await playTrack(180), ['Picture a quiet beach.', 'Up: They have time.']);
+  });
+
+  test('skips the visualization when time is short', async () => {
+    const texts = await playTrack(60);
+    assert.equal(texts[0], 'Up: short on time.');
+  });
+
+  test('gets urgent when they are late', async () => {
+    const texts = await playTrack(30);
+    assert.equal(texts[0], 'Up: already late.');
+  });
+});
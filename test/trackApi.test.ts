@@ -0,0 +1,203 @@
+/**
+ * Track API - end-to-end wake-up flows
+ *
+ * /api/track/session → /start → /next → /audio → /awake
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiErrorBody } from '../src/routes/apiError';
+import { LocalProvider, initLLMProvider } from '../src/services/llmProvider';
+import { MeteredProvider } from '../src/services/usageBudget';
+import { TrackEngineSnapshot } from '../src/services/trackEngine';
+import { startTestServer, spokenAudio, TestServer } from './helpers/testServer';
+
+// A history entry as GET /session/:id sends it (timestamps as strings)
+type HistoryEntry = TrackEngineSnapshot['state']['segmentHistory'][number];
+
+describe('track api', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [
+          // Echo the headlines so we can tell the news reached the prompt
+          { match: 'Generate the NEWS segment[\\s\\S]*- (Local \\w+ headline)', response: 'In the news: $1.' },
+          { match: 'Generate the CALENDAR segment[\\s\\S]*- (.+) at (.+)', response: 'You have $1 at $2.' },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // Play the track until callToAction, returning the segment types heard
+  async function playUntilCallToAction(sessionId: string): Promise<string[]> {
+    const played: string[] = [];
+    for (let i = 0; i < 12; i++) {
+      const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+      assert.equal(next.status, 200);
+      assert.ok(next.body.text);
+      assert.ok(next.body.audio);
+      played.push(next.body.currentSegment.type);
+      if (next.body.currentSegment.type === 'callToAction') break;
+    }
+    return played;
+  }
+
+  test('plays the default track in order, skipping empty calendar and news', async () => {
+    const created = await server.request('POST', '/api/track/session', { personaId: 'morning-coach', userName: 'Sam' });
+    assert.equal(created.status, 200);
+    assert.equal(created.body.currentSegment.type, 'greeting');
+    const { sessionId } = created.body;
+    assert.match(sessionId, /^track_[0-9a-f-]{36}$/);
+
+    const start = await server.request('POST', `/api/track/session/${sessionId}/start`);
+    assert.equal(start.status, 200);
+    assert.equal(start.body.text, 'This is the local greeting segment.');
+
+    const played = await playUntilCallToAction(sessionId);
+    assert.deepEqual(played, ['weather', 'visualization', 'fact', 'fact', 'engagement', 'callToAction']);
+
+    // Fact tags are recorded, not spoken
+    const state = await server.request('GET', `/api/track/session/${sessionId}`);
+    assert.deepEqual(state.body.state.usedFacts, ['octopus hearts', 'octopus hearts']);
+    assert.ok(state.body.state.segmentHistory.every((h: HistoryEntry) => !h.content.includes('[')));
+
+    // callToAction loops until the user is awake
+    for (let i = 0; i < 2; i++) {
+      const again = await server.request('POST', `/api/track/session/${sessionId}/next`);
+      assert.equal(again.body.currentSegment.type, 'callToAction');
+      assert.equal(again.body.isComplete, false);
+    }
+
+    const awake = await server.request('POST', `/api/track/session/${sessionId}/awake`);
+    assert.equal(awake.body.currentSegment.type, 'music');
+
+    const music = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(music.status, 200);
+    assert.equal(music.body.text, 'This is the local music segment.');
+    assert.equal(music.body.currentSegment.type, 'music');
+  });
+
+  test('includes calendar and background news when available', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      personaId: 'strict-sergeant',
+      calendar: [{ title: 'Standup', time: '9:00 AM' }],
+      newsThemes: ['technology'],
+    });
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    const texts: Record<string, string> = {};
+    for (let i = 0; i < 6; i++) {
+      const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+      texts[next.body.currentSegment.type] = next.body.text;
+    }
+
+    assert.equal(texts.news, 'In the news: Local technology headline.');
+    assert.equal(texts.calendar, 'You have Standup at 9:00 AM.');
+  });
+
+  test('follows the client segment order', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'engagement', 'callToAction', 'music'],
+    });
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    assert.deepEqual(await playUntilCallToAction(sessionId), ['engagement', 'callToAction']);
+  });
+
+  test('answers user speech in conversation mode, then resumes the track', async () => {
+    const created = await server.request('POST', '/api/track/session', {});
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    const reply = await server.request('POST', `/api/track/session/${sessionId}/audio`, {
+      audio: spokenAudio('I dreamt about the ocean'),
+    });
+    assert.equal(reply.status, 200);
+    assert.equal(reply.body.transcript, 'I dreamt about the ocean');
+    assert.ok(reply.body.text);
+    assert.equal(reply.body.conversationMode, true);
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.body.currentSegment.type, 'weather');
+
+    const state = await server.request('GET', `/api/track/session/${sessionId}`);
+    assert.equal(state.body.state.conversationMode, false);
+  });
+
+  test('ignores audio without speech', async () => {
+    const created = await server.request('POST', '/api/track/session', {});
+    const { sessionId } = created.body;
+
+    const noise = await server.request('POST', `/api/track/session/${sessionId}/audio`, {
+      audio: Buffer.from([0x00, 0x01, 0xff, 0xfe]).toString('base64'),
+    });
+    assert.deepEqual(noise.body, { transcript: null, text: null, audio: null });
+
+    const missing = await server.request('POST', `/api/track/session/${sessionId}/audio`, {});
+    assert.equal(missing.status, 400);
+  });
+
+  test('ends sessions and 404s unknown ones', async () => {
+    const created = await server.request('POST', '/api/track/session', {});
+    const { sessionId } = created.body;
+
+    const deleted = await server.request('DELETE', `/api/track/session/${sessionId}`);
+    assert.deepEqual(deleted.body, { deleted: true });
+
+    const gone = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(gone.status, 404);
+  });
+});
+
+// Transcription is down; everything else works
+class NoTranscriptionProvider extends LocalProvider {
+  async transcribe(): Promise<string> {
+    throw new Error('Transcription service unavailable');
+  }
+}
+
+describe('transcription failures', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+    initLLMProvider(new MeteredProvider(new NoTranscriptionProvider()));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('reports a 502 instead of treating the speech as silence', async () => {
+    const created = await server.request('POST', '/api/track/session', {});
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    const reply = await server.request('POST', `/api/track/session/${sessionId}/audio`, { audio: spokenAudio('Good morning') });
+    assert.equal(reply.status, 502);
+    assert.equal((reply.body.error as ApiErrorBody).code, 'transcription_failed');
+
+    // The session carries on and takes the next recording
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.status, 200);
+    const retry = await server.request('POST', `/api/track/session/${sessionId}/audio`, { audio: spokenAudio('Good morning') });
+    assert.equal(retry.status, 502);
+  });
+
+  test('reports a 502 on chained and GPT-driven sessions', async () => {
+    for (const mode of ['chained', 'gpt-driven']) {
+      const created = await server.request('POST', `/api/${mode}/session`, { personaId: 'zen-guide' });
+      const reply = await server.request('POST', `/api/${mode}/session/${created.body.sessionId}/respond`, { audio: spokenAudio('Good morning') });
+      assert.equal(reply.status, 502, mode);
+      assert.equal((reply.body.error as ApiErrorBody).code, 'transcription_failed');
+    }
+  });
+});
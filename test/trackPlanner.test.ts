@@ -0,0 +1,95 @@
+/**
+ * Track planner - dropping and sizing segments to fit a target length,
+ * and the plan returned when a track session is created
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { planTrack } from '../src/services/trackPlanner';
+import { getDefaultSegmentOrder, SegmentConfig } from '../src/services/trackEngine';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const DEFAULT_ORDER = getDefaultSegmentOrder();
+
+describe('planning', () => {
+  test('estimates the track as requested without a target', () => {
+    const plan = planTrack(DEFAULT_ORDER).plan;
+    assert.equal(plan.targetSeconds, null);
+    assert.equal(plan.estimatedSeconds, 159);
+    assert.deepEqual(plan.dropped, []);
+    assert.deepEqual(plan.segments.map(s => s.sentences), [2, 4, 5, 3, 4, 3, 3, 1, 2, 1]);
+  });
+
+  test('drops the least important segments, then sizes the rest to fit', () => {
+    const plan = planTrack(DEFAULT_ORDER, 90).plan;
+    assert.deepEqual(plan.dropped, ['visualization', 'fact']);
+    assert.deepEqual(plan.segments.map(s => [s.type, s.sentences]), [
+      ['greeting', 2],
+      ['weather', 2],
+      ['fact', 2],
+      ['news', 2],
+      ['calendar', 2],
+      ['engagement', 1],
+      ['callToAction', 2],
+      ['music', 1],
+    ]);
+    assert.equal(plan.estimatedSeconds, 88);
+  });
+
+  test('grows segments past their usual length when there is time', () => {
+    const plan = planTrack(['greeting', 'weather', 'callToAction'].map(type => ({ type, enabled: true }) as SegmentConfig), 240).plan;
+    assert.deepEqual(plan.segments.map(s => s.sentences), [2, 5, 2]);
+  });
+
+  test('always keeps the greeting, call to action and music', () => {
+    const plan = planTrack(DEFAULT_ORDER, 30).plan;
+    assert.deepEqual(plan.segments.map(s => s.type), ['greeting', 'callToAction', 'music']);
+    assert.ok(plan.estimatedSeconds <= 30);
+  });
+});
+
+describe('planned track sessions', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [{ match: 'Generate the FACT segment[\\s\\S]*Length: (\\d+) sentences', response: 'A fact in $1 sentences.' }],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('returns the plan and sizes segment prompts to it', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'visualization', 'fact', 'callToAction'],
+      targetDurationSeconds: 40,
+    });
+    assert.equal(created.status, 200);
+    assert.deepEqual(created.body.plan, {
+      targetSeconds: 40,
+      estimatedSeconds: 36,
+      segments: [
+        { type: 'greeting', sentences: 2, estimatedSeconds: 12 },
+        { type: 'fact', sentences: 2, estimatedSeconds: 12 },
+        { type: 'callToAction', sentences: 2, estimatedSeconds: 12 },
+      ],
+      dropped: ['visualization'],
+    });
+
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.body.text, 'A fact in 2 sentences.');
+  });
+
+  test('does not budget for calendar or news with no data', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'news', 'calendar', 'callToAction'],
+    });
+    assert.deepEqual(created.body.plan.segments.map((s: { type: string }) => s.type), ['greeting', 'callToAction']);
+  });
+});
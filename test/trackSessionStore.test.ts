@@ -0,0 +1,215 @@
+/**
+ * Track session store - snapshots on disk, rehydrating sessions after a
+ * restart (greeting audio and news fetch included), snapshots that can't
+ * be read, and sessions ended while a request is still working on them
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileTrackSessionStore, TrackSessionSnapshot } from '../src/services/trackSessionStore';
+import { TrackEngine } from '../src/services/trackEngine';
+import { ChatRequest, LocalProvider, initLLMProvider } from '../src/services/llmProvider';
+import { MeteredProvider } from '../src/services/usageBudget';
+import { fakeNews, startTestServer } from './helpers/testServer';
+
+// Local provider that holds the fact segment until release() is called
+class GatedProvider extends LocalProvider {
+  private opened!: () => void;
+  private gate = new Promise<void>(resolve => { this.opened = resolve; });
+
+  release() {
+    this.opened();
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+    if (lastUser.startsWith('Generate the fact segment')) await this.gate;
+    return super.chat(request);
+  }
+}
+
+const newEngine = () => new TrackEngine({
+  personaId: 'zen-guide',
+  voiceId: 'alloy',
+  userName: 'Sam',
+  segmentOrder: [{ type: 'greeting', enabled: true }, { type: 'fact', enabled: true }, { type: 'callToAction', enabled: true }],
+  newsThemes: ['technology'],
+});
+
+describe('file session store', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wub-sessions-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('round-trips config and state through the snapshot', async () => {
+    const engine = newEngine();
+    engine.advanceSegment();
+    await new FileTrackSessionStore(directory).save('round-trip', {
+      engine,
+      ownerId: 'install:abc',
+      greeting: { text: 'Good morning, Sam.', audioBuffer: Buffer.from('audio') },
+    });
+
+    const snapshots: TrackSessionSnapshot[] = [];
+    const reopened = new FileTrackSessionStore(directory, async (_data, snapshot) => {
+      snapshots.push(snapshot);
+    });
+    // Concurrent lookups share one rehydration
+    const [restored, again] = await Promise.all([reopened.get('round-trip'), reopened.get('round-trip')]);
+
+    assert.equal(restored, again);
+    assert.equal(snapshots.length, 1);
+    assert.equal(snapshots[0].greetingText, 'Good morning, Sam.');
+    assert.equal(restored!.ownerId, 'install:abc');
+    assert.equal(restored!.greeting, undefined);  // Audio is the hook's job
+    assert.deepEqual(restored!.engine.toSnapshot(), engine.toSnapshot());
+    assert.equal(restored!.engine.getCurrentSegment()?.type, 'fact');
+  });
+
+  test('keeps the structured fields of the segment history', async () => {
+    const snapshot = newEngine().toSnapshot();
+    snapshot.state.segmentHistory = [
+      { segment: 'greeting', content: 'Morning, Sam.', topic: null, estimatedDurationSeconds: 3, toneTags: ['calm'], timestamp: '2026-10-19T06:00:00.000Z' },
+      { segment: 'fact', content: 'Octopuses have three hearts.', topic: 'octopus hearts', timestamp: '2026-10-19T06:00:20.000Z' },
+    ];
+    await new FileTrackSessionStore(directory).save('history', { engine: TrackEngine.fromSnapshot(snapshot) });
+
+    const restored = await new FileTrackSessionStore(directory).get('history');
+    const [greeting, fact] = restored!.engine.getState().segmentHistory;
+    assert.deepEqual(greeting, {
+      segment: 'greeting',
+      content: 'Morning, Sam.',
+      topic: null,
+      estimatedDurationSeconds: 3,
+      toneTags: ['calm'],
+      timestamp: new Date('2026-10-19T06:00:00.000Z'),
+    });
+    assert.equal(fact.topic, 'octopus hearts');
+    assert.deepEqual(restored!.engine.toSnapshot().state.segmentHistory, snapshot.state.segmentHistory);
+  });
+
+  test('treats a corrupt snapshot as a missing session and leaves the file', async () => {
+    const file = path.join(directory, 'corrupt.json');
+    fs.writeFileSync(file, '{"version": 1, "engine": ');
+
+    const store = new FileTrackSessionStore(directory);
+    assert.equal(await store.get('corrupt'), undefined);
+    assert.ok(fs.existsSync(file));
+  });
+
+  test('refuses session ids that aren\'t safe file names', async () => {
+    const store = new FileTrackSessionStore(directory);
+    assert.equal(await store.get('../corrupt'), undefined);
+    await assert.rejects(store.save('../escape', { engine: newEngine() }), /Invalid session id/);
+    assert.equal(await store.delete('../corrupt'), false);
+  });
+
+  test('deletes the snapshot with the session', async () => {
+    const store = new FileTrackSessionStore(directory);
+    await store.save('ended', { engine: newEngine() });
+    assert.equal(await store.delete('ended'), true);
+    assert.equal(fs.existsSync(path.join(directory, 'ended.json')), false);
+    assert.equal(await new FileTrackSessionStore(directory).get('ended'), undefined);
+  });
+});
+
+describe('restarting the server', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wub-restart-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('picks a session up where it was, regenerating the greeting audio and news', async () => {
+    // The news fetch is still running when the first server goes down
+    const first = await startTestServer({
+      fixtures: { chat: [{ match: 'Generate the GREETING segment', response: 'Rise and shine, Sam.' }] },
+      track: { sessionStore: { type: 'file', directory }, fetchNews: () => new Promise(() => undefined) },
+    });
+    const created = await first.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'news', 'callToAction'],
+      newsThemes: ['technology'],
+    });
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+    await first.close();
+
+    let newsFetches = 0;
+    const second = await startTestServer({
+      fixtures: {
+        chat: [
+          { match: 'Generate the GREETING segment', response: 'A different greeting.' },
+          { match: 'Generate the NEWS segment[\\s\\S]*- (Local \\w+ headline)', response: 'In the news: $1.' },
+        ],
+      },
+      track: {
+        sessionStore: { type: 'file', directory },
+        fetchNews: (themes, count) => {
+          newsFetches++;
+          return fakeNews(themes, count);
+        },
+      },
+    });
+    try {
+      // The greeting that was never played, not a new one
+      const start = await second.request('POST', `/api/track/session/${sessionId}/start`);
+      assert.equal(start.status, 200);
+      assert.equal(start.body.text, 'Rise and shine, Sam.');
+      assert.ok(Buffer.from(start.body.audio, 'base64').length > 44);
+
+      const news = await second.request('POST', `/api/track/session/${sessionId}/next`);
+      assert.equal(news.body.currentSegment.type, 'news');
+      assert.equal(news.body.text, 'In the news: Local technology headline.');
+      assert.equal(newsFetches, 1);
+    } finally {
+      await second.close();
+    }
+  });
+});
+
+describe('ending a session mid-request', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wub-ended-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('does not write back a session deleted while /next was generating', async () => {
+    const server = await startTestServer({ track: { sessionStore: { type: 'file', directory } } });
+    const provider = new GatedProvider({ chat: [{ match: 'Generate the FACT segment', response: 'Octopuses have three hearts.' }] });
+    initLLMProvider(new MeteredProvider(provider));
+    try {
+      const created = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'fact', 'callToAction'] });
+      const { sessionId } = created.body;
+      await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+      const next = server.request('POST', `/api/track/session/${sessionId}/next`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      assert.equal((await server.request('DELETE', `/api/track/session/${sessionId}`)).body.deleted, true);
+      provider.release();
+      assert.equal((await next).body.text, 'Octopuses have three hearts.');
+
+      assert.equal(fs.existsSync(path.join(directory, `${sessionId}.json`)), false);
+      assert.equal((await server.request('GET', `/api/track/session/${sessionId}`)).status, 404);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Usage limits - per-client rate limiting and session/daily cost budgets
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { ApiErrorBody } from '../src/routes/apiError';
+import { LocalProvider } from '../src/services/llmProvider';
+import { BudgetExhaustedError, MeteredProvider, initUsageBudget, runWithUsageContext, getDailySpend } from '../src/services/usageBudget';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+// Makes any TTS call cost $1, so a single greeting uses up a small budget
+const EXPENSIVE_TTS = { ttsPerMillionChars: 1e6 };
+
+describe('rate limiting', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ rateLimit: { requestsPerMinute: 3 } });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('returns 429 with Retry-After once a client exceeds its limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await server.request('GET', '/api/track/news-themes')).status, 200);
+    }
+
+    const limited = await fetch(`${server.baseUrl}/api/track/news-themes`);
+    assert.equal(limited.status, 429);
+    const body = await limited.json() as { error: ApiErrorBody };
+    assert.equal(body.error.code, 'rate_limited');
+    const retryAfter = Number(limited.headers.get('retry-after'));
+    assert.ok(retryAfter > 0 && retryAfter <= 60);
+
+    // Public routes aren't limited
+    assert.equal((await server.request('GET', '/api/personas')).status, 200);
+  });
+});
+
+describe('session budget', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ budget: { sessionBudgetUsd: 0.5, pricing: EXPENSIVE_TTS } });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('ends the track gracefully when the session budget runs out', async () => {
+    const created = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'weather', 'music'] });
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+
+    // The greeting was paid for up front
+    assert.equal((await server.request('POST', `/api/track/session/${sessionId}/start`)).status, 200);
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.status, 402);
+    assert.equal(next.body.error.code, 'budget_exhausted');
+
+    const state = await server.request('GET', `/api/track/session/${sessionId}`);
+    assert.equal(state.body.isComplete, true);
+
+    // A new session starts with a fresh budget
+    const another = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting'] });
+    assert.equal(another.status, 200);
+  });
+
+  test('reports budget errors on chained sessions', async () => {
+    const created = await server.request('POST', '/api/chained/session', { personaId: 'zen-guide' });
+    const { sessionId } = created.body;
+
+    assert.equal((await server.request('POST', `/api/chained/session/${sessionId}/greeting`)).status, 200);
+    const silence = await server.request('POST', `/api/chained/session/${sessionId}/silence`);
+    assert.equal(silence.status, 402);
+    assert.equal(silence.body.error.code, 'budget_exhausted');
+  });
+});
+
+describe('daily budget', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ budget: { dailyBudgetUsd: 0.5, pricing: EXPENSIVE_TTS } });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('refuses new work for the rest of the day once spent', async () => {
+    assert.equal((await server.request('POST', '/api/track/session', { segmentOrder: ['greeting'] })).status, 200);
+
+    const refused = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting'] });
+    assert.equal(refused.status, 402);
+    assert.equal(refused.body.error.code, 'budget_exhausted');
+    assert.match(refused.body.error.message, /Daily/);
+  });
+});
+
+// Speech that takes a moment, so calls overlap - and fails for "fail"
+class SlowSpeechProvider extends LocalProvider {
+  async speech(text: string): Promise<Buffer> {
+    await sleep(20);
+    if (text === 'fail') throw new Error('TTS unavailable');
+    return super.speech(text);
+  }
+}
+
+describe('budget reservations', () => {
+  const provider = new MeteredProvider(new SlowSpeechProvider());
+
+  before(() => {
+    initUsageBudget({ dailyBudgetUsd: 0.5, pricing: EXPENSIVE_TTS });
+  });
+
+  test('holds the cost of calls in flight so parallel calls can\'t overspend', async () => {
+    const results = await runWithUsageContext({ principalId: 'parallel' }, () => Promise.allSettled([
+      provider.speech('Hi', 'nova'),
+      provider.speech('Hi', 'nova'),
+      provider.speech('Hi', 'nova'),
+    ]));
+
+    assert.deepEqual(results.map(r => r.status), ['fulfilled', 'rejected', 'rejected']);
+    for (const result of results.slice(1)) {
+      assert.ok(result.status === 'rejected' && result.reason instanceof BudgetExhaustedError);
+    }
+    assert.equal(getDailySpend('parallel'), 2);
+  });
+
+  test('gives back what a failed call held', async () => {
+    await runWithUsageContext({ principalId: 'failing' }, async () => {
+      await assert.rejects(provider.speech('fail', 'nova'), /TTS unavailable/);
+      assert.equal(getDailySpend('failing'), 0);
+      await provider.speech('Hi', 'nova');
+    });
+    assert.equal(getDailySpend('failing'), 2);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * User locale - defaults, time/temperature formatting, and sessions
+ * phrasing times in the user's time zone rather than the server's
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  resolveUserLocale,
+  formatTemperature,
+  formatTime,
+  formatDate,
+  serverTimeZone,
+} from '../src/services/userLocale';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+// 05:30 UTC - still the previous evening in Los Angeles
+const MORNING = new Date('2026-10-18T05:30:00Z');
+
+describe('locale formatting', () => {
+  test('fills in defaults, taking units from the locale region', () => {
+    assert.deepEqual(resolveUserLocale(), { timeZone: serverTimeZone(), locale: 'en-US', units: 'imperial', language: 'en' });
+    assert.equal(resolveUserLocale({ locale: 'en-GB' }).units, 'metric');
+    assert.equal(resolveUserLocale({ locale: 'en' }).units, 'imperial');
+    assert.equal(resolveUserLocale({ locale: 'de-DE', units: 'imperial' }).units, 'imperial');
+  });
+
+  test('formats times and dates in the user time zone and locale', () => {
+    const london = resolveUserLocale({ timeZone: 'Europe/London', locale: 'en-GB' });
+    const losAngeles = resolveUserLocale({ timeZone: 'America/Los_Angeles', locale: 'en-US' });
+
+    assert.equal(formatTime(MORNING, london), '6:30');
+    assert.equal(formatTime(MORNING, losAngeles), '10:30 PM');
+    assert.equal(formatDate(MORNING, london), 'Sunday 18 October');
+    assert.equal(formatDate(MORNING, losAngeles), 'Saturday, October 17');
+  });
+
+  test('formats temperatures with their unit', () => {
+    assert.equal(formatTemperature(13.6, 'metric'), '14°C');
+    assert.equal(formatTemperature(-0.4, 'imperial'), '0°F');
+  });
+});
+
+describe('sessions with a locale', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [
+          { match: 'Generate the GREETING segment[\\s\\S]*## Local Time\\n(.+)', response: 'Morning! It is $1.' },
+          { match: '- Units: (.+)', response: 'Temperatures in $1.' },
+        ],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('track prompts carry the local date and time', async () => {
+    const userLocale = resolveUserLocale({ timeZone: 'Asia/Tokyo', locale: 'en-GB' });
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting'],
+      timeZone: 'Asia/Tokyo',
+      locale: 'en-GB',
+    });
+    assert.equal(created.status, 200);
+
+    const start = await server.request('POST', `/api/track/session/${created.body.sessionId}/start`);
+    assert.ok(start.body.text.startsWith(`Morning! It is ${formatDate(new Date(), userLocale)}, `), start.body.text);
+    assert.match(start.body.text, /, \d{1,2}:\d\d\.$/);
+  });
+
+  test('gpt-driven prompts name the units', async () => {
+    const created = await server.request('POST', '/api/gpt-driven/session', { units: 'metric' });
+    const greeting = await server.request('POST', `/api/gpt-driven/session/${created.body.sessionId}/greeting`);
+    assert.equal(greeting.body.text, 'Temperatures in Celsius and kilometres per hour.');
+  });
+
+  test('rejects unknown time zones and malformed locales', async () => {
+    const badZone = await server.request('POST', '/api/track/session', { timeZone: 'Mars/Olympus_Mons' });
+    assert.equal(badZone.status, 400);
+    assert.equal(badZone.body.error.field, 'timeZone');
+
+    const badLocale = await server.request('POST', '/api/chained/session', { personaId: 'zen-guide', locale: 'not a locale' });
+    assert.equal(badLocale.status, 400);
+    assert.equal(badLocale.body.error.field, 'locale');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Request validation - invalid bodies get a 400 with the error envelope
+ * instead of reaching the services
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiErrorBody } from '../src/routes/apiError';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+describe('request validation', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function assertValidationError(response: { status: number; body: { error: ApiErrorBody } }, field: string) {
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error.code, 'validation_failed');
+    assert.equal(response.body.error.field, field);
+    assert.ok(response.body.error.message);
+  }
+
+  test('rejects null for optional fields that are not nullable', async () => {
+    const response = await server.request('POST', '/api/track/session', { personaId: null });
+    assertValidationError(response, 'personaId');
+    assert.match(response.body.error.message, /personaId must be a string/);
+    assertValidationError(
+      await server.request('POST', '/api/track/session', { weather: { currentTemp: 12, conditions: 'Rain', feelsLike: null, precipTiming: null } }),
+      'weather.feelsLike'
+    );
+  });
+
+  test('rejects unknown segment types and personas on track sessions', async () => {
+    assertValidationError(
+      await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'juggling'] }),
+      'segmentOrder[1]'
+    );
+    assertValidationError(
+      await server.request('POST', '/api/track/session', { personaId: 'pirate' }),
+      'personaId'
+    );
+    assertValidationError(
+      await server.request('POST', '/api/track/session', { calendar: [{ title: 'Standup' }] }),
+      'calendar[0].time'
+    );
+    assertValidationError(
+      await server.request('POST', '/api/track/session', { newsThemes: ['gossip'] }),
+      'newsThemes[0]'
+    );
+  });
+
+  test('rejects malformed audio bodies', async () => {
+    const created = await server.request('POST', '/api/track/session', { segmentOrder: ['greeting', 'music'] });
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+
+    assertValidationError(await server.request('POST', `/api/track/session/${sessionId}/audio`, {}), 'audio');
+    assertValidationError(await server.request('POST', `/api/track/session/${sessionId}/audio`, { audio: 42 }), 'audio');
+
+    const chained = await server.request('POST', '/api/chained/session', { personaId: 'zen-guide' });
+    assertValidationError(
+      await server.request('POST', `/api/chained/session/${chained.body.sessionId}/respond`, { audio: '%%%' }),
+      'audio'
+    );
+  });
+
+  test('requires a persona for chained sessions', async () => {
+    assertValidationError(await server.request('POST', '/api/chained/session', {}), 'personaId');
+    assertValidationError(
+      await server.request('POST', '/api/gpt-driven/session', { personaId: 'zen-guide', context: 'sunny' }),
+      'context'
+    );
+  });
+
+  test('requires a device token', async () => {
+    assertValidationError(await server.request('POST', '/device/status', {}), 'device_token');
+    assertValidationError(
+      await server.request('POST', '/device/update', { device_token: 'abc', increment_session: 'yes' }),
+      'increment_session'
+    );
+  });
+
+  test('reports malformed JSON and unknown sessions with the same envelope', async () => {
+    const response = await fetch(`${server.baseUrl}/api/track/session`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"personaId": ',
+    });
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), {
+      error: { code: 'invalid_json', message: 'Request body is not valid JSON' },
+    });
+
+    const missing = await server.request('POST', '/api/track/session/nope/next');
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.error.code, 'session_not_found');
+  });
+});
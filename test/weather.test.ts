@@ -0,0 +1,119 @@
+/**
+ * Weather - mapping forecasts into WeatherData, the overnight summary,
+ * and track sessions that send a location instead of weather
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalWeatherProvider, RawForecast, mapForecast } from '../src/services/weatherProvider';
+import bundledFixture from '../src/config/weather-fixture.json';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const LONDON = { latitude: 51.5, longitude: -0.12 };
+
+// The bundled forecast with overnight hours replaced
+function withNight(hours: { code: number; precipitation: number; temp: number }): RawForecast {
+  const forecast: RawForecast = JSON.parse(JSON.stringify(bundledFixture));
+  forecast.hourly.time.forEach((time, i) => {
+    if (time >= '2026-10-17T22:00' && time < '2026-10-18T06:00') {
+      forecast.hourly.weather_code[i] = hours.code;
+      forecast.hourly.precipitation[i] = hours.precipitation;
+      forecast.hourly.temperature_2m[i] = hours.temp;
+    }
+  });
+  return forecast;
+}
+
+describe('forecast mapping', () => {
+  test('maps the bundled forecast into WeatherData', async () => {
+    const weather = await new LocalWeatherProvider().getForecast({ ...LONDON, units: 'metric' });
+    assert.deepEqual(weather, {
+      currentTemp: 9,
+      feelsLike: 7,
+      conditions: 'Overcast',
+      windDirection: 'Northwest',
+      windStrength: 'Light breeze',
+      precipChance: 70,
+      precipTiming: 'Likely between 2pm and 5pm',
+      highTemp: 17,
+      eveningTemp: 14,
+      uvIndex: 3,
+      nightSummary: 'It rained overnight, dry since about 4am, with a low of 9°C.',
+    });
+  });
+
+  test('converts temperatures to imperial', async () => {
+    const weather = await new LocalWeatherProvider().getForecast({ ...LONDON, units: 'imperial' });
+    assert.equal(weather.currentTemp, 49);
+    assert.equal(weather.highTemp, 63);
+    assert.match(weather.nightSummary!, /low of 48°F/);
+  });
+
+  test('summarizes dry, snowy and stormy nights', () => {
+    assert.equal(mapForecast(withNight({ code: 0, precipitation: 0, temp: -2 }), 'metric').nightSummary, 'It was a clear night, with a low of -2°C.');
+    assert.equal(mapForecast(withNight({ code: 45, precipitation: 0, temp: 4 }), 'metric').nightSummary, 'It was a foggy night, with a low of 4°C.');
+    assert.equal(mapForecast(withNight({ code: 73, precipitation: 2, temp: -1 }), 'metric').nightSummary, 'It snowed heavily overnight, with a low of -1°C.');
+    assert.equal(mapForecast(withNight({ code: 95, precipitation: 3, temp: 15 }), 'metric').nightSummary, 'There were thunderstorms overnight, with a low of 15°C.');
+  });
+
+  test('leaves out rain timing on a dry day', () => {
+    const forecast = withNight({ code: 1, precipitation: 0, temp: 10 });
+    forecast.hourly.precipitation_probability = forecast.hourly.precipitation_probability.map(() => 10);
+    const weather = mapForecast(forecast, 'metric');
+    assert.equal(weather.precipChance, 10);
+    assert.equal(weather.precipTiming, undefined);
+  });
+});
+
+describe('track sessions with a location', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      fixtures: {
+        chat: [{
+          match: '- Now: (-?\\d+°[CF])[\\s\\S]*- Overnight: (.+)',
+          response: 'It is $1. $2',
+        }],
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('fetches weather when only a location is sent', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'weather'],
+      location: LONDON,
+      units: 'imperial',
+    });
+    assert.equal(created.status, 200);
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.body.text, 'It is 49°F. It rained overnight, dry since about 4am, with a low of 48°F.');
+  });
+
+  test('prefers weather sent by the app, in the locale\'s units', async () => {
+    const created = await server.request('POST', '/api/track/session', {
+      segmentOrder: ['greeting', 'weather'],
+      location: LONDON,
+      locale: 'en-GB',
+      weather: { currentTemp: 30, conditions: 'Sunny', nightSummary: 'A warm night.' },
+    });
+    const { sessionId } = created.body;
+    await server.request('POST', `/api/track/session/${sessionId}/start`);
+
+    const next = await server.request('POST', `/api/track/session/${sessionId}/next`);
+    assert.equal(next.body.text, 'It is 30°C. A warm night.');
+  });
+
+  test('rejects out-of-range coordinates', async () => {
+    const created = await server.request('POST', '/api/track/session', { location: { latitude: 91, longitude: 0 } });
+    assert.equal(created.status, 400);
+    assert.equal(created.body.error.field, 'location.latitude');
+  });
+});